@@ -16,10 +16,10 @@ _app_asset_generator_completions() {
 	local global_opts="--help --version --format --quiet"
 
 	# Generate command options
-	local generate_opts="--name --platforms --types --output -o --bg-type --bg-color --bg-gradient-type --bg-gradient-colors --bg-gradient-angle --bg-image --fg-type --fg-text --fg-color --fg-font --fg-font-source --fg-font-size --fg-svg --fg-svg-color --fg-image --icon-scale --splash-scale --dark-mode --dark-bg-color --preset --dry-run --no-zip"
+	local generate_opts="--name --platforms --types --output -o --bg-type --bg-color --bg-gradient-type --bg-gradient-colors --bg-gradient-angle --bg-image --fg-type --fg-text --fg-color --fg-font --fg-font-source --fg-font-size --fg-svg --fg-svg-color --fg-image --icon-scale --splash-scale --dark-mode --dark-bg-color --dark-fg-color --badge --badge-style --badge-position --badge-color --badge-text-color --tagline --preset --ios-layout --ios-splash --xcassets --android-legacy-shape --android-adaptive-format --android-icon-format --web-image-formats --png-optimization --fix-store-assets --android-res --manifest-merge --mask-preview --vector-master --dry-run --check --no-zip --tar-gz --config -c --from-history"
 
 	# Validate command options
-	local validate_opts="--preset --bg-type --bg-image --fg-type --fg-svg --fg-image --fg-font --fg-font-source --format"
+	local validate_opts="--config -c --preset --output -o --fix --bg-type --bg-color --bg-image --fg-type --fg-svg --fg-image --fg-font --fg-font-source --format"
 
 	# Known values for specific options
 	case "${prev}" in
@@ -28,11 +28,11 @@ _app_asset_generator_completions() {
 			return 0
 			;;
 		--platforms)
-			COMPREPLY=($(compgen -W "ios android web ios,android ios,web android,web ios,android,web" -- "${cur}"))
+			COMPREPLY=($(compgen -W "ios android web watchos tvos visionos macos windows linux ios,android ios,web android,web ios,android,web macos,windows,linux" -- "${cur}"))
 			return 0
 			;;
 		--types)
-			COMPREPLY=($(compgen -W "icon splash adaptive favicon icon,splash icon,adaptive icon,favicon splash,adaptive splash,favicon icon,splash,adaptive icon,splash,favicon icon,adaptive,favicon splash,adaptive,favicon icon,splash,adaptive,favicon" -- "${cur}"))
+			COMPREPLY=($(compgen -W "icon splash adaptive favicon store notification social icon,splash icon,adaptive icon,favicon splash,adaptive splash,favicon icon,splash,adaptive icon,splash,favicon icon,adaptive,favicon splash,adaptive,favicon icon,splash,adaptive,favicon" -- "${cur}"))
 			return 0
 			;;
 		--bg-type)
@@ -51,11 +51,43 @@ _app_asset_generator_completions() {
 			COMPREPLY=($(compgen -W "google system" -- "${cur}"))
 			return 0
 			;;
+		--badge-style)
+			COMPREPLY=($(compgen -W "ribbon corner banner" -- "${cur}"))
+			return 0
+			;;
+		--badge-position)
+			COMPREPLY=($(compgen -W "top-left top-right bottom-left bottom-right" -- "${cur}"))
+			return 0
+			;;
+		--ios-layout)
+			COMPREPLY=($(compgen -W "folders appiconset" -- "${cur}"))
+			return 0
+			;;
+		--ios-splash)
+			COMPREPLY=($(compgen -W "images storyboard" -- "${cur}"))
+			return 0
+			;;
+		--android-legacy-shape)
+			COMPREPLY=($(compgen -W "none square circle squircle" -- "${cur}"))
+			return 0
+			;;
+		--android-adaptive-format)
+			COMPREPLY=($(compgen -W "png vector" -- "${cur}"))
+			return 0
+			;;
+		--android-icon-format)
+			COMPREPLY=($(compgen -W "png webp" -- "${cur}"))
+			return 0
+			;;
+		--png-optimization)
+			COMPREPLY=($(compgen -W "none max palette" -- "${cur}"))
+			return 0
+			;;
 		--format)
 			COMPREPLY=($(compgen -W "text json" -- "${cur}"))
 			return 0
 			;;
-		--output|-o|--bg-image|--fg-svg|--fg-image)
+		--output|-o|--config|-c|--xcassets|--android-res|--manifest-merge|--bg-image|--fg-svg|--fg-image)
 			# File path completion
 			_filedir
 			return 0
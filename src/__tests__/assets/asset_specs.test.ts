@@ -10,25 +10,43 @@ import {
 	ANDROID_ADAPTIVE_ICONS,
 	ANDROID_ICONS,
 	ANDROID_MONOCHROME_ICONS,
+	ANDROID_NOTIFICATION_ICONS,
+	ANDROID_ROUND_ICONS,
 	ANDROID_SPLASH,
 	ANDROID_SPLASH_DARK,
+	ANDROID_SPLASH_ICONS,
 	getAllAssets,
 	getAllVariantAssets,
+	getAppIconSetFilename,
 	getAssetsByPlatform,
 	getAssetsByType,
+	getIosIconLayout,
+	getIosLaunchLogoSpecs,
+	getIosSplashMode,
+	getLinuxAppId,
+	getLinuxIconName,
+	getOutputFileName,
 	getVariantAssetsByPlatform,
 	getVariantAssetsByType,
+	getWebCompanions,
+	getWebHeadFiles,
+	getWebStartupImages,
 	IOS_ICONS,
 	IOS_ICONS_CLEAR_DARK,
 	IOS_ICONS_CLEAR_LIGHT,
 	IOS_ICONS_DARK,
 	IOS_ICONS_TINTED,
 	IOS_SPLASH,
+	LINUX_ICONS,
+	MACOS_ICONS,
 	STORE_ASSETS,
 	TVOS_ICONS,
 	VISIONOS_ICONS,
 	WATCHOS_ICONS,
 	WEB_FAVICONS,
+	WEB_SPLASH,
+	WEB_SPLASH_DARK,
+	WINDOWS_ICONS,
 } from '../../assets/asset_specs'
 
 describe('AssetSpecs', () => {
@@ -179,6 +197,39 @@ describe('AssetSpecs', () => {
 				expect(icon.name).toContain('mipmap-')
 			}
 		})
+
+		it('should have a round icon next to each launcher icon', () => {
+			// GIVEN the Android round icons specification
+			// THEN each density should have ic_launcher_round.png at the same size
+			expect(
+				ANDROID_ROUND_ICONS.map(i => [i.name.split('/')[1], i.width]),
+			).toEqual(ANDROID_ICONS.map(i => [i.name.split('/')[1], i.width]))
+			for (const icon of ANDROID_ROUND_ICONS) {
+				expect(icon.name).toMatch(/\/ic_launcher_round\.png$/)
+			}
+		})
+	})
+
+	describe('Android notification icons', () => {
+		it('should be 24dp in every drawable density', () => {
+			// GIVEN the Android notification icons specification
+			// THEN each density should be 24dp
+			expect(
+				ANDROID_NOTIFICATION_ICONS.map(i => [i.name, i.width, i.height]),
+			).toEqual([
+				['android/drawable-mdpi/ic_stat_notification.png', 24, 24],
+				['android/drawable-hdpi/ic_stat_notification.png', 36, 36],
+				['android/drawable-xhdpi/ic_stat_notification.png', 48, 48],
+				['android/drawable-xxhdpi/ic_stat_notification.png', 72, 72],
+				['android/drawable-xxxhdpi/ic_stat_notification.png', 96, 96],
+			])
+		})
+
+		it('should be the only notification assets', () => {
+			// GIVEN the notification asset type
+			// THEN it should map to the Android notification icons
+			expect(getAssetsByType('notification')).toBe(ANDROID_NOTIFICATION_ICONS)
+		})
 	})
 
 	describe('Android adaptive icons', () => {
@@ -261,6 +312,39 @@ describe('AssetSpecs', () => {
 		})
 	})
 
+	describe('Android 12+ splash screen icons', () => {
+		it('should be 288dp at every density', () => {
+			// GIVEN density multipliers for each drawable bucket
+			const multipliers: Record<string, number> = {
+				mdpi: 1,
+				hdpi: 1.5,
+				xhdpi: 2,
+				xxhdpi: 3,
+				xxxhdpi: 4,
+			}
+
+			// THEN each icon should be 288dp square in its bucket
+			expect(ANDROID_SPLASH_ICONS).toHaveLength(5)
+			for (const icon of ANDROID_SPLASH_ICONS) {
+				const density = icon.name.match(/drawable-(\w+)\//)![1]!
+				expect(icon.width).toBe(288 * multipliers[density]!)
+				expect(icon.height).toBe(icon.width)
+			}
+		})
+
+		it('should be included with Android splash assets', () => {
+			// WHEN getting Android and splash specs
+			const platformNames = getAssetsByPlatform('android').map(s => s.name)
+			const typeNames = getAssetsByType('splash').map(s => s.name)
+
+			// THEN splash icons should be in both
+			for (const icon of ANDROID_SPLASH_ICONS) {
+				expect(platformNames).toContain(icon.name)
+				expect(typeNames).toContain(icon.name)
+			}
+		})
+	})
+
 	describe('Android dark splash screens', () => {
 		it('should use drawable-night directories', () => {
 			// GIVEN the Android dark splash screens specification
@@ -326,6 +410,48 @@ describe('AssetSpecs', () => {
 			// THEN monochrome icons should exist
 			expect(hasMonochrome).toBe(true)
 		})
+
+		it('should have Windows tiles', () => {
+			// GIVEN the web favicons specification
+			const tiles = WEB_FAVICONS.filter(f => f.name.includes('mstile'))
+
+			// THEN the square and wide tiles should exist
+			expect(tiles.map(f => `${f.width}x${f.height}`)).toEqual([
+				'70x70',
+				'144x144',
+				'150x150',
+				'310x150',
+				'310x310',
+			])
+		})
+	})
+
+	describe('getWebHeadFiles', () => {
+		it('should add SVG icons for vector foregrounds only', () => {
+			// GIVEN SVG, badged SVG and image foregrounds
+			const svg = { foreground: { type: 'svg' as const, svgPath: '/a.svg' } }
+			const image = {
+				foreground: { type: 'image' as const, imagePath: '/a.png' },
+			}
+
+			// WHEN listing the head files
+			// THEN badges should only drop favicon.svg
+			expect(getWebHeadFiles(svg)).toEqual([
+				'web/head.html',
+				'web/browserconfig.xml',
+				'web/favicon.svg',
+				'web/safari-pinned-tab.svg',
+			])
+			expect(getWebHeadFiles({ ...svg, badge: { text: 'DEV' } })).toEqual([
+				'web/head.html',
+				'web/browserconfig.xml',
+				'web/safari-pinned-tab.svg',
+			])
+			expect(getWebHeadFiles(image)).toEqual([
+				'web/head.html',
+				'web/browserconfig.xml',
+			])
+		})
 	})
 
 	describe('getAssetsByPlatform', () => {
@@ -764,6 +890,71 @@ describe('AssetSpecs', () => {
 		})
 	})
 
+	describe('desktop icons', () => {
+		it('should cover macOS 16-1024px at @1x and @2x', () => {
+			// GIVEN the macOS icons specification
+			// THEN 5 point sizes should exist at both scales
+			expect(MACOS_ICONS).toHaveLength(10)
+			expect(MACOS_ICONS.map(i => i.width).sort((a, b) => a - b)).toEqual([
+				16, 32, 32, 64, 128, 256, 256, 512, 512, 1024,
+			])
+			expect(MACOS_ICONS.map(i => i.name)).toContain(
+				'macos/AppIcon.appiconset/icon_512x512@2x.png',
+			)
+		})
+
+		it('should cover Windows ICO frames from 16 to 256px', () => {
+			// GIVEN the Windows icons specification
+			// THEN the smallest and largest frames should be present
+			const sizes = WINDOWS_ICONS.map(i => i.width)
+			expect(Math.min(...sizes)).toBe(16)
+			expect(Math.max(...sizes)).toBe(256)
+		})
+
+		it('should use the hicolor layout for Linux', () => {
+			// GIVEN the Linux icons specification
+			// THEN each icon should sit in its size folder
+			for (const icon of LINUX_ICONS) {
+				expect(icon.name).toBe(
+					`linux/hicolor/${icon.width}x${icon.height}/apps/app.png`,
+				)
+			}
+		})
+
+		it('should be icon assets of their own platform', () => {
+			// WHEN getting desktop assets by platform
+			// THEN every spec should be an icon of that platform
+			for (const platform of ['macos', 'windows', 'linux'] as const) {
+				const assets = getAssetsByPlatform(platform)
+				expect(assets.length).toBeGreaterThan(0)
+				expect(assets.every(a => a.platform === platform)).toBe(true)
+				expect(assets.every(a => a.type === 'icon')).toBe(true)
+			}
+		})
+	})
+
+	describe('Linux icon naming', () => {
+		it('should derive a lowercase, hyphenated app id', () => {
+			// GIVEN app names with spaces and punctuation
+			// WHEN deriving app ids
+			// THEN they should be safe file and icon names
+			expect(getLinuxAppId('My Cool App')).toBe('my-cool-app')
+			expect(getLinuxAppId('  Foo.Bar! ')).toBe('foo-bar')
+			expect(getLinuxAppId('***')).toBe('app')
+		})
+
+		it('should rename the icon file to the app id', () => {
+			// GIVEN the 48px Linux icon
+			const spec = LINUX_ICONS.find(i => i.width === 48)!
+
+			// WHEN renaming it for an app
+			// THEN only the basename should change
+			expect(getLinuxIconName(spec, 'my-app')).toBe(
+				'linux/hicolor/48x48/apps/my-app.png',
+			)
+		})
+	})
+
 	describe('getAssetsByPlatform with new platforms', () => {
 		it('should return watchOS assets for watchos', () => {
 			// GIVEN the watchos platform filter
@@ -818,6 +1009,60 @@ describe('AssetSpecs', () => {
 		})
 	})
 
+	describe('web startup images', () => {
+		it('should cover each iOS splash device in both orientations', () => {
+			// GIVEN the iOS splash devices
+			// WHEN listing the web startup images
+			// THEN each should come in portrait and landscape with its ratio
+			expect(WEB_SPLASH).toHaveLength(IOS_SPLASH.length * 2)
+			expect(WEB_SPLASH).toContainEqual({
+				name: 'web/apple-splash-2796x1290.png',
+				width: 2796,
+				height: 1290,
+				platform: 'web',
+				type: 'splash',
+				scale: 3,
+			})
+			expect(WEB_SPLASH_DARK.every(spec => spec.colorMode === 'dark')).toBe(
+				true,
+			)
+			expect(getVariantAssetsByPlatform('web')).toEqual(
+				expect.arrayContaining(WEB_SPLASH_DARK),
+			)
+		})
+
+		it('should be linked only for web splash screens', () => {
+			// GIVEN web and iOS splash configs
+			// WHEN getting the startup images
+			// THEN only the web config should link them
+			expect(
+				getWebStartupImages({ platforms: ['web'], assetTypes: ['splash'] }),
+			).toHaveLength(52)
+			expect(
+				getWebStartupImages({ platforms: ['ios'], assetTypes: ['splash'] }),
+			).toEqual([])
+		})
+	})
+
+	describe('social share images', () => {
+		it('should be web assets at the share image sizes', () => {
+			// GIVEN the social type filter
+			// WHEN getting assets by type
+			const assets = getAssetsByType('social')
+
+			// THEN Open Graph, Twitter/X and square images should be included
+			expect(assets.map(a => [a.name, a.width, a.height])).toEqual([
+				['web/og-image.png', 1200, 630],
+				['web/twitter-card.png', 1200, 600],
+				['web/social-square.png', 1080, 1080],
+			])
+			expect(assets.every(a => getAssetsByPlatform('web').includes(a))).toBe(
+				true,
+			)
+			expect(getVariantAssetsByType('social')).toEqual([])
+		})
+	})
+
 	describe('getVariantAssetsByPlatform with new platforms', () => {
 		it('should return empty array for watchos (no variants)', () => {
 			// GIVEN the watchos platform filter
@@ -891,4 +1136,110 @@ describe('AssetSpecs', () => {
 			expect(all.some(a => a.platform === 'visionos')).toBe(true)
 		})
 	})
+
+	describe('iOS icon layout', () => {
+		it('should default to the folders layout', () => {
+			// GIVEN no layout settings
+			// WHEN resolving the layout
+			// THEN folders should be used
+			expect(getIosIconLayout({})).toBe('folders')
+		})
+
+		it('should use the icon set layout when installing into a catalog', () => {
+			// GIVEN an asset catalog target
+			// WHEN resolving the layout
+			const layout = getIosIconLayout({
+				iosIconLayout: 'folders',
+				xcassetsPath: '/project/ios/App/Images.xcassets',
+			})
+
+			// THEN the self-contained icon set should be used
+			expect(layout).toBe('appiconset')
+		})
+
+		it('should keep variant subfolders in the folders layout', () => {
+			// GIVEN a dark icon spec
+			const spec = IOS_ICONS_DARK[0]!
+
+			// WHEN getting its icon set filename
+			// THEN the subfolder should be preserved
+			expect(getAppIconSetFilename(spec, 'folders')).toBe('dark/icon-60@2x.png')
+		})
+
+		it('should flatten variant names in the icon set layout', () => {
+			// GIVEN light, dark and clear icon specs
+			// WHEN getting their icon set filenames
+			// THEN the variant should move into the filename
+			expect(getAppIconSetFilename(IOS_ICONS[0]!, 'appiconset')).toBe(
+				'icon-20.png',
+			)
+			expect(getAppIconSetFilename(IOS_ICONS_DARK[0]!, 'appiconset')).toBe(
+				'icon-dark-60@2x.png',
+			)
+			expect(
+				getAppIconSetFilename(IOS_ICONS_CLEAR_LIGHT[0]!, 'appiconset'),
+			).toBe('icon-clear-light-60@2x.png')
+		})
+	})
+
+	describe('iOS launch screen', () => {
+		it('should default to fixed-size launch images', () => {
+			// GIVEN no splash mode
+			// WHEN resolving the mode
+			// THEN images should be used
+			expect(getIosSplashMode({})).toBe('images')
+		})
+
+		it('should size the launch logo from splashScale', () => {
+			// GIVEN the default 25% splash scale
+			// WHEN getting the LaunchLogo specs
+			const specs = getIosLaunchLogoSpecs(0.25)
+
+			// THEN @1x/@2x/@3x should match the logo on a 1179px-wide splash
+			expect(specs.map(s => s.name)).toEqual([
+				'ios/LaunchLogo.imageset/LaunchLogo.png',
+				'ios/LaunchLogo.imageset/LaunchLogo@2x.png',
+				'ios/LaunchLogo.imageset/LaunchLogo@3x.png',
+			])
+			expect(specs.map(s => s.width)).toEqual([98, 196, 294])
+			for (const spec of specs) {
+				expect(spec.height).toBe(spec.width)
+				expect(spec.type).toBe('splash')
+			}
+		})
+	})
+
+	describe('output formats', () => {
+		it('should rename only Android mipmaps to WebP', () => {
+			// GIVEN the WebP mipmap format
+			const config = { androidIconFormat: 'webp' as const }
+
+			// WHEN getting output names
+			// THEN mipmaps should be .webp and drawables should stay PNG
+			expect(
+				getOutputFileName(config, 'android/mipmap-hdpi/ic_launcher.png'),
+			).toBe('android/mipmap-hdpi/ic_launcher.webp')
+			expect(
+				getOutputFileName(config, 'android/drawable-hdpi/splash.png'),
+			).toBe('android/drawable-hdpi/splash.png')
+			expect(getOutputFileName({}, 'android/mipmap-hdpi/ic_launcher.png')).toBe(
+				'android/mipmap-hdpi/ic_launcher.png',
+			)
+		})
+
+		it('should add companions to web icons but not apple-touch icons', () => {
+			// GIVEN AVIF and WebP companions
+			const config = { webImageFormats: ['avif' as const, 'webp' as const] }
+
+			// WHEN getting companions
+			// THEN icons should get one per format, in config order
+			expect(getWebCompanions(config, 'web/icon-192x192.png')).toEqual([
+				{ format: 'avif', name: 'web/icon-192x192.avif' },
+				{ format: 'webp', name: 'web/icon-192x192.webp' },
+			])
+			expect(
+				getWebCompanions(config, 'web/apple-touch-icon-180x180.png'),
+			).toEqual([])
+		})
+	})
 })
@@ -0,0 +1,140 @@
+/**
+ * Tests for the CLI.
+ *
+ * Runs the generate command end to end in a temp directory, which is both
+ * the working directory (for config file discovery) and the home directory
+ * (so history and version check caches stay out of ~/.appicons).
+ */
+
+import { execFile } from 'node:child_process'
+import * as fs from 'node:fs/promises'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { promisify } from 'node:util'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+const execFileAsync = promisify(execFile)
+
+const CLI_PATH = path.join(__dirname, '..', 'cli.ts')
+const SVG_PATH = path.join(__dirname, 'fixtures', 'sample.svg')
+
+// ─── Test Helpers ────────────────────────────────────────────────────────────
+
+let tempDir: string
+
+/**
+ * Runs `appicons generate` in tempDir.
+ *
+ * @returns stdout of the command
+ */
+async function runGenerate(args: string[]): Promise<string> {
+	const { stdout } = await execFileAsync(
+		'bun',
+		['run', CLI_PATH, 'generate', ...args],
+		{ cwd: tempDir, env: { ...process.env, HOME: tempDir } },
+	)
+	return stdout
+}
+
+/**
+ * Runs `appicons generate` with an SVG foreground into tempDir/out.
+ *
+ * @returns stdout of the command
+ */
+function generate(args: string[]): Promise<string> {
+	return runGenerate([
+		'--fg-type',
+		'svg',
+		'--fg-svg',
+		SVG_PATH,
+		'--output',
+		path.join(tempDir, 'out'),
+		'--no-zip',
+		...args,
+	])
+}
+
+// ─── Tests ───────────────────────────────────────────────────────────────────
+
+describe('CLI', () => {
+	beforeEach(async () => {
+		tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'appicons-cli-'))
+	})
+
+	afterEach(async () => {
+		await fs.rm(tempDir, { recursive: true, force: true })
+	})
+
+	describe('generate', () => {
+		it('should apply --fg-svg-color to an SVG from the config file', async () => {
+			// GIVEN a config file with an SVG foreground
+			await fs.writeFile(
+				path.join(tempDir, 'appicons.config.json'),
+				JSON.stringify({ foreground: { type: 'svg', svgPath: SVG_PATH } }),
+			)
+
+			// WHEN overriding only its color
+			const stdout = await runGenerate([
+				'--fg-svg-color',
+				'#00FF00',
+				'--dry-run',
+				'--format',
+				'json',
+			])
+
+			// THEN the output should be JSON with the merged foreground
+			const { config } = JSON.parse(stdout)
+			expect(config.foreground).toEqual({
+				type: 'svg',
+				svgPath: SVG_PATH,
+				color: '#00FF00',
+			})
+		}, 60000)
+
+		it('should print the instructions written to README.md', async () => {
+			// GIVEN an iOS icon set layout
+			// WHEN generating
+			const stdout = await generate([
+				'--platforms',
+				'ios',
+				'--types',
+				'icon',
+				'--ios-layout',
+				'appiconset',
+			])
+
+			// THEN stdout and README.md should reference the icon set
+			const readme = await fs.readFile(
+				path.join(tempDir, 'out', 'README.md'),
+				'utf-8',
+			)
+			expect(stdout).toContain(
+				`$ cp ${path.join(tempDir, 'out')}/ios/AppIcon.appiconset/icon-1024.png`,
+			)
+			expect(readme).toContain('/ios/AppIcon.appiconset/icon-1024.png')
+			expect(stdout).not.toContain('/ios/icon-1024.png')
+		}, 60000)
+
+		it('should return the config-aware instructions as JSON', async () => {
+			// GIVEN vector adaptive icons
+			// WHEN generating with JSON output
+			const stdout = await generate([
+				'--platforms',
+				'android',
+				'--types',
+				'adaptive',
+				'--android-adaptive-format',
+				'vector',
+				'--format',
+				'json',
+			])
+
+			// THEN the layers should be referenced as drawables
+			const { instructions } = JSON.parse(stdout)
+			const expoConfig: string = instructions.expoConfig
+			expect(expoConfig).toContain('@drawable/ic_launcher_foreground')
+			expect(expoConfig).toContain('@drawable/ic_launcher_monochrome')
+			expect(expoConfig).not.toContain('@mipmap/ic_launcher_foreground')
+		}, 60000)
+	})
+})
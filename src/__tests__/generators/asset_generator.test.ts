@@ -5,6 +5,7 @@
  */
 
 import * as fs from 'node:fs/promises'
+import { join } from 'node:path'
 import { beforeEach, describe, expect, it, vi } from 'vitest'
 
 import type { AssetGeneratorConfig } from '../../types'
@@ -23,10 +24,43 @@ vi.mock('node:fs/promises', async () => {
 // Mock background and foreground generators
 vi.mock('../../generators/background_generator', () => ({
 	generateBackground: vi.fn().mockResolvedValue(Buffer.from('bg-data')),
+	createLinearGradientSVG: vi.fn().mockReturnValue('<svg id="linear"/>'),
+	createRadialGradientSVG: vi.fn().mockReturnValue('<svg id="radial"/>'),
+	getLinearGradientCoordinates: vi
+		.fn()
+		.mockReturnValue({ x1: 50, y1: 0, x2: 50, y2: 100 }),
 }))
 
 vi.mock('../../generators/foreground_generator', () => ({
 	generateForeground: vi.fn().mockResolvedValue(Buffer.from('fg-data')),
+	createTextForegroundPath: vi.fn().mockResolvedValue({
+		pathData: 'M0 0H10V10H0Z',
+		offsetX: 5,
+		offsetY: 15,
+	}),
+	createTextPathSVG: vi
+		.fn()
+		.mockReturnValue(
+			'<svg width="10" height="10" xmlns="http://www.w3.org/2000/svg"><path d="M0 0H10V10H0Z"/></svg>',
+		),
+	loadFont: vi.fn().mockResolvedValue(Buffer.from('font-data')),
+}))
+
+// Mock mask preview rendering; sheet layout is covered by mask_preview tests
+vi.mock('../../generators/mask_preview_generator', () => ({
+	generateMaskPreviewSheet: vi
+		.fn()
+		.mockResolvedValue(Buffer.from('sheet-data')),
+}))
+
+// Mock badge compositing; badge layout is covered by badge tests
+vi.mock('../../generators/badge_generator', () => ({
+	applyBadge: vi.fn((buffer: Buffer) => Promise.resolve(buffer)),
+}))
+
+// Mock social image rendering; layout is covered by social tests
+vi.mock('../../generators/social_generator', () => ({
+	generateSocialImage: vi.fn().mockResolvedValue(Buffer.from('social-data')),
 }))
 
 // Mock instructions
@@ -37,6 +71,7 @@ vi.mock('../../utils/instructions', () => ({
 		notes: [],
 	}),
 	formatInstructionsText: vi.fn().mockReturnValue('# Instructions'),
+	formatVariantsText: vi.fn().mockReturnValue('# Variants'),
 }))
 
 // Mock sharp-ico for favicon.ico generation
@@ -49,6 +84,55 @@ vi.mock('../../utils/history', () => ({
 	saveToHistory: vi.fn().mockResolvedValue({ id: 'test-id' }),
 }))
 
+// Mock archive writing; the output directory only exists in memory here
+vi.mock('../../utils/archive', () => ({
+	getArchivePath: vi.fn(
+		(dir: string, format: string) => `${dir}/appicons.${format}`,
+	),
+	isArchivePath: vi.fn((path: string) => path.startsWith('appicons.')),
+	writeArchive: vi.fn((dir: string, format: string) =>
+		Promise.resolve(`${dir}/appicons.${format}`),
+	),
+}))
+
+// Mock asset catalog installation; no Xcode project exists in tests
+vi.mock('../../utils/xcassets', () => ({
+	APP_ICON_SET_NAME: 'AppIcon.appiconset',
+	resolveXcassetsPath: vi.fn((path: string) => Promise.resolve(path)),
+	installAppIconSet: vi.fn((_dir: string, xcassets: string) =>
+		Promise.resolve([`${xcassets}/AppIcon.appiconset/Contents.json`]),
+	),
+}))
+
+// Mock the store compliance pass; the written files only exist in memory
+vi.mock('../../utils/store_compliance', async () => {
+	const actual = await vi.importActual('../../utils/store_compliance')
+	return {
+		...actual,
+		validateStoreAssets: vi.fn((outputDir: string) =>
+			Promise.resolve({
+				outputDir,
+				checkedFiles: 0,
+				issues: [],
+				fixedFiles: [],
+			}),
+		),
+	}
+})
+
+// Mock Android res/ installation; no Android project exists in tests
+vi.mock('../../utils/android_res', () => ({
+	resolveAndroidResPath: vi.fn((path: string) => Promise.resolve(path)),
+	installAndroidRes: vi.fn((_dir: string, res: string) =>
+		Promise.resolve([`${res}/values/colors.xml`]),
+	),
+}))
+
+// Mock drift comparison; checkAssets tests only cover what gets rendered
+vi.mock('../../utils/drift', () => ({
+	compareOutputFiles: vi.fn().mockResolvedValue([]),
+}))
+
 describe('AssetGenerator', () => {
 	let mockConfig: AssetGeneratorConfig
 
@@ -151,6 +235,74 @@ describe('AssetGenerator', () => {
 			expect(result.instructionsPath).toBe('/output/README.md')
 		})
 
+		it('should write a zip archive by default', async () => {
+			// GIVEN a config without archive settings
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+			const { writeArchive } = await import('../../utils/archive')
+			const { generateInstructions } = await import('../../utils/instructions')
+
+			// WHEN generating assets
+			const result = await generateAssets(mockConfig)
+
+			// THEN only the zip should be written and referenced in the README
+			expect(writeArchive).toHaveBeenCalledTimes(1)
+			expect(writeArchive).toHaveBeenCalledWith('/output', 'zip')
+			expect(result.zipPath).toBe('/output/appicons.zip')
+			expect(result.tarPath).toBeUndefined()
+			expect(generateInstructions).toHaveBeenCalledWith(
+				expect.objectContaining({ zipPath: '/output/appicons.zip' }),
+			)
+		})
+
+		it('should write the requested archive formats', async () => {
+			// GIVEN a config requesting only a tarball
+			mockConfig.archive = ['tar.gz']
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+
+			// WHEN generating assets
+			const result = await generateAssets(mockConfig)
+
+			// THEN the tarball path should be reported without a zip
+			expect(result.zipPath).toBeUndefined()
+			expect(result.tarPath).toBe('/output/appicons.tar.gz')
+		})
+
+		it('should skip archiving when no formats are requested', async () => {
+			// GIVEN archiving disabled (--no-zip)
+			mockConfig.archive = []
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+			const { writeArchive } = await import('../../utils/archive')
+
+			// WHEN generating assets
+			const result = await generateAssets(mockConfig)
+
+			// THEN no archive should be written
+			expect(writeArchive).not.toHaveBeenCalled()
+			expect(result.zipPath).toBeUndefined()
+		})
+
+		it('should report archive failures as errors', async () => {
+			// GIVEN an archive writer that fails
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+			const { writeArchive } = await import('../../utils/archive')
+			;(writeArchive as any).mockRejectedValueOnce(new Error('disk full'))
+
+			// WHEN generating assets
+			const result = await generateAssets(mockConfig)
+
+			// THEN the failure should be collected
+			expect(result.success).toBe(false)
+			expect(result.errors).toContain('Failed to write zip archive: disk full')
+		})
+
 		it('should collect errors for failed assets without stopping', async () => {
 			// GIVEN a generator that fails on the second call
 			const { generateBackground } = await import(
@@ -426,12 +578,10 @@ describe('AssetGenerator', () => {
 		})
 	})
 
-	describe('web manifest generation', () => {
-		it('should generate web manifest for web platform with favicon', async () => {
-			// GIVEN config with web platform and favicon type
-			mockConfig.platforms = ['web']
-			mockConfig.assetTypes = ['favicon']
-
+	describe('dark mode overrides', () => {
+		it('should auto-darken the background when no override is set', async () => {
+			// GIVEN iOS icons with a solid background and no dark overrides
+			const sharp = (await import('sharp')).default as any
 			const { generateAssets } = await import(
 				'../../generators/asset_generator'
 			)
@@ -439,18 +589,33 @@ describe('AssetGenerator', () => {
 			// WHEN generating assets
 			await generateAssets(mockConfig)
 
-			// THEN web manifest should be written
-			expect(fs.writeFile).toHaveBeenCalledWith(
-				expect.stringContaining('site.webmanifest'),
-				expect.any(String),
+			// THEN dark icons should use #FF5500 darkened by 70%
+			expect(sharp).toHaveBeenCalledWith(
+				expect.objectContaining({
+					create: expect.objectContaining({
+						background: { r: 77, g: 26, b: 0 },
+					}),
+				}),
 			)
 		})
 
-		it('should include app name in manifest', async () => {
-			// GIVEN config with app name TestApp
-			mockConfig.platforms = ['web']
-			mockConfig.assetTypes = ['favicon']
-
+		it('should use the dark background and foreground colors', async () => {
+			// GIVEN explicit dark colors
+			mockConfig.background.dark = { color: '#0B0B0F' }
+			mockConfig.foreground = {
+				type: 'text',
+				text: 'T',
+				fontFamily: 'Roboto',
+				fontSource: 'google',
+				color: '#1A1A1A',
+				dark: { color: '#F5F5F5' },
+			}
+			const { generateBackground } = await import(
+				'../../generators/background_generator'
+			)
+			const { generateForeground } = await import(
+				'../../generators/foreground_generator'
+			)
 			const { generateAssets } = await import(
 				'../../generators/asset_generator'
 			)
@@ -458,27 +623,29 @@ describe('AssetGenerator', () => {
 			// WHEN generating assets
 			await generateAssets(mockConfig)
 
-			// THEN manifest should include app name
-			const writeFileCalls = (fs.writeFile as any).mock.calls
-			const manifestCall = writeFileCalls.find((call: any[]) =>
-				call[0].includes('site.webmanifest'),
+			// THEN the 1024px dark icon should use both overrides
+			expect(generateBackground).toHaveBeenCalledWith(
+				{ type: 'color', color: { type: 'solid', color: '#0B0B0F' } },
+				1024,
+				1024,
+			)
+			expect(generateForeground).toHaveBeenCalledWith(
+				expect.objectContaining({ color: '#F5F5F5' }),
+				Math.floor(1024 * 0.7),
+				Math.floor(1024 * 0.7),
 			)
-
-			expect(manifestCall).toBeDefined()
-			const manifestContent = JSON.parse(manifestCall[1])
-			expect(manifestContent.name).toBe('TestApp')
-			expect(manifestContent.short_name).toBe('TestApp')
 		})
 
-		it('should include theme color from background config', async () => {
-			// GIVEN config with specific background color
-			mockConfig.platforms = ['web']
-			mockConfig.assetTypes = ['favicon']
+		it('should keep the light gradient type and angle for dark stops', async () => {
+			// GIVEN a radial gradient with dark stops
 			mockConfig.background = {
-				type: 'color',
-				color: { type: 'solid', color: '#123456' },
+				type: 'gradient',
+				gradient: { type: 'radial', colors: ['#667EEA', '#764BA2'] },
+				dark: { gradientColors: ['#1E1B4B', '#312E81'] },
 			}
-
+			const { generateBackground } = await import(
+				'../../generators/background_generator'
+			)
 			const { generateAssets } = await import(
 				'../../generators/asset_generator'
 			)
@@ -486,24 +653,27 @@ describe('AssetGenerator', () => {
 			// WHEN generating assets
 			await generateAssets(mockConfig)
 
-			// THEN manifest should include theme and background colors
-			const writeFileCalls = (fs.writeFile as any).mock.calls
-			const manifestCall = writeFileCalls.find((call: any[]) =>
-				call[0].includes('site.webmanifest'),
+			// THEN dark icons should render the dark stops radially
+			expect(generateBackground).toHaveBeenCalledWith(
+				{
+					type: 'gradient',
+					gradient: { type: 'radial', colors: ['#1E1B4B', '#312E81'] },
+				},
+				1024,
+				1024,
 			)
-
-			const manifestContent = JSON.parse(manifestCall[1])
-			expect(manifestContent.theme_color).toBe('#123456')
-			expect(manifestContent.background_color).toBe('#123456')
 		})
-	})
-
-	describe('directory structure', () => {
-		it('should create directories for assets', async () => {
-			// GIVEN config with iOS platform and icon type
-			mockConfig.platforms = ['ios']
-			mockConfig.assetTypes = ['icon']
 
+		it('should use the dark image for image backgrounds', async () => {
+			// GIVEN an image background with a dark image
+			mockConfig.background = {
+				type: 'image',
+				imagePath: '/bg.png',
+				dark: { imagePath: '/bg-dark.png' },
+			}
+			const { generateBackground } = await import(
+				'../../generators/background_generator'
+			)
 			const { generateAssets } = await import(
 				'../../generators/asset_generator'
 			)
@@ -511,43 +681,40 @@ describe('AssetGenerator', () => {
 			// WHEN generating assets
 			await generateAssets(mockConfig)
 
-			// THEN directories should be created with recursive option
-			expect(fs.mkdir).toHaveBeenCalled()
-			const mkdirCalls = (fs.mkdir as any).mock.calls
-			for (const call of mkdirCalls) {
-				expect(call[1]).toEqual({ recursive: true })
-			}
+			// THEN dark icons should render the dark image
+			expect(generateBackground).toHaveBeenCalledWith(
+				{ type: 'image', imagePath: '/bg-dark.png' },
+				1024,
+				1024,
+			)
 		})
 
-		it('should write files with correct paths', async () => {
-			// GIVEN config with output directory
-			mockConfig.platforms = ['ios']
-			mockConfig.assetTypes = ['icon']
-
+		it('should use the dark color for night splash themes', async () => {
+			// GIVEN Android splash screens with a dark background color
+			mockConfig.platforms = ['android']
+			mockConfig.assetTypes = ['splash']
+			mockConfig.background.dark = { color: '#0b0b0f' }
 			const { generateAssets } = await import(
 				'../../generators/asset_generator'
 			)
 
 			// WHEN generating assets
-			const result = await generateAssets(mockConfig)
-
-			// THEN all asset paths should start with output directory
-			for (const asset of result.assets) {
-				expect(asset.path).toMatch(/^\/output\//)
-			}
-		})
-	})
+			await generateAssets(mockConfig)
 
-	describe('scale warnings and limits', () => {
-		it('should cap Android adaptive icon scale at 0.66', async () => {
-			// GIVEN config with scale higher than safe zone limit
-			const { generateForeground } = await import(
-				'../../generators/foreground_generator'
+			// THEN the night theme should use it instead of the darkened color
+			const night = (fs.writeFile as any).mock.calls.find((call: any[]) =>
+				call[0].includes('values-night-v31/themes.xml'),
 			)
-			mockConfig.platforms = ['android']
-			mockConfig.assetTypes = ['adaptive']
-			mockConfig.iconScale = 0.9
+			expect(night[1]).toContain(
+				'<item name="windowSplashScreenBackground">#0B0B0F</item>',
+			)
+		})
 
+		it('should add the dark color scheme to the web manifest', async () => {
+			// GIVEN web favicons with a dark background color
+			mockConfig.platforms = ['web']
+			mockConfig.assetTypes = ['favicon']
+			mockConfig.background.dark = { color: '#0B0B0F' }
 			const { generateAssets } = await import(
 				'../../generators/asset_generator'
 			)
@@ -555,29 +722,31 @@ describe('AssetGenerator', () => {
 			// WHEN generating assets
 			await generateAssets(mockConfig)
 
-			// THEN foreground size should be capped at 0.66 of canvas
-			const calls = (generateForeground as any).mock.calls
-			for (const call of calls) {
-				const [, width, _height] = call
-				// For 432px adaptive icon, max safe size is 432 * 0.66 ≈ 285
-				if (width > 300) {
-					expect(width).toBeLessThanOrEqual(432 * 0.66 + 1)
-				}
-			}
+			// THEN the manifest should carry the dark colors
+			const manifestCall = (fs.writeFile as any).mock.calls.find(
+				(call: any[]) => call[0].includes('site.webmanifest'),
+			)
+			expect(JSON.parse(manifestCall[1]).user_preferences).toEqual({
+				color_scheme_dark: {
+					theme_color: '#0B0B0F',
+					background_color: '#0B0B0F',
+				},
+			})
 		})
 	})
 
-	describe('favicon scale', () => {
-		it('should use default favicon scale of 0.85', async () => {
-			// GIVEN config with web platform and favicon type, no custom scale
+	describe('config overrides', () => {
+		it('should resolve the foreground and scale per asset', async () => {
+			// GIVEN a favicon glob override with a simplified SVG
+			mockConfig.platforms = ['web']
+			mockConfig.assetTypes = ['favicon']
+			const simplified = { type: 'svg', svgPath: '/simple.svg' } as const
+			mockConfig.overrides = {
+				'web/favicon-*.png': { foreground: simplified, scale: 1 },
+			}
 			const { generateForeground } = await import(
 				'../../generators/foreground_generator'
 			)
-			mockConfig.platforms = ['web']
-			mockConfig.assetTypes = ['favicon']
-			// Ensure faviconScale is undefined to test default
-			delete (mockConfig as any).faviconScale
-
 			const { generateAssets } = await import(
 				'../../generators/asset_generator'
 			)
@@ -585,24 +754,28 @@ describe('AssetGenerator', () => {
 			// WHEN generating assets
 			await generateAssets(mockConfig)
 
-			// THEN foreground should be generated at 85% of icon size
-			// For 32px favicon, foreground should be 32 * 0.85 = 27px
+			// THEN only the matching favicons should use the override
 			const calls = (generateForeground as any).mock.calls
-			const favicon32Call = calls.find(
-				(call: any[]) => call[1] === Math.floor(32 * 0.85),
-			)
-			expect(favicon32Call).toBeDefined()
+			expect(calls).toContainEqual([simplified, 32, 32])
+			expect(calls).toContainEqual([
+				mockConfig.foreground,
+				Math.floor(192 * 0.85),
+				Math.floor(192 * 0.85),
+			])
 		})
 
-		it('should use custom favicon scale when provided', async () => {
-			// GIVEN config with custom favicon scale of 0.6
-			const { generateForeground } = await import(
-				'../../generators/foreground_generator'
-			)
-			mockConfig.platforms = ['web']
-			mockConfig.assetTypes = ['favicon']
-			mockConfig.faviconScale = 0.6
-
+		it('should apply background overrides to splash themes', async () => {
+			// GIVEN an Android splash with a splash background override
+			mockConfig.platforms = ['android']
+			mockConfig.assetTypes = ['splash']
+			mockConfig.overrides = {
+				splash: {
+					background: {
+						type: 'color',
+						color: { type: 'solid', color: '#112233' },
+					},
+				},
+			}
 			const { generateAssets } = await import(
 				'../../generators/asset_generator'
 			)
@@ -610,24 +783,41 @@ describe('AssetGenerator', () => {
 			// WHEN generating assets
 			await generateAssets(mockConfig)
 
-			// THEN foreground should be generated at 60% of icon size
-			// For 32px favicon, foreground should be 32 * 0.6 = 19px
-			const calls = (generateForeground as any).mock.calls
-			const favicon32Call = calls.find(
-				(call: any[]) => call[1] === Math.floor(32 * 0.6),
+			// THEN the light theme should use the override color
+			const light = (fs.writeFile as any).mock.calls.find((call: any[]) =>
+				call[0].includes('values-v31/themes.xml'),
+			)
+			expect(light[1]).toContain(
+				'<item name="windowSplashScreenBackground">#112233</item>',
 			)
-			expect(favicon32Call).toBeDefined()
 		})
 
-		it('should use favicon scale for favicon.ico generation', async () => {
-			// GIVEN config with web platform, favicon type, and custom scale
-			const { generateForeground } = await import(
-				'../../generators/foreground_generator'
+		it('should size the LaunchLogo from the storyboard override', async () => {
+			// GIVEN a storyboard splash with an iOS splash scale override
+			mockConfig.assetTypes = ['splash']
+			mockConfig.iosSplashMode = 'storyboard'
+			mockConfig.overrides = { splash: { scale: 0.5 } }
+			const { getIosLaunchLogoPoints } = await import(
+				'../../assets/asset_specs'
 			)
-			mockConfig.platforms = ['web']
-			mockConfig.assetTypes = ['favicon']
-			mockConfig.faviconScale = 0.7
+			const { determineAssetSpecs } = await import(
+				'../../generators/asset_generator'
+			)
+
+			// WHEN resolving specs
+			const specs = determineAssetSpecs(mockConfig)
+
+			// THEN the logo should be sized from the override scale
+			expect(specs[0]!.width).toBe(getIosLaunchLogoPoints(0.5))
+		})
+	})
 
+	describe('badge overlays', () => {
+		it('should badge icons but not store assets', async () => {
+			// GIVEN a dev badge on iOS icons and store assets
+			mockConfig.assetTypes = ['icon', 'store']
+			mockConfig.badge = { text: 'DEV' }
+			const { applyBadge } = await import('../../generators/badge_generator')
 			const { generateAssets } = await import(
 				'../../generators/asset_generator'
 			)
@@ -635,25 +825,43 @@ describe('AssetGenerator', () => {
 			// WHEN generating assets
 			await generateAssets(mockConfig)
 
-			// THEN favicon.ico sizes (16, 32, 48) should use favicon scale
-			// 16 * 0.7 = 11, 32 * 0.7 = 22, 48 * 0.7 = 33
-			const calls = (generateForeground as any).mock.calls
-			const sizes = calls.map((call: any[]) => call[1])
-			expect(sizes).toContain(Math.floor(16 * 0.7))
-			expect(sizes).toContain(Math.floor(32 * 0.7))
-			expect(sizes).toContain(Math.floor(48 * 0.7))
+			// THEN every icon should be badged and no store asset
+			const badged = (applyBadge as any).mock.calls.map(
+				(call: any[]) => call[1],
+			)
+			expect(badged.length).toBeGreaterThan(0)
+			expect(badged.every((spec: any) => spec.type === 'icon')).toBe(true)
+			expect((applyBadge as any).mock.calls[0][2]).toBe(mockConfig.badge)
 		})
 
-		it('should not affect icon scale when favicon scale is set', async () => {
-			// GIVEN config with both icon and favicon types and different scales
-			const { generateForeground } = await import(
-				'../../generators/foreground_generator'
+		it('should badge only the adaptive foreground layer', async () => {
+			// GIVEN a badge on Android adaptive icons
+			mockConfig.platforms = ['android']
+			mockConfig.assetTypes = ['adaptive']
+			mockConfig.badge = { text: 'QA', style: 'banner' }
+			const { applyBadge } = await import('../../generators/badge_generator')
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
 			)
-			mockConfig.platforms = ['ios', 'web']
-			mockConfig.assetTypes = ['icon', 'favicon']
-			mockConfig.iconScale = 0.7
-			mockConfig.faviconScale = 0.9
 
+			// WHEN generating assets
+			await generateAssets(mockConfig)
+
+			// THEN background and monochrome layers should stay clean
+			const names = (applyBadge as any).mock.calls.map(
+				(call: any[]) => call[1].name,
+			)
+			expect(names.length).toBeGreaterThan(0)
+			expect(
+				names.every((name: string) =>
+					name.endsWith('ic_launcher_foreground.png'),
+				),
+			).toBe(true)
+		})
+
+		it('should not badge anything without a badge config', async () => {
+			// GIVEN no badge
+			const { applyBadge } = await import('../../generators/badge_generator')
 			const { generateAssets } = await import(
 				'../../generators/asset_generator'
 			)
@@ -661,10 +869,602 @@ describe('AssetGenerator', () => {
 			// WHEN generating assets
 			await generateAssets(mockConfig)
 
-			// THEN both scales should be used independently
-			const calls = (generateForeground as any).mock.calls
-			// iOS icon at 1024px should use iconScale: 1024 * 0.7 = 716
-			const iconCall = calls.find(
+			// THEN no overlay should be drawn
+			expect(applyBadge).not.toHaveBeenCalled()
+		})
+	})
+
+	describe('build variants', () => {
+		beforeEach(() => {
+			mockConfig.variants = {
+				prod: {},
+				staging: { badge: { text: 'STAGING' } },
+			}
+		})
+
+		it('should write each variant into its own folder', async () => {
+			// GIVEN prod and staging variants
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+
+			// WHEN generating assets
+			const result = await generateAssets(mockConfig)
+
+			// THEN each variant should have its own icons and README
+			const written = (fs.writeFile as any).mock.calls.map(
+				(call: any[]) => call[0],
+			)
+			expect(written).toContain('/output/prod/ios/icon-1024.png')
+			expect(written).toContain('/output/staging/ios/icon-1024.png')
+			expect(written).toContain('/output/staging/README.md')
+			expect(written).toContain('/output/README.md')
+			expect(result.assets.some(a => a.path.startsWith('/output/prod/'))).toBe(
+				true,
+			)
+		})
+
+		it('should only badge the variant that declares it', async () => {
+			// GIVEN a badge on staging only
+			const { applyBadge } = await import('../../generators/badge_generator')
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+
+			// WHEN generating assets
+			await generateAssets(mockConfig)
+
+			// THEN every badged asset should use the staging badge
+			const badges = (applyBadge as any).mock.calls.map(
+				(call: any[]) => call[2],
+			)
+			expect(badges.length).toBeGreaterThan(0)
+			expect(badges.every((badge: any) => badge.text === 'STAGING')).toBe(true)
+		})
+
+		it('should save one history entry per variant', async () => {
+			// GIVEN prod and staging variants
+			const { saveToHistory } = await import('../../utils/history')
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+
+			// WHEN generating assets
+			await generateAssets(mockConfig)
+
+			// THEN each entry should regenerate only its own variant
+			const calls = (saveToHistory as any).mock.calls
+			expect(calls).toHaveLength(2)
+			expect(Object.keys(calls[1][0].variants)).toEqual(['staging'])
+			expect(calls[1][1]).toBe('/output/staging')
+			expect(calls[1][2]).toBe('staging')
+		})
+
+		it('should install variants into flavor source sets and icon sets', async () => {
+			// GIVEN iOS and Android targets in a project
+			mockConfig.platforms = ['ios', 'android']
+			mockConfig.assetTypes = ['icon']
+			mockConfig.xcassetsPath = '/app/ios/App/Images.xcassets'
+			mockConfig.androidResPath = '/app/android/app/src/main/res'
+			const { installAppIconSet } = await import('../../utils/xcassets')
+			const { installAndroidRes } = await import('../../utils/android_res')
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+
+			// WHEN generating assets
+			await generateAssets(mockConfig)
+
+			// THEN staging should be installed next to the main resources
+			expect(installAppIconSet).toHaveBeenCalledWith(
+				'/output/staging/ios/AppIcon.appiconset',
+				'/app/ios/App/Images.xcassets',
+				'AppIcon-Staging.appiconset',
+			)
+			expect(installAndroidRes).toHaveBeenCalledWith(
+				'/output/staging/android',
+				'/app/android/app/src/staging/res',
+			)
+		})
+	})
+
+	describe('alternate icons', () => {
+		beforeEach(() => {
+			mockConfig.alternateIcons = [
+				{
+					name: 'Dark',
+					background: {
+						type: 'color',
+						color: { type: 'solid', color: '#000000' },
+					},
+				},
+			]
+		})
+
+		it('should write an icon set per alternate icon', async () => {
+			// GIVEN one alternate icon
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+
+			// WHEN generating assets
+			await generateAssets(mockConfig)
+
+			// THEN its icon and Contents.json should be written to its own set
+			const written = (fs.writeFile as any).mock.calls.map(
+				(call: any[]) => call[0],
+			)
+			expect(written).toContain(
+				'/output/ios/AppIcon-Dark.appiconset/icon-1024.png',
+			)
+			expect(written).toContain(
+				'/output/ios/AppIcon-Dark.appiconset/Contents.json',
+			)
+		})
+
+		it('should render alternate icons with their own background', async () => {
+			// GIVEN an alternate icon with a black background
+			const { generateBackground } = await import(
+				'../../generators/background_generator'
+			)
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+
+			// WHEN generating assets
+			await generateAssets(mockConfig)
+
+			// THEN the black background should be rendered once, at 1024px
+			const calls = (generateBackground as any).mock.calls.filter(
+				(call: any[]) => call[0].color?.color === '#000000',
+			)
+			expect(calls).toHaveLength(1)
+			expect(calls[0].slice(1)).toEqual([1024, 1024])
+		})
+
+		it('should write loose files for the files layout', async () => {
+			// GIVEN the files layout
+			mockConfig.alternateIconLayout = 'files'
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+
+			// WHEN generating assets
+			await generateAssets(mockConfig)
+
+			// THEN @2x and @3x files should be written without an icon set
+			const written = (fs.writeFile as any).mock.calls.map(
+				(call: any[]) => call[0],
+			)
+			expect(written).toContain('/output/ios/AlternateIcons/Dark@2x.png')
+			expect(written).toContain('/output/ios/AlternateIcons/Dark@3x.png')
+			expect(
+				written.some((file: string) => file.includes('AppIcon-Dark')),
+			).toBe(false)
+		})
+
+		it('should install alternate icon sets next to the primary one', async () => {
+			// GIVEN an asset catalog to install into
+			mockConfig.xcassetsPath = '/app/ios/App/Images.xcassets'
+			const { installAppIconSet } = await import('../../utils/xcassets')
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+
+			// WHEN generating assets
+			await generateAssets(mockConfig)
+
+			// THEN the alternate set should be installed under its own name
+			expect(installAppIconSet).toHaveBeenCalledWith(
+				'/output/ios/AppIcon-Dark.appiconset',
+				'/app/ios/App/Images.xcassets',
+				'AppIcon-Dark.appiconset',
+			)
+		})
+	})
+
+	describe('web manifest generation', () => {
+		it('should generate web manifest for web platform with favicon', async () => {
+			// GIVEN config with web platform and favicon type
+			mockConfig.platforms = ['web']
+			mockConfig.assetTypes = ['favicon']
+
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+
+			// WHEN generating assets
+			await generateAssets(mockConfig)
+
+			// THEN web manifest should be written
+			expect(fs.writeFile).toHaveBeenCalledWith(
+				expect.stringContaining('site.webmanifest'),
+				expect.any(String),
+			)
+		})
+
+		it('should include app name in manifest', async () => {
+			// GIVEN config with app name TestApp
+			mockConfig.platforms = ['web']
+			mockConfig.assetTypes = ['favicon']
+
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+
+			// WHEN generating assets
+			await generateAssets(mockConfig)
+
+			// THEN manifest should include app name
+			const writeFileCalls = (fs.writeFile as any).mock.calls
+			const manifestCall = writeFileCalls.find((call: any[]) =>
+				call[0].includes('site.webmanifest'),
+			)
+
+			expect(manifestCall).toBeDefined()
+			const manifestContent = JSON.parse(manifestCall[1])
+			expect(manifestContent.name).toBe('TestApp')
+			expect(manifestContent.short_name).toBe('TestApp')
+		})
+
+		it('should include theme color from background config', async () => {
+			// GIVEN config with specific background color
+			mockConfig.platforms = ['web']
+			mockConfig.assetTypes = ['favicon']
+			mockConfig.background = {
+				type: 'color',
+				color: { type: 'solid', color: '#123456' },
+			}
+
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+
+			// WHEN generating assets
+			await generateAssets(mockConfig)
+
+			// THEN manifest should include theme and background colors
+			const writeFileCalls = (fs.writeFile as any).mock.calls
+			const manifestCall = writeFileCalls.find((call: any[]) =>
+				call[0].includes('site.webmanifest'),
+			)
+
+			const manifestContent = JSON.parse(manifestCall[1])
+			expect(manifestContent.theme_color).toBe('#123456')
+			expect(manifestContent.background_color).toBe('#123456')
+		})
+
+		it('should use the first gradient stop and generate shortcut icons', async () => {
+			// GIVEN a gradient background and a manifest shortcut
+			mockConfig.platforms = ['web']
+			mockConfig.assetTypes = ['favicon']
+			mockConfig.background = {
+				type: 'gradient',
+				gradient: { type: 'linear', colors: ['#667EEA', '#764BA2'] },
+			}
+			mockConfig.manifest = { shortcuts: [{ name: 'New', url: '/new' }] }
+
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+
+			// WHEN generating assets
+			const result = await generateAssets(mockConfig)
+
+			// THEN the theme color should be the first stop
+			const manifestCall = (fs.writeFile as any).mock.calls.find(
+				(call: any[]) => call[0].includes('site.webmanifest'),
+			)
+			const manifestContent = JSON.parse(manifestCall[1])
+			expect(manifestContent.theme_color).toBe('#667EEA')
+			expect(manifestContent.shortcuts[0].url).toBe('/new')
+
+			// AND the shortcut icons should be generated
+			expect(result.assets.map(asset => asset.spec.name)).toEqual(
+				expect.arrayContaining([
+					'web/shortcut-1-96x96.png',
+					'web/shortcut-1-192x192.png',
+				]),
+			)
+		})
+
+		it('should list web companions before each PNG', async () => {
+			// GIVEN AVIF and WebP companions for web icons
+			mockConfig.platforms = ['web']
+			mockConfig.assetTypes = ['favicon']
+			mockConfig.webImageFormats = ['avif', 'webp']
+
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+
+			// WHEN generating assets
+			const result = await generateAssets(mockConfig)
+
+			// THEN each icon should be preceded by its companions
+			const writeFileCalls = (fs.writeFile as any).mock.calls
+			const manifestCall = writeFileCalls.find((call: any[]) =>
+				call[0].includes('site.webmanifest'),
+			)
+			const manifestContent = JSON.parse(manifestCall[1])
+			expect(
+				manifestContent.icons
+					.slice(0, 3)
+					.map((icon: { src: string; type: string }) => [icon.src, icon.type]),
+			).toEqual([
+				['icon-192x192.avif', 'image/avif'],
+				['icon-192x192.webp', 'image/webp'],
+				['icon-192x192.png', 'image/png'],
+			])
+			expect(result.assets.map(asset => asset.spec.name)).toContain(
+				'web/icon-192x192.avif',
+			)
+		})
+	})
+
+	describe('output formats', () => {
+		it('should write WebP mipmaps and report the PNG size', async () => {
+			// GIVEN Android icons in the WebP format
+			mockConfig.platforms = ['android']
+			mockConfig.assetTypes = ['icon']
+			mockConfig.androidIconFormat = 'webp'
+
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+
+			// WHEN generating assets
+			const result = await generateAssets(mockConfig)
+
+			// THEN every mipmap should be written as .webp
+			const written = (fs.writeFile as any).mock.calls.map(
+				(call: any[]) => call[0] as string,
+			)
+			expect(written).toContain(
+				join('/output', 'android/mipmap-hdpi/ic_launcher.webp'),
+			)
+			expect(written.some((path: string) => path.endsWith('.png'))).toBe(false)
+			for (const asset of result.assets) {
+				expect(asset.spec.name).toMatch(/\.webp$/)
+				expect(asset.originalSize).toBe(Buffer.from('mock-png-data').length)
+			}
+		})
+	})
+
+	describe('store compliance', () => {
+		it('should report store issues per variant as warnings', async () => {
+			// GIVEN two variants and an App Store icon with alpha
+			mockConfig.platforms = ['ios']
+			mockConfig.assetTypes = ['store']
+			mockConfig.variants = { dev: {}, prod: {} }
+			const { validateStoreAssets } = await import(
+				'../../utils/store_compliance'
+			)
+			;(validateStoreAssets as any).mockImplementationOnce(
+				(outputDir: string) =>
+					Promise.resolve({
+						outputDir,
+						checkedFiles: 1,
+						issues: [
+							{
+								path: 'store/ios/app-store-icon.png',
+								store: 'App Store',
+								rule: 'alpha',
+								message: 'has an alpha channel',
+								fixable: true,
+							},
+						],
+						fixedFiles: [],
+					}),
+			)
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+			const onWarning = vi.fn()
+
+			// WHEN generating assets
+			const result = await generateAssets(mockConfig, { onWarning })
+
+			// THEN the issue should be reported with the variant's folder
+			expect(validateStoreAssets).toHaveBeenCalledWith(join('/output', 'dev'))
+			expect(validateStoreAssets).toHaveBeenCalledWith(join('/output', 'prod'))
+			expect(result.success).toBe(true)
+			expect(result.storeIssues).toEqual([
+				expect.objectContaining({ path: 'dev/store/ios/app-store-icon.png' }),
+			])
+			expect(onWarning).toHaveBeenCalledWith(
+				'dev/store/ios/app-store-icon.png has an alpha channel (App Store)',
+			)
+			expect(onWarning).toHaveBeenCalledWith(
+				expect.stringContaining(
+					`appicons validate --output ${join('/output', 'dev')} --fix`,
+				),
+			)
+		})
+
+		it('should leave storeIssues unset when every file complies', async () => {
+			// GIVEN the default store files
+			mockConfig.platforms = ['ios', 'android']
+			mockConfig.assetTypes = ['store']
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+
+			// WHEN generating assets
+			const result = await generateAssets(mockConfig)
+
+			// THEN no issues should be reported
+			expect(result.storeIssues).toBeUndefined()
+		})
+	})
+
+	describe('directory structure', () => {
+		it('should create directories for assets', async () => {
+			// GIVEN config with iOS platform and icon type
+			mockConfig.platforms = ['ios']
+			mockConfig.assetTypes = ['icon']
+
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+
+			// WHEN generating assets
+			await generateAssets(mockConfig)
+
+			// THEN directories should be created with recursive option
+			expect(fs.mkdir).toHaveBeenCalled()
+			const mkdirCalls = (fs.mkdir as any).mock.calls
+			for (const call of mkdirCalls) {
+				expect(call[1]).toEqual({ recursive: true })
+			}
+		})
+
+		it('should write files with correct paths', async () => {
+			// GIVEN config with output directory
+			mockConfig.platforms = ['ios']
+			mockConfig.assetTypes = ['icon']
+
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+
+			// WHEN generating assets
+			const result = await generateAssets(mockConfig)
+
+			// THEN all asset paths should start with output directory
+			for (const asset of result.assets) {
+				expect(asset.path).toMatch(/^\/output\//)
+			}
+		})
+	})
+
+	describe('scale warnings and limits', () => {
+		it('should cap Android adaptive icon scale at 0.66', async () => {
+			// GIVEN config with scale higher than safe zone limit
+			const { generateForeground } = await import(
+				'../../generators/foreground_generator'
+			)
+			mockConfig.platforms = ['android']
+			mockConfig.assetTypes = ['adaptive']
+			mockConfig.iconScale = 0.9
+
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+
+			// WHEN generating assets
+			await generateAssets(mockConfig)
+
+			// THEN foreground size should be capped at 0.66 of canvas
+			const calls = (generateForeground as any).mock.calls
+			for (const call of calls) {
+				const [, width, _height] = call
+				// For 432px adaptive icon, max safe size is 432 * 0.66 ≈ 285
+				if (width > 300) {
+					expect(width).toBeLessThanOrEqual(432 * 0.66 + 1)
+				}
+			}
+		})
+	})
+
+	describe('favicon scale', () => {
+		it('should use default favicon scale of 0.85', async () => {
+			// GIVEN config with web platform and favicon type, no custom scale
+			const { generateForeground } = await import(
+				'../../generators/foreground_generator'
+			)
+			mockConfig.platforms = ['web']
+			mockConfig.assetTypes = ['favicon']
+			// Ensure faviconScale is undefined to test default
+			delete (mockConfig as any).faviconScale
+
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+
+			// WHEN generating assets
+			await generateAssets(mockConfig)
+
+			// THEN foreground should be generated at 85% of icon size
+			// For 32px favicon, foreground should be 32 * 0.85 = 27px
+			const calls = (generateForeground as any).mock.calls
+			const favicon32Call = calls.find(
+				(call: any[]) => call[1] === Math.floor(32 * 0.85),
+			)
+			expect(favicon32Call).toBeDefined()
+		})
+
+		it('should use custom favicon scale when provided', async () => {
+			// GIVEN config with custom favicon scale of 0.6
+			const { generateForeground } = await import(
+				'../../generators/foreground_generator'
+			)
+			mockConfig.platforms = ['web']
+			mockConfig.assetTypes = ['favicon']
+			mockConfig.faviconScale = 0.6
+
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+
+			// WHEN generating assets
+			await generateAssets(mockConfig)
+
+			// THEN foreground should be generated at 60% of icon size
+			// For 32px favicon, foreground should be 32 * 0.6 = 19px
+			const calls = (generateForeground as any).mock.calls
+			const favicon32Call = calls.find(
+				(call: any[]) => call[1] === Math.floor(32 * 0.6),
+			)
+			expect(favicon32Call).toBeDefined()
+		})
+
+		it('should use favicon scale for favicon.ico generation', async () => {
+			// GIVEN config with web platform, favicon type, and custom scale
+			const { generateForeground } = await import(
+				'../../generators/foreground_generator'
+			)
+			mockConfig.platforms = ['web']
+			mockConfig.assetTypes = ['favicon']
+			mockConfig.faviconScale = 0.7
+
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+
+			// WHEN generating assets
+			await generateAssets(mockConfig)
+
+			// THEN favicon.ico sizes (16, 32, 48) should use favicon scale
+			// 16 * 0.7 = 11, 32 * 0.7 = 22, 48 * 0.7 = 33
+			const calls = (generateForeground as any).mock.calls
+			const sizes = calls.map((call: any[]) => call[1])
+			expect(sizes).toContain(Math.floor(16 * 0.7))
+			expect(sizes).toContain(Math.floor(32 * 0.7))
+			expect(sizes).toContain(Math.floor(48 * 0.7))
+		})
+
+		it('should not affect icon scale when favicon scale is set', async () => {
+			// GIVEN config with both icon and favicon types and different scales
+			const { generateForeground } = await import(
+				'../../generators/foreground_generator'
+			)
+			mockConfig.platforms = ['ios', 'web']
+			mockConfig.assetTypes = ['icon', 'favicon']
+			mockConfig.iconScale = 0.7
+			mockConfig.faviconScale = 0.9
+
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+
+			// WHEN generating assets
+			await generateAssets(mockConfig)
+
+			// THEN both scales should be used independently
+			const calls = (generateForeground as any).mock.calls
+			// iOS icon at 1024px should use iconScale: 1024 * 0.7 = 716
+			const iconCall = calls.find(
 				(call: any[]) => call[1] === Math.floor(1024 * 0.7),
 			)
 			expect(iconCall).toBeDefined()
@@ -688,11 +1488,292 @@ describe('AssetGenerator', () => {
 			)
 
 			// WHEN generating assets
-			const result = await generateAssets(mockConfig)
+			const result = await generateAssets(mockConfig)
+
+			// THEN result object should still be returned
+			expect(result).toHaveProperty('success')
+			expect(result).toHaveProperty('outputDir')
+		})
+	})
+
+	describe('reporter', () => {
+		it('should report each asset with its index and total', async () => {
+			// GIVEN a reporter recording progress callbacks
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+			const onAssetStart = vi.fn()
+			const onAssetDone = vi.fn()
+
+			// WHEN generating assets
+			const result = await generateAssets(mockConfig, {
+				onAssetStart,
+				onAssetDone,
+			})
+
+			// THEN every asset should be started and finished in order
+			const total = result.assets.length
+			expect(onAssetStart).toHaveBeenCalledTimes(total)
+			expect(onAssetDone).toHaveBeenCalledTimes(total)
+			expect(onAssetDone).toHaveBeenLastCalledWith(
+				result.assets[total - 1],
+				total - 1,
+				total,
+			)
+		})
+
+		it('should report written files as absolute paths', async () => {
+			// GIVEN a reporter recording written files
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+			const onFileWritten = vi.fn()
+
+			// WHEN generating assets
+			const result = await generateAssets(mockConfig, { onFileWritten })
+
+			// THEN assets, Contents.json, and README should be reported
+			const written = onFileWritten.mock.calls.map(([path]) => path)
+			expect(written).toContain(result.assets[0]!.path)
+			expect(written).toContain('/output/ios/AppIcon.appiconset/Contents.json')
+			expect(written).toContain('/output/README.md')
+		})
+
+		it('should report generation failures as errors', async () => {
+			// GIVEN a background generator that fails
+			const { generateBackground } = await import(
+				'../../generators/background_generator'
+			)
+			;(generateBackground as any).mockRejectedValue(new Error('boom'))
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+			const onError = vi.fn()
+
+			// WHEN generating assets
+			const result = await generateAssets(mockConfig, { onError })
+
+			// THEN each collected error should also be reported
+			expect(result.success).toBe(false)
+			expect(onError).toHaveBeenCalledTimes(result.errors!.length)
+			expect(onError.mock.calls[0]![0]).toContain('boom')
+		})
+
+		it('should not print anything without a reporter', async () => {
+			// GIVEN a console spy
+			const log = vi.spyOn(console, 'log').mockImplementation(() => {})
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+
+			// WHEN generating assets without a reporter
+			await generateAssets(mockConfig)
+
+			// THEN nothing should be logged
+			expect(log).not.toHaveBeenCalled()
+			log.mockRestore()
+		})
+	})
+
+	describe('mask preview', () => {
+		it('should write the contact sheet and HTML page into preview/', async () => {
+			// GIVEN Android adaptive icons with both preview formats
+			mockConfig.platforms = ['android']
+			mockConfig.assetTypes = ['adaptive']
+			mockConfig.maskPreview = ['png', 'html']
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+			const { generateMaskPreviewSheet } = await import(
+				'../../generators/mask_preview_generator'
+			)
+
+			// WHEN generating assets
+			await generateAssets(mockConfig)
+
+			// THEN the sheet should be built from the generated layers
+			const [sources, images] = (generateMaskPreviewSheet as any).mock.calls[0]
+			expect(sources.map((source: { label: string }) => source.label)).toEqual([
+				'Android adaptive',
+			])
+			expect(
+				images.has('android/mipmap-xxxhdpi/ic_launcher_foreground.png'),
+			).toBe(true)
+			expect(fs.writeFile).toHaveBeenCalledWith(
+				'/output/preview/mask-preview.png',
+				Buffer.from('sheet-data'),
+			)
+			expect(fs.writeFile).toHaveBeenCalledWith(
+				'/output/preview/mask-preview.html',
+				expect.stringContaining('Android adaptive'),
+			)
+		})
+
+		it('should warn when no adaptive or maskable icons exist', async () => {
+			// GIVEN iOS icons only
+			mockConfig.maskPreview = ['png']
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+			const { generateMaskPreviewSheet } = await import(
+				'../../generators/mask_preview_generator'
+			)
+			const onWarning = vi.fn()
+
+			// WHEN generating assets
+			const result = await generateAssets(mockConfig, { onWarning })
+
+			// THEN the preview should be skipped without failing generation
+			expect(result.success).toBe(true)
+			expect(generateMaskPreviewSheet).not.toHaveBeenCalled()
+			expect(onWarning).toHaveBeenCalledWith(
+				expect.stringContaining('Skipped mask preview'),
+			)
+		})
+	})
+
+	describe('vector masters', () => {
+		it('should write the icon and splash masters with the raster layout', async () => {
+			// GIVEN icons and splash screens with both master formats
+			mockConfig.assetTypes = ['icon', 'splash']
+			mockConfig.vectorMaster = ['svg', 'pdf']
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+
+			// WHEN generating assets
+			await generateAssets(mockConfig)
+
+			// THEN the foreground should use each type's scale, centered
+			const written = new Map(
+				(fs.writeFile as any).mock.calls.map((call: any[]) => [
+					call[0],
+					call[1],
+				]),
+			)
+			expect(written.get('/output/master/icon.svg')).toContain(
+				'<svg x="154" y="154" width="716" height="716" viewBox="0 0 10 10">',
+			)
+			expect(written.get('/output/master/splash.svg')).toContain(
+				'<svg x="1024" y="1024" width="683" height="683"',
+			)
+			expect(
+				(written.get('/output/master/icon.pdf') as Buffer).toString('latin1'),
+			).toContain('/MediaBox [0 0 1024 1024]')
+			expect(written.has('/output/master/splash.pdf')).toBe(true)
+		})
+
+		it('should skip image designs with a warning', async () => {
+			// GIVEN an image foreground
+			mockConfig.foreground = { type: 'image', imagePath: '/logo.png' }
+			mockConfig.vectorMaster = ['svg']
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+			const onWarning = vi.fn()
+
+			// WHEN generating assets
+			const result = await generateAssets(mockConfig, { onWarning })
 
-			// THEN result object should still be returned
-			expect(result).toHaveProperty('success')
-			expect(result).toHaveProperty('outputDir')
+			// THEN no master should be written and generation should succeed
+			expect(result.success).toBe(true)
+			expect(fs.writeFile).not.toHaveBeenCalledWith(
+				'/output/master/icon.svg',
+				expect.anything(),
+			)
+			expect(onWarning).toHaveBeenCalledWith(
+				expect.stringContaining('Skipped vector masters'),
+			)
+		})
+	})
+
+	describe('checkAssets', () => {
+		it('should render every file in memory without writing', async () => {
+			// GIVEN a config with iOS icons
+			const { checkAssets } = await import('../../generators/asset_generator')
+			const { compareOutputFiles } = await import('../../utils/drift')
+			const { writeArchive } = await import('../../utils/archive')
+			const { saveToHistory } = await import('../../utils/history')
+
+			// WHEN checking for drift
+			const result = await checkAssets(mockConfig)
+
+			// THEN the rendered files should be compared instead of written
+			expect(fs.writeFile).not.toHaveBeenCalled()
+			expect(writeArchive).not.toHaveBeenCalled()
+			expect(saveToHistory).not.toHaveBeenCalled()
+
+			const [expected, outputDir] = (compareOutputFiles as any).mock.calls[0]
+			expect(outputDir).toBe('/output')
+			expect(expected.has('ios/AppIcon.appiconset/Contents.json')).toBe(true)
+			expect(expected.has('README.md')).toBe(true)
+			expect(result.success).toBe(true)
+			expect(result.checkedFiles).toBe(expected.size)
+		})
+
+		it('should fail when files drifted', async () => {
+			// GIVEN a comparison that finds a missing file
+			const { checkAssets } = await import('../../generators/asset_generator')
+			const { compareOutputFiles } = await import('../../utils/drift')
+			;(compareOutputFiles as any).mockResolvedValueOnce([
+				{ path: 'README.md', status: 'missing' },
+			])
+
+			// WHEN checking for drift
+			const result = await checkAssets(mockConfig)
+
+			// THEN the drift should be reported
+			expect(result.success).toBe(false)
+			expect(result.drift).toEqual([{ path: 'README.md', status: 'missing' }])
+		})
+
+		it('should not report archives as extra files', async () => {
+			// GIVEN an output directory holding its archive
+			const { checkAssets } = await import('../../generators/asset_generator')
+			const { compareOutputFiles } = await import('../../utils/drift')
+			;(compareOutputFiles as any).mockResolvedValueOnce([
+				{ path: 'appicons.zip', status: 'extra' },
+			])
+
+			// WHEN checking for drift
+			const result = await checkAssets(mockConfig)
+
+			// THEN the archive should not count as drift
+			expect(result.success).toBe(true)
+			expect(result.drift).toEqual([])
+		})
+
+		it('should render the same files in every checkout', async () => {
+			// GIVEN real instructions and one config in two checkouts
+			const { checkAssets } = await import('../../generators/asset_generator')
+			const { compareOutputFiles } = await import('../../utils/drift')
+			const instructions = await import('../../utils/instructions')
+			// The actual module loads asset specs, which error handling mocks
+			vi.doUnmock('../../assets/asset_specs')
+			const actual = await vi.importActual<typeof instructions>(
+				'../../utils/instructions',
+			)
+			vi.mocked(instructions.generateInstructions)
+				.mockImplementationOnce(actual.generateInstructions)
+				.mockImplementationOnce(actual.generateInstructions)
+			vi.mocked(instructions.formatInstructionsText)
+				.mockImplementationOnce(actual.formatInstructionsText)
+				.mockImplementationOnce(actual.formatInstructionsText)
+			const checkout = (root: string): AssetGeneratorConfig => ({
+				...mockConfig,
+				platforms: ['ios', 'android'],
+				foreground: { type: 'svg', svgPath: `${root}/logo.svg` },
+				outputDir: `${root}/assets`,
+			})
+
+			// WHEN checking both checkouts
+			await checkAssets(checkout('/home/dev/app'))
+			await checkAssets(checkout('/ci/workspace/app'))
+
+			// THEN the rendered files should be identical
+			const [[first], [second]] = (compareOutputFiles as any).mock.calls
+			expect(first.get('README.md').toString()).not.toContain('/home/dev')
+			expect(second).toEqual(first)
 		})
 	})
 
@@ -759,69 +1840,431 @@ describe('AssetGenerator', () => {
 				call[0].includes('Contents.json'),
 			)
 
-			const contentsJson = JSON.parse(contentsCall[1])
-			const darkImages = contentsJson.images.filter((img: any) =>
-				img.appearances?.some(
-					(a: any) => a.appearance === 'luminosity' && a.value === 'dark',
-				),
+			const contentsJson = JSON.parse(contentsCall[1])
+			const darkImages = contentsJson.images.filter((img: any) =>
+				img.appearances?.some(
+					(a: any) => a.appearance === 'luminosity' && a.value === 'dark',
+				),
+			)
+			expect(darkImages.length).toBeGreaterThan(0)
+		})
+
+		it('should include tinted appearance variants', async () => {
+			// GIVEN config with iOS platform and icon type
+			mockConfig.platforms = ['ios']
+			mockConfig.assetTypes = ['icon']
+
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+
+			// WHEN generating assets
+			await generateAssets(mockConfig)
+
+			// THEN Contents.json should include tinted variants
+			const writeFileCalls = (fs.writeFile as any).mock.calls
+			const contentsCall = writeFileCalls.find((call: any[]) =>
+				call[0].includes('Contents.json'),
+			)
+
+			const contentsJson = JSON.parse(contentsCall[1])
+			const tintedImages = contentsJson.images.filter((img: any) =>
+				img.appearances?.some(
+					(a: any) => a.appearance === 'luminosity' && a.value === 'tinted',
+				),
+			)
+			expect(tintedImages.length).toBeGreaterThan(0)
+		})
+
+		it('should have correct idiom for iPhone/iPad icons', async () => {
+			// GIVEN config with iOS platform and icon type
+			mockConfig.platforms = ['ios']
+			mockConfig.assetTypes = ['icon']
+
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+
+			// WHEN generating assets
+			await generateAssets(mockConfig)
+
+			// THEN Contents.json should have proper idioms
+			const writeFileCalls = (fs.writeFile as any).mock.calls
+			const contentsCall = writeFileCalls.find((call: any[]) =>
+				call[0].includes('Contents.json'),
+			)
+
+			const contentsJson = JSON.parse(contentsCall[1])
+			const hasIphone = contentsJson.images.some(
+				(img: any) => img.idiom === 'iphone',
+			)
+			const hasIpad = contentsJson.images.some(
+				(img: any) => img.idiom === 'ipad',
+			)
+			expect(hasIphone).toBe(true)
+			expect(hasIpad).toBe(true)
+		})
+
+		it('should only reference variant files that are generated', async () => {
+			// GIVEN config with iOS platform and icon type
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+
+			// WHEN generating assets
+			const result = await generateAssets(mockConfig)
+
+			// THEN every Contents.json filename should match a generated asset
+			const contentsCall = (fs.writeFile as any).mock.calls.find(
+				(call: any[]) => call[0].includes('Contents.json'),
+			)
+			const generated = new Set(
+				result.assets.map(a => a.spec.name.replace(/^ios\//, '')),
+			)
+			for (const image of JSON.parse(contentsCall[1]).images) {
+				expect(generated).toContain(image.filename)
+			}
+		})
+	})
+
+	describe('iOS appiconset layout', () => {
+		it('should place all iOS icon variants flat inside the icon set', async () => {
+			// GIVEN the appiconset layout
+			mockConfig.iosIconLayout = 'appiconset'
+			const { determineAssetSpecs } = await import(
+				'../../generators/asset_generator'
+			)
+
+			// WHEN resolving specs
+			const names = determineAssetSpecs(mockConfig).map(s => s.name)
+
+			// THEN every icon should sit directly inside AppIcon.appiconset
+			expect(names).toContain('ios/AppIcon.appiconset/icon-60@2x.png')
+			expect(names).toContain('ios/AppIcon.appiconset/icon-dark-60@2x.png')
+			expect(names).toContain('ios/AppIcon.appiconset/icon-tinted-1024.png')
+			expect(names).toContain(
+				'ios/AppIcon.appiconset/icon-clear-light-76@2x.png',
+			)
+			for (const name of names) {
+				expect(name).toMatch(/^ios\/AppIcon\.appiconset\/[^/]+$/)
+			}
+		})
+
+		it('should reference flat filenames in Contents.json', async () => {
+			// GIVEN the appiconset layout
+			mockConfig.iosIconLayout = 'appiconset'
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+
+			// WHEN generating assets
+			const result = await generateAssets(mockConfig)
+
+			// THEN every entry should point at a generated file in the set
+			const contentsCall = (fs.writeFile as any).mock.calls.find(
+				(call: any[]) => call[0].includes('Contents.json'),
+			)
+			const images = JSON.parse(contentsCall[1]).images
+			const generated = new Set(
+				result.assets.map(a =>
+					a.spec.name.replace('ios/AppIcon.appiconset/', ''),
+				),
+			)
+			expect(
+				images.some((img: any) => img.filename === 'icon-dark-60@2x.png'),
+			).toBe(true)
+			for (const image of images) {
+				expect(image.filename).not.toContain('/')
+				expect(generated).toContain(image.filename)
+			}
+		})
+
+		it('should install the icon set into the asset catalog', async () => {
+			// GIVEN an existing asset catalog target
+			mockConfig.xcassetsPath = '/project/ios/MyApp/Images.xcassets'
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+			const { installAppIconSet } = await import('../../utils/xcassets')
+
+			// WHEN generating assets
+			const result = await generateAssets(mockConfig)
+
+			// THEN the generated set should be copied and reported
+			expect(installAppIconSet).toHaveBeenCalledWith(
+				'/output/ios/AppIcon.appiconset',
+				'/project/ios/MyApp/Images.xcassets',
+				'AppIcon.appiconset',
+			)
+			expect(result.installedFiles).toEqual([
+				'/project/ios/MyApp/Images.xcassets/AppIcon.appiconset/Contents.json',
+			])
+		})
+
+		it('should not install a partial icon set', async () => {
+			// GIVEN an asset catalog target and a failing generator
+			mockConfig.xcassetsPath = '/project/ios/MyApp/Images.xcassets'
+			const { generateBackground } = await import(
+				'../../generators/background_generator'
+			)
+			;(generateBackground as any).mockRejectedValueOnce(new Error('boom'))
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+			const { installAppIconSet } = await import('../../utils/xcassets')
+
+			// WHEN generating assets
+			const result = await generateAssets(mockConfig)
+
+			// THEN the project should be left untouched
+			expect(installAppIconSet).not.toHaveBeenCalled()
+			expect(result.installedFiles).toBeUndefined()
+		})
+
+		it('should fail before generating when the catalog is missing', async () => {
+			// GIVEN an asset catalog path that cannot be resolved
+			mockConfig.xcassetsPath = '/missing'
+			const { resolveXcassetsPath } = await import('../../utils/xcassets')
+			;(resolveXcassetsPath as any).mockRejectedValueOnce(
+				new Error('Directory not found: /missing'),
+			)
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+
+			// WHEN generating assets
+			const result = await generateAssets(mockConfig)
+
+			// THEN generation should stop with the resolution error
+			expect(result.success).toBe(false)
+			expect(result.assets).toHaveLength(0)
+			expect(result.errors).toEqual(['Directory not found: /missing'])
+		})
+	})
+
+	describe('iOS launch storyboard', () => {
+		it('should replace fixed-size iOS splash images with the LaunchLogo set', async () => {
+			// GIVEN the storyboard splash mode
+			mockConfig.assetTypes = ['splash']
+			mockConfig.iosSplashMode = 'storyboard'
+			const { determineAssetSpecs } = await import(
+				'../../generators/asset_generator'
+			)
+
+			// WHEN resolving specs
+			const names = determineAssetSpecs(mockConfig).map(s => s.name)
+
+			// THEN only the LaunchLogo imageset should be generated for iOS
+			expect(names).toEqual([
+				'ios/LaunchLogo.imageset/LaunchLogo.png',
+				'ios/LaunchLogo.imageset/LaunchLogo@2x.png',
+				'ios/LaunchLogo.imageset/LaunchLogo@3x.png',
+			])
+		})
+
+		it('should render the logo without a background', async () => {
+			// GIVEN the storyboard splash mode
+			mockConfig.assetTypes = ['splash']
+			mockConfig.iosSplashMode = 'storyboard'
+			const { generateBackground } = await import(
+				'../../generators/background_generator'
+			)
+			const { generateForeground } = await import(
+				'../../generators/foreground_generator'
+			)
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+
+			// WHEN generating assets
+			await generateAssets(mockConfig)
+
+			// THEN the foreground should fill each image
+			expect(generateBackground).not.toHaveBeenCalled()
+			expect(generateForeground).toHaveBeenCalledWith(
+				mockConfig.foreground,
+				294,
+				294,
+			)
+		})
+
+		it('should write the storyboard, imageset and colorset', async () => {
+			// GIVEN the storyboard splash mode with a solid background
+			mockConfig.assetTypes = ['splash']
+			mockConfig.iosSplashMode = 'storyboard'
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+
+			// WHEN generating assets
+			await generateAssets(mockConfig)
+
+			// THEN all launch screen files should be written
+			const calls = (fs.writeFile as any).mock.calls
+			const written = calls.map((call: any[]) => call[0])
+			expect(written).toContain('/output/ios/LaunchScreen.storyboard')
+			expect(written).toContain('/output/ios/LaunchLogo.imageset/Contents.json')
+
+			// AND the colorset should carry a darkened dark appearance
+			const colorset = calls.find((call: any[]) =>
+				call[0].includes('LaunchBackground.colorset'),
+			)
+			const colors = JSON.parse(colorset[1]).colors
+			expect(colors[1].appearances[0].value).toBe('dark')
+			expect(colors[1].color.components.red).toBe('0.302')
+		})
+	})
+
+	describe('Android 12+ splash screen', () => {
+		it('should render splash icons on a transparent canvas', async () => {
+			// GIVEN an Android splash config
+			mockConfig.platforms = ['android']
+			mockConfig.assetTypes = ['splash']
+			const sharp = (await import('sharp')).default as any
+			const { generateForeground } = await import(
+				'../../generators/foreground_generator'
+			)
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+
+			// WHEN generating assets
+			const result = await generateAssets(mockConfig)
+
+			// THEN the xxxhdpi icon should fit the 192dp circle on a clear canvas
+			expect(
+				result.assets.some(
+					a => a.spec.name === 'android/drawable-xxxhdpi/splashscreen_icon.png',
+				),
+			).toBe(true)
+			expect(sharp).toHaveBeenCalledWith({
+				create: {
+					width: 1152,
+					height: 1152,
+					channels: 4,
+					background: { r: 0, g: 0, b: 0, alpha: 0 },
+				},
+			})
+			expect(generateForeground).toHaveBeenCalledWith(
+				mockConfig.foreground,
+				Math.floor(1152 * (192 / 288)),
+				Math.floor(1152 * (192 / 288)),
+			)
+		})
+
+		it('should write light and night v31 themes', async () => {
+			// GIVEN an Android splash config with a solid background
+			mockConfig.platforms = ['android']
+			mockConfig.assetTypes = ['splash']
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+
+			// WHEN generating assets
+			await generateAssets(mockConfig)
+
+			// THEN both themes should wire the icon, background and post theme
+			const calls = (fs.writeFile as any).mock.calls
+			const light = calls.find((call: any[]) =>
+				call[0].includes('values-v31/themes.xml'),
+			)
+			const night = calls.find((call: any[]) =>
+				call[0].includes('values-night-v31/themes.xml'),
+			)
+			expect(light[1]).toContain(
+				'<item name="windowSplashScreenBackground">#FF5500</item>',
+			)
+			expect(light[1]).toContain('@drawable/splashscreen_icon')
+			expect(light[1]).toContain('name="postSplashScreenTheme"')
+			expect(night[1]).toContain(
+				'<item name="windowSplashScreenBackground">#4D1A00</item>',
+			)
+		})
+
+		it('should use the first gradient stop as the splash background', async () => {
+			// GIVEN an Android splash config with a gradient background
+			mockConfig.platforms = ['android']
+			mockConfig.assetTypes = ['splash']
+			mockConfig.background = {
+				type: 'gradient',
+				gradient: { type: 'linear', colors: ['#667eea', '#764ba2'] },
+			}
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+
+			// WHEN generating assets
+			await generateAssets(mockConfig)
+
+			// THEN the light theme should use the first stop
+			const light = (fs.writeFile as any).mock.calls.find((call: any[]) =>
+				call[0].includes('values-v31/themes.xml'),
+			)
+			expect(light[1]).toContain('#667EEA')
+		})
+	})
+
+	describe('Android res/ integration', () => {
+		it('should install resources into the res directory', async () => {
+			// GIVEN an Android config targeting a project res directory
+			mockConfig.platforms = ['android']
+			mockConfig.assetTypes = ['icon', 'adaptive']
+			mockConfig.androidResPath = '/project/android/app/src/main/res'
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+			const { installAndroidRes } = await import('../../utils/android_res')
+
+			// WHEN generating assets
+			const result = await generateAssets(mockConfig)
+
+			// THEN generated android/ output should be installed and reported
+			expect(installAndroidRes).toHaveBeenCalledWith(
+				'/output/android',
+				'/project/android/app/src/main/res',
 			)
-			expect(darkImages.length).toBeGreaterThan(0)
+			expect(result.installedFiles).toEqual([
+				'/project/android/app/src/main/res/values/colors.xml',
+			])
 		})
 
-		it('should include tinted appearance variants', async () => {
-			// GIVEN config with iOS platform and icon type
-			mockConfig.platforms = ['ios']
+		it('should collect install failures as errors', async () => {
+			// GIVEN an installer that fails
+			mockConfig.platforms = ['android']
 			mockConfig.assetTypes = ['icon']
-
+			mockConfig.androidResPath = '/project/res'
 			const { generateAssets } = await import(
 				'../../generators/asset_generator'
 			)
+			const { installAndroidRes } = await import('../../utils/android_res')
+			;(installAndroidRes as any).mockRejectedValueOnce(
+				new Error('Cannot merge colors.xml: missing </resources>'),
+			)
 
 			// WHEN generating assets
-			await generateAssets(mockConfig)
-
-			// THEN Contents.json should include tinted variants
-			const writeFileCalls = (fs.writeFile as any).mock.calls
-			const contentsCall = writeFileCalls.find((call: any[]) =>
-				call[0].includes('Contents.json'),
-			)
+			const result = await generateAssets(mockConfig)
 
-			const contentsJson = JSON.parse(contentsCall[1])
-			const tintedImages = contentsJson.images.filter((img: any) =>
-				img.appearances?.some(
-					(a: any) => a.appearance === 'luminosity' && a.value === 'tinted',
-				),
+			// THEN generated assets should still be returned with the error
+			expect(result.success).toBe(false)
+			expect(result.assets.length).toBeGreaterThan(0)
+			expect(result.errors).toContain(
+				'Failed to install into /project/res: Cannot merge colors.xml: missing </resources>',
 			)
-			expect(tintedImages.length).toBeGreaterThan(0)
 		})
 
-		it('should have correct idiom for iPhone/iPad icons', async () => {
-			// GIVEN config with iOS platform and icon type
-			mockConfig.platforms = ['ios']
-			mockConfig.assetTypes = ['icon']
-
+		it('should skip installation when Android is not a target', async () => {
+			// GIVEN a res directory but only iOS platforms
+			mockConfig.androidResPath = '/project/res'
 			const { generateAssets } = await import(
 				'../../generators/asset_generator'
 			)
+			const { installAndroidRes } = await import('../../utils/android_res')
 
 			// WHEN generating assets
 			await generateAssets(mockConfig)
 
-			// THEN Contents.json should have proper idioms
-			const writeFileCalls = (fs.writeFile as any).mock.calls
-			const contentsCall = writeFileCalls.find((call: any[]) =>
-				call[0].includes('Contents.json'),
-			)
-
-			const contentsJson = JSON.parse(contentsCall[1])
-			const hasIphone = contentsJson.images.some(
-				(img: any) => img.idiom === 'iphone',
-			)
-			const hasIpad = contentsJson.images.some(
-				(img: any) => img.idiom === 'ipad',
-			)
-			expect(hasIphone).toBe(true)
-			expect(hasIpad).toBe(true)
+			// THEN nothing should be installed
+			expect(installAndroidRes).not.toHaveBeenCalled()
 		})
 	})
 
@@ -938,6 +2381,320 @@ describe('AssetGenerator', () => {
 		})
 	})
 
+	describe('Android vector adaptive icons', () => {
+		beforeEach(() => {
+			mockConfig.platforms = ['android']
+			mockConfig.assetTypes = ['adaptive']
+			mockConfig.androidAdaptiveFormat = 'vector'
+		})
+
+		/** Content written to a path ending with the given suffix. */
+		const written = (suffix: string): string | undefined =>
+			(fs.writeFile as any).mock.calls.find((call: any[]) =>
+				call[0].endsWith(suffix),
+			)?.[1]
+
+		it('should replace text foreground PNGs with VectorDrawables', async () => {
+			// GIVEN a text foreground on a solid background
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+
+			// WHEN generating assets
+			const result = await generateAssets(mockConfig)
+
+			// THEN no adaptive layer PNG should be generated
+			expect(result.success).toBe(true)
+			expect(result.assets).toHaveLength(0)
+
+			// AND the layers should be drawable XML and a color reference
+			expect(written('drawable/ic_launcher_foreground.xml')).toContain(
+				'android:pathData="M0 0H10V10H0Z"',
+			)
+			expect(written('drawable/ic_launcher_monochrome.xml')).toContain(
+				'android:fillColor="#FFFFFF"',
+			)
+			const xml = written('mipmap-anydpi-v26/ic_launcher.xml')
+			expect(xml).toContain('@color/ic_launcher_background')
+			expect(xml).toContain('@drawable/ic_launcher_foreground')
+			expect(xml).toContain('@drawable/ic_launcher_monochrome')
+		})
+
+		it('should write gradient backgrounds as shape drawables', async () => {
+			// GIVEN a two-color gradient
+			mockConfig.background = {
+				type: 'gradient',
+				gradient: { type: 'linear', colors: ['#FF0000', '#0000FF'], angle: 0 },
+			}
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+
+			// WHEN generating assets
+			await generateAssets(mockConfig)
+
+			// THEN the background should be a top-to-bottom gradient
+			const background = written('drawable/ic_launcher_background.xml')
+			expect(background).toContain('android:angle="270"')
+			expect(written('mipmap-anydpi-v26/ic_launcher.xml')).toContain(
+				'@drawable/ic_launcher_background',
+			)
+		})
+
+		it('should keep a badged foreground as PNG', async () => {
+			// GIVEN a badge drawn on the foreground
+			mockConfig.badge = { text: 'DEV' }
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+
+			// WHEN generating assets
+			const result = await generateAssets(mockConfig)
+
+			// THEN only the foreground should stay rasterized
+			const names = result.assets.map(asset => asset.spec.name)
+			expect(names).toContain(
+				'android/mipmap-xxxhdpi/ic_launcher_foreground.png',
+			)
+			expect(names).not.toContain(
+				'android/mipmap-xxxhdpi/ic_launcher_monochrome.png',
+			)
+			expect(written('mipmap-anydpi-v26/ic_launcher.xml')).toContain(
+				'@mipmap/ic_launcher_foreground',
+			)
+		})
+
+		it('should convert SVG foregrounds to path data', async () => {
+			// GIVEN an SVG foreground with a circle and a rect
+			mockConfig.foreground = {
+				type: 'svg',
+				svgPath: join(__dirname, '../fixtures/sample.svg'),
+			}
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+
+			// WHEN generating assets
+			await generateAssets(mockConfig)
+
+			// THEN both shapes should be paths inside the 66dp safe zone
+			const foreground = written('drawable/ic_launcher_foreground.xml')
+			expect(foreground).toContain('android:fillColor="#FF5500"')
+			expect(foreground).toContain('android:pathData="M30 30H70V70H30Z"')
+			expect(foreground).toContain('android:scaleX="0.7128"')
+		})
+	})
+
+	describe('Android legacy icons', () => {
+		beforeEach(() => {
+			mockConfig.platforms = ['android']
+			mockConfig.assetTypes = ['icon']
+		})
+
+		it('should draw round icons inside 1dp of padding', async () => {
+			// GIVEN Android icons
+			const { generateBackground } = await import(
+				'../../generators/background_generator'
+			)
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+
+			// WHEN generating assets
+			const result = await generateAssets(mockConfig)
+
+			// THEN round icons should be written with a 184px body at 192px
+			expect(result.assets.map(a => a.spec.name)).toContain(
+				'android/mipmap-xxxhdpi/ic_launcher_round.png',
+			)
+			const sizes = (generateBackground as any).mock.calls.map(
+				(call: any[]) => call[1],
+			)
+			expect(sizes).toContain(184)
+			expect(sizes.filter((size: number) => size === 192)).toHaveLength(1)
+		})
+
+		it('should shape ic_launcher.png with a legacy shape', async () => {
+			// GIVEN the squircle legacy shape
+			mockConfig.androidLegacyShape = 'squircle'
+			const { generateBackground } = await import(
+				'../../generators/background_generator'
+			)
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+
+			// WHEN generating assets
+			await generateAssets(mockConfig)
+
+			// THEN no icon should be drawn full-bleed
+			const sizes = (generateBackground as any).mock.calls.map(
+				(call: any[]) => call[1],
+			)
+			expect(sizes).not.toContain(192)
+			expect(sizes.filter((size: number) => size === 184)).toHaveLength(2)
+		})
+	})
+
+	describe('Android notification icons', () => {
+		it('should draw a silhouette without a background', async () => {
+			// GIVEN the notification asset type
+			mockConfig.platforms = ['android']
+			mockConfig.assetTypes = ['notification']
+			const { generateBackground } = await import(
+				'../../generators/background_generator'
+			)
+			const { generateForeground } = await import(
+				'../../generators/foreground_generator'
+			)
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+
+			// WHEN generating assets
+			const result = await generateAssets(mockConfig)
+
+			// THEN each density should be drawn from a 20dp foreground only
+			expect(result.assets.map(a => a.spec.name)).toContain(
+				'android/drawable-xxxhdpi/ic_stat_notification.png',
+			)
+			expect(generateBackground).not.toHaveBeenCalled()
+			expect(generateForeground).toHaveBeenCalledWith(
+				mockConfig.foreground,
+				80,
+				80,
+			)
+		})
+	})
+
+	describe('web head', () => {
+		beforeEach(() => {
+			mockConfig.platforms = ['web']
+			mockConfig.assetTypes = ['favicon']
+		})
+
+		/** Content written to a path ending with the given suffix. */
+		const written = (suffix: string): string | undefined =>
+			(fs.writeFile as any).mock.calls.find((call: any[]) =>
+				call[0].endsWith(suffix),
+			)?.[1]
+
+		it('should write head.html, browserconfig.xml and SVG icons', async () => {
+			// GIVEN an SVG foreground with a dark color on a solid background
+			mockConfig.foreground = {
+				type: 'svg',
+				svgPath: join(__dirname, '../fixtures/sample.svg'),
+				dark: { color: '#EEEEEE' },
+			}
+			mockConfig.background = {
+				type: 'color',
+				color: { type: 'solid', color: '#FF5500' },
+				dark: { color: '#111111' },
+			}
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+
+			// WHEN generating assets
+			const result = await generateAssets(mockConfig)
+
+			// THEN the snippet should link the SVG favicon and both theme colors
+			expect(result.success).toBe(true)
+			const head = written('web/head.html')
+			expect(head).toContain('href="/favicon.svg" type="image/svg+xml"')
+			expect(head).toContain('<link rel="mask-icon"')
+			expect(head).toContain(
+				'content="#111111" media="(prefers-color-scheme: dark)"',
+			)
+			expect(written('web/browserconfig.xml')).toContain(
+				'<TileColor>#FF5500</TileColor>',
+			)
+
+			// AND favicon.svg should switch to the dark colors
+			const favicon = written('web/favicon.svg')
+			expect(favicon).toContain('fill="#FF5500"')
+			expect(favicon).toContain('.background { fill: #111111; }')
+			expect(favicon).toContain('fill: #EEEEEE;')
+			expect(written('web/safari-pinned-tab.svg')).toContain('fill="#000000"')
+		})
+
+		it('should link PNG favicons for image foregrounds', async () => {
+			// GIVEN an image foreground
+			mockConfig.foreground = { type: 'image', imagePath: '/logo.png' }
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+
+			// WHEN generating assets
+			await generateAssets(mockConfig)
+
+			// THEN only head.html and browserconfig.xml should be written
+			expect(written('web/favicon.svg')).toBeUndefined()
+			expect(written('web/safari-pinned-tab.svg')).toBeUndefined()
+			expect(written('web/head.html')).toContain(
+				'href="/favicon-32x32.png" type="image/png" sizes="32x32"',
+			)
+			expect(written('web/browserconfig.xml')).toBeDefined()
+		})
+
+		it('should write only the startup image links without favicons', async () => {
+			// GIVEN web splash screens alone
+			mockConfig.assetTypes = ['splash']
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+
+			// WHEN generating assets
+			const result = await generateAssets(mockConfig)
+
+			// THEN every device should get light and dark images per orientation
+			expect(result.assets).toHaveLength(52)
+			expect(
+				result.assets.filter(a => a.spec.colorMode === 'dark'),
+			).toHaveLength(26)
+
+			// AND head.html should link them without the favicon tags
+			const head = written('web/head.html')
+			expect(head).toContain(
+				'<link rel="apple-touch-startup-image" href="/apple-splash-2532x1170.png"',
+			)
+			expect(head).not.toContain('favicon')
+			expect(written('web/browserconfig.xml')).toBeUndefined()
+		})
+	})
+
+	describe('social share images', () => {
+		it('should render each share image without a badge', async () => {
+			// GIVEN the social type with a badge
+			mockConfig.platforms = ['web']
+			mockConfig.assetTypes = ['social']
+			mockConfig.badge = { text: 'DEV' }
+			const { generateSocialImage } = await import(
+				'../../generators/social_generator'
+			)
+			const { applyBadge } = await import('../../generators/badge_generator')
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+
+			// WHEN generating assets
+			const result = await generateAssets(mockConfig)
+
+			// THEN the three images should come from the social generator
+			expect(result.assets.map(a => a.spec.name)).toEqual([
+				'web/og-image.png',
+				'web/twitter-card.png',
+				'web/social-square.png',
+			])
+			expect(generateSocialImage).toHaveBeenCalledWith(
+				expect.objectContaining({ appName: 'TestApp' }),
+				expect.objectContaining({ name: 'web/og-image.png' }),
+				'#FF5500',
+			)
+			expect(applyBadge).not.toHaveBeenCalled()
+		})
+	})
+
 	describe('new platform generation', () => {
 		it('should generate watchOS icons', async () => {
 			// GIVEN config with watchOS platform
@@ -1008,6 +2765,102 @@ describe('AssetGenerator', () => {
 		})
 	})
 
+	describe('desktop platforms', () => {
+		it('should clip macOS icons to a rounded body with a margin', async () => {
+			// GIVEN config with the macOS platform
+			mockConfig.platforms = ['macos']
+			const { generateBackground } = await import(
+				'../../generators/background_generator'
+			)
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+
+			// WHEN generating assets
+			const result = await generateAssets(mockConfig)
+
+			// THEN the 1024px background should cover the 824px body only
+			expect(result.success).toBe(true)
+			expect(generateBackground).toHaveBeenCalledWith(
+				mockConfig.background,
+				824,
+				824,
+			)
+		})
+
+		it('should write Contents.json and icon.icns for macOS', async () => {
+			// GIVEN config with the macOS platform
+			mockConfig.platforms = ['macos']
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+
+			// WHEN generating assets
+			await generateAssets(mockConfig)
+
+			// THEN Contents.json should use the mac idiom
+			const calls = (fs.writeFile as any).mock.calls
+			const contentsCall = calls.find((call: any[]) =>
+				call[0].includes('macos/AppIcon.appiconset/Contents.json'),
+			)
+			const images = JSON.parse(contentsCall[1]).images
+			expect(images).toHaveLength(10)
+			expect(images).toContainEqual({
+				filename: 'icon_512x512@2x.png',
+				idiom: 'mac',
+				scale: '2x',
+				size: '512x512',
+			})
+
+			// AND the icns should contain one chunk per icon
+			const icnsCall = calls.find((call: any[]) =>
+				call[0].endsWith('macos/icon.icns'),
+			)
+			expect(icnsCall[1].toString('ascii', 0, 4)).toBe('icns')
+		})
+
+		it('should pack every Windows frame into icon.ico', async () => {
+			// GIVEN config with the Windows platform
+			mockConfig.platforms = ['windows']
+			const { encode } = await import('sharp-ico')
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+
+			// WHEN generating assets
+			await generateAssets(mockConfig)
+
+			// THEN all 7 frames should be encoded into windows/icon.ico
+			expect((encode as any).mock.calls[0][0]).toHaveLength(7)
+			expect(fs.writeFile).toHaveBeenCalledWith(
+				'/output/windows/icon.ico',
+				expect.any(Buffer),
+			)
+		})
+
+		it('should name Linux icons and the .desktop file after the app', async () => {
+			// GIVEN config with the Linux platform
+			mockConfig.platforms = ['linux']
+			mockConfig.appName = 'Test App'
+			const { generateAssets } = await import(
+				'../../generators/asset_generator'
+			)
+
+			// WHEN generating assets
+			const result = await generateAssets(mockConfig)
+
+			// THEN icons should use the app id as the icon name
+			expect(result.assets.map(a => a.spec.name)).toContain(
+				'linux/hicolor/256x256/apps/test-app.png',
+			)
+			const desktopCall = (fs.writeFile as any).mock.calls.find(
+				(call: any[]) => call[0] === '/output/linux/test-app.desktop',
+			)
+			expect(desktopCall[1]).toContain('Name=Test App')
+			expect(desktopCall[1]).toContain('Icon=test-app')
+		})
+	})
+
 	describe('store scale', () => {
 		it('should use default store scale of 0.5', async () => {
 			// GIVEN config with store type, no custom scale
@@ -603,4 +603,54 @@ describe('ForegroundGenerator', () => {
 			expect(buffer).toBeInstanceOf(Buffer)
 		})
 	})
+
+	describe('createTextForegroundPath', () => {
+		it('should center the outline on the canvas', async () => {
+			// GIVEN a text config (mock outline is 100×50 above the baseline)
+			const { createTextForegroundPath } = await import(
+				'../../generators/foreground_generator'
+			)
+
+			// WHEN laying out the outline on a 200px canvas
+			const layout = await createTextForegroundPath(
+				{
+					text: 'A',
+					fontFamily: 'Roboto',
+					fontSource: 'google',
+					color: '#FFFFFF',
+				},
+				200,
+				200,
+			)
+
+			// THEN the outline should be offset to the center
+			expect(layout).toEqual({
+				pathData: 'M0 0 L100 0 L100 50 L0 50 Z',
+				offsetX: 50,
+				offsetY: 125,
+			})
+		})
+
+		it('should return null when the font cannot be loaded', async () => {
+			// GIVEN a system font that is not installed
+			const { createTextForegroundPath } = await import(
+				'../../generators/foreground_generator'
+			)
+
+			// WHEN laying out the outline
+			const layout = await createTextForegroundPath(
+				{
+					text: 'A',
+					fontFamily: 'Missing',
+					fontSource: 'system',
+					color: '#FFFFFF',
+				},
+				200,
+				200,
+			)
+
+			// THEN there should be no outline
+			expect(layout).toBeNull()
+		})
+	})
 })
@@ -14,7 +14,11 @@ vi.mock('sharp', () => {
 	const mockSharpInstance = {
 		resize: vi.fn().mockReturnThis(),
 		png: vi.fn().mockReturnThis(),
+		webp: vi.fn().mockReturnThis(),
+		avif: vi.fn().mockReturnThis(),
 		composite: vi.fn().mockReturnThis(),
+		removeAlpha: vi.fn().mockReturnThis(),
+		stats: vi.fn().mockResolvedValue({ isOpaque: true }),
 		toBuffer: vi.fn().mockResolvedValue(Buffer.from('mock-png-data')),
 	}
 
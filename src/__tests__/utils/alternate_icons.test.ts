@@ -0,0 +1,173 @@
+/**
+ * Tests for iOS alternate app icons.
+ *
+ * Tests spec generation per layout, per-icon config resolution and the
+ * Info.plist and Expo snippets.
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import type { AssetGeneratorConfig } from '../../types'
+import {
+	createAlternateIconSetContentsJson,
+	createAlternateIconsExpoConfig,
+	createAlternateIconsPlist,
+	getAlternateIconAssetSpecs,
+	resolveAlternateIconConfig,
+} from '../../utils/alternate_icons'
+
+const baseConfig: AssetGeneratorConfig = {
+	appName: 'TestApp',
+	platforms: ['ios'],
+	assetTypes: ['icon'],
+	background: { type: 'color', color: { type: 'solid', color: '#FFFFFF' } },
+	foreground: {
+		type: 'text',
+		text: 'T',
+		fontFamily: 'Roboto',
+		fontSource: 'google',
+		color: '#000000',
+	},
+	outputDir: '/output',
+	iconScale: 0.7,
+	splashScale: 0.25,
+	alternateIcons: [
+		{
+			name: 'Dark',
+			background: {
+				type: 'color',
+				color: { type: 'solid', color: '#000000' },
+			},
+			iconScale: 0.5,
+		},
+	],
+}
+
+describe('Alternate Icons', () => {
+	describe('getAlternateIconAssetSpecs', () => {
+		it('should generate one 1024px icon set image by default', () => {
+			// GIVEN a config with one alternate icon
+			// WHEN getting its specs
+			const specs = getAlternateIconAssetSpecs(baseConfig)
+
+			// THEN a single universal image should be generated in its icon set
+			expect(specs.map(spec => [spec.name, spec.width])).toEqual([
+				['ios/AppIcon-Dark.appiconset/icon-1024.png', 1024],
+			])
+		})
+
+		it('should generate @2x and @3x files for the files layout', () => {
+			// GIVEN the loose files layout
+			const config = { ...baseConfig, alternateIconLayout: 'files' as const }
+
+			// WHEN getting the specs
+			const specs = getAlternateIconAssetSpecs(config)
+
+			// THEN the 60pt home screen sizes should be generated
+			expect(specs.map(spec => [spec.name, spec.width])).toEqual([
+				['ios/AlternateIcons/Dark@2x.png', 120],
+				['ios/AlternateIcons/Dark@3x.png', 180],
+			])
+		})
+
+		it('should generate nothing without iOS icons', () => {
+			// GIVEN a config without iOS
+			const config = { ...baseConfig, platforms: ['android' as const] }
+
+			// WHEN getting the specs
+			// THEN no alternate icon should be generated
+			expect(getAlternateIconAssetSpecs(config)).toEqual([])
+		})
+	})
+
+	describe('resolveAlternateIconConfig', () => {
+		it('should apply the alternate icon layers and scale', () => {
+			// GIVEN an alternate icon file
+			const spec = { name: 'ios/AppIcon-Dark.appiconset/icon-1024.png' }
+
+			// WHEN resolving its config
+			const resolved = resolveAlternateIconConfig(baseConfig, spec)
+
+			// THEN its background and scale should replace the primary ones
+			expect(resolved.background).toBe(
+				baseConfig.alternateIcons?.[0]?.background,
+			)
+			expect(resolved.foreground).toBe(baseConfig.foreground)
+			expect(resolved.iconScale).toBe(0.5)
+		})
+
+		it('should return the config unchanged for other files', () => {
+			// GIVEN a primary icon file
+			const spec = { name: 'ios/icon-1024.png' }
+
+			// WHEN resolving its config
+			// THEN the same config should be returned
+			expect(resolveAlternateIconConfig(baseConfig, spec)).toBe(baseConfig)
+		})
+	})
+
+	describe('createAlternateIconSetContentsJson', () => {
+		it('should list a single universal 1024px image', () => {
+			// GIVEN an alternate icon set
+			// WHEN building its Contents.json
+			const contents = JSON.parse(createAlternateIconSetContentsJson())
+
+			// THEN it should reference icon-1024.png
+			expect(contents.images).toEqual([
+				{
+					filename: 'icon-1024.png',
+					idiom: 'universal',
+					platform: 'ios',
+					size: '1024x1024',
+				},
+			])
+		})
+	})
+
+	describe('createAlternateIconsPlist', () => {
+		it('should reference icon sets by name', () => {
+			// GIVEN the icon set layout
+			// WHEN building the Info.plist snippet
+			const plist = createAlternateIconsPlist(
+				baseConfig.alternateIcons ?? [],
+				'appiconset',
+			)
+
+			// THEN the icon should point at its icon set
+			expect(plist).toContain('<key>CFBundleAlternateIcons</key>')
+			expect(plist).toContain('<key>Dark</key>')
+			expect(plist).toContain('<string>AppIcon-Dark</string>')
+			expect(plist).not.toContain('CFBundleIconFiles')
+		})
+
+		it('should reference loose files by base name', () => {
+			// GIVEN the files layout
+			// WHEN building the Info.plist snippet
+			const plist = createAlternateIconsPlist(
+				baseConfig.alternateIcons ?? [],
+				'files',
+			)
+
+			// THEN the icon should list its file base name
+			expect(plist).toContain('<key>CFBundleIconFiles</key>')
+			expect(plist).toContain('<string>Dark</string>')
+		})
+	})
+
+	describe('createAlternateIconsExpoConfig', () => {
+		it('should declare every icon for the Expo plugin', () => {
+			// GIVEN one alternate icon
+			// WHEN building the Expo config
+			const expo = createAlternateIconsExpoConfig(
+				baseConfig.alternateIcons ?? [],
+			)
+
+			// THEN the plugin should list its source image
+			expect(expo).toContain('expo-alternate-app-icons')
+			expect(expo).toContain(
+				"{ name: 'Dark', ios: './assets/images/alternate-icons/Dark.png' }",
+			)
+			expect(expo).toContain("setAlternateAppIcon('Dark')")
+		})
+	})
+})
@@ -0,0 +1,213 @@
+/**
+ * Tests for Android res/ directory integration.
+ *
+ * Tests res directory discovery, colors.xml merging, and change reporting.
+ */
+
+import * as fs from 'node:fs/promises'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import {
+	installAndroidRes,
+	mergeColorsXml,
+	resolveAndroidResPath,
+} from '../../utils/android_res'
+
+const GENERATED_COLORS = `<?xml version="1.0" encoding="utf-8"?>
+<resources>
+    <color name="ic_launcher_background">#FF5500</color>
+</resources>
+`
+
+describe('AndroidRes', () => {
+	describe('mergeColorsXml', () => {
+		it('should append new colors and keep existing content', () => {
+			// GIVEN a project colors.xml with a comment and another color
+			const existing = `<?xml version="1.0" encoding="utf-8"?>
+<resources>
+    <!-- Brand -->
+    <color name="colorPrimary">#123456</color>
+</resources>
+`
+
+			// WHEN merging the generated colors
+			const merged = mergeColorsXml(existing, GENERATED_COLORS)
+
+			// THEN the launcher color should be added before </resources>
+			expect(merged).toBe(`<?xml version="1.0" encoding="utf-8"?>
+<resources>
+    <!-- Brand -->
+    <color name="colorPrimary">#123456</color>
+    <color name="ic_launcher_background">#FF5500</color>
+</resources>
+`)
+		})
+
+		it('should update an existing color in place', () => {
+			// GIVEN a project colors.xml with an outdated launcher color
+			const existing = `<resources>
+    <color name="ic_launcher_background">#000000</color>
+    <color name="colorPrimary">#123456</color>
+</resources>`
+
+			// WHEN merging the generated colors
+			const merged = mergeColorsXml(existing, GENERATED_COLORS)
+
+			// THEN only the launcher color value should change
+			expect(merged).toBe(`<resources>
+    <color name="ic_launcher_background">#FF5500</color>
+    <color name="colorPrimary">#123456</color>
+</resources>`)
+		})
+
+		it('should reject a file without a resources element', () => {
+			// GIVEN a malformed colors.xml
+			// WHEN merging
+			// THEN a descriptive error should be thrown
+			expect(() => mergeColorsXml('<resources>', GENERATED_COLORS)).toThrow(
+				/missing <\/resources>/,
+			)
+		})
+	})
+
+	describe('project files', () => {
+		let tempDir: string
+		let generatedDir: string
+
+		beforeEach(async () => {
+			tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'appicons-res-'))
+			generatedDir = path.join(tempDir, 'out', 'android')
+			await fs.mkdir(path.join(generatedDir, 'mipmap-hdpi'), {
+				recursive: true,
+			})
+			await fs.mkdir(path.join(generatedDir, 'drawable-hdpi'))
+			await fs.mkdir(path.join(generatedDir, 'values'))
+			await fs.writeFile(
+				path.join(generatedDir, 'mipmap-hdpi', 'ic_launcher.png'),
+				'png',
+			)
+			await fs.writeFile(
+				path.join(generatedDir, 'drawable-hdpi', 'splash.png'),
+				'splash',
+			)
+			await fs.writeFile(
+				path.join(generatedDir, 'values', 'colors.xml'),
+				GENERATED_COLORS,
+			)
+		})
+
+		afterEach(async () => {
+			await fs.rm(tempDir, { recursive: true, force: true })
+		})
+
+		it('should find android/app/src/main/res from a project root', async () => {
+			// GIVEN a React Native project layout
+			const resDir = path.join(tempDir, 'android', 'app', 'src', 'main', 'res')
+			await fs.mkdir(resDir, { recursive: true })
+
+			// WHEN resolving the project root
+			// THEN the app module's res directory should be found
+			expect(await resolveAndroidResPath(tempDir)).toBe(resDir)
+		})
+
+		it('should reject a directory without a res folder', async () => {
+			// GIVEN a directory that is not an Android project
+			// WHEN resolving it
+			// THEN a descriptive error should be thrown
+			await expect(
+				resolveAndroidResPath(path.join(tempDir, 'out')),
+			).rejects.toThrow(/No Android res directory found/)
+		})
+
+		it('should install mipmaps and colors.xml and report changes', async () => {
+			// GIVEN an empty res directory
+			const resDir = path.join(tempDir, 'res')
+			await fs.mkdir(resDir)
+
+			// WHEN installing
+			const changed = await installAndroidRes(generatedDir, resDir)
+
+			// THEN only mipmaps and colors.xml should be written
+			expect(changed).toEqual([
+				path.join(resDir, 'mipmap-hdpi', 'ic_launcher.png'),
+				path.join(resDir, 'values', 'colors.xml'),
+			])
+			await expect(
+				fs.stat(path.join(resDir, 'drawable-hdpi')),
+			).rejects.toThrow()
+		})
+
+		it('should install notification icons but not splash drawables', async () => {
+			// GIVEN a generated notification icon next to the legacy splash
+			const resDir = path.join(tempDir, 'res')
+			await fs.mkdir(resDir)
+			await fs.writeFile(
+				path.join(generatedDir, 'drawable-hdpi', 'ic_stat_notification.png'),
+				'stat',
+			)
+
+			// WHEN installing
+			const changed = await installAndroidRes(generatedDir, resDir)
+
+			// THEN only the notification icon should be copied from drawable-hdpi
+			expect(changed).toContain(
+				path.join(resDir, 'drawable-hdpi', 'ic_stat_notification.png'),
+			)
+			expect(await fs.readdir(path.join(resDir, 'drawable-hdpi'))).toEqual([
+				'ic_stat_notification.png',
+			])
+		})
+
+		it('should install vector layers and replace drawables of the same name', async () => {
+			// GIVEN a generated vector foreground and a project PNG of that name
+			const resDir = path.join(tempDir, 'res')
+			const png = path.join(resDir, 'drawable', 'ic_launcher_foreground.png')
+			await fs.mkdir(path.dirname(png), { recursive: true })
+			await fs.writeFile(png, 'png')
+			await fs.mkdir(path.join(generatedDir, 'drawable'))
+			await fs.writeFile(
+				path.join(generatedDir, 'drawable', 'ic_launcher_foreground.xml'),
+				'<vector/>',
+			)
+
+			// WHEN installing
+			const changed = await installAndroidRes(generatedDir, resDir)
+
+			// THEN the XML should replace the PNG
+			expect(changed).toContain(png)
+			expect(await fs.readdir(path.join(resDir, 'drawable'))).toEqual([
+				'ic_launcher_foreground.xml',
+			])
+		})
+
+		it('should report nothing when the project is up to date', async () => {
+			// GIVEN a res directory that already received the same files
+			const resDir = path.join(tempDir, 'res')
+			await fs.mkdir(resDir)
+			await installAndroidRes(generatedDir, resDir)
+
+			// WHEN installing again
+			const changed = await installAndroidRes(generatedDir, resDir)
+
+			// THEN no files should be reported
+			expect(changed).toEqual([])
+		})
+
+		it('should remove images that clash with installed resources', async () => {
+			// GIVEN a project with a WebP launcher icon (Expo prebuild default)
+			const resDir = path.join(tempDir, 'res')
+			const webp = path.join(resDir, 'mipmap-hdpi', 'ic_launcher.webp')
+			await fs.mkdir(path.dirname(webp), { recursive: true })
+			await fs.writeFile(webp, 'webp')
+
+			// WHEN installing the PNG launcher icon
+			const changed = await installAndroidRes(generatedDir, resDir)
+
+			// THEN the WebP should be removed to avoid duplicate resources
+			expect(changed).toContain(webp)
+			await expect(fs.stat(webp)).rejects.toThrow()
+		})
+	})
+})
@@ -0,0 +1,192 @@
+/**
+ * Tests for output directory archiving.
+ *
+ * Tests ZIP and tar.gz structure, determinism, and directory packaging.
+ */
+
+import * as fs from 'node:fs/promises'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { gunzipSync, inflateRawSync } from 'node:zlib'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import {
+	type ArchiveEntry,
+	createTarGz,
+	createZip,
+	getArchivePath,
+	isArchivePath,
+	writeArchive,
+} from '../../utils/archive'
+
+/**
+ * Reads entries back out of a ZIP buffer via its central directory.
+ */
+function readZip(zip: Buffer): ArchiveEntry[] {
+	const endOffset = zip.length - 22
+	const count = zip.readUInt16LE(endOffset + 10)
+	let offset = zip.readUInt32LE(endOffset + 16)
+	const entries: ArchiveEntry[] = []
+
+	for (let i = 0; i < count; i++) {
+		const method = zip.readUInt16LE(offset + 10)
+		const compressedSize = zip.readUInt32LE(offset + 20)
+		const nameLength = zip.readUInt16LE(offset + 28)
+		const localOffset = zip.readUInt32LE(offset + 42)
+		const name = zip.toString('utf8', offset + 46, offset + 46 + nameLength)
+
+		const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26)
+		const body = zip.subarray(dataStart, dataStart + compressedSize)
+		entries.push({ name, data: method === 8 ? inflateRawSync(body) : body })
+
+		offset += 46 + nameLength
+	}
+
+	return entries
+}
+
+describe('Archive', () => {
+	const entries: ArchiveEntry[] = [
+		{ name: 'out/README.md', data: Buffer.from('# Instructions\n'.repeat(20)) },
+		{ name: 'out/web/favicon.ico', data: Buffer.from([0, 1, 2, 3]) },
+	]
+
+	describe('createZip', () => {
+		it('should round-trip entries through the central directory', () => {
+			// GIVEN a compressible and an incompressible entry
+			// WHEN creating a ZIP
+			const zip = createZip(entries)
+
+			// THEN both entries should be recoverable byte-for-byte
+			expect(zip.readUInt32LE(0)).toBe(0x04034b50)
+			expect(readZip(zip)).toEqual(entries)
+		})
+
+		it('should produce identical bytes for identical input', () => {
+			// GIVEN the same entries zipped twice
+			// WHEN comparing the output
+			// THEN the archives should be byte-identical
+			expect(createZip(entries).equals(createZip(entries))).toBe(true)
+		})
+
+		it('should write a valid empty archive', () => {
+			// GIVEN no entries
+			// WHEN creating a ZIP
+			const zip = createZip([])
+
+			// THEN only the end-of-central-directory record should be written
+			expect(zip.length).toBe(22)
+			expect(zip.readUInt32LE(0)).toBe(0x06054b50)
+		})
+	})
+
+	describe('createTarGz', () => {
+		it('should write ustar headers followed by padded data', () => {
+			// GIVEN entries to package
+			// WHEN creating a tarball
+			const tar = gunzipSync(createTarGz(entries))
+
+			// THEN the first header should describe the first entry
+			expect(tar.toString('utf8', 0, 13)).toBe('out/README.md')
+			expect(tar.toString('ascii', 257, 262)).toBe('ustar')
+			expect(Number.parseInt(tar.toString('ascii', 124, 135), 8)).toBe(
+				entries[0]!.data.length,
+			)
+			expect(tar.length % 512).toBe(0)
+		})
+
+		it('should split long paths into the prefix field', () => {
+			// GIVEN a path longer than 100 bytes
+			const name = `${'nested/'.repeat(20)}icon.png`
+			const tar = gunzipSync(createTarGz([{ name, data: Buffer.from('x') }]))
+
+			// WHEN reading the header name and prefix fields
+			const storedName = tar.toString('utf8', 0, 100).replace(/\0.*$/s, '')
+			const storedPrefix = tar.toString('utf8', 345, 500).replace(/\0.*$/s, '')
+
+			// THEN joining them should restore the original path
+			expect(`${storedPrefix}/${storedName}`).toBe(name)
+		})
+
+		it('should produce identical bytes for identical input', () => {
+			// GIVEN the same entries packaged twice
+			// WHEN comparing the output
+			// THEN the archives should be byte-identical
+			expect(createTarGz(entries).equals(createTarGz(entries))).toBe(true)
+		})
+	})
+
+	describe('getArchivePath', () => {
+		it('should place the archive inside the output directory', () => {
+			// GIVEN an output directory with a trailing slash
+			// WHEN resolving archive paths
+			// THEN the archive should be named inside the directory
+			expect(getArchivePath('/tmp/icons/', 'zip')).toBe(
+				'/tmp/icons/appicons.zip',
+			)
+			expect(getArchivePath('/tmp/icons', 'tar.gz')).toBe(
+				'/tmp/icons/appicons.tar.gz',
+			)
+		})
+	})
+
+	describe('isArchivePath', () => {
+		it('should only match archives at the top of the output', () => {
+			// GIVEN archive and nested paths
+			// WHEN checking them
+			// THEN only top-level archives should match
+			expect(isArchivePath('appicons.zip')).toBe(true)
+			expect(isArchivePath('appicons.tar.gz')).toBe(true)
+			expect(isArchivePath('web/appicons.zip')).toBe(false)
+			expect(isArchivePath('README.md')).toBe(false)
+		})
+	})
+
+	describe('writeArchive', () => {
+		let tempDir: string
+
+		beforeEach(async () => {
+			tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'appicons-archive-'))
+		})
+
+		afterEach(async () => {
+			await fs.rm(tempDir, { recursive: true, force: true })
+		})
+
+		it('should package the directory rooted at its name', async () => {
+			// GIVEN an output directory with nested files
+			const outputDir = path.join(tempDir, 'generated')
+			await fs.mkdir(path.join(outputDir, 'web'), { recursive: true })
+			await fs.writeFile(path.join(outputDir, 'web', 'icon.png'), 'png')
+			await fs.writeFile(path.join(outputDir, 'README.md'), 'readme')
+
+			// WHEN writing a ZIP archive
+			const archivePath = await writeArchive(outputDir, 'zip')
+
+			// THEN entries should be sorted and prefixed with the folder name
+			expect(archivePath).toBe(path.join(outputDir, 'appicons.zip'))
+			const zip = await fs.readFile(archivePath)
+			expect(readZip(zip).map(entry => entry.name)).toEqual([
+				'generated/README.md',
+				'generated/web/icon.png',
+			])
+		})
+
+		it('should leave archives out of each other', async () => {
+			// GIVEN an output directory with archives from an earlier run
+			const outputDir = path.join(tempDir, 'generated')
+			await fs.mkdir(outputDir)
+			await fs.writeFile(path.join(outputDir, 'README.md'), 'readme')
+			await fs.writeFile(path.join(outputDir, 'appicons.zip'), 'old')
+			await fs.writeFile(path.join(outputDir, 'appicons.tar.gz'), 'old')
+
+			// WHEN writing a ZIP archive
+			const zip = await fs.readFile(await writeArchive(outputDir, 'zip'))
+
+			// THEN only the other files should be packaged
+			expect(readZip(zip).map(entry => entry.name)).toEqual([
+				'generated/README.md',
+			])
+		})
+	})
+})
@@ -0,0 +1,129 @@
+/**
+ * Tests for environment badge layout.
+ *
+ * Tests safe zone selection, layout boxes and the generated SVG overlay.
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import type { AssetSpec } from '../../types'
+import {
+	createBadgeSvg,
+	getBadgeBox,
+	getBadgeSafeZone,
+} from '../../utils/badge'
+import {
+	ANDROID_ADAPTIVE_MAX_SCALE,
+	WEB_MASKABLE_MAX_SCALE,
+} from '../../utils/safe_zone_validation'
+
+const spec = (overrides: Partial<AssetSpec>): AssetSpec => ({
+	platform: 'ios',
+	type: 'icon',
+	name: 'ios/icon-1024.png',
+	width: 1024,
+	height: 1024,
+	...overrides,
+})
+
+const SQUARE = { scale: 1, circular: false }
+const LABEL = { pathData: 'M0 0L100 0L100 50Z', x1: 0, y1: -50, x2: 100, y2: 0 }
+
+describe('Badge', () => {
+	describe('getBadgeSafeZone', () => {
+		it('should use circular safe zones for masked icons', () => {
+			// GIVEN adaptive, maskable and square icons
+			// WHEN selecting their safe zones
+			// THEN masked icons should use the platform safe zone
+			expect(
+				getBadgeSafeZone(
+					spec({
+						platform: 'android',
+						type: 'adaptive',
+						name: 'android/mipmap-xxxhdpi/ic_launcher_foreground.png',
+					}),
+				),
+			).toEqual({ scale: ANDROID_ADAPTIVE_MAX_SCALE, circular: true })
+			expect(
+				getBadgeSafeZone(
+					spec({ platform: 'web', name: 'web/icon-maskable-512x512.png' }),
+				),
+			).toEqual({ scale: WEB_MASKABLE_MAX_SCALE, circular: true })
+			expect(getBadgeSafeZone(spec({}))).toEqual(SQUARE)
+		})
+	})
+
+	describe('getBadgeBox', () => {
+		it('should keep corner badges inside the inscribed square', () => {
+			// GIVEN a circular safe zone covering 80% of the canvas
+			const zone = { scale: 0.8, circular: true }
+
+			// WHEN laying out a corner badge and a ribbon
+			const corner = getBadgeBox(1000, 1000, zone, 'corner')
+			const ribbon = getBadgeBox(1000, 1000, zone, 'ribbon')
+
+			// THEN the corner should fit the inscribed square and the ribbon
+			// the circle's bounding box
+			expect(corner.width).toBeCloseTo(800 / Math.SQRT2)
+			expect(corner.x).toBeCloseTo((1000 - 800 / Math.SQRT2) / 2)
+			expect(ribbon).toEqual({ x: 100, y: 100, width: 800, height: 800 })
+		})
+	})
+
+	describe('createBadgeSvg', () => {
+		it('should mirror the ribbon into the requested corner', () => {
+			// GIVEN a top-right ribbon on a square icon
+			// WHEN building the overlay
+			const svg = createBadgeSvg(
+				{ text: 'DEV', position: 'top-right' },
+				100,
+				100,
+				SQUARE,
+				LABEL,
+			)
+
+			// THEN the band should start at the right edge and the label
+			// should run down to the right
+			expect(svg).toContain('points="70.00,0.00 47.37,0.00 100.00,52.63')
+			expect(svg).toContain('rotate(45)')
+			expect(svg).toContain('fill="#E5484D"')
+			expect(svg).not.toContain('clip-path')
+		})
+
+		it('should clip ribbons and banners to circular safe zones', () => {
+			// GIVEN a banner on an adaptive foreground layer
+			const zone = { scale: 0.61, circular: true }
+
+			// WHEN building the overlay
+			const svg = createBadgeSvg(
+				{ text: 'QA', style: 'banner', color: '#000000' },
+				432,
+				432,
+				zone,
+				LABEL,
+			)
+
+			// THEN the banner should be clipped to the safe zone circle
+			expect(svg).toContain('<clipPath id="badge-safe-zone">')
+			expect(svg).toContain('r="131.76"')
+			expect(svg).toContain('<g clip-path="url(#badge-safe-zone)">')
+			expect(svg).toContain('fill="#000000"')
+		})
+
+		it('should fall back to escaped SVG text without a traced label', () => {
+			// GIVEN no font outline
+			// WHEN building a corner badge
+			const svg = createBadgeSvg(
+				{ text: 'R&D', style: 'corner', textColor: '#111111' },
+				100,
+				100,
+				SQUARE,
+				null,
+			)
+
+			// THEN the label should be rendered as text
+			expect(svg).toContain('rx="11.00"')
+			expect(svg).toContain('fill="#111111">R&amp;D</text>')
+		})
+	})
+})
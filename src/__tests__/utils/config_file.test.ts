@@ -0,0 +1,543 @@
+/**
+ * Tests for project configuration file support.
+ *
+ * Tests layer merging, schema validation with field-level errors,
+ * config file discovery, and relative path resolution.
+ */
+
+import * as fs from 'node:fs/promises'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import {
+	DEFAULT_CONFIG,
+	findConfigFile,
+	loadConfigFile,
+	mergeConfigLayers,
+	resolveConfig,
+	validateConfig,
+} from '../../utils/config_file'
+
+describe('ConfigFile', () => {
+	const defaults = { ...DEFAULT_CONFIG, outputDir: '/output' }
+
+	describe('validateConfig', () => {
+		it('should accept the default configuration', () => {
+			// GIVEN the built-in defaults with an output directory
+			// WHEN validating
+			const result = validateConfig(defaults)
+
+			// THEN the config should be valid
+			expect(result.success).toBe(true)
+		})
+
+		it('should name the exact field of a nested error', () => {
+			// GIVEN a gradient with an invalid second color stop
+			const input = {
+				...defaults,
+				background: {
+					type: 'gradient',
+					gradient: { type: 'linear', colors: ['#FFFFFF', 'blue'] },
+				},
+			}
+
+			// WHEN validating
+			const result = validateConfig(input)
+
+			// THEN the error should point at the offending stop
+			expect(result.success).toBe(false)
+			if (!result.success) {
+				expect(result.errors).toHaveLength(1)
+				expect(result.errors[0]).toMatch(/^background\.gradient\.colors\[1\]:/)
+			}
+		})
+
+		it('should reject unknown keys', () => {
+			// GIVEN a config with a misspelled key
+			const input = { ...defaults, iconscale: 0.5 }
+
+			// WHEN validating
+			const result = validateConfig(input)
+
+			// THEN the typo should be reported
+			expect(result.success).toBe(false)
+			if (!result.success) {
+				expect(result.errors[0]).toContain('iconscale')
+			}
+		})
+
+		it('should report one message for an invalid platform', () => {
+			// GIVEN a config with an unknown platform
+			const input = { ...defaults, platforms: ['ios', 'androd'] }
+
+			// WHEN validating
+			const result = validateConfig(input)
+
+			// THEN a single "one of" error should be reported for that entry
+			expect(result.success).toBe(false)
+			if (!result.success) {
+				expect(result.errors).toEqual([
+					'platforms[1]: Expected one of: ios, android, web, watchos, tvos, visionos, macos, windows, linux, actual "androd"',
+				])
+			}
+		})
+
+		it('should reject scales outside the documented range', () => {
+			// GIVEN an icon scale above 1.5
+			const input = { ...defaults, iconScale: 2 }
+
+			// WHEN validating
+			const result = validateConfig(input)
+
+			// THEN the scale field should be reported
+			expect(result.success).toBe(false)
+			if (!result.success) {
+				expect(result.errors[0]).toMatch(/^iconScale:/)
+			}
+		})
+
+		it('should require the path matching the foreground type', () => {
+			// GIVEN an SVG foreground without svgPath
+			const input = { ...defaults, foreground: { type: 'svg' } }
+
+			// WHEN validating
+			const result = validateConfig(input)
+
+			// THEN svgPath should be reported missing
+			expect(result.success).toBe(false)
+			if (!result.success) {
+				expect(result.errors).toEqual(['foreground.svgPath: is missing'])
+			}
+		})
+
+		it('should validate override layers and scales', () => {
+			// GIVEN a favicon override with an invalid scale and color
+			const input = {
+				...defaults,
+				overrides: {
+					'web/favicon-*.png': {
+						background: {
+							type: 'color',
+							color: { type: 'solid', color: 'red' },
+						},
+						scale: 2,
+					},
+				},
+			}
+
+			// WHEN validating
+			const result = validateConfig(input)
+
+			// THEN both errors should name the override key
+			expect(result.success).toBe(false)
+			if (!result.success) {
+				expect(result.errors).toHaveLength(2)
+				expect(result.errors[0]).toMatch(
+					/^overrides\.web\/favicon-\*\.png\.background\.color\.color:/,
+				)
+				expect(result.errors[1]).toMatch(
+					/^overrides\.web\/favicon-\*\.png\.scale:/,
+				)
+			}
+		})
+
+		it('should reject variant names that are not Gradle flavors', () => {
+			// GIVEN a variant named with a dash
+			const input = { ...defaults, variants: { 'dev-1': {} } }
+
+			// WHEN validating
+			const result = validateConfig(input)
+
+			// THEN the variant key should be reported
+			expect(result.success).toBe(false)
+			if (!result.success) {
+				expect(result.errors[0]).toMatch(/^variants\.dev-1:/)
+			}
+		})
+
+		it('should reject duplicate alternate icon names', () => {
+			// GIVEN two alternate icons with the same name
+			const input = {
+				...defaults,
+				alternateIcons: [{ name: 'Dark' }, { name: 'Dark', iconScale: 0.5 }],
+			}
+
+			// WHEN validating
+			const result = validateConfig(input)
+
+			// THEN the second name should be reported
+			expect(result.success).toBe(false)
+			if (!result.success) {
+				expect(result.errors[0]).toMatch(/^alternateIcons\[1\]\.name:/)
+			}
+		})
+
+		it('should require fontPath for custom fonts', () => {
+			// GIVEN a custom font source without a font path
+			const input = {
+				...defaults,
+				foreground: { ...DEFAULT_CONFIG.foreground, fontSource: 'custom' },
+			}
+
+			// WHEN validating
+			const result = validateConfig(input)
+
+			// THEN fontPath should be reported
+			expect(result.success).toBe(false)
+			if (!result.success) {
+				expect(result.errors[0]).toMatch(/^foreground\.fontPath:/)
+			}
+		})
+
+		it('should reject unknown manifest display modes', () => {
+			// GIVEN a shortcut and a misspelled display mode
+			const input = {
+				...defaults,
+				manifest: {
+					display: 'fullscreen',
+					displayOverride: ['tabbed', 'window'],
+					shortcuts: [{ name: 'New', url: '/new' }],
+				},
+			}
+
+			// WHEN validating
+			const result = validateConfig(input)
+
+			// THEN only the invalid entry should be reported
+			expect(result.success).toBe(false)
+			if (!result.success) {
+				expect(result.errors).toHaveLength(1)
+				expect(result.errors[0]).toMatch(/^manifest\.displayOverride\[1\]:/)
+			}
+		})
+	})
+
+	describe('mergeConfigLayers', () => {
+		it('should let later layers override scalar keys', () => {
+			// GIVEN defaults, a file layer, and a CLI layer
+			const merged = mergeConfigLayers([
+				defaults,
+				{ appName: 'FromFile', iconScale: 0.6 },
+				{ appName: 'FromCli' },
+			])
+
+			// THEN the CLI value should win and untouched keys should persist
+			expect(merged.appName).toBe('FromCli')
+			expect(merged.iconScale).toBe(0.6)
+		})
+
+		it('should merge same-type background fields', () => {
+			// GIVEN a gradient file layer and a CLI angle override
+			const merged = mergeConfigLayers([
+				defaults,
+				{
+					background: {
+						type: 'gradient',
+						gradient: { type: 'radial', colors: ['#000000', '#FFFFFF'] },
+					},
+				},
+				{ background: { gradient: { angle: 45 } } },
+			])
+
+			// THEN the gradient should keep file colors and take the new angle
+			expect(merged.background).toEqual({
+				type: 'gradient',
+				gradient: {
+					type: 'radial',
+					colors: ['#000000', '#FFFFFF'],
+					angle: 45,
+				},
+			})
+		})
+
+		it('should start from type defaults when the type changes', () => {
+			// GIVEN a text foreground overridden with an SVG
+			const merged = mergeConfigLayers([
+				defaults,
+				{ foreground: { type: 'svg', svgPath: '/logo.svg' } },
+			])
+
+			// THEN no text fields should leak into the SVG foreground
+			expect(merged.foreground).toEqual({ type: 'svg', svgPath: '/logo.svg' })
+		})
+
+		it('should merge dark overrides with the file layer', () => {
+			// GIVEN a file with a dark gradient and a CLI dark color
+			const result = resolveConfig([
+				defaults,
+				{ background: { dark: { gradientColors: ['#000000', '#111111'] } } },
+				{ background: { dark: { color: '#0B0B0F' } } },
+			])
+
+			// THEN both dark fields should be kept
+			expect(result.success).toBe(true)
+			if (result.success) {
+				expect(result.config.background.dark).toEqual({
+					gradientColors: ['#000000', '#111111'],
+					color: '#0B0B0F',
+				})
+			}
+		})
+
+		it('should merge badge fields from the CLI into the file badge', () => {
+			// GIVEN a file badge with a style and a CLI badge text
+			const result = resolveConfig([
+				defaults,
+				{ badge: { text: 'DEV', style: 'banner', color: '#0066FF' } },
+				{ badge: { text: 'STAGING' } },
+			])
+
+			// THEN the CLI text should replace only the text
+			expect(result.success).toBe(true)
+			if (result.success) {
+				expect(result.config.badge).toEqual({
+					text: 'STAGING',
+					style: 'banner',
+					color: '#0066FF',
+				})
+			}
+		})
+
+		it('should merge the CLI tagline into the file social fields', () => {
+			// GIVEN a file social font and a CLI tagline
+			const result = resolveConfig([
+				defaults,
+				{ social: { tagline: 'Old', fontFamily: 'Lato' } },
+				{ social: { tagline: 'New' } },
+			])
+
+			// THEN only the tagline should be replaced
+			expect(result.success).toBe(true)
+			if (result.success) {
+				expect(result.config.social).toEqual({
+					tagline: 'New',
+					fontFamily: 'Lato',
+				})
+			}
+		})
+
+		it('should fill gradient defaults when switching to gradient', () => {
+			// GIVEN only a gradient type override
+			const result = resolveConfig([
+				defaults,
+				{ background: { type: 'gradient' } },
+			])
+
+			// THEN the default gradient should be used
+			expect(result.success).toBe(true)
+			if (result.success) {
+				expect(result.config.background.gradient?.colors).toHaveLength(2)
+			}
+		})
+	})
+
+	describe('config files', () => {
+		let tempDir: string
+
+		beforeEach(async () => {
+			tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'appicons-config-'))
+		})
+
+		afterEach(async () => {
+			await fs.rm(tempDir, { recursive: true, force: true })
+		})
+
+		it('should find appicons.config.json in the directory', async () => {
+			// GIVEN a directory with a JSON config file
+			const configPath = path.join(tempDir, 'appicons.config.json')
+			await fs.writeFile(configPath, '{}')
+
+			// WHEN searching for a config file
+			const found = await findConfigFile(tempDir)
+
+			// THEN the JSON file should be found
+			expect(found).toBe(configPath)
+		})
+
+		it('should return undefined when no config file exists', async () => {
+			// GIVEN an empty directory
+			// WHEN searching for a config file
+			const found = await findConfigFile(tempDir)
+
+			// THEN nothing should be found
+			expect(found).toBeUndefined()
+		})
+
+		it('should resolve relative paths against the config directory', async () => {
+			// GIVEN a config with relative foreground and output paths
+			const configPath = path.join(tempDir, 'appicons.config.json')
+			await fs.writeFile(
+				configPath,
+				JSON.stringify({
+					$schema: './schema.json',
+					foreground: { type: 'svg', svgPath: './brand/logo.svg' },
+					outputDir: 'assets/icons',
+				}),
+			)
+
+			// WHEN loading the file
+			const layer = await loadConfigFile(configPath)
+
+			// THEN paths should be absolute and $schema dropped
+			expect(layer.foreground).toEqual({
+				type: 'svg',
+				svgPath: path.join(tempDir, 'brand/logo.svg'),
+			})
+			expect(layer.outputDir).toBe(path.join(tempDir, 'assets/icons'))
+			expect(layer).not.toHaveProperty('$schema')
+		})
+
+		it('should resolve override paths against the config directory', async () => {
+			// GIVEN a config with a relative SVG in a splash override
+			const configPath = path.join(tempDir, 'appicons.config.json')
+			await fs.writeFile(
+				configPath,
+				JSON.stringify({
+					overrides: {
+						splash: { foreground: { type: 'svg', svgPath: 'wordmark.svg' } },
+					},
+				}),
+			)
+
+			// WHEN loading the file
+			const layer = await loadConfigFile(configPath)
+
+			// THEN the override path should be absolute
+			expect(layer.overrides?.splash?.foreground).toEqual({
+				type: 'svg',
+				svgPath: path.join(tempDir, 'wordmark.svg'),
+			})
+		})
+
+		it('should resolve variant paths against the config directory', async () => {
+			// GIVEN a variant with a relative foreground SVG
+			const configPath = path.join(tempDir, 'appicons.config.json')
+			await fs.writeFile(
+				configPath,
+				JSON.stringify({
+					variants: {
+						dev: { foreground: { type: 'svg', svgPath: 'dev.svg' } },
+					},
+				}),
+			)
+
+			// WHEN loading the file
+			const layer = await loadConfigFile(configPath)
+
+			// THEN the variant path should be absolute
+			expect(layer.variants?.dev?.foreground).toEqual({
+				type: 'svg',
+				svgPath: path.join(tempDir, 'dev.svg'),
+			})
+		})
+
+		it('should resolve alternate icon paths against the config directory', async () => {
+			// GIVEN an alternate icon with a relative foreground SVG
+			const configPath = path.join(tempDir, 'appicons.config.json')
+			await fs.writeFile(
+				configPath,
+				JSON.stringify({
+					alternateIcons: [
+						{ name: 'Gold', foreground: { type: 'svg', svgPath: 'gold.svg' } },
+					],
+				}),
+			)
+
+			// WHEN loading the file
+			const layer = await loadConfigFile(configPath)
+
+			// THEN the alternate icon path should be absolute
+			expect(layer.alternateIcons?.[0]?.foreground).toEqual({
+				type: 'svg',
+				svgPath: path.join(tempDir, 'gold.svg'),
+			})
+		})
+
+		it('should resolve the social font path against the config directory', async () => {
+			// GIVEN social text in a relative custom font
+			const configPath = path.join(tempDir, 'appicons.config.json')
+			await fs.writeFile(
+				configPath,
+				JSON.stringify({
+					social: { fontSource: 'custom', fontPath: 'fonts/Brand.ttf' },
+				}),
+			)
+
+			// WHEN loading the file
+			const layer = await loadConfigFile(configPath)
+
+			// THEN the font path should be absolute
+			expect(layer.social?.fontPath).toBe(path.join(tempDir, 'fonts/Brand.ttf'))
+		})
+
+		it('should resolve manifest paths against the config directory', async () => {
+			// GIVEN a merge target and a shortcut with a relative icon
+			const configPath = path.join(tempDir, 'appicons.config.json')
+			await fs.writeFile(
+				configPath,
+				JSON.stringify({
+					manifestMergePath: 'public',
+					manifest: {
+						shortcuts: [
+							{
+								name: 'Search',
+								url: '/search',
+								foreground: { type: 'svg', svgPath: 'search.svg' },
+							},
+						],
+					},
+				}),
+			)
+
+			// WHEN loading the file
+			const layer = await loadConfigFile(configPath)
+
+			// THEN both paths should be absolute
+			expect(layer.manifestMergePath).toBe(path.join(tempDir, 'public'))
+			expect(layer.manifest?.shortcuts?.[0]?.foreground).toEqual({
+				type: 'svg',
+				svgPath: path.join(tempDir, 'search.svg'),
+			})
+		})
+
+		it('should resolve dark image paths against the config directory', async () => {
+			// GIVEN a config with relative dark background and foreground images
+			const configPath = path.join(tempDir, 'appicons.config.json')
+			await fs.writeFile(
+				configPath,
+				JSON.stringify({
+					background: { type: 'color', dark: { imagePath: 'bg-dark.png' } },
+					foreground: {
+						type: 'image',
+						imagePath: 'logo.png',
+						dark: { imagePath: 'logo-dark.png' },
+					},
+				}),
+			)
+
+			// WHEN loading the file
+			const layer = await loadConfigFile(configPath)
+
+			// THEN the dark paths should be absolute too
+			expect(layer.background?.dark?.imagePath).toBe(
+				path.join(tempDir, 'bg-dark.png'),
+			)
+			expect(layer.foreground).toMatchObject({
+				dark: { imagePath: path.join(tempDir, 'logo-dark.png') },
+			})
+		})
+
+		it('should throw a descriptive error for invalid JSON', async () => {
+			// GIVEN a malformed JSON file
+			const configPath = path.join(tempDir, 'appicons.config.json')
+			await fs.writeFile(configPath, '{ "appName": ')
+
+			// WHEN loading the file
+			// THEN the error should mention the file
+			await expect(loadConfigFile(configPath)).rejects.toThrow(
+				/Invalid JSON in .*appicons\.config\.json/,
+			)
+		})
+	})
+})
@@ -0,0 +1,82 @@
+/**
+ * Tests for the console generation reporter.
+ *
+ * Tests progress lines, path shortening, quiet mode, and error output.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import type { GeneratedAsset } from '../../types'
+import { createConsoleReporter } from '../../utils/console_reporter'
+
+const asset: GeneratedAsset = {
+	spec: {
+		name: 'ios/icon-60@2x.png',
+		width: 120,
+		height: 120,
+		platform: 'ios',
+		type: 'icon',
+	},
+	buffer: Buffer.from('png'),
+	path: '/output/ios/icon-60@2x.png',
+}
+
+describe('Console Reporter', () => {
+	let log: ReturnType<typeof vi.spyOn>
+	let error: ReturnType<typeof vi.spyOn>
+	let warn: ReturnType<typeof vi.spyOn>
+
+	beforeEach(() => {
+		log = vi.spyOn(console, 'log').mockImplementation(() => {})
+		error = vi.spyOn(console, 'error').mockImplementation(() => {})
+		warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+	})
+
+	afterEach(() => {
+		vi.restoreAllMocks()
+	})
+
+	it('should announce a rendered asset only once', () => {
+		// GIVEN a reporter for /output
+		const reporter = createConsoleReporter('/output')
+
+		// WHEN the asset is rendered and then written to disk
+		reporter.onAssetDone?.(asset, 0, 1)
+		reporter.onFileWritten?.(asset.path)
+
+		// THEN a single line should be printed
+		expect(log).toHaveBeenCalledTimes(1)
+		expect(log).toHaveBeenCalledWith('✓ Generated ios/icon-60@2x.png')
+	})
+
+	it('should print other files relative to the output directory', () => {
+		// GIVEN a reporter for /output
+		const reporter = createConsoleReporter('/output')
+
+		// WHEN files inside and outside the output directory are written
+		reporter.onFileWritten?.('/output/web/site.webmanifest')
+		reporter.onFileWritten?.('/output.zip')
+
+		// THEN inner paths should be relative and outer paths absolute
+		expect(log).toHaveBeenCalledWith('✓ Generated web/site.webmanifest')
+		expect(log).toHaveBeenCalledWith('✓ Generated /output.zip')
+	})
+
+	it('should only print errors and warnings when quiet', () => {
+		// GIVEN a quiet reporter
+		const reporter = createConsoleReporter('/output', { quiet: true })
+
+		// WHEN reporting progress, an error, and a warning
+		reporter.onAssetDone?.(asset, 0, 1)
+		reporter.onFileWritten?.('/output/README.md')
+		reporter.onError?.('Failed to generate ios/icon-1024.png: boom')
+		reporter.onWarning?.('Failed to save to history')
+
+		// THEN only the error and warning should reach the console
+		expect(log).not.toHaveBeenCalled()
+		expect(error).toHaveBeenCalledWith(
+			'✗ Failed to generate ios/icon-1024.png: boom',
+		)
+		expect(warn).toHaveBeenCalledWith('Warning: Failed to save to history')
+	})
+})
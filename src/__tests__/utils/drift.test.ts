@@ -0,0 +1,172 @@
+/**
+ * Tests for output directory drift checks.
+ *
+ * Tests missing, extra and different detection against a real directory,
+ * including pixel-level comparison of PNG and WebP images.
+ */
+
+import * as fs from 'node:fs/promises'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import sharp from 'sharp'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { compareOutputFiles } from '../../utils/drift'
+
+// Pixel comparison needs real PNG decoding.
+vi.unmock('sharp')
+
+/**
+ * Creates a solid-color 4x4 PNG.
+ */
+function createPng(
+	color: { r: number; g: number; b: number },
+	compressionLevel = 6,
+): Promise<Buffer> {
+	return sharp({
+		create: { width: 4, height: 4, channels: 4, background: color },
+	})
+		.png({ compressionLevel })
+		.toBuffer()
+}
+
+describe('Drift', () => {
+	let outputDir: string
+
+	beforeEach(async () => {
+		outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'appicons-drift-'))
+	})
+
+	afterEach(async () => {
+		await fs.rm(outputDir, { recursive: true, force: true })
+	})
+
+	describe('compareOutputFiles', () => {
+		it('should report nothing when every file matches', async () => {
+			// GIVEN an output directory holding exactly the expected files
+			const icon = await createPng({ r: 255, g: 85, b: 0 })
+			await fs.mkdir(path.join(outputDir, 'web'))
+			await fs.writeFile(path.join(outputDir, 'web', 'icon.png'), icon)
+			await fs.writeFile(path.join(outputDir, 'README.md'), '# Icons')
+			// Hidden files are never reported as extra
+			await fs.writeFile(path.join(outputDir, '.DS_Store'), '')
+
+			// WHEN comparing
+			const drift = await compareOutputFiles(
+				new Map([
+					['web/icon.png', icon],
+					['README.md', Buffer.from('# Icons')],
+				]),
+				outputDir,
+			)
+
+			// THEN there should be no drift
+			expect(drift).toEqual([])
+		})
+
+		it('should report missing and extra files sorted by path', async () => {
+			// GIVEN a stale file on disk and a new file that was never generated
+			await fs.writeFile(path.join(outputDir, 'old.png'), 'old')
+
+			// WHEN comparing
+			const drift = await compareOutputFiles(
+				new Map([['README.md', Buffer.from('# Icons')]]),
+				outputDir,
+			)
+
+			// THEN both should be listed
+			expect(drift).toEqual([
+				{ path: 'old.png', status: 'extra' },
+				{ path: 'README.md', status: 'missing' },
+			])
+		})
+
+		it('should treat a missing output directory as all files missing', async () => {
+			// GIVEN an output directory that does not exist
+			// WHEN comparing
+			const drift = await compareOutputFiles(
+				new Map([['README.md', Buffer.from('# Icons')]]),
+				path.join(outputDir, 'nope'),
+			)
+
+			// THEN every expected file should be missing
+			expect(drift).toEqual([{ path: 'README.md', status: 'missing' }])
+		})
+
+		it('should tell pixel changes from encoding changes', async () => {
+			// GIVEN one PNG with other pixels and one re-encoded with the same pixels
+			const expected = await createPng({ r: 255, g: 85, b: 0 })
+			await fs.writeFile(
+				path.join(outputDir, 'recolored.png'),
+				await createPng({ r: 0, g: 85, b: 255 }),
+			)
+			await fs.writeFile(
+				path.join(outputDir, 'reencoded.png'),
+				await createPng({ r: 255, g: 85, b: 0 }, 0),
+			)
+
+			// WHEN comparing
+			const drift = await compareOutputFiles(
+				new Map([
+					['recolored.png', expected],
+					['reencoded.png', expected],
+				]),
+				outputDir,
+			)
+
+			// THEN both should differ with distinct reasons
+			expect(drift).toEqual([
+				{ path: 'recolored.png', status: 'different', reason: 'pixels differ' },
+				{
+					path: 'reencoded.png',
+					status: 'different',
+					reason: 'same pixels, bytes differ',
+				},
+			])
+		})
+
+		it('should compare WebP mipmaps by pixels', async () => {
+			// GIVEN a WebP mipmap recolored on disk
+			const expected = await sharp(await createPng({ r: 255, g: 85, b: 0 }))
+				.webp({ lossless: true })
+				.toBuffer()
+			await fs.writeFile(
+				path.join(outputDir, 'ic_launcher.webp'),
+				await sharp(await createPng({ r: 0, g: 85, b: 255 }))
+					.webp({ lossless: true })
+					.toBuffer(),
+			)
+
+			// WHEN comparing
+			const drift = await compareOutputFiles(
+				new Map([['ic_launcher.webp', expected]]),
+				outputDir,
+			)
+
+			// THEN the pixel change should be reported
+			expect(drift).toEqual([
+				{
+					path: 'ic_launcher.webp',
+					status: 'different',
+					reason: 'pixels differ',
+				},
+			])
+		})
+
+		it('should compare other files byte by byte', async () => {
+			// GIVEN a changed Contents.json
+			await fs.writeFile(path.join(outputDir, 'Contents.json'), '{}')
+
+			// WHEN comparing
+			const drift = await compareOutputFiles(
+				new Map([['Contents.json', Buffer.from('{"images":[]}')]]),
+				outputDir,
+			)
+
+			// THEN it should differ by bytes
+			expect(drift).toEqual([
+				{ path: 'Contents.json', status: 'different', reason: 'bytes differ' },
+			])
+		})
+	})
+})
@@ -0,0 +1,56 @@
+/**
+ * Tests for macOS .icns encoding.
+ *
+ * Tests the file header, chunk layout, and icon type mapping.
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import { encodeIcns, getIcnsType } from '../../utils/icns'
+
+describe('Icns', () => {
+	describe('getIcnsType', () => {
+		it('should map point sizes and scales to PNG chunk types', () => {
+			// GIVEN standard and Retina slots
+			// WHEN looking up their chunk types
+			// THEN Apple's PNG-backed types should be used
+			expect(getIcnsType(16, 1)).toBe('icp4')
+			expect(getIcnsType(16, 2)).toBe('ic11')
+			expect(getIcnsType(512, 2)).toBe('ic10')
+		})
+
+		it('should throw for sizes without a PNG type', () => {
+			// GIVEN a 48pt slot, which icns has no PNG type for
+			// WHEN looking up its chunk type
+			// THEN an error should name the slot
+			expect(() => getIcnsType(48, 1)).toThrow('No icns type for 48pt @1x')
+		})
+	})
+
+	describe('encodeIcns', () => {
+		it('should write a header followed by one chunk per image', () => {
+			// GIVEN two PNG images
+			const small = Buffer.from('small-png')
+			const large = Buffer.from('large-png-data')
+
+			// WHEN encoding the icns
+			const icns = encodeIcns([
+				{ points: 16, scale: 1, data: small },
+				{ points: 512, scale: 2, data: large },
+			])
+
+			// THEN the header should hold the magic and the total length
+			expect(icns.toString('ascii', 0, 4)).toBe('icns')
+			expect(icns.readUInt32BE(4)).toBe(icns.length)
+
+			// AND each chunk length should include its 8-byte header
+			expect(icns.toString('ascii', 8, 12)).toBe('icp4')
+			expect(icns.readUInt32BE(12)).toBe(8 + small.length)
+			expect(icns.subarray(16, 16 + small.length)).toEqual(small)
+
+			const second = 16 + small.length
+			expect(icns.toString('ascii', second, second + 4)).toBe('ic10')
+			expect(icns.readUInt32BE(second + 4)).toBe(8 + large.length)
+		})
+	})
+})
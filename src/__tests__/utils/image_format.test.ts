@@ -0,0 +1,181 @@
+/**
+ * Tests for output image formats.
+ *
+ * Tests WebP mipmaps, web companions, PNG optimization and store file
+ * encoding on real images, including the sizes reported before
+ * re-encoding.
+ */
+
+import sharp from 'sharp'
+import { describe, expect, it, vi } from 'vitest'
+
+import type { AssetGeneratorConfig, GeneratedAsset } from '../../types'
+import { encodeOutputAssets, optimizePng } from '../../utils/image_format'
+
+// Encoding needs real image codecs.
+vi.unmock('sharp')
+
+const baseConfig: AssetGeneratorConfig = {
+	appName: 'TestApp',
+	platforms: ['android', 'web'],
+	assetTypes: ['icon', 'favicon'],
+	background: { type: 'color', color: { type: 'solid', color: '#FFFFFF' } },
+	foreground: { type: 'svg', svgPath: '/logo.svg' },
+	outputDir: '/output',
+}
+
+/**
+ * Creates a 32x32 PNG with a horizontal gradient, so encodings differ.
+ */
+function createPng(): Promise<Buffer> {
+	const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="32" height="32"><defs><linearGradient id="g"><stop offset="0" stop-color="#6366F1"/><stop offset="1" stop-color="#EC4899"/></linearGradient></defs><rect width="32" height="32" fill="url(#g)"/></svg>`
+	return sharp(Buffer.from(svg)).png().toBuffer()
+}
+
+/**
+ * Creates a generated asset for a spec name.
+ */
+async function createAsset(name: string): Promise<GeneratedAsset> {
+	return {
+		spec: { name, width: 32, height: 32, platform: 'web', type: 'favicon' },
+		buffer: await createPng(),
+		path: `/output/${name}`,
+	}
+}
+
+/**
+ * Decodes an image to raw RGBA pixels.
+ */
+function decodePixels(image: Buffer): Promise<Buffer> {
+	return sharp(image).ensureAlpha().raw().toBuffer()
+}
+
+describe('Image Format', () => {
+	describe('optimizePng', () => {
+		it('should return the PNG unchanged without optimization', async () => {
+			// GIVEN a rendered PNG
+			const png = await createPng()
+
+			// WHEN optimizing with 'none'
+			// THEN the same buffer should be returned
+			expect(await optimizePng(png, 'none')).toBe(png)
+		})
+
+		it('should keep every pixel and never grow with max', async () => {
+			// GIVEN a rendered PNG
+			const png = await createPng()
+
+			// WHEN optimizing with 'max'
+			const optimized = await optimizePng(png, 'max')
+
+			// THEN it should be lossless and no larger
+			expect(optimized.length).toBeLessThanOrEqual(png.length)
+			expect(await decodePixels(optimized)).toEqual(await decodePixels(png))
+		})
+
+		it('should write a palette PNG with palette', async () => {
+			// GIVEN a rendered PNG
+			const png = await createPng()
+
+			// WHEN optimizing with 'palette'
+			const optimized = await optimizePng(png, 'palette')
+
+			// THEN the IHDR color type should be indexed (3)
+			expect((await sharp(optimized).metadata()).format).toBe('png')
+			expect(optimized[25]).toBe(3)
+		})
+	})
+
+	describe('encodeOutputAssets', () => {
+		it('should write mipmaps as lossless WebP', async () => {
+			// GIVEN a launcher mipmap and the WebP format
+			const asset = await createAsset('android/mipmap-hdpi/ic_launcher.png')
+			const config = { ...baseConfig, androidIconFormat: 'webp' as const }
+
+			// WHEN encoding it
+			const [output] = await encodeOutputAssets(config, [asset])
+
+			// THEN it should be a .webp with the same pixels
+			expect(output?.spec.name).toBe('android/mipmap-hdpi/ic_launcher.webp')
+			expect(output?.path).toBe('/output/android/mipmap-hdpi/ic_launcher.webp')
+			expect(output?.originalSize).toBe(asset.buffer.length)
+			expect((await sharp(output!.buffer).metadata()).format).toBe('webp')
+			expect(await decodePixels(output!.buffer)).toEqual(
+				await decodePixels(asset.buffer),
+			)
+		})
+
+		it('should follow web icons with their companions', async () => {
+			// GIVEN a web icon, an apple-touch icon and two companion formats
+			const icon = await createAsset('web/icon-192x192.png')
+			const touch = await createAsset('web/apple-touch-icon-180x180.png')
+			const config: AssetGeneratorConfig = {
+				...baseConfig,
+				webImageFormats: ['webp', 'avif'],
+			}
+
+			// WHEN encoding them
+			const outputs = await encodeOutputAssets(config, [icon, touch])
+
+			// THEN only the icon should get companions, reported as new files
+			expect(outputs.map(output => output.spec.name)).toEqual([
+				'web/icon-192x192.png',
+				'web/icon-192x192.webp',
+				'web/icon-192x192.avif',
+				'web/apple-touch-icon-180x180.png',
+			])
+			expect(outputs[0]).toBe(icon)
+			expect(outputs[1]?.originalSize).toBe(0)
+			expect((await sharp(outputs[2]!.buffer).metadata()).format).toBe('heif')
+		})
+
+		it('should write store files without opaque alpha or a palette', async () => {
+			// GIVEN opaque store files and palette optimization
+			const appStoreIcon = await createAsset('store/ios/app-store-icon.png')
+			const playIcon = await createAsset('store/android/play-store-icon.png')
+			const config = { ...baseConfig, pngOptimization: 'palette' as const }
+
+			// WHEN encoding them
+			const [appStore, play] = await encodeOutputAssets(config, [
+				appStoreIcon,
+				playIcon,
+			])
+
+			// THEN the App Store icon should be RGB and the Play icon RGBA
+			expect(appStore?.buffer[25]).toBe(2)
+			expect(play?.buffer[25]).toBe(6)
+		})
+
+		it('should flatten transparent store files with fixStoreAssets', async () => {
+			// GIVEN a transparent feature graphic
+			const transparent = await sharp({
+				create: {
+					width: 32,
+					height: 32,
+					channels: 4,
+					background: { r: 0, g: 0, b: 0, alpha: 0 },
+				},
+			})
+				.png()
+				.toBuffer()
+			const asset = {
+				...(await createAsset('store/android/feature-graphic.png')),
+				buffer: transparent,
+			}
+
+			// WHEN encoding it with fixes onto green
+			const [output] = await encodeOutputAssets(
+				{ ...baseConfig, fixStoreAssets: true },
+				[asset],
+				'#00FF00',
+			)
+
+			// THEN it should be opaque green without alpha
+			const { data, info } = await sharp(output!.buffer)
+				.raw()
+				.toBuffer({ resolveWithObject: true })
+			expect(info.channels).toBe(3)
+			expect([...data.subarray(0, 3)]).toEqual([0, 255, 0])
+		})
+	})
+})
@@ -10,6 +10,7 @@ import type { AssetGeneratorConfig } from '../../types'
 import {
 	formatInstructionsJson,
 	formatInstructionsText,
+	formatVariantsText,
 	type GenerationContext,
 	generateInstructions,
 } from '../../utils/instructions'
@@ -338,6 +339,367 @@ describe('Instructions', () => {
 			expect(instructions.generationConfig).toBeDefined()
 			expect(instructions.generationConfig).toContain('TestApp')
 		})
+
+		it('should include tarball path in notes when provided', () => {
+			// GIVEN a context with a tarball path
+			const context = { ...baseContext, tarPath: '/output/assets.tar.gz' }
+
+			// WHEN generating instructions
+			const instructions = generateInstructions(context)
+
+			// THEN notes should reference the tarball
+			expect(
+				instructions.notes.some(n => n.includes('/output/assets.tar.gz')),
+			).toBe(true)
+		})
+
+		it('should point iOS steps at the icon set in the appiconset layout', () => {
+			// GIVEN a config using the self-contained icon set
+			const context = {
+				...baseContext,
+				config: { ...fullConfig, iosIconLayout: 'appiconset' as const },
+			}
+
+			// WHEN generating instructions
+			const instructions = generateInstructions(context)
+
+			// THEN one Xcode step should replace the per-folder steps
+			const titles = instructions.steps.map(s => s.title)
+			expect(titles).toContain('Add AppIcon.appiconset to Xcode')
+			expect(titles).not.toContain('Configure iOS 18 icon variants (Xcode)')
+			expect(titles).not.toContain('Use auto-generated iOS Contents.json')
+			expect(instructions.steps[0]?.command).toContain(
+				'/output/assets/ios/AppIcon.appiconset/icon-1024.png',
+			)
+		})
+
+		it('should mention the installed catalog when targeting a project', () => {
+			// GIVEN a config installing into an existing asset catalog
+			const context = {
+				...baseContext,
+				config: { ...fullConfig, xcassetsPath: '/app/ios/App/Images.xcassets' },
+			}
+
+			// WHEN generating instructions
+			const instructions = generateInstructions(context)
+
+			// THEN the Xcode step should name the catalog
+			const step = instructions.steps.find(
+				s => s.title === 'Add AppIcon.appiconset to Xcode',
+			)
+			expect(step?.description).toContain('/app/ios/App/Images.xcassets')
+		})
+
+		it('should write paths relative to the output directory', () => {
+			// GIVEN a checkout with a logo, a catalog and an archive
+			const context = (root: string): GenerationContext => ({
+				...baseContext,
+				outputDir: `${root}/assets`,
+				zipPath: `${root}/assets.zip`,
+				config: {
+					...fullConfig,
+					foreground: { type: 'svg', svgPath: `${root}/logo.svg` },
+					iosIconLayout: 'appiconset',
+					xcassetsPath: `${root}/ios/App/Images.xcassets`,
+				},
+				relativeTo: `${root}/assets`,
+			})
+
+			// WHEN generating instructions for two checkouts
+			const text = formatInstructionsText(
+				generateInstructions(context('/home/a/app')),
+			)
+
+			// THEN the text should not depend on the checkout
+			expect(text).toBe(
+				formatInstructionsText(generateInstructions(context('/ci/b/app'))),
+			)
+			expect(text).not.toContain('/home/a/app')
+			expect(text).toContain('$ cp ./ios/AppIcon.appiconset/icon-1024.png')
+			expect(text).toContain('Path: ../logo.svg')
+			expect(text).toContain('installed into ../ios/App/Images.xcassets')
+		})
+	})
+
+	describe('project integration', () => {
+		it('should replace the Android XML copy step when installed', () => {
+			// GIVEN a config installing into an Android res directory
+			const context = {
+				...baseContext,
+				assetTypes: ['icon', 'adaptive'] as any,
+				config: { ...fullConfig, androidResPath: '/app/android/res' },
+			}
+
+			// WHEN generating instructions
+			const instructions = generateInstructions(context)
+
+			// THEN the review step should name the res directory
+			const titles = instructions.steps.map(s => s.title)
+			expect(titles).toContain('Review Android resources in your project')
+			expect(titles).not.toContain(
+				'Use auto-generated Android adaptive icon XML',
+			)
+		})
+	})
+
+	describe('build variants', () => {
+		it('should add wiring steps for the variant', () => {
+			// GIVEN the staging variant's output
+			const context = {
+				...baseContext,
+				outputDir: '/output/staging',
+				config: fullConfig,
+				variant: 'staging',
+			}
+
+			// WHEN generating instructions
+			const instructions = generateInstructions(context)
+
+			// THEN the flavor and icon set should be wired per build configuration
+			const titles = instructions.steps.map(s => s.title)
+			expect(titles).toContain('Add the staging product flavor')
+			expect(titles).toContain(
+				'Use AppIcon-Staging for the staging build configuration',
+			)
+			expect(instructions.summary).toContain('staging variant')
+		})
+
+		it('should list every variant in the index README', () => {
+			// GIVEN a config with two variants
+			const config = {
+				...fullConfig,
+				variants: { prod: {}, staging: { badge: { text: 'STAGING' } } },
+			}
+
+			// WHEN formatting the index
+			const text = formatVariantsText(config)
+
+			// THEN each variant should have a flavor and an icon set
+			expect(text).toContain('staging { dimension "environment" }')
+			expect(text).toContain('prod: AppIcon-Prod')
+			expect(text).toContain(
+				'staging/android/mipmap-* → android/app/src/staging/res/',
+			)
+		})
+	})
+
+	describe('notification icons', () => {
+		it('should add the notification icon step and config', () => {
+			// GIVEN Android notification icons
+			const context = {
+				...baseContext,
+				platforms: ['android'] as any,
+				assetTypes: ['notification'] as any,
+			}
+
+			// WHEN generating instructions
+			const instructions = generateInstructions(context)
+
+			// THEN the icon should be wired into expo-notifications and the manifest
+			const titles = instructions.steps.map(s => s.title)
+			expect(titles).toContain('Add the Android notification icon')
+			expect(instructions.expoConfigChanges).toContain('expo-notifications')
+			expect(instructions.expoConfigChanges).toContain(
+				'android:resource="@drawable/ic_stat_notification"',
+			)
+		})
+	})
+
+	describe('iOS startup images', () => {
+		it('should add the startup image step for web splash screens', () => {
+			// GIVEN web splash screens
+			const context = {
+				...baseContext,
+				platforms: ['web'] as any,
+				assetTypes: ['splash'] as any,
+			}
+
+			// WHEN generating instructions
+			const instructions = generateInstructions(context)
+
+			// THEN the images and head.html should be listed
+			const step = instructions.steps.find(
+				s => s.title === 'Add iOS startup images',
+			)
+			expect(step?.files).toEqual([
+				'/output/assets/web/apple-splash-*.png',
+				'/output/assets/web/head.html',
+			])
+		})
+	})
+
+	describe('social share images', () => {
+		it('should add the meta tag step and snippet', () => {
+			// GIVEN web social images with a tagline
+			const context = {
+				...baseContext,
+				platforms: ['web'] as any,
+				assetTypes: ['social'] as any,
+				config: { ...fullConfig, social: { tagline: 'Ship faster' } },
+			}
+
+			// WHEN generating and formatting instructions
+			const instructions = generateInstructions(context)
+			const text = formatInstructionsText(instructions)
+
+			// THEN the images should be copied and the tags printed
+			const step = instructions.steps.find(
+				s => s.title === 'Add social share meta tags',
+			)
+			expect(step?.files).toContain('/output/assets/web/og-image.png')
+			expect(text).toContain('SOCIAL META TAGS')
+			expect(text).toContain(
+				'<meta property="og:description" content="Ship faster">',
+			)
+		})
+	})
+
+	describe('vector adaptive icons', () => {
+		it('should point the native snippet at the vector layers', () => {
+			// GIVEN the vector adaptive format with a text foreground
+			const context = {
+				...baseContext,
+				assetTypes: ['adaptive'] as any,
+				config: { ...fullConfig, androidAdaptiveFormat: 'vector' as const },
+			}
+
+			// WHEN generating instructions
+			const instructions = generateInstructions(context)
+
+			// THEN the drawable XML should be installed instead of the PNGs
+			const titles = instructions.steps.map(s => s.title)
+			expect(titles).toContain('Install Android vector adaptive icon')
+			expect(titles).not.toContain('Copy Android adaptive icon')
+			expect(instructions.expoConfigChanges).toContain(
+				'<foreground android:drawable="@drawable/ic_launcher_foreground"/>',
+			)
+			expect(instructions.expoConfigChanges).toContain(
+				'<background android:drawable="@color/ic_launcher_background"/>',
+			)
+		})
+	})
+
+	describe('output formats', () => {
+		it('should install WebP mipmaps and list web companions', () => {
+			// GIVEN WebP mipmaps and AVIF web companions
+			const context = {
+				...baseContext,
+				platforms: ['android', 'web'] as any,
+				assetTypes: ['adaptive', 'favicon'] as any,
+				config: {
+					...fullConfig,
+					androidIconFormat: 'webp' as const,
+					webImageFormats: ['avif' as const],
+				},
+			}
+
+			// WHEN generating instructions
+			const instructions = generateInstructions(context)
+
+			// THEN the mipmaps should be installed and companions copied
+			const titles = instructions.steps.map(s => s.title)
+			expect(titles).toContain('Install Android WebP mipmaps')
+			expect(titles).not.toContain('Copy Android adaptive icon')
+			const favicon = instructions.steps.find(
+				s => s.title === 'Copy web favicon',
+			)
+			expect(favicon?.files).toContain('/output/assets/web/favicon-*.avif')
+			expect(instructions.expoConfigChanges).toContain(
+				'<source srcset="/icon-192x192.avif" type="image/avif">',
+			)
+			expect(instructions.notes.some(note => note.includes('WebP'))).toBe(true)
+		})
+	})
+
+	describe('alternate icons', () => {
+		it('should add the Info.plist and Expo config for alternate icons', () => {
+			// GIVEN a config with one alternate icon
+			const context = {
+				...baseContext,
+				config: { ...fullConfig, alternateIcons: [{ name: 'Dark' }] },
+			}
+
+			// WHEN generating instructions
+			const instructions = generateInstructions(context)
+
+			// THEN a step and both snippets should be included
+			const step = instructions.steps.find(
+				s => s.title === 'Add alternate app icons',
+			)
+			expect(step?.command).toContain(
+				'/output/assets/ios/AppIcon-Dark.appiconset/icon-1024.png ../expo/assets/images/alternate-icons/Dark.png',
+			)
+			expect(instructions.alternateIcons).toContain(
+				'<string>AppIcon-Dark</string>',
+			)
+			expect(instructions.alternateIcons).toContain('expo-alternate-app-icons')
+			expect(formatInstructionsText(instructions)).toContain('ALTERNATE ICONS')
+		})
+
+		it('should skip alternate icons without iOS icons', () => {
+			// GIVEN alternate icons on an Android-only run
+			const context = {
+				...baseContext,
+				platforms: ['android'] as any,
+				config: { ...fullConfig, alternateIcons: [{ name: 'Dark' }] },
+			}
+
+			// WHEN generating instructions
+			const instructions = generateInstructions(context)
+
+			// THEN no alternate icon section should be added
+			expect(instructions.alternateIcons).toBeUndefined()
+		})
+	})
+
+	describe('iOS launch storyboard', () => {
+		it('should add an Xcode step and copy the launch logo', () => {
+			// GIVEN a config using the launch storyboard
+			const context = {
+				...baseContext,
+				config: { ...fullConfig, iosSplashMode: 'storyboard' as const },
+			}
+
+			// WHEN generating instructions
+			const instructions = generateInstructions(context)
+
+			// THEN the storyboard step should be present
+			const titles = instructions.steps.map(s => s.title)
+			expect(titles).toContain('Add LaunchScreen.storyboard to Xcode')
+
+			// AND the splash copy step should not use a fixed-size image
+			const copy = instructions.steps.find(
+				s => s.title === 'Copy splash screen',
+			)
+			expect(copy?.command).toContain('LaunchLogo.imageset/LaunchLogo@3x.png')
+		})
+	})
+
+	describe('desktop platforms', () => {
+		it('should add a step for each desktop platform', () => {
+			// GIVEN a context with all desktop platforms
+			const context = {
+				...baseContext,
+				platforms: ['macos', 'windows', 'linux'] as any,
+				assetTypes: ['icon'] as any,
+				config: { ...fullConfig, appName: 'My App' },
+			}
+
+			// WHEN generating instructions
+			const instructions = generateInstructions(context)
+
+			// THEN each platform should have its own step
+			const titles = instructions.steps.map(s => s.title)
+			expect(titles).toContain('Configure macOS icons')
+			expect(titles).toContain('Configure Windows icons')
+			expect(titles).toContain('Configure Linux icons')
+
+			// AND the Linux step should reference the app's .desktop file
+			const linux = instructions.steps.find(
+				s => s.title === 'Configure Linux icons',
+			)
+			expect(linux?.files).toContain('/output/assets/linux/my-app.desktop')
+		})
 	})
 
 	describe('formatInstructionsText', () => {
@@ -0,0 +1,86 @@
+/**
+ * Tests for iOS launch storyboard generation.
+ *
+ * Tests the storyboard layout and the LaunchLogo / LaunchBackground
+ * asset catalog Contents.json files.
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import {
+	createLaunchBackgroundContentsJson,
+	createLaunchLogoContentsJson,
+	createLaunchScreenStoryboard,
+} from '../../utils/launch_screen'
+
+describe('LaunchScreen', () => {
+	describe('createLaunchScreenStoryboard', () => {
+		it('should center the LaunchLogo image on the LaunchBackground color', () => {
+			// GIVEN a 98pt logo on an orange background
+			// WHEN building the storyboard
+			const storyboard = createLaunchScreenStoryboard(98, '#FF5500')
+
+			// THEN the view should use the named assets
+			expect(storyboard).toContain('launchScreen="YES"')
+			expect(storyboard).toContain('image="LaunchLogo"')
+			expect(storyboard).toContain(
+				'<color key="backgroundColor" name="LaunchBackground"/>',
+			)
+
+			// AND the logo should be pinned to the center, not to edges
+			expect(storyboard).toContain('firstAttribute="centerX"')
+			expect(storyboard).toContain('firstAttribute="centerY"')
+			expect(storyboard).not.toContain('firstAttribute="leading"')
+		})
+
+		it('should declare the logo size and preview color as resources', () => {
+			// GIVEN a 98pt logo on an orange background
+			// WHEN building the storyboard
+			const storyboard = createLaunchScreenStoryboard(98, '#FF5500')
+
+			// THEN Interface Builder previews should match the assets
+			expect(storyboard).toContain(
+				'<image name="LaunchLogo" width="98" height="98"/>',
+			)
+			expect(storyboard).toContain(
+				'<color red="1.000" green="0.333" blue="0.000" alpha="1"',
+			)
+		})
+	})
+
+	describe('createLaunchLogoContentsJson', () => {
+		it('should list the @1x, @2x and @3x images', () => {
+			// GIVEN the LaunchLogo imageset
+			// WHEN building Contents.json
+			const contents = JSON.parse(createLaunchLogoContentsJson())
+
+			// THEN all three scales should be referenced
+			expect(contents.images).toEqual([
+				{ filename: 'LaunchLogo.png', idiom: 'universal', scale: '1x' },
+				{ filename: 'LaunchLogo@2x.png', idiom: 'universal', scale: '2x' },
+				{ filename: 'LaunchLogo@3x.png', idiom: 'universal', scale: '3x' },
+			])
+		})
+	})
+
+	describe('createLaunchBackgroundContentsJson', () => {
+		it('should define any and dark appearances', () => {
+			// GIVEN a light and a dark background color
+			// WHEN building Contents.json
+			const contents = JSON.parse(
+				createLaunchBackgroundContentsJson('#FFFFFF', '#000000'),
+			)
+
+			// THEN the first entry should be the default appearance
+			expect(contents.colors).toHaveLength(2)
+			expect(contents.colors[0].appearances).toBeUndefined()
+			expect(contents.colors[0].color.components.red).toBe('1.000')
+
+			// AND the second entry should apply in Dark Mode
+			expect(contents.colors[1].appearances).toEqual([
+				{ appearance: 'luminosity', value: 'dark' },
+			])
+			expect(contents.colors[1].color.components.red).toBe('0.000')
+		})
+	})
+})
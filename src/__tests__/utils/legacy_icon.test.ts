@@ -0,0 +1,84 @@
+/**
+ * Tests for Android legacy launcher icon shapes.
+ *
+ * Tests shape resolution per file, padding and the shadow SVG.
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import {
+	createLegacyIconShadowSvg,
+	getLegacyIconPadding,
+	getLegacyIconShape,
+} from '../../utils/legacy_icon'
+
+const LAUNCHER = {
+	name: 'android/mipmap-mdpi/ic_launcher.png',
+	platform: 'android',
+	type: 'icon',
+} as const
+
+const ROUND = {
+	...LAUNCHER,
+	name: 'android/mipmap-mdpi/ic_launcher_round.png',
+} as const
+
+describe('Legacy Icon', () => {
+	describe('getLegacyIconShape', () => {
+		it('should always draw round icons as circles', () => {
+			// GIVEN no legacy shape
+			// WHEN resolving the round icon
+			// THEN it should be a circle
+			expect(getLegacyIconShape({}, ROUND)).toBe('circle')
+		})
+
+		it('should keep ic_launcher.png full-bleed by default', () => {
+			// GIVEN no legacy shape, then the explicit 'none'
+			// WHEN resolving the launcher icon
+			// THEN no shape should be drawn
+			expect(getLegacyIconShape({}, LAUNCHER)).toBeUndefined()
+			expect(
+				getLegacyIconShape({ androidLegacyShape: 'none' }, LAUNCHER),
+			).toBeUndefined()
+		})
+
+		it('should apply the configured shape to ic_launcher.png only', () => {
+			// GIVEN the squircle shape
+			const config = { androidLegacyShape: 'squircle' } as const
+
+			// WHEN resolving the launcher icon and an adaptive layer
+			// THEN only the launcher icon should be shaped
+			expect(getLegacyIconShape(config, LAUNCHER)).toBe('squircle')
+			expect(
+				getLegacyIconShape(config, {
+					name: 'android/mipmap-mdpi/ic_launcher_foreground.png',
+					platform: 'android',
+					type: 'adaptive',
+				}),
+			).toBeUndefined()
+		})
+	})
+
+	describe('getLegacyIconPadding', () => {
+		it('should pad by 1dp at every density', () => {
+			// GIVEN mdpi and xxxhdpi canvases
+			// WHEN computing the padding
+			// THEN 1dp should be 1px and 4px
+			expect(getLegacyIconPadding(48)).toBe(1)
+			expect(getLegacyIconPadding(192)).toBe(4)
+		})
+	})
+
+	describe('createLegacyIconShadowSvg', () => {
+		it('should draw a blurred shape offset below the body', () => {
+			// GIVEN an xxxhdpi circle
+			// WHEN building the shadow
+			const svg = createLegacyIconShadowSvg('circle', 192)
+
+			// THEN it should be blurred and moved down by 0.5dp
+			expect(svg).toContain('width="192" height="192"')
+			expect(svg).toContain('<feGaussianBlur stdDeviation="2.00"/>')
+			expect(svg).toContain('translate(4 4) translate(0 2.00)')
+		})
+	})
+})
@@ -0,0 +1,116 @@
+/**
+ * Tests for launcher mask preview helpers.
+ *
+ * Tests source selection, mask/guide SVGs, and the HTML preview page.
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import {
+	createGuideSvg,
+	createMaskPreviewHtml,
+	createMaskSvg,
+	getMaskPreviewSources,
+	MASK_SHAPES,
+} from '../../utils/mask_preview'
+
+const ANDROID_LAYERS = [
+	'android/mipmap-xxxhdpi/ic_launcher_background.png',
+	'android/mipmap-xxxhdpi/ic_launcher_foreground.png',
+]
+const WEB_MASKABLE = 'web/icon-maskable-512x512.png'
+
+describe('Mask Preview', () => {
+	describe('MASK_SHAPES', () => {
+		it('should list the launcher masks in sheet order', () => {
+			// GIVEN the mask catalog
+			// WHEN reading the shape ids
+			// THEN every common launcher mask and iOS should be present
+			expect(MASK_SHAPES.map(shape => shape.shape)).toEqual([
+				'circle',
+				'squircle',
+				'rounded-square',
+				'teardrop',
+				'ios',
+			])
+		})
+
+		it('should keep the iOS superellipse inside the 100x100 box', () => {
+			// GIVEN the sampled iOS outline
+			const ios = MASK_SHAPES.find(shape => shape.shape === 'ios')!
+
+			// WHEN reading its coordinates
+			const values = ios.path.match(/\d+\.\d+/g)!.map(Number)
+
+			// THEN every point should lie within the box and touch its edges
+			expect(Math.min(...values)).toBe(0)
+			expect(Math.max(...values)).toBe(100)
+		})
+	})
+
+	describe('getMaskPreviewSources', () => {
+		it('should only include sources whose layers were all generated', () => {
+			// GIVEN only the Android background layer and the maskable icon
+			// WHEN selecting sources
+			const sources = getMaskPreviewSources([ANDROID_LAYERS[0]!, WEB_MASKABLE])
+
+			// THEN Android adaptive should be skipped
+			expect(sources.map(source => source.label)).toEqual(['Web maskable'])
+		})
+
+		it('should crop Android layers to the 72dp launcher viewport', () => {
+			// GIVEN every Android adaptive layer
+			// WHEN selecting sources
+			const [android] = getMaskPreviewSources(ANDROID_LAYERS)
+
+			// THEN 18dp of each 108dp side should be hidden and the 66dp safe
+			// zone measured against the 72dp viewport
+			expect(android!.inset).toBeCloseTo(18 / 108)
+			expect(android!.safeZone).toBeCloseTo(0.61 / (72 / 108))
+		})
+	})
+
+	describe('createMaskSvg', () => {
+		it('should fill the mask path at the requested size', () => {
+			// GIVEN the circle mask
+			// WHEN building a 192px mask
+			const svg = createMaskSvg(MASK_SHAPES[0]!, 192)
+
+			// THEN it should scale the 100x100 path to 192px
+			expect(svg).toContain('width="192" height="192" viewBox="0 0 100 100"')
+			expect(svg).toContain(`d="${MASK_SHAPES[0]!.path}" fill="#fff"`)
+		})
+	})
+
+	describe('createGuideSvg', () => {
+		it('should draw the safe zone as a dashed circle', () => {
+			// GIVEN an 80% safe zone
+			// WHEN building the guide overlay
+			const svg = createGuideSvg(MASK_SHAPES[1]!, 0.8, 192)
+
+			// THEN the circle radius should be 40% of the box
+			expect(svg).toContain('r="40.00"')
+			expect(svg).toContain('stroke-dasharray')
+		})
+	})
+
+	describe('createMaskPreviewHtml', () => {
+		it('should draw generated images relative to preview/', () => {
+			// GIVEN the web maskable source
+			const sources = getMaskPreviewSources([WEB_MASKABLE])
+
+			// WHEN building the page
+			const html = createMaskPreviewHtml('My <App>', sources)
+
+			// THEN every mask should clip the referenced image
+			expect(html).toContain(
+				'<title>My &lt;App&gt; – icon mask preview</title>',
+			)
+			expect(html).toContain(`href="../${WEB_MASKABLE}"`)
+			for (const shape of MASK_SHAPES) {
+				expect(html).toContain(`<clipPath id="mask-${shape.shape}"`)
+				expect(html).toContain(`clip-path="url(#mask-${shape.shape})"`)
+			}
+		})
+	})
+})
@@ -0,0 +1,126 @@
+/**
+ * Tests for per-file config overrides.
+ *
+ * Tests key classification, glob matching, specificity order and the
+ * resolved per-file configuration.
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import type { AssetGeneratorConfig } from '../../types'
+import {
+	getMatchingOverrides,
+	getOverrideKeyKind,
+	matchesGlob,
+	resolveAssetConfig,
+} from '../../utils/overrides'
+
+const SPLASH = {
+	platform: 'android',
+	type: 'splash',
+	name: 'android/drawable-hdpi/splash.png',
+} as const
+
+const baseConfig: AssetGeneratorConfig = {
+	appName: 'TestApp',
+	platforms: ['android', 'web'],
+	assetTypes: ['icon', 'splash', 'favicon'],
+	background: { type: 'color', color: { type: 'solid', color: '#FFFFFF' } },
+	foreground: {
+		type: 'text',
+		text: 'T',
+		fontFamily: 'Roboto',
+		fontSource: 'google',
+		color: '#000000',
+	},
+	outputDir: '/output',
+	iconScale: 0.7,
+	splashScale: 0.25,
+}
+
+describe('Overrides', () => {
+	describe('getOverrideKeyKind', () => {
+		it('should classify platforms, asset types and globs', () => {
+			// GIVEN one key of each kind
+			// WHEN classifying them
+			// THEN platform and asset type names should be recognized
+			expect(getOverrideKeyKind('web')).toBe('platform')
+			expect(getOverrideKeyKind('splash')).toBe('assetType')
+			expect(getOverrideKeyKind('web/favicon-*.png')).toBe('glob')
+		})
+	})
+
+	describe('matchesGlob', () => {
+		it('should keep single stars within one path segment', () => {
+			// GIVEN a single-star pattern
+			// WHEN matching paths at different depths
+			// THEN only the same depth should match
+			expect(matchesGlob('android/drawable-*/splash.png', SPLASH.name)).toBe(
+				true,
+			)
+			expect(matchesGlob('android/*.png', SPLASH.name)).toBe(false)
+		})
+
+		it('should let double stars span segments', () => {
+			// GIVEN a double-star pattern
+			// WHEN matching a nested path
+			// THEN it should match
+			expect(matchesGlob('android/**/splash.png', SPLASH.name)).toBe(true)
+		})
+
+		it('should treat dots and question marks literally and as one character', () => {
+			// GIVEN patterns with a dot and a question mark
+			// WHEN matching
+			// THEN the dot should not act as a wildcard
+			expect(matchesGlob('web/icon-?2x?2.png', 'web/icon-32x32.png')).toBe(true)
+			expect(matchesGlob('web/icon.png', 'web/iconXpng')).toBe(false)
+		})
+	})
+
+	describe('getMatchingOverrides', () => {
+		it('should order matches from least to most specific', () => {
+			// GIVEN overrides declared from most to least specific
+			const overrides = {
+				'android/drawable-*/splash.png': { scale: 0.5 },
+				splash: { scale: 0.4 },
+				android: { scale: 0.3 },
+				web: { scale: 0.9 },
+			}
+
+			// WHEN matching an Android splash
+			const matching = getMatchingOverrides(overrides, SPLASH)
+
+			// THEN platform, asset type and glob should apply in that order
+			expect(matching).toEqual([{ scale: 0.3 }, { scale: 0.4 }, { scale: 0.5 }])
+		})
+	})
+
+	describe('resolveAssetConfig', () => {
+		it('should return the config unchanged when nothing matches', () => {
+			// GIVEN an override for another platform
+			const config = { ...baseConfig, overrides: { ios: { scale: 0.5 } } }
+
+			// WHEN resolving an Android splash
+			// THEN the same config should be returned
+			expect(resolveAssetConfig(config, SPLASH)).toBe(config)
+		})
+
+		it('should replace layers and every scale field', () => {
+			// GIVEN a splash override with a wordmark and a scale
+			const wordmark = { type: 'svg', svgPath: '/wordmark.svg' } as const
+			const config = {
+				...baseConfig,
+				overrides: { splash: { foreground: wordmark, scale: 0.5 } },
+			}
+
+			// WHEN resolving an Android splash
+			const resolved = resolveAssetConfig(config, SPLASH)
+
+			// THEN the foreground and scales should be replaced, the background kept
+			expect(resolved.foreground).toBe(wordmark)
+			expect(resolved.background).toBe(baseConfig.background)
+			expect(resolved.splashScale).toBe(0.5)
+			expect(resolved.iconScale).toBe(0.5)
+		})
+	})
+})
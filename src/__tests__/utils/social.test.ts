@@ -0,0 +1,162 @@
+/**
+ * Tests for social share images.
+ *
+ * Tests the wide and square layouts, the text font and color defaults and
+ * the Open Graph and Twitter/X meta tags.
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import type { AssetGeneratorConfig } from '../../types'
+import {
+	createSocialMetaTags,
+	getSocialFont,
+	getSocialLayout,
+	getSocialTextColor,
+} from '../../utils/social'
+
+const svgForeground: AssetGeneratorConfig['foreground'] = {
+	type: 'svg',
+	svgPath: '/logo.svg',
+}
+
+const textForeground: AssetGeneratorConfig['foreground'] = {
+	type: 'text',
+	text: 'A',
+	fontFamily: 'Inter',
+	fontSource: 'google',
+	color: '#FF5500',
+}
+
+describe('Social', () => {
+	describe('getSocialLayout', () => {
+		it('should put the logo beside left-aligned text on wide images', () => {
+			// GIVEN the Open Graph size with a tagline
+			// WHEN laying it out
+			const layout = getSocialLayout(1200, 630, true)
+
+			// THEN the logo should be on the left and the text next to it
+			expect(layout.align).toBe('start')
+			expect(layout.logo).toEqual({
+				left: 63,
+				top: 157,
+				width: 315,
+				height: 315,
+			})
+			expect(layout.title.left).toBe(428)
+			expect(layout.title.left + layout.title.width).toBe(1200 - 63)
+			expect(layout.tagline?.top).toBe(
+				layout.title.top + layout.title.height + 25,
+			)
+		})
+
+		it('should stack centered content on square images', () => {
+			// GIVEN the square size without a tagline
+			// WHEN laying it out
+			const layout = getSocialLayout(1080, 1080, false)
+
+			// THEN the logo should be centered above a full-width title
+			expect(layout.align).toBe('center')
+			expect(layout.tagline).toBeUndefined()
+			expect(layout.logo.left * 2 + layout.logo.width).toBe(1080)
+			expect(layout.title.top).toBeGreaterThan(
+				layout.logo.top + layout.logo.height,
+			)
+			expect(layout.title.width).toBe(1080 - 2 * 108)
+
+			// AND the block should be vertically centered
+			const bottom = layout.title.top + layout.title.height
+			expect(Math.abs(layout.logo.top - (1080 - bottom))).toBeLessThanOrEqual(1)
+		})
+	})
+
+	describe('getSocialFont', () => {
+		it('should reuse the text foreground font', () => {
+			// GIVEN a text foreground
+			// WHEN getting the font
+			// THEN it should be the foreground's
+			expect(getSocialFont({ foreground: textForeground })).toEqual({
+				fontFamily: 'Inter',
+				fontSource: 'google',
+			})
+		})
+
+		it('should prefer social.fontFamily, else Roboto', () => {
+			// GIVEN a social font and an SVG foreground
+			const social = { fontFamily: 'Lato', fontSource: 'system' as const }
+
+			// WHEN getting the fonts
+			// THEN the social font should win and Roboto be the default
+			expect(getSocialFont({ foreground: textForeground, social })).toEqual(
+				social,
+			)
+			expect(getSocialFont({ foreground: svgForeground })).toEqual({
+				fontFamily: 'Roboto',
+			})
+		})
+	})
+
+	describe('getSocialTextColor', () => {
+		it('should pick black or white against the background', () => {
+			// GIVEN an SVG foreground
+			const config = { foreground: svgForeground }
+
+			// WHEN getting the color on light and dark backgrounds
+			// THEN it should contrast with each
+			expect(getSocialTextColor(config, '#F5F5F0')).toBe('#111111')
+			expect(getSocialTextColor(config, '#3366FF')).toBe('#FFFFFF')
+		})
+
+		it('should prefer social.textColor, then the text color', () => {
+			// GIVEN a text foreground
+			// WHEN getting the color with and without an explicit one
+			// THEN the explicit color should win
+			expect(
+				getSocialTextColor({ foreground: textForeground }, '#000000'),
+			).toBe('#FF5500')
+			expect(
+				getSocialTextColor(
+					{ foreground: textForeground, social: { textColor: '#00FF00' } },
+					'#000000',
+				),
+			).toBe('#00FF00')
+		})
+	})
+
+	describe('createSocialMetaTags', () => {
+		it('should link the Open Graph and Twitter/X images', () => {
+			// GIVEN an app name and a tagline with markup characters
+			const tags = createSocialMetaTags({
+				appName: 'Demo "App"',
+				social: { tagline: 'Icons & <more>' },
+			})
+
+			// THEN the tags should use absolute URLs and escaped text
+			expect(tags).toContain(
+				'<meta property="og:title" content="Demo &quot;App&quot;">',
+			)
+			expect(tags).toContain(
+				'<meta property="og:description" content="Icons &amp; &lt;more&gt;">',
+			)
+			expect(tags).toContain(
+				'<meta property="og:image" content="https://example.com/og-image.png">',
+			)
+			expect(tags).toContain('<meta property="og:image:width" content="1200">')
+			expect(tags).toContain(
+				'<meta name="twitter:card" content="summary_large_image">',
+			)
+			expect(tags).toContain(
+				'<meta name="twitter:image" content="https://example.com/twitter-card.png">',
+			)
+		})
+
+		it('should omit descriptions without a tagline', () => {
+			// GIVEN no tagline
+			// WHEN building the tags
+			const tags = createSocialMetaTags({ appName: 'Demo' })
+
+			// THEN no description should be emitted
+			expect(tags).not.toContain('description')
+		})
+	})
+})
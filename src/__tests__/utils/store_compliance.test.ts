@@ -0,0 +1,254 @@
+/**
+ * Tests for store compliance checks.
+ *
+ * Tests the App Store and Google Play rules (alpha, bit depth, color
+ * profile, dimensions, file size) against real files, and the fix that
+ * re-encodes them in place.
+ */
+
+import * as fs from 'node:fs/promises'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import sharp from 'sharp'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import {
+	getStoreFileRules,
+	removeOpaqueAlpha,
+	validateStoreAssets,
+} from '../../utils/store_compliance'
+
+// Checks decode real PNG headers and color profiles.
+vi.unmock('sharp')
+
+/**
+ * Creates a solid-color PNG with the given channel count.
+ */
+function createPng(
+	size: { width: number; height: number },
+	options: { channels?: 3 | 4; alpha?: number } = {},
+): Promise<Buffer> {
+	return sharp({
+		create: {
+			...size,
+			channels: options.channels ?? 4,
+			background: { r: 51, g: 102, b: 255, alpha: options.alpha ?? 1 },
+		},
+	})
+		.png()
+		.toBuffer()
+}
+
+describe('Store Compliance', () => {
+	let outputDir: string
+
+	beforeEach(async () => {
+		outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'appicons-store-'))
+	})
+
+	afterEach(async () => {
+		await fs.rm(outputDir, { recursive: true, force: true })
+	})
+
+	/**
+	 * Writes a file relative to the output directory.
+	 */
+	async function writeOutput(name: string, data: Buffer): Promise<void> {
+		await fs.mkdir(path.dirname(path.join(outputDir, name)), {
+			recursive: true,
+		})
+		await fs.writeFile(path.join(outputDir, name), data)
+	}
+
+	describe('getStoreFileRules', () => {
+		it('should cover store assets and both iOS 1024 icon layouts', () => {
+			// GIVEN the store specs
+			// WHEN listing the rules
+			const rules = getStoreFileRules()
+
+			// THEN each uploaded file should have its store and dimensions
+			expect(rules.map(rule => rule.path)).toEqual([
+				'store/android/play-store-icon.png',
+				'store/android/feature-graphic.png',
+				'store/android/tv-banner.png',
+				'store/ios/app-store-icon.png',
+				'ios/icon-1024.png',
+				'ios/AppIcon.appiconset/icon-1024.png',
+			])
+			expect(rules[0]).toMatchObject({
+				store: 'Google Play',
+				width: 512,
+				height: 512,
+				alpha: true,
+				maxBytes: 1024 * 1024,
+			})
+		})
+	})
+
+	describe('validateStoreAssets', () => {
+		it('should skip files that were not generated', async () => {
+			// GIVEN an empty output directory
+			// WHEN validating it
+			const result = await validateStoreAssets(outputDir)
+
+			// THEN nothing should be checked or reported
+			expect(result).toEqual({
+				outputDir,
+				checkedFiles: 0,
+				issues: [],
+				fixedFiles: [],
+			})
+		})
+
+		it('should accept 24-bit App Store and 32-bit Play icons', async () => {
+			// GIVEN compliant icons
+			await writeOutput(
+				'store/ios/app-store-icon.png',
+				await createPng({ width: 1024, height: 1024 }, { channels: 3 }),
+			)
+			await writeOutput(
+				'store/android/play-store-icon.png',
+				await createPng({ width: 512, height: 512 }),
+			)
+
+			// WHEN validating
+			const result = await validateStoreAssets(outputDir)
+
+			// THEN both should pass
+			expect(result.checkedFiles).toBe(2)
+			expect(result.issues).toEqual([])
+		})
+
+		it('should report alpha, dimensions and bit depth', async () => {
+			// GIVEN an App Store icon with alpha and a palette Play icon at 256px
+			await writeOutput(
+				'ios/icon-1024.png',
+				await createPng({ width: 1024, height: 1024 }, { alpha: 0.5 }),
+			)
+			await writeOutput(
+				'store/android/play-store-icon.png',
+				await sharp({
+					create: {
+						width: 256,
+						height: 256,
+						channels: 3,
+						background: { r: 128, g: 128, b: 128 },
+					},
+				})
+					.png({ palette: true })
+					.toBuffer(),
+			)
+
+			// WHEN validating
+			const result = await validateStoreAssets(outputDir)
+
+			// THEN each broken rule should be reported per file
+			expect(
+				result.issues.map(issue => [issue.path, issue.rule, issue.fixable]),
+			).toEqual([
+				['ios/icon-1024.png', 'alpha', true],
+				['store/android/play-store-icon.png', 'dimensions', false],
+				['store/android/play-store-icon.png', 'alpha', true],
+				['store/android/play-store-icon.png', 'bit-depth', true],
+			])
+			expect(result.issues[0]).toMatchObject({
+				store: 'App Store',
+				message: 'has an alpha channel',
+			})
+		})
+
+		it('should accept Display P3 on the App Store only', async () => {
+			// GIVEN Display P3 icons for both stores
+			const p3 = (width: number, channels: 3 | 4) =>
+				sharp({
+					create: {
+						width,
+						height: width,
+						channels,
+						background: { r: 51, g: 102, b: 255 },
+					},
+				})
+					.withIccProfile('p3')
+					.png()
+					.toBuffer()
+			await writeOutput('store/ios/app-store-icon.png', await p3(1024, 3))
+			await writeOutput('store/android/play-store-icon.png', await p3(512, 4))
+
+			// WHEN validating
+			const result = await validateStoreAssets(outputDir)
+
+			// THEN only Google Play should reject the profile
+			expect(result.issues).toHaveLength(1)
+			expect(result.issues[0]).toMatchObject({
+				path: 'store/android/play-store-icon.png',
+				rule: 'color-profile',
+			})
+			expect(result.issues[0]?.message).toContain('P3')
+		})
+
+		it('should report a Play icon over 1024 KB as not fixable', async () => {
+			// GIVEN an uncompressed 512px image
+			const noise = Buffer.alloc(512 * 512 * 4)
+			for (let index = 0; index < noise.length; index++) {
+				noise[index] = (index * 7919) % 251
+			}
+			const png = await sharp(noise, {
+				raw: { width: 512, height: 512, channels: 4 },
+			})
+				.png({ compressionLevel: 0 })
+				.toBuffer()
+			await writeOutput('store/android/play-store-icon.png', png)
+
+			// WHEN validating with fixes
+			const result = await validateStoreAssets(outputDir, { fix: true })
+
+			// THEN the size should still be reported and the file left alone
+			expect(result.issues).toEqual([
+				expect.objectContaining({ rule: 'file-size', fixable: false }),
+			])
+			expect(result.fixedFiles).toEqual([])
+		})
+
+		it('should flatten alpha onto the background with fix', async () => {
+			// GIVEN a fully transparent App Store icon
+			await writeOutput(
+				'store/ios/app-store-icon.png',
+				await createPng({ width: 1024, height: 1024 }, { alpha: 0 }),
+			)
+
+			// WHEN validating with fixes onto red
+			const result = await validateStoreAssets(outputDir, {
+				fix: true,
+				background: '#FF0000',
+			})
+
+			// THEN the file should be rewritten as opaque red RGB
+			expect(result.issues).toEqual([])
+			expect(result.fixedFiles).toEqual(['store/ios/app-store-icon.png'])
+			const fixed = await fs.readFile(
+				path.join(outputDir, 'store/ios/app-store-icon.png'),
+			)
+			expect(fixed[25]).toBe(2)
+			const { data } = await sharp(fixed)
+				.raw()
+				.toBuffer({ resolveWithObject: true })
+			expect([...data.subarray(0, 3)]).toEqual([255, 0, 0])
+		})
+	})
+
+	describe('removeOpaqueAlpha', () => {
+		it('should only drop the alpha channel of opaque images', async () => {
+			// GIVEN an opaque and a translucent RGBA PNG
+			const opaque = await createPng({ width: 4, height: 4 })
+			const translucent = await createPng(
+				{ width: 4, height: 4 },
+				{ alpha: 0.5 },
+			)
+
+			// WHEN removing opaque alpha
+			// THEN only the opaque one should become RGB
+			expect((await removeOpaqueAlpha(opaque))[25]).toBe(2)
+			expect(await removeOpaqueAlpha(translucent)).toBe(translucent)
+		})
+	})
+})
@@ -0,0 +1,94 @@
+/**
+ * Tests for build variant resolution.
+ *
+ * Tests per-variant configs, output folders and install targets.
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import type { AssetGeneratorConfig } from '../../types'
+import {
+	getVariantAppIconName,
+	getVariantNames,
+	getVariantResDir,
+	resolveVariantConfig,
+	VARIANT_NAME_PATTERN,
+} from '../../utils/variants'
+
+const baseConfig: AssetGeneratorConfig = {
+	appName: 'TestApp',
+	platforms: ['ios', 'android'],
+	assetTypes: ['icon'],
+	background: { type: 'color', color: { type: 'solid', color: '#FFFFFF' } },
+	foreground: {
+		type: 'text',
+		text: 'T',
+		fontFamily: 'Roboto',
+		fontSource: 'google',
+		color: '#000000',
+	},
+	outputDir: '/output',
+	iconScale: 0.7,
+	variants: {
+		prod: {},
+		staging: { badge: { text: 'STAGING' }, iconScale: 0.6 },
+	},
+}
+
+describe('Variants', () => {
+	describe('getVariantNames', () => {
+		it('should keep declaration order', () => {
+			// GIVEN two variants
+			// WHEN listing them
+			// THEN they should be in declaration order
+			const { variants: _variants, ...single } = baseConfig
+			expect(getVariantNames(baseConfig)).toEqual(['prod', 'staging'])
+			expect(getVariantNames(single)).toEqual([])
+		})
+	})
+
+	describe('resolveVariantConfig', () => {
+		it('should apply the delta into a subfolder', () => {
+			// GIVEN a staging variant with a badge and a scale
+			// WHEN resolving it
+			const resolved = resolveVariantConfig(baseConfig, 'staging')
+
+			// THEN the delta should replace top-level fields
+			expect(resolved.badge).toEqual({ text: 'STAGING' })
+			expect(resolved.iconScale).toBe(0.6)
+			expect(resolved.background).toBe(baseConfig.background)
+			expect(resolved.outputDir).toBe('/output/staging')
+			expect(resolved.variants).toBeUndefined()
+		})
+
+		it('should reject undeclared variants', () => {
+			// GIVEN no qa variant
+			// WHEN resolving it
+			// THEN it should throw
+			expect(() => resolveVariantConfig(baseConfig, 'qa')).toThrow(
+				'Unknown variant "qa"',
+			)
+		})
+	})
+
+	describe('install targets', () => {
+		it('should name the icon set and flavor source set', () => {
+			// GIVEN the staging variant
+			// WHEN computing its install targets
+			// THEN they should sit next to the main ones
+			expect(getVariantAppIconName('staging')).toBe('AppIcon-Staging')
+			expect(getVariantResDir('/app/android/app/src/main/res', 'staging')).toBe(
+				'/app/android/app/src/staging/res',
+			)
+		})
+
+		it('should only accept names usable as Gradle flavors', () => {
+			// GIVEN valid and invalid names
+			// WHEN matching the pattern
+			// THEN only lowerCamelCase names should pass
+			expect(VARIANT_NAME_PATTERN.test('internalQa')).toBe(true)
+			expect(VARIANT_NAME_PATTERN.test('Staging')).toBe(false)
+			expect(VARIANT_NAME_PATTERN.test('dev-1')).toBe(false)
+		})
+	})
+})
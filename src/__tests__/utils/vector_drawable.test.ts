@@ -0,0 +1,314 @@
+/**
+ * Tests for Android VectorDrawable output.
+ *
+ * Tests which adaptive layers become drawable XML, SVG conversion, the
+ * safe zone layout on the 108dp viewport and gradient shape drawables.
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import type { AssetGeneratorConfig } from '../../types'
+import {
+	canUseGradientDrawable,
+	createGradientDrawableXml,
+	createTextArtwork,
+	createVectorDrawableXml,
+	getAdaptiveIconDrawables,
+	getAndroidGradientAngle,
+	getVectorAdaptiveLayers,
+	isReplacedByVectorDrawable,
+	parseSvgArtwork,
+} from '../../utils/vector_drawable'
+
+const baseConfig: AssetGeneratorConfig = {
+	appName: 'TestApp',
+	platforms: ['android'],
+	assetTypes: ['adaptive'],
+	background: { type: 'color', color: { type: 'solid', color: '#FFFFFF' } },
+	foreground: {
+		type: 'svg',
+		svgPath: '/logo.svg',
+	},
+	outputDir: '/output',
+	iconScale: 0.6,
+	splashScale: 0.25,
+	androidAdaptiveFormat: 'vector',
+}
+
+describe('Vector Drawable', () => {
+	describe('getVectorAdaptiveLayers', () => {
+		it('should keep every layer as PNG by default', () => {
+			// GIVEN the default format
+			const { androidAdaptiveFormat: _format, ...config } = baseConfig
+
+			// WHEN resolving the layers
+			const layers = getVectorAdaptiveLayers(config)
+
+			// THEN nothing should be vector
+			expect(layers).toEqual({
+				foreground: false,
+				monochrome: false,
+				background: undefined,
+			})
+		})
+
+		it('should use vectors for SVG foregrounds and solid colors', () => {
+			// GIVEN the vector format
+			// WHEN resolving the layers
+			const layers = getVectorAdaptiveLayers(baseConfig)
+
+			// THEN the foreground should be vector on a color resource
+			expect(layers).toEqual({
+				foreground: true,
+				monochrome: true,
+				background: 'color',
+			})
+		})
+
+		it('should keep image foregrounds and wide gradients as PNG', () => {
+			// GIVEN an image foreground on a four-color gradient
+			const config: AssetGeneratorConfig = {
+				...baseConfig,
+				foreground: { type: 'image', imagePath: '/logo.png' },
+				background: {
+					type: 'gradient',
+					gradient: {
+						type: 'linear',
+						colors: ['#000000', '#333333', '#666666', '#999999'],
+					},
+				},
+			}
+
+			// WHEN resolving the layers
+			const layers = getVectorAdaptiveLayers(config)
+
+			// THEN no layer can be expressed as drawable XML
+			expect(layers).toEqual({
+				foreground: false,
+				monochrome: false,
+				background: undefined,
+			})
+		})
+	})
+
+	describe('isReplacedByVectorDrawable', () => {
+		it('should only drop the layers written as XML', () => {
+			// GIVEN vector foregrounds on an image background
+			const layers = {
+				foreground: true,
+				monochrome: true,
+				background: undefined,
+			}
+			const spec = (name: string) => ({ platform: 'android' as const, name })
+
+			// WHEN checking each adaptive layer
+			// THEN only the foreground and monochrome PNGs should be replaced
+			expect(
+				isReplacedByVectorDrawable(
+					spec('android/mipmap-hdpi/ic_launcher_foreground.png'),
+					layers,
+				),
+			).toBe(true)
+			expect(
+				isReplacedByVectorDrawable(
+					spec('android/mipmap-hdpi/ic_launcher_monochrome.png'),
+					layers,
+				),
+			).toBe(true)
+			expect(
+				isReplacedByVectorDrawable(
+					spec('android/mipmap-hdpi/ic_launcher_background.png'),
+					layers,
+				),
+			).toBe(false)
+			expect(
+				isReplacedByVectorDrawable(
+					spec('android/mipmap-hdpi/ic_launcher.png'),
+					layers,
+				),
+			).toBe(false)
+		})
+	})
+
+	describe('getAdaptiveIconDrawables', () => {
+		it('should reference drawables, colors and mipmaps per layer', () => {
+			// GIVEN a vector foreground on a gradient, monochrome as PNG
+			const layers = {
+				foreground: true,
+				monochrome: false,
+				background: 'gradient' as const,
+			}
+
+			// WHEN getting the resources
+			// THEN each layer should point at its own resource type
+			expect(getAdaptiveIconDrawables(layers)).toEqual({
+				background: '@drawable/ic_launcher_background',
+				foreground: '@drawable/ic_launcher_foreground',
+				monochrome: '@mipmap/ic_launcher_monochrome',
+			})
+		})
+	})
+
+	describe('parseSvgArtwork', () => {
+		it('should convert shapes and inherit group paint', () => {
+			// GIVEN shapes inside a filled group
+			const svg = `<?xml version="1.0"?>
+<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24">
+  <!-- Logo -->
+  <g fill="#3366ff" opacity="0.5">
+    <circle cx="12" cy="12" r="10"/>
+    <rect x="2" y="2" width="4" height="4" style="fill:#F00;fill-rule:evenodd"/>
+  </g>
+  <polygon points="0,0 4,0 4,4" fill="none" stroke="#000" stroke-width="2"/>
+</svg>`
+
+			// WHEN converting it
+			const artwork = parseSvgArtwork(svg)
+
+			// THEN every shape should be a path with Android colors
+			expect(artwork.viewBox).toEqual({ x: 0, y: 0, width: 24, height: 24 })
+			expect(artwork.paths).toEqual([
+				{
+					pathData: 'M2 12A10 10 0 1 0 22 12A10 10 0 1 0 2 12Z',
+					fillColor: '#3366FF',
+					fillAlpha: 0.5,
+				},
+				{
+					pathData: 'M2 2H6V6H2Z',
+					fillColor: '#FF0000',
+					fillAlpha: 0.5,
+					fillType: 'evenOdd',
+				},
+				{
+					pathData: 'M0 0L4 0L4 4Z',
+					strokeColor: '#000000',
+					strokeWidth: 2,
+				},
+			])
+		})
+
+		it('should apply the color override to every path', () => {
+			// GIVEN a multi-color SVG sized by width and height
+			const svg =
+				'<svg width="48" height="32"><path d="M0 0H4V4Z" fill="#FF0000"/><path d="M8 8H4V4Z"/></svg>'
+
+			// WHEN converting it for the monochrome layer
+			const artwork = parseSvgArtwork(svg, '#FFFFFF')
+
+			// THEN every fill should be white
+			expect(artwork.viewBox).toEqual({ x: 0, y: 0, width: 48, height: 32 })
+			expect(artwork.paths.map(path => path.fillColor)).toEqual([
+				'#FFFFFF',
+				'#FFFFFF',
+			])
+		})
+
+		it('should reject content VectorDrawable cannot express', () => {
+			// GIVEN SVGs with a transform, a gradient fill and text
+			// WHEN converting them
+			// THEN each should fail with the offending element
+			expect(() =>
+				parseSvgArtwork(
+					'<svg viewBox="0 0 1 1"><g transform="scale(2)"><path d="M0 0"/></g></svg>',
+				),
+			).toThrow('Unsupported SVG attribute transform on <g>')
+			expect(() =>
+				parseSvgArtwork(
+					'<svg viewBox="0 0 1 1"><rect width="1" height="1" fill="url(#a)"/></svg>',
+				),
+			).toThrow('Unsupported SVG paint server on <rect> fill')
+			expect(() =>
+				parseSvgArtwork('<svg viewBox="0 0 1 1"><text>A</text></svg>'),
+			).toThrow('Unsupported SVG element <text>')
+		})
+	})
+
+	describe('createVectorDrawableXml', () => {
+		it('should fit the artwork into the centered safe zone', () => {
+			// GIVEN a 24×12 artwork and a 60% safe zone
+			const artwork = parseSvgArtwork(
+				'<svg viewBox="0 0 24 12"><path d="M0 0H24V12H0Z" fill="#000"/></svg>',
+			)
+
+			// WHEN building the drawable
+			const xml = createVectorDrawableXml(artwork, 0.6)
+
+			// THEN the 64.8dp wide artwork should be centered on 108dp
+			expect(xml).toContain('android:viewportWidth="108"')
+			expect(xml).toContain('android:scaleX="2.7"')
+			expect(xml).toContain('android:translateX="21.6"')
+			expect(xml).toContain('android:translateY="37.8"')
+		})
+
+		it('should offset text outlines in a nested group', () => {
+			// GIVEN a text outline centered on a 100px canvas
+			const artwork = createTextArtwork(
+				{ pathData: 'M0 0H10V-10Z', offsetX: 45, offsetY: 55 },
+				100,
+				'#ffcc00',
+			)
+
+			// WHEN building the drawable
+			const xml = createVectorDrawableXml(artwork, 0.5)
+
+			// THEN the outline should keep its centering translation
+			expect(xml).toContain('android:translateX="45"')
+			expect(xml).toContain('android:translateY="55"')
+			expect(xml).toContain('android:fillColor="#FFCC00"')
+		})
+	})
+
+	describe('gradient drawables', () => {
+		it('should accept two or three colors at 45° steps', () => {
+			// GIVEN gradients of different shapes
+			// WHEN checking them
+			// THEN only what <gradient> can draw should be accepted
+			expect(
+				canUseGradientDrawable({
+					type: 'linear',
+					colors: ['#000', '#FFF'],
+					angle: 135,
+				}),
+			).toBe(true)
+			expect(
+				canUseGradientDrawable({
+					type: 'linear',
+					colors: ['#000', '#FFF'],
+					angle: 30,
+				}),
+			).toBe(false)
+			expect(
+				canUseGradientDrawable({
+					type: 'radial',
+					colors: ['#000', '#777', '#AAA', '#FFF'],
+				}),
+			).toBe(false)
+		})
+
+		it('should convert background angles to Android angles', () => {
+			// GIVEN background angles (0 = top to bottom, clockwise)
+			// WHEN converting them
+			// THEN they should match Android's counterclockwise angles
+			expect(getAndroidGradientAngle(0)).toBe(270)
+			expect(getAndroidGradientAngle(90)).toBe(180)
+			expect(getAndroidGradientAngle(270)).toBe(0)
+			expect(getAndroidGradientAngle(315)).toBe(315)
+		})
+
+		it('should write start, center and end colors', () => {
+			// GIVEN a three-color radial gradient
+			// WHEN building the drawable
+			const xml = createGradientDrawableXml({
+				type: 'radial',
+				colors: ['#ff0000', '#00ff00', '#0000ff'],
+			})
+
+			// THEN it should be a radial shape gradient
+			expect(xml).toContain('android:type="radial"')
+			expect(xml).toContain('android:gradientRadius="50%"')
+			expect(xml).toContain('android:startColor="#FF0000"')
+			expect(xml).toContain('android:centerColor="#00FF00"')
+			expect(xml).toContain('android:endColor="#0000FF"')
+		})
+	})
+})
@@ -0,0 +1,181 @@
+/**
+ * Tests for vector masters.
+ *
+ * Tests which masters are written, the SVG composition, path data
+ * conversion and the PDF document structure.
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import { parseSvgArtwork } from '../../utils/vector_drawable'
+import {
+	createVectorMasterPdf,
+	createVectorMasterSvg,
+	getVectorMasterFiles,
+	toPdfPath,
+} from '../../utils/vector_master'
+
+const box = { left: 154, top: 154, size: 716 }
+
+describe('VectorMaster', () => {
+	describe('getVectorMasterFiles', () => {
+		it('should write each selected asset type in each format', () => {
+			// GIVEN icons and splash screens with both formats
+			// WHEN listing the files
+			// THEN every master should be written in every format
+			expect(
+				getVectorMasterFiles({
+					assetTypes: ['icon', 'splash'],
+					vectorMaster: ['svg', 'pdf'],
+				}),
+			).toEqual([
+				'master/icon.svg',
+				'master/icon.pdf',
+				'master/splash.svg',
+				'master/splash.pdf',
+			])
+		})
+
+		it('should write nothing without formats or matching types', () => {
+			// GIVEN no formats, and favicons only
+			// WHEN listing the files
+			// THEN there should be none
+			expect(getVectorMasterFiles({ assetTypes: ['icon'] })).toEqual([])
+			expect(
+				getVectorMasterFiles({
+					assetTypes: ['favicon'],
+					vectorMaster: ['svg'],
+				}),
+			).toEqual([])
+		})
+	})
+
+	describe('createVectorMasterSvg', () => {
+		it('should nest the artwork in the foreground box over the background', () => {
+			// GIVEN a background rect and artwork
+			const artwork = {
+				viewBox: '0 0 24 24',
+				attributes: ' fill="none"',
+				content: '<circle cx="12" cy="12" r="10"/>',
+			}
+
+			// WHEN building the master
+			const svg = createVectorMasterSvg(
+				{ width: 1024, height: 1024 },
+				'<rect width="1024" height="1024" fill="#FF5500"/>',
+				artwork,
+				box,
+			)
+
+			// THEN the artwork should be placed in the box on the full canvas
+			expect(
+				svg,
+			).toBe(`<svg xmlns="http://www.w3.org/2000/svg" width="1024" height="1024" viewBox="0 0 1024 1024">
+  <rect width="1024" height="1024" fill="#FF5500"/>
+  <svg x="154" y="154" width="716" height="716" viewBox="0 0 24 24" fill="none">
+    <circle cx="12" cy="12" r="10"/>
+  </svg>
+</svg>
+`)
+		})
+	})
+
+	describe('toPdfPath', () => {
+		it('should convert relative and smooth commands to absolute operators', () => {
+			// GIVEN path data with relative, shorthand and smooth commands
+			// WHEN converting
+			// THEN every segment should be absolute, with reflected controls
+			expect(toPdfPath('m1 2h3v4l-1 1s2 2 3 0Z')).toEqual([
+				'1 2 m',
+				'4 2 l',
+				'4 6 l',
+				'3 7 l',
+				'3 7 5 9 6 7 c',
+				'h',
+			])
+		})
+
+		it('should convert quadratic curves to cubic curves', () => {
+			// GIVEN a quadratic curve
+			// WHEN converting
+			// THEN the control points should be raised to cubic
+			expect(toPdfPath('M0 0Q3 3 6 0')).toEqual(['0 0 m', '2 2 4 2 6 0 c'])
+		})
+
+		it('should split arcs into quarter curves, reading compact flags', () => {
+			// GIVEN a full circle as two half arcs with unseparated flags
+			const operators = toPdfPath('M0 10a10 10 0 1020 0a10 10 0 10-20 0')
+
+			// THEN each half should become two cubic curves ending on the arc
+			expect(operators).toHaveLength(5)
+			expect(operators[2]).toMatch(/ 20 10 c$/)
+			expect(operators[4]).toMatch(/ 0 10 c$/)
+		})
+
+		it('should reject malformed path data', () => {
+			// GIVEN path data with an unknown command
+			// WHEN converting
+			// THEN a descriptive error should be thrown
+			expect(() => toPdfPath('M0 0 X1 1')).toThrow(/Unsupported path command/)
+		})
+	})
+
+	describe('createVectorMasterPdf', () => {
+		it('should write a single page with the gradient and artwork', () => {
+			// GIVEN a three-stop gradient and translucent artwork
+			const artwork = parseSvgArtwork(
+				'<svg viewBox="0 0 24 24"><rect width="24" height="24" fill="#FFFFFF80"/></svg>',
+			)
+
+			// WHEN building the master
+			const pdf = createVectorMasterPdf(
+				{ width: 1024, height: 1024 },
+				{
+					type: 'linear',
+					colors: ['#FF0000', '#00FF00', '#0000FF'],
+					from: { x: 0.5, y: 0 },
+					to: { x: 0.5, y: 1 },
+				},
+				artwork,
+				box,
+			).toString('latin1')
+
+			// THEN the page should hold the shading, alpha and fitted artwork
+			expect(pdf.startsWith('%PDF-1.4\n')).toBe(true)
+			expect(pdf).toContain('/MediaBox [0 0 1024 1024]')
+			expect(pdf).toContain('/ShadingType 2 /Coords [0.5 0 0.5 1]')
+			expect(pdf).toContain('/FunctionType 3')
+			expect(pdf).toContain('/Bounds [0.5]')
+			expect(pdf).toContain('/GS0 << /ca 0.502 >>')
+			expect(pdf).toContain('29.833333 0 0 29.833333 154 154 cm')
+			expect(pdf.endsWith('%%EOF\n')).toBe(true)
+		})
+
+		it('should point the cross-reference table at each object', () => {
+			// GIVEN a solid background
+			const pdf = createVectorMasterPdf(
+				{ width: 512, height: 512 },
+				{ type: 'color', color: '#FF5500' },
+				parseSvgArtwork(
+					'<svg viewBox="0 0 10 10"><path d="M0 0H10V10Z"/></svg>',
+				),
+				{ left: 0, top: 0, size: 512 },
+			).toString('latin1')
+
+			// WHEN reading the offsets after startxref
+			const xref = Number(/startxref\n(\d+)/.exec(pdf)?.[1])
+			const offsets = [...pdf.slice(xref).matchAll(/(\d{10}) 00000 n/g)].map(
+				match => Number(match[1]),
+			)
+
+			// THEN each offset should start its object
+			expect(pdf.slice(xref).startsWith('xref')).toBe(true)
+			expect(offsets).toHaveLength(4)
+			offsets.forEach((offset, index) => {
+				expect(pdf.startsWith(`${index + 1} 0 obj`, offset)).toBe(true)
+			})
+			expect(pdf).toContain('1 0.3333 0 rg')
+			expect(pdf).not.toContain('/Shading')
+		})
+	})
+})
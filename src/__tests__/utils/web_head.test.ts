@@ -0,0 +1,292 @@
+/**
+ * Tests for the web head files.
+ *
+ * Tests the head.html tags, iOS startup image media queries,
+ * browserconfig.xml tiles, SVG artwork parsing and the dark color scheme
+ * rules of favicon.svg.
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import { WEB_SPLASH, WEB_SPLASH_DARK } from '../../assets/asset_specs'
+import {
+	createBrowserConfigXml,
+	createFaviconSvg,
+	createHeadHtml,
+	createMaskIconSvg,
+	createStartupImageHtml,
+	createTextSvgArtwork,
+	getStartupImageMedia,
+	parseSvgFaviconArtwork,
+	type SvgArtwork,
+	type WebHeadColors,
+} from '../../utils/web_head'
+
+const colors: WebHeadColors = {
+	theme: '#FF5500',
+	darkTheme: '#111111',
+	tile: '#FF5500',
+	maskIcon: '#FFFFFF',
+}
+
+const artwork: SvgArtwork = {
+	viewBox: '0 0 100 100',
+	attributes: '',
+	content: '<circle cx="50" cy="50" r="40" fill="#FF5500"/>',
+}
+
+describe('Web Head', () => {
+	describe('createHeadHtml', () => {
+		it('should link favicon.svg and the mask icon when written', () => {
+			// GIVEN the SVG icons alongside the head files
+			const files = [
+				'web/head.html',
+				'web/browserconfig.xml',
+				'web/favicon.svg',
+				'web/safari-pinned-tab.svg',
+			]
+
+			// WHEN building the snippet
+			const html = createHeadHtml(files, colors)
+
+			// THEN the SVG should replace the PNG favicon links
+			expect(html).toContain(
+				'<link rel="icon" href="/favicon.svg" type="image/svg+xml">',
+			)
+			expect(html).not.toContain('favicon-32x32.png')
+			expect(html).toContain(
+				'<link rel="mask-icon" href="/safari-pinned-tab.svg" color="#FFFFFF">',
+			)
+			expect(html).toContain(
+				'<link rel="apple-touch-icon" href="/apple-touch-icon-180x180.png" sizes="180x180">',
+			)
+		})
+
+		it('should link PNG favicons and both theme colors otherwise', () => {
+			// GIVEN only the head files
+			// WHEN building the snippet
+			const html = createHeadHtml(
+				['web/head.html', 'web/browserconfig.xml'],
+				colors,
+			)
+
+			// THEN the PNGs, manifest and theme colors should be linked
+			expect(html).toContain(
+				'<link rel="icon" href="/favicon-16x16.png" type="image/png" sizes="16x16">',
+			)
+			expect(html).not.toContain('mask-icon')
+			expect(html).toContain('<link rel="manifest" href="/site.webmanifest">')
+			expect(html).toContain(
+				'<meta name="theme-color" content="#FF5500" media="(prefers-color-scheme: light)">',
+			)
+			expect(html).toContain(
+				'<meta name="theme-color" content="#111111" media="(prefers-color-scheme: dark)">',
+			)
+			expect(html).toContain(
+				'<meta name="msapplication-config" content="/browserconfig.xml">',
+			)
+		})
+	})
+
+	describe('getStartupImageMedia', () => {
+		it('should match the portrait device size in both orientations', () => {
+			// GIVEN the iPhone 15 startup images in landscape, light and dark
+			const landscape = WEB_SPLASH.find(
+				spec => spec.name === 'web/apple-splash-2532x1170.png',
+			)
+			const dark = WEB_SPLASH_DARK.find(
+				spec => spec.name === 'web/apple-splash-dark-1170x2532.png',
+			)
+
+			// WHEN getting their media queries
+			// THEN they should use the point size, pixel ratio and color scheme
+			expect(getStartupImageMedia(landscape!)).toBe(
+				'(device-width: 390px) and (device-height: 844px) and (-webkit-device-pixel-ratio: 3) and (orientation: landscape) and (prefers-color-scheme: light)',
+			)
+			expect(getStartupImageMedia(dark!)).toBe(
+				'(device-width: 390px) and (device-height: 844px) and (-webkit-device-pixel-ratio: 3) and (orientation: portrait) and (prefers-color-scheme: dark)',
+			)
+		})
+	})
+
+	describe('startup images', () => {
+		it('should link every startup image in head.html', () => {
+			// GIVEN light and dark startup images
+			const startupImages = [...WEB_SPLASH, ...WEB_SPLASH_DARK]
+
+			// WHEN building the snippet with and without favicons
+			const html = createHeadHtml(['web/head.html'], colors, startupImages)
+			const only = createStartupImageHtml(startupImages)
+
+			// THEN each image should be linked once, with the capable meta tag
+			for (const snippet of [html, only]) {
+				expect(snippet.match(/rel="apple-touch-startup-image"/g)).toHaveLength(
+					startupImages.length,
+				)
+				expect(snippet).toContain(
+					'<meta name="apple-mobile-web-app-capable" content="yes">',
+				)
+			}
+			expect(only).not.toContain('manifest')
+		})
+
+		it('should omit startup tags without startup images', () => {
+			// GIVEN no startup images
+			// WHEN building the snippet
+			const html = createHeadHtml(['web/head.html'], colors)
+
+			// THEN no startup tags should be emitted
+			expect(html).not.toContain('apple-touch-startup-image')
+			expect(html).not.toContain('apple-mobile-web-app-capable')
+		})
+	})
+
+	describe('createBrowserConfigXml', () => {
+		it('should list every tile and the tile color', () => {
+			// GIVEN a tile color
+			// WHEN building browserconfig.xml
+			const xml = createBrowserConfigXml('#FF5500')
+
+			// THEN each mstile should be referenced
+			expect(xml).toContain('<square70x70logo src="/mstile-70x70.png"/>')
+			expect(xml).toContain('<wide310x150logo src="/mstile-310x150.png"/>')
+			expect(xml).toContain('<TileImage src="/mstile-144x144.png"/>')
+			expect(xml).toContain('<TileColor>#FF5500</TileColor>')
+		})
+	})
+
+	describe('parseSvgFaviconArtwork', () => {
+		it('should derive the viewBox and drop replaced root attributes', () => {
+			// GIVEN an SVG sized without a viewBox
+			const svg =
+				'<svg xmlns="http://www.w3.org/2000/svg" width="24" height="12" fill="none"><path d="M0 0H24V12H0Z"/></svg>'
+
+			// WHEN parsing it
+			const parsed = parseSvgFaviconArtwork(svg)
+
+			// THEN the size should become the viewBox and fill should be kept
+			expect(parsed).toEqual({
+				viewBox: '0 0 24 12',
+				attributes: ' fill="none"',
+				content: '<path d="M0 0H24V12H0Z"/>',
+			})
+		})
+
+		it('should replace every fill with the color override', () => {
+			// GIVEN an SVG with two fills
+			const svg =
+				'<svg viewBox="0 0 10 10"><rect fill="#FF0000"/><circle fill="#00FF00"/></svg>'
+
+			// WHEN parsing it with an override
+			const parsed = parseSvgFaviconArtwork(svg, '#000000')
+
+			// THEN both shapes should use the override
+			expect(parsed.content).toBe(
+				'<rect fill="#000000"/><circle fill="#000000"/>',
+			)
+		})
+
+		it('should throw without a viewBox or size', () => {
+			// GIVEN an SVG without dimensions
+			// WHEN parsing it
+			// THEN it should fail
+			expect(() => parseSvgFaviconArtwork('<svg><g/></svg>')).toThrow('viewBox')
+		})
+	})
+
+	describe('createTextSvgArtwork', () => {
+		it('should place the outline on the layout canvas', () => {
+			// GIVEN a text layout
+			const layout = { pathData: 'M0 0H10V10H0Z', offsetX: 5, offsetY: 15 }
+
+			// WHEN building artwork
+			const text = createTextSvgArtwork(layout, 100, '#FFFFFF')
+
+			// THEN the path should be translated by the offsets
+			expect(text.viewBox).toBe('0 0 100 100')
+			expect(text.content).toBe(
+				'<path d="M0 0H10V10H0Z" fill="#FFFFFF" transform="translate(5, 15)"/>',
+			)
+		})
+	})
+
+	describe('createFaviconSvg', () => {
+		it('should swap a solid background and the foreground in dark mode', () => {
+			// GIVEN a solid background with a dark color
+			// WHEN building favicon.svg at 80% with a dark foreground
+			const svg = createFaviconSvg(
+				{ type: 'color', color: '#FF5500', darkColor: '#111111' },
+				artwork,
+				0.8,
+				'#EEEEEE',
+			)
+
+			// THEN the light colors should be attributes and dark ones styles
+			expect(svg).toContain('fill="#FF5500"/>')
+			expect(svg).toContain('@media (prefers-color-scheme: dark)')
+			expect(svg).toContain('.background { fill: #111111; }')
+			expect(svg).toContain(
+				'.foreground, .foreground [fill] { fill: #EEEEEE; }',
+			)
+			expect(svg).toContain(
+				'<svg class="foreground" x="51.5" y="51.5" width="409" height="409" viewBox="0 0 100 100">',
+			)
+		})
+
+		it('should restyle each gradient stop', () => {
+			// GIVEN a two-stop gradient
+			// WHEN building favicon.svg
+			const svg = createFaviconSvg(
+				{
+					type: 'gradient',
+					markup: '<svg><linearGradient/></svg>',
+					darkColors: ['#000000', '#222222'],
+				},
+				artwork,
+				1,
+			)
+
+			// THEN each stop should get its dark color
+			expect(svg).toContain(
+				'<g class="background"><svg><linearGradient/></svg></g>',
+			)
+			expect(svg).toContain(
+				'.background stop:nth-of-type(2) { stop-color: #222222; }',
+			)
+			expect(svg).not.toContain('.foreground, .foreground [fill]')
+		})
+
+		it('should toggle background images and skip the style without dark', () => {
+			// GIVEN image backgrounds with and without a dark image
+			const light = { type: 'image' as const, href: 'data:image/png;base64,A' }
+
+			// WHEN building favicon.svg for both
+			const withDark = createFaviconSvg(
+				{ ...light, darkHref: 'data:image/png;base64,B' },
+				artwork,
+				1,
+			)
+			const withoutDark = createFaviconSvg(light, artwork, 1)
+
+			// THEN only the dark image should show in dark mode
+			expect(withDark).toContain(
+				'<image class="background-dark" width="512" height="512" href="data:image/png;base64,B" display="none"/>',
+			)
+			expect(withDark).toContain('.background-dark { display: inline; }')
+			expect(withoutDark).not.toContain('<style>')
+		})
+	})
+
+	describe('createMaskIconSvg', () => {
+		it('should fill the canvas with the artwork', () => {
+			// GIVEN artwork
+			// WHEN building the mask icon
+			const svg = createMaskIconSvg(artwork)
+
+			// THEN it should cover the whole 512 canvas
+			expect(svg).toContain(
+				'<svg class="foreground" x="0" y="0" width="512" height="512" viewBox="0 0 100 100">',
+			)
+		})
+	})
+})
@@ -0,0 +1,277 @@
+/**
+ * Tests for the web app manifest.
+ *
+ * Tests the manifest fields and shortcuts, shortcut icon specs, manifest
+ * discovery and merging the icons into a project manifest.
+ */
+
+import * as fs from 'node:fs/promises'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import type { AssetGeneratorConfig } from '../../types'
+import {
+	createWebManifest,
+	getWebShortcutAssetSpecs,
+	installManifestIcons,
+	mergeManifestIcons,
+	resolveManifestPath,
+	resolveWebShortcutConfig,
+} from '../../utils/web_manifest'
+
+const COLORS = { theme: '#667EEA', background: '#667EEA' }
+
+function createConfig(
+	manifest: AssetGeneratorConfig['manifest'] = {},
+): AssetGeneratorConfig {
+	return {
+		appName: 'Demo',
+		platforms: ['web'],
+		assetTypes: ['favicon'],
+		background: {
+			type: 'color',
+			color: { type: 'solid', color: '#667EEA' },
+		},
+		foreground: {
+			type: 'text',
+			text: 'D',
+			fontFamily: 'Roboto',
+			fontSource: 'google',
+			color: '#FFFFFF',
+		},
+		outputDir: './assets',
+		manifest,
+	}
+}
+
+describe('WebManifest', () => {
+	describe('createWebManifest', () => {
+		it('should default to a standalone app at the root', () => {
+			// GIVEN no manifest options
+			// WHEN building the manifest
+			const manifest = createWebManifest({ appName: 'Demo' }, COLORS)
+
+			// THEN the defaults should be used and optional fields omitted
+			expect(manifest).toMatchObject({
+				name: 'Demo',
+				short_name: 'Demo',
+				theme_color: '#667EEA',
+				background_color: '#667EEA',
+				display: 'standalone',
+				start_url: '/',
+			})
+			expect(Object.keys(manifest)).not.toContain('id')
+			expect(Object.keys(manifest)).not.toContain('shortcuts')
+			expect(Object.keys(manifest)).not.toContain('user_preferences')
+		})
+
+		it('should carry the configured fields', () => {
+			// GIVEN every manifest option
+			const config = createConfig({
+				shortName: 'D',
+				description: 'A demo app',
+				id: '/?app=demo',
+				startUrl: '/app/',
+				scope: '/app/',
+				display: 'fullscreen',
+				displayOverride: ['window-controls-overlay', 'standalone'],
+				orientation: 'portrait',
+			})
+
+			// WHEN building the manifest
+			const manifest = createWebManifest(config, {
+				...COLORS,
+				dark: '#1E1B4B',
+			})
+
+			// THEN they should map to the manifest members
+			expect(manifest).toMatchObject({
+				id: '/?app=demo',
+				short_name: 'D',
+				description: 'A demo app',
+				display: 'fullscreen',
+				display_override: ['window-controls-overlay', 'standalone'],
+				orientation: 'portrait',
+				start_url: '/app/',
+				scope: '/app/',
+				user_preferences: {
+					color_scheme_dark: {
+						theme_color: '#1E1B4B',
+						background_color: '#1E1B4B',
+					},
+				},
+			})
+		})
+
+		it('should list shortcuts with their icons', () => {
+			// GIVEN two shortcuts
+			const config = createConfig({
+				shortcuts: [
+					{ name: 'New note', shortName: 'New', url: '/new' },
+					{ name: 'Search', description: 'Find notes', url: '/search' },
+				],
+			})
+
+			// WHEN building the manifest
+			const manifest = createWebManifest(config, COLORS)
+
+			// THEN each shortcut should reference its numbered icons
+			expect(manifest.shortcuts).toEqual([
+				{
+					name: 'New note',
+					short_name: 'New',
+					url: '/new',
+					icons: [
+						{ src: 'shortcut-1-96x96.png', sizes: '96x96', type: 'image/png' },
+						{
+							src: 'shortcut-1-192x192.png',
+							sizes: '192x192',
+							type: 'image/png',
+						},
+					],
+				},
+				{
+					name: 'Search',
+					description: 'Find notes',
+					url: '/search',
+					icons: [
+						{ src: 'shortcut-2-96x96.png', sizes: '96x96', type: 'image/png' },
+						{
+							src: 'shortcut-2-192x192.png',
+							sizes: '192x192',
+							type: 'image/png',
+						},
+					],
+				},
+			])
+		})
+	})
+
+	describe('shortcut icons', () => {
+		it('should only add specs for web favicons', () => {
+			// GIVEN a shortcut
+			const config = createConfig({ shortcuts: [{ name: 'New', url: '/' }] })
+
+			// WHEN getting the specs with and without web favicons
+			// THEN they should only exist with web favicons
+			expect(getWebShortcutAssetSpecs(config).map(spec => spec.name)).toEqual([
+				'web/shortcut-1-96x96.png',
+				'web/shortcut-1-192x192.png',
+			])
+			expect(
+				getWebShortcutAssetSpecs({ ...config, assetTypes: ['splash'] }),
+			).toEqual([])
+		})
+
+		it('should apply the shortcut layers to its icons only', () => {
+			// GIVEN a shortcut with its own foreground
+			const foreground: AssetGeneratorConfig['foreground'] = {
+				type: 'svg',
+				svgPath: '/search.svg',
+			}
+			const config = createConfig({
+				shortcuts: [{ name: 'Search', url: '/search', foreground }],
+			})
+
+			// WHEN resolving shortcut and regular files
+			// THEN only the shortcut icon should use it
+			expect(
+				resolveWebShortcutConfig(config, { name: 'web/shortcut-1-96x96.png' })
+					.foreground,
+			).toEqual(foreground)
+			expect(
+				resolveWebShortcutConfig(config, { name: 'web/icon-192x192.png' }),
+			).toBe(config)
+		})
+	})
+
+	describe('mergeManifestIcons', () => {
+		const icons = [{ src: 'icon.png', sizes: '192x192', type: 'image/png' }]
+
+		it('should replace only the icons and keep the formatting', () => {
+			// GIVEN a tab-indented manifest with a trailing newline
+			const existing =
+				'{\n\t"name": "App",\n\t"icons": [],\n\t"display": "browser"\n}\n'
+
+			// WHEN merging the icons
+			const merged = mergeManifestIcons(existing, icons)
+
+			// THEN other fields should keep their order and the tabs be kept
+			expect(merged).toBe(
+				'{\n\t"name": "App",\n\t"icons": [\n\t\t{\n\t\t\t"src": "icon.png",\n\t\t\t"sizes": "192x192",\n\t\t\t"type": "image/png"\n\t\t}\n\t],\n\t"display": "browser"\n}\n',
+			)
+		})
+
+		it('should reject invalid manifests', () => {
+			// GIVEN invalid JSON and a non-object
+			// WHEN merging
+			// THEN descriptive errors should be thrown
+			expect(() => mergeManifestIcons('{', icons)).toThrow(/Invalid JSON/)
+			expect(() => mergeManifestIcons('[]', icons)).toThrow(
+				/expected a JSON object/,
+			)
+		})
+	})
+
+	describe('project files', () => {
+		let tempDir: string
+		let generatedDir: string
+
+		beforeEach(async () => {
+			tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'appicons-manifest-'))
+			generatedDir = path.join(tempDir, 'out', 'web')
+			await fs.mkdir(generatedDir, { recursive: true })
+			await fs.writeFile(
+				path.join(generatedDir, 'site.webmanifest'),
+				JSON.stringify({
+					name: 'Demo',
+					icons: [
+						{ src: 'icon-192x192.png', sizes: '192x192', type: 'image/png' },
+					],
+				}),
+			)
+			await fs.writeFile(path.join(generatedDir, 'icon-192x192.png'), 'png')
+		})
+
+		afterEach(async () => {
+			await fs.rm(tempDir, { recursive: true, force: true })
+		})
+
+		it('should find a manifest in a project directory', async () => {
+			// GIVEN a project with a public/ directory
+			const project = path.join(tempDir, 'project')
+			await fs.mkdir(path.join(project, 'public'), { recursive: true })
+
+			// WHEN resolving the project directory before and after adding it
+			// THEN the manifest should only be found once it exists
+			await expect(resolveManifestPath(project)).rejects.toThrow(
+				/No web app manifest found/,
+			)
+			await fs.writeFile(path.join(project, 'public', 'manifest.json'), '{}')
+			expect(await resolveManifestPath(project)).toBe(
+				path.join(project, 'public', 'manifest.json'),
+			)
+		})
+
+		it('should copy the icons and report only changes', async () => {
+			// GIVEN a project manifest
+			const manifestPath = path.join(tempDir, 'manifest.json')
+			await fs.writeFile(manifestPath, '{\n  "name": "Project"\n}\n')
+
+			// WHEN installing twice
+			const first = await installManifestIcons(generatedDir, manifestPath)
+			const second = await installManifestIcons(generatedDir, manifestPath)
+
+			// THEN the icon and manifest should change once
+			expect(first).toEqual([
+				path.join(tempDir, 'icon-192x192.png'),
+				manifestPath,
+			])
+			expect(second).toEqual([])
+			const merged = JSON.parse(await fs.readFile(manifestPath, 'utf-8'))
+			expect(merged.name).toBe('Project')
+			expect(merged.icons).toHaveLength(1)
+		})
+	})
+})
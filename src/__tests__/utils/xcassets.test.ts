@@ -0,0 +1,132 @@
+/**
+ * Tests for Xcode asset catalog integration.
+ *
+ * Tests catalog discovery in project layouts and icon set installation.
+ */
+
+import * as fs from 'node:fs/promises'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import { installAppIconSet, resolveXcassetsPath } from '../../utils/xcassets'
+
+describe('Xcassets', () => {
+	let tempDir: string
+
+	beforeEach(async () => {
+		tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'appicons-xcassets-'))
+	})
+
+	afterEach(async () => {
+		await fs.rm(tempDir, { recursive: true, force: true })
+	})
+
+	describe('resolveXcassetsPath', () => {
+		it('should accept an explicit .xcassets directory', async () => {
+			// GIVEN an existing asset catalog
+			const catalog = path.join(tempDir, 'Assets.xcassets')
+			await fs.mkdir(catalog)
+
+			// WHEN resolving it
+			// THEN the same path should be returned
+			expect(await resolveXcassetsPath(catalog)).toBe(catalog)
+		})
+
+		it('should find ios/<App>/Images.xcassets from a project root', async () => {
+			// GIVEN a bare React Native project layout
+			const catalog = path.join(tempDir, 'ios', 'MyApp', 'Images.xcassets')
+			await fs.mkdir(catalog, { recursive: true })
+			await fs.mkdir(path.join(tempDir, 'ios', 'Pods'))
+
+			// WHEN resolving the project root
+			// THEN the app's catalog should be found
+			expect(await resolveXcassetsPath(tempDir)).toBe(catalog)
+		})
+
+		it('should reject a project with several catalogs', async () => {
+			// GIVEN two app targets with their own catalogs
+			await fs.mkdir(path.join(tempDir, 'ios', 'App', 'Images.xcassets'), {
+				recursive: true,
+			})
+			await fs.mkdir(path.join(tempDir, 'ios', 'Widget', 'Assets.xcassets'), {
+				recursive: true,
+			})
+
+			// WHEN resolving the project root
+			// THEN the user should be asked to pick one
+			await expect(resolveXcassetsPath(tempDir)).rejects.toThrow(
+				/Multiple asset catalogs found/,
+			)
+		})
+
+		it('should reject a project without a catalog', async () => {
+			// GIVEN an empty project directory
+			// WHEN resolving it
+			// THEN a descriptive error should be thrown
+			await expect(resolveXcassetsPath(tempDir)).rejects.toThrow(
+				/No \.xcassets catalog found/,
+			)
+		})
+
+		it('should reject a missing .xcassets path', async () => {
+			// GIVEN a catalog path that does not exist
+			const catalog = path.join(tempDir, 'Missing.xcassets')
+
+			// WHEN resolving it
+			// THEN the missing catalog should be reported
+			await expect(resolveXcassetsPath(catalog)).rejects.toThrow(
+				/Asset catalog not found/,
+			)
+		})
+	})
+
+	describe('installAppIconSet', () => {
+		it('should replace the existing icon set', async () => {
+			// GIVEN a catalog with a stale icon set and a generated one
+			const catalog = path.join(tempDir, 'Images.xcassets')
+			await fs.mkdir(path.join(catalog, 'AppIcon.appiconset'), {
+				recursive: true,
+			})
+			await fs.writeFile(
+				path.join(catalog, 'AppIcon.appiconset', 'old-icon.png'),
+				'old',
+			)
+			const generated = path.join(tempDir, 'out', 'AppIcon.appiconset')
+			await fs.mkdir(generated, { recursive: true })
+			await fs.writeFile(path.join(generated, 'Contents.json'), '{}')
+			await fs.writeFile(path.join(generated, 'icon-1024.png'), 'png')
+
+			// WHEN installing
+			const files = await installAppIconSet(generated, catalog)
+
+			// THEN only the generated files should remain
+			const target = path.join(catalog, 'AppIcon.appiconset')
+			expect(files).toEqual([
+				path.join(target, 'Contents.json'),
+				path.join(target, 'icon-1024.png'),
+			])
+			expect(await fs.readdir(target)).not.toContain('old-icon.png')
+		})
+
+		it('should install a variant icon set next to AppIcon', async () => {
+			// GIVEN a catalog with the main icon set
+			const catalog = path.join(tempDir, 'Images.xcassets')
+			await fs.mkdir(path.join(catalog, 'AppIcon.appiconset'), {
+				recursive: true,
+			})
+			const generated = path.join(tempDir, 'out', 'AppIcon.appiconset')
+			await fs.mkdir(generated, { recursive: true })
+			await fs.writeFile(path.join(generated, 'Contents.json'), '{}')
+
+			// WHEN installing under a variant name
+			await installAppIconSet(generated, catalog, 'AppIcon-Staging.appiconset')
+
+			// THEN both icon sets should exist
+			expect((await fs.readdir(catalog)).sort()).toEqual([
+				'AppIcon-Staging.appiconset',
+				'AppIcon.appiconset',
+			])
+		})
+	})
+})
@@ -14,7 +14,17 @@
  * All dimensions are in pixels. Scale factors (@2x, @3x) indicate pixel density.
  */
 
-import type { AssetSpec } from '../types'
+import type {
+	AlternateIconLayout,
+	AndroidIconFormat,
+	AssetGeneratorConfig,
+	AssetSpec,
+	AssetType,
+	IosIconLayout,
+	IosSplashMode,
+	Platform,
+	WebImageFormat,
+} from '../types'
 
 // ─── iOS App Icons ─────────────────────────────────────────────────────────
 
@@ -379,7 +389,8 @@ export const IOS_ICONS_CLEAR_DARK: AssetSpec[] = [
 
 /**
  * iOS splash screens for various device sizes and orientations.
- * Covers iPhone, iPhone Plus/Max, and iPad models.
+ * Covers iPhone, iPhone Plus/Max, and iPad models. The scale is the
+ * device pixel ratio.
  */
 export const IOS_SPLASH: AssetSpec[] = [
 	// iPhone 15 Pro Max, 14 Pro Max, 13 Pro Max
@@ -389,6 +400,7 @@ export const IOS_SPLASH: AssetSpec[] = [
 		height: 2796,
 		platform: 'ios',
 		type: 'splash',
+		scale: 3,
 	},
 
 	// iPhone 15 Pro, 14 Pro, 13 Pro, 12 Pro
@@ -398,6 +410,7 @@ export const IOS_SPLASH: AssetSpec[] = [
 		height: 2556,
 		platform: 'ios',
 		type: 'splash',
+		scale: 3,
 	},
 
 	// iPhone 15, 14, 13, 12
@@ -407,6 +420,7 @@ export const IOS_SPLASH: AssetSpec[] = [
 		height: 2532,
 		platform: 'ios',
 		type: 'splash',
+		scale: 3,
 	},
 
 	// iPhone 11 Pro Max, XS Max
@@ -416,6 +430,7 @@ export const IOS_SPLASH: AssetSpec[] = [
 		height: 2688,
 		platform: 'ios',
 		type: 'splash',
+		scale: 3,
 	},
 
 	// iPhone 11 Pro, X, XS
@@ -425,6 +440,7 @@ export const IOS_SPLASH: AssetSpec[] = [
 		height: 2436,
 		platform: 'ios',
 		type: 'splash',
+		scale: 3,
 	},
 
 	// iPhone 11, XR
@@ -434,6 +450,7 @@ export const IOS_SPLASH: AssetSpec[] = [
 		height: 1792,
 		platform: 'ios',
 		type: 'splash',
+		scale: 2,
 	},
 
 	// iPhone 8 Plus, 7 Plus, 6s Plus
@@ -443,6 +460,7 @@ export const IOS_SPLASH: AssetSpec[] = [
 		height: 2208,
 		platform: 'ios',
 		type: 'splash',
+		scale: 3,
 	},
 
 	// iPhone 8, 7, 6s, SE (2nd/3rd gen)
@@ -452,6 +470,7 @@ export const IOS_SPLASH: AssetSpec[] = [
 		height: 1334,
 		platform: 'ios',
 		type: 'splash',
+		scale: 2,
 	},
 
 	// iPhone SE (1st gen), iPod touch
@@ -461,6 +480,7 @@ export const IOS_SPLASH: AssetSpec[] = [
 		height: 1136,
 		platform: 'ios',
 		type: 'splash',
+		scale: 2,
 	},
 
 	// iPad Pro 12.9" (3rd-6th gen)
@@ -470,6 +490,7 @@ export const IOS_SPLASH: AssetSpec[] = [
 		height: 2732,
 		platform: 'ios',
 		type: 'splash',
+		scale: 2,
 	},
 
 	// iPad Pro 11" (1st-4th gen)
@@ -479,6 +500,7 @@ export const IOS_SPLASH: AssetSpec[] = [
 		height: 2388,
 		platform: 'ios',
 		type: 'splash',
+		scale: 2,
 	},
 
 	// iPad Pro 10.5", Air (3rd gen)
@@ -488,6 +510,7 @@ export const IOS_SPLASH: AssetSpec[] = [
 		height: 2224,
 		platform: 'ios',
 		type: 'splash',
+		scale: 2,
 	},
 
 	// iPad Mini (6th gen), iPad (9th-10th gen)
@@ -497,6 +520,7 @@ export const IOS_SPLASH: AssetSpec[] = [
 		height: 2048,
 		platform: 'ios',
 		type: 'splash',
+		scale: 2,
 	},
 ]
 
@@ -544,6 +568,16 @@ export const ANDROID_ICONS: AssetSpec[] = [
 	},
 ]
 
+/**
+ * Android legacy round launcher icons, referenced by `android:roundIcon`.
+ * Devices before API 26 and launchers that ignore adaptive icons use these
+ * instead of ic_launcher_round.xml.
+ */
+export const ANDROID_ROUND_ICONS: AssetSpec[] = ANDROID_ICONS.map(spec => ({
+	...spec,
+	name: spec.name.replace('ic_launcher.png', 'ic_launcher_round.png'),
+}))
+
 // ─── Android Adaptive Icons ────────────────────────────────────────────────
 
 /**
@@ -675,6 +709,54 @@ export const ANDROID_SPLASH: AssetSpec[] = [
 	},
 ]
 
+// ─── Android 12+ Splash Screen Icons (API 31+) ─────────────────────────────
+
+/**
+ * Android 12+ SplashScreen API icon (windowSplashScreenAnimatedIcon).
+ *
+ * Android 12 ignores full-screen splash bitmaps and instead draws this icon
+ * centered on windowSplashScreenBackground. The canvas is 288×288 dp and the
+ * system masks it to a 192 dp circle, so the logo must fit inside that circle.
+ * Background is transparent; the theme supplies the color.
+ */
+export const ANDROID_SPLASH_ICONS: AssetSpec[] = [
+	{
+		name: 'android/drawable-mdpi/splashscreen_icon.png',
+		width: 288,
+		height: 288,
+		platform: 'android',
+		type: 'splash',
+	},
+	{
+		name: 'android/drawable-hdpi/splashscreen_icon.png',
+		width: 432,
+		height: 432,
+		platform: 'android',
+		type: 'splash',
+	},
+	{
+		name: 'android/drawable-xhdpi/splashscreen_icon.png',
+		width: 576,
+		height: 576,
+		platform: 'android',
+		type: 'splash',
+	},
+	{
+		name: 'android/drawable-xxhdpi/splashscreen_icon.png',
+		width: 864,
+		height: 864,
+		platform: 'android',
+		type: 'splash',
+	},
+	{
+		name: 'android/drawable-xxxhdpi/splashscreen_icon.png',
+		width: 1152,
+		height: 1152,
+		platform: 'android',
+		type: 'splash',
+	},
+]
+
 // ─── Android Night Splash Screens (API 29+) ────────────────────────────────
 
 /**
@@ -774,6 +856,31 @@ export const ANDROID_MONOCHROME_ICONS: AssetSpec[] = [
 	},
 ]
 
+// ─── Android Notification Icons ────────────────────────────────────────────
+
+/** Drawable name of the notification icon, without the extension. */
+export const ANDROID_NOTIFICATION_ICON_NAME = 'ic_stat_notification'
+
+/**
+ * Android status bar notification icons (24dp), referenced as
+ * `@drawable/ic_stat_notification`.
+ * Only the alpha channel is used: the system tints the silhouette, and an
+ * opaque icon shows up as a white square.
+ */
+export const ANDROID_NOTIFICATION_ICONS: AssetSpec[] = Object.entries({
+	mdpi: 24,
+	hdpi: 36,
+	xhdpi: 48,
+	xxhdpi: 72,
+	xxxhdpi: 96,
+}).map(([density, size]) => ({
+	name: `android/drawable-${density}/${ANDROID_NOTIFICATION_ICON_NAME}.png`,
+	width: size,
+	height: size,
+	platform: 'android' as const,
+	type: 'notification' as const,
+}))
+
 // ─── Store Listing Assets ──────────────────────────────────────────────────
 
 /**
@@ -1000,6 +1107,64 @@ export const VISIONOS_ICONS: AssetSpec[] = [
 	},
 ]
 
+// ─── macOS Icons ───────────────────────────────────────────────────────────
+
+/** Output folder for the macOS Xcode icon set. */
+export const MACOS_APP_ICON_SET_DIR = 'macos/AppIcon.appiconset'
+
+/**
+ * macOS app icons for an Xcode asset catalog (and the .icns built from them).
+ * Point sizes 16, 32, 128, 256 and 512 at @1x and @2x (16-1024px).
+ * Uses Apple's naming, e.g. icon_512x512@2x.png.
+ */
+export const MACOS_ICONS: AssetSpec[] = [16, 32, 128, 256, 512].flatMap(
+	points =>
+		[1, 2].map(scale => ({
+			name: `${MACOS_APP_ICON_SET_DIR}/icon_${points}x${points}${scale === 1 ? '' : '@2x'}.png`,
+			width: points * scale,
+			height: points * scale,
+			platform: 'macos' as const,
+			type: 'icon' as const,
+			scale,
+		})),
+)
+
+// ─── Windows Icons ─────────────────────────────────────────────────────────
+
+/**
+ * Windows icon frames, packed into windows/icon.ico.
+ * 16-48px cover Explorer and the taskbar; 256px is used for large tiles
+ * and high-DPI displays.
+ */
+export const WINDOWS_ICONS: AssetSpec[] = [16, 24, 32, 48, 64, 128, 256].map(
+	size => ({
+		name: `windows/icon-${size}x${size}.png`,
+		width: size,
+		height: size,
+		platform: 'windows' as const,
+		type: 'icon' as const,
+	}),
+)
+
+// ─── Linux Icons ───────────────────────────────────────────────────────────
+
+/** Basename of Linux icons in the catalog; replaced by the app id on output. */
+const LINUX_ICON_BASENAME = 'app'
+
+/**
+ * Linux icons in the freedesktop hicolor theme layout
+ * (hicolor/<size>x<size>/apps/<app-id>.png), referenced by the .desktop file.
+ */
+export const LINUX_ICONS: AssetSpec[] = [
+	16, 22, 24, 32, 48, 64, 128, 256, 512,
+].map(size => ({
+	name: `linux/hicolor/${size}x${size}/apps/${LINUX_ICON_BASENAME}.png`,
+	width: size,
+	height: size,
+	platform: 'linux' as const,
+	type: 'icon' as const,
+}))
+
 // ─── Web Favicons ──────────────────────────────────────────────────────────
 
 /**
@@ -1146,17 +1311,131 @@ export const WEB_FAVICONS: AssetSpec[] = [
 		type: 'favicon',
 		colorMode: 'tinted', // Indicates monochrome
 	},
+
+	// Windows tiles (pinned sites, listed in browserconfig.xml)
+	{
+		name: 'web/mstile-70x70.png',
+		width: 70,
+		height: 70,
+		platform: 'web',
+		type: 'favicon',
+	},
+	{
+		name: 'web/mstile-144x144.png',
+		width: 144,
+		height: 144,
+		platform: 'web',
+		type: 'favicon',
+	},
+	{
+		name: 'web/mstile-150x150.png',
+		width: 150,
+		height: 150,
+		platform: 'web',
+		type: 'favicon',
+	},
+	{
+		name: 'web/mstile-310x150.png',
+		width: 310,
+		height: 150,
+		platform: 'web',
+		type: 'favicon',
+	},
+	{
+		name: 'web/mstile-310x310.png',
+		width: 310,
+		height: 310,
+		platform: 'web',
+		type: 'favicon',
+	},
+]
+
+// ─── Social Share Images ───────────────────────────────────────────────────
+
+/** Share image referenced by the og:image meta tag. */
+export const SOCIAL_OG_IMAGE = 'web/og-image.png'
+
+/** Share image referenced by the twitter:image meta tag. */
+export const SOCIAL_TWITTER_CARD = 'web/twitter-card.png'
+
+/**
+ * Social share images, with the logo next to the app name and tagline.
+ * - Open Graph: 1200×630 (Facebook, LinkedIn, Slack, iMessage previews)
+ * - Twitter/X: 1200×600 (summary_large_image card)
+ * - Square: 1080×1080 (Instagram and other square previews)
+ */
+export const SOCIAL_ASSETS: AssetSpec[] = [
+	{
+		name: SOCIAL_OG_IMAGE,
+		width: 1200,
+		height: 630,
+		platform: 'web',
+		type: 'social',
+	},
+	{
+		name: SOCIAL_TWITTER_CARD,
+		width: 1200,
+		height: 600,
+		platform: 'web',
+		type: 'social',
+	},
+	{
+		name: 'web/social-square.png',
+		width: 1080,
+		height: 1080,
+		platform: 'web',
+		type: 'social',
+	},
 ]
 
+// ─── Web Startup Images ────────────────────────────────────────────────────
+
+/**
+ * Get the iOS home screen web app startup images for a color mode: each
+ * IOS_SPLASH device in portrait, then landscape.
+ */
+function getWebSplashSpecs(colorMode?: 'dark'): AssetSpec[] {
+	const prefix = colorMode
+		? `web/apple-splash-${colorMode}`
+		: 'web/apple-splash'
+	return IOS_SPLASH.flatMap(({ width, height, scale }) =>
+		(
+			[
+				[width, height],
+				[height, width],
+			] as const
+		).map(([w, h]) => ({
+			name: `${prefix}-${w}x${h}.png`,
+			width: w,
+			height: h,
+			platform: 'web' as const,
+			type: 'splash' as const,
+			...(scale !== undefined && { scale }),
+			...(colorMode && { colorMode }),
+		})),
+	)
+}
+
+/**
+ * iOS home screen web app startup images (apple-touch-startup-image).
+ * Safari only shows an image whose media query matches the device width,
+ * pixel ratio and orientation exactly, so every IOS_SPLASH device gets a
+ * portrait and a landscape image.
+ */
+export const WEB_SPLASH: AssetSpec[] = getWebSplashSpecs()
+
+/**
+ * Dark mode startup images, linked with `prefers-color-scheme: dark`.
+ */
+export const WEB_SPLASH_DARK: AssetSpec[] = getWebSplashSpecs('dark')
+
 // ─── Utility Functions ─────────────────────────────────────────────────────
 
 /**
  * Get all asset specifications for a given platform.
  * Light mode only (default behavior).
  */
-export function getAssetsByPlatform(
-	platform: 'ios' | 'android' | 'web' | 'watchos' | 'tvos' | 'visionos',
-): AssetSpec[] {
+export function getAssetsByPlatform(platform: Platform): AssetSpec[] {
 	const storeForPlatform = STORE_ASSETS.filter(s => s.platform === platform)
 	switch (platform) {
 		case 'ios':
@@ -1164,18 +1443,27 @@ export function getAssetsByPlatform(
 		case 'android':
 			return [
 				...ANDROID_ICONS,
+				...ANDROID_ROUND_ICONS,
 				...ANDROID_ADAPTIVE_ICONS,
 				...ANDROID_SPLASH,
+				...ANDROID_SPLASH_ICONS,
+				...ANDROID_NOTIFICATION_ICONS,
 				...storeForPlatform,
 			]
 		case 'web':
-			return WEB_FAVICONS
+			return [...WEB_FAVICONS, ...WEB_SPLASH, ...SOCIAL_ASSETS]
 		case 'watchos':
 			return WATCHOS_ICONS
 		case 'tvos':
 			return TVOS_ICONS
 		case 'visionos':
 			return VISIONOS_ICONS
+		case 'macos':
+			return MACOS_ICONS
+		case 'windows':
+			return WINDOWS_ICONS
+		case 'linux':
+			return LINUX_ICONS
 	}
 }
 
@@ -1183,9 +1471,7 @@ export function getAssetsByPlatform(
  * Get all variant (dark, tinted, clear) asset specifications for a given platform.
  * Returns specs that have colorMode set to any non-light value.
  */
-export function getVariantAssetsByPlatform(
-	platform: 'ios' | 'android' | 'web' | 'watchos' | 'tvos' | 'visionos',
-): AssetSpec[] {
+export function getVariantAssetsByPlatform(platform: Platform): AssetSpec[] {
 	switch (platform) {
 		case 'ios':
 			return [
@@ -1199,10 +1485,16 @@ export function getVariantAssetsByPlatform(
 		case 'web':
 			// Web maskable and monochrome icons are included in WEB_FAVICONS
 			// They have colorMode set to identify their purpose
-			return WEB_FAVICONS.filter(spec => spec.colorMode !== undefined)
+			return [
+				...WEB_FAVICONS.filter(spec => spec.colorMode !== undefined),
+				...WEB_SPLASH_DARK,
+			]
 		case 'watchos':
 		case 'tvos':
 		case 'visionos':
+		case 'macos':
+		case 'windows':
+		case 'linux':
 			// New platforms don't have variants yet
 			return []
 	}
@@ -1221,35 +1513,44 @@ export function getDarkAssetsByPlatform(
 /**
  * Get all asset specifications for a given type.
  */
-export function getAssetsByType(
-	type: 'icon' | 'splash' | 'adaptive' | 'favicon' | 'store',
-): AssetSpec[] {
+export function getAssetsByType(type: AssetType): AssetSpec[] {
 	switch (type) {
 		case 'icon':
 			return [
 				...IOS_ICONS,
 				...ANDROID_ICONS,
+				...ANDROID_ROUND_ICONS,
 				...WATCHOS_ICONS,
 				...TVOS_ICONS,
 				...VISIONOS_ICONS,
+				...MACOS_ICONS,
+				...WINDOWS_ICONS,
+				...LINUX_ICONS,
 			]
 		case 'splash':
-			return [...IOS_SPLASH, ...ANDROID_SPLASH]
+			return [
+				...IOS_SPLASH,
+				...ANDROID_SPLASH,
+				...ANDROID_SPLASH_ICONS,
+				...WEB_SPLASH,
+			]
 		case 'adaptive':
 			return ANDROID_ADAPTIVE_ICONS
 		case 'favicon':
 			return WEB_FAVICONS
 		case 'store':
 			return STORE_ASSETS
+		case 'notification':
+			return ANDROID_NOTIFICATION_ICONS
+		case 'social':
+			return SOCIAL_ASSETS
 	}
 }
 
 /**
  * Get all variant (dark, tinted, clear) asset specifications for a given type.
  */
-export function getVariantAssetsByType(
-	type: 'icon' | 'splash' | 'adaptive' | 'favicon' | 'store',
-): AssetSpec[] {
+export function getVariantAssetsByType(type: AssetType): AssetSpec[] {
 	switch (type) {
 		case 'icon':
 			return [
@@ -1259,14 +1560,16 @@ export function getVariantAssetsByType(
 				...IOS_ICONS_CLEAR_DARK,
 			]
 		case 'splash':
-			return [...ANDROID_SPLASH_DARK]
+			return [...ANDROID_SPLASH_DARK, ...WEB_SPLASH_DARK]
 		case 'adaptive':
 			return ANDROID_MONOCHROME_ICONS
 		case 'favicon':
 			// Web maskable and monochrome icons
 			return WEB_FAVICONS.filter(spec => spec.colorMode !== undefined)
 		case 'store':
-			// Store assets don't have variants
+		case 'notification':
+		case 'social':
+			// Store, notification and social assets don't have variants
 			return []
 	}
 }
@@ -1289,13 +1592,21 @@ export function getAllAssets(): AssetSpec[] {
 		...IOS_ICONS,
 		...IOS_SPLASH,
 		...ANDROID_ICONS,
+		...ANDROID_ROUND_ICONS,
 		...ANDROID_ADAPTIVE_ICONS,
 		...ANDROID_SPLASH,
+		...ANDROID_SPLASH_ICONS,
+		...ANDROID_NOTIFICATION_ICONS,
 		...WEB_FAVICONS,
+		...WEB_SPLASH,
+		...SOCIAL_ASSETS,
 		...STORE_ASSETS,
 		...WATCHOS_ICONS,
 		...TVOS_ICONS,
 		...VISIONOS_ICONS,
+		...MACOS_ICONS,
+		...WINDOWS_ICONS,
+		...LINUX_ICONS,
 	]
 }
 
@@ -1311,6 +1622,7 @@ export function getAllVariantAssets(): AssetSpec[] {
 		...ANDROID_SPLASH_DARK,
 		...ANDROID_MONOCHROME_ICONS,
 		...WEB_FAVICONS.filter(spec => spec.colorMode !== undefined),
+		...WEB_SPLASH_DARK,
 	]
 }
 
@@ -1321,3 +1633,327 @@ export function getAllVariantAssets(): AssetSpec[] {
 export function getAllDarkAssets(): AssetSpec[] {
 	return getAllVariantAssets()
 }
+
+// ─── iOS Icon Layout ───────────────────────────────────────────────────────
+
+/** Output folder for the self-contained Xcode icon set. */
+export const IOS_APP_ICON_SET_DIR = 'ios/AppIcon.appiconset'
+
+/**
+ * Resolve the iOS icon layout for a config.
+ * Installing into an existing asset catalog always uses the icon set layout.
+ */
+export function getIosIconLayout(
+	config: Pick<AssetGeneratorConfig, 'iosIconLayout' | 'xcassetsPath'>,
+): IosIconLayout {
+	if (config.xcassetsPath !== undefined) return 'appiconset'
+	return config.iosIconLayout ?? 'folders'
+}
+
+/**
+ * Get the filename of an iOS icon relative to its icon set.
+ *
+ * In the 'folders' layout variants keep their subfolder
+ * (`dark/icon-60@2x.png`). In the 'appiconset' layout they are flattened
+ * with the variant in the name (`icon-dark-60@2x.png`), since Xcode only
+ * reads files directly inside the icon set.
+ */
+export function getAppIconSetFilename(
+	spec: AssetSpec,
+	layout: IosIconLayout,
+): string {
+	const relative = spec.name.replace(/^ios\//, '')
+	if (layout === 'folders') return relative
+	return relative.replace(/^([^/]+)\/icon-/, 'icon-$1-')
+}
+
+// ─── iOS Launch Screen ─────────────────────────────────────────────────────
+
+/** Storyboard that replaces fixed-size launch images. */
+export const IOS_LAUNCH_SCREEN_STORYBOARD = 'ios/LaunchScreen.storyboard'
+
+/** Image set holding the centered launch logo. */
+export const IOS_LAUNCH_LOGO_DIR = 'ios/LaunchLogo.imageset'
+
+/** Color set holding the launch background (any/dark appearances). */
+export const IOS_LAUNCH_BACKGROUND_DIR = 'ios/LaunchBackground.colorset'
+
+/**
+ * Portrait width in points of a current standard iPhone (iPhone 15).
+ * splashScale is applied to it, so the storyboard logo matches the size
+ * it has on the fixed-size splash-1179x2556.png.
+ */
+const IOS_LAUNCH_REFERENCE_POINTS = 393
+
+/**
+ * Resolve the iOS launch screen mode for a config.
+ */
+export function getIosSplashMode(
+	config: Pick<AssetGeneratorConfig, 'iosSplashMode'>,
+): IosSplashMode {
+	return config.iosSplashMode ?? 'images'
+}
+
+/**
+ * Get the launch logo edge length in points for a splash scale.
+ */
+export function getIosLaunchLogoPoints(splashScale: number): number {
+	return Math.round(IOS_LAUNCH_REFERENCE_POINTS * splashScale)
+}
+
+/**
+ * Get the LaunchLogo imageset specs (@1x, @2x, @3x) for a splash scale.
+ */
+export function getIosLaunchLogoSpecs(splashScale: number): AssetSpec[] {
+	const points = getIosLaunchLogoPoints(splashScale)
+	return [1, 2, 3].map(scale => ({
+		name: `${IOS_LAUNCH_LOGO_DIR}/LaunchLogo${scale === 1 ? '' : `@${scale}x`}.png`,
+		width: points * scale,
+		height: points * scale,
+		scale,
+		platform: 'ios' as const,
+		type: 'splash' as const,
+	}))
+}
+
+// ─── iOS Alternate Icons ───────────────────────────────────────────────────
+
+/** Folder holding alternate icons in the 'files' layout. */
+export const IOS_ALTERNATE_ICONS_DIR = 'ios/AlternateIcons'
+
+/** Edge length in points of the iPhone home screen icon. */
+const IOS_HOME_SCREEN_ICON_POINTS = 60
+
+/**
+ * Resolve the alternate icon layout for a config.
+ */
+export function getAlternateIconLayout(
+	config: Pick<AssetGeneratorConfig, 'alternateIconLayout'>,
+): AlternateIconLayout {
+	return config.alternateIconLayout ?? 'appiconset'
+}
+
+/**
+ * Get the asset catalog name of an alternate icon's icon set.
+ *
+ * @example
+ * getAlternateIconSetName('Halloween') // 'AppIcon-Halloween'
+ */
+export function getAlternateIconSetName(name: string): string {
+	return `AppIcon-${name}`
+}
+
+/**
+ * Get the icon set directory of an alternate icon.
+ *
+ * @example
+ * getAlternateIconSetDir('Halloween') // 'ios/AppIcon-Halloween.appiconset'
+ */
+export function getAlternateIconSetDir(name: string): string {
+	return `ios/${getAlternateIconSetName(name)}.appiconset`
+}
+
+/**
+ * Get the specs of one alternate icon.
+ *
+ * The 'appiconset' layout is a single-size 1024px icon set, which Xcode 14+
+ * scales to every slot. The 'files' layout holds the 60pt @2x/@3x PNGs that
+ * iOS finds by name through CFBundleIconFiles.
+ */
+export function getAlternateIconSpecs(
+	name: string,
+	layout: AlternateIconLayout,
+): AssetSpec[] {
+	if (layout === 'appiconset') {
+		return [
+			{
+				name: `${getAlternateIconSetDir(name)}/icon-1024.png`,
+				width: 1024,
+				height: 1024,
+				platform: 'ios',
+				type: 'icon',
+			},
+		]
+	}
+	return [2, 3].map(scale => ({
+		name: `${IOS_ALTERNATE_ICONS_DIR}/${name}@${scale}x.png`,
+		width: IOS_HOME_SCREEN_ICON_POINTS * scale,
+		height: IOS_HOME_SCREEN_ICON_POINTS * scale,
+		scale,
+		platform: 'ios' as const,
+		type: 'icon' as const,
+	}))
+}
+
+// ─── Linux Icon Naming ─────────────────────────────────────────────────────
+
+/**
+ * Derive a freedesktop-style application id from the app name.
+ * Used as the icon name and the .desktop file name.
+ *
+ * @example
+ * getLinuxAppId('My Cool App')  // 'my-cool-app'
+ */
+export function getLinuxAppId(appName: string): string {
+	const id = appName
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, '-')
+		.replace(/^-+|-+$/g, '')
+	return id || LINUX_ICON_BASENAME
+}
+
+/**
+ * Get the output name of a Linux icon for an application id.
+ *
+ * @example
+ * getLinuxIconName(LINUX_ICONS[0], 'my-app')
+ * // 'linux/hicolor/16x16/apps/my-app.png'
+ */
+export function getLinuxIconName(spec: AssetSpec, appId: string): string {
+	return spec.name.replace(/[^/]+\.png$/, `${appId}.png`)
+}
+
+// ─── Output Formats ────────────────────────────────────────────────────────
+
+/** MIME type of each web companion format. */
+export const WEB_IMAGE_MIME_TYPES: Record<WebImageFormat, string> = {
+	webp: 'image/webp',
+	avif: 'image/avif',
+}
+
+/** Density mipmaps, e.g. android/mipmap-hdpi/ic_launcher.png. */
+const ANDROID_MIPMAP = /^android\/mipmap-[^/]+\/[^/]+\.png$/
+
+/** Web images that get companions (not apple-touch-icon-*.png). */
+const WEB_COMPANION_SOURCE = /^web\/(favicon|icon)-[^/]+\.png$/
+
+/**
+ * Get the image format of Android launcher mipmaps.
+ */
+export function getAndroidIconFormat(
+	config: Pick<AssetGeneratorConfig, 'androidIconFormat'>,
+): AndroidIconFormat {
+	return config.androidIconFormat ?? 'png'
+}
+
+/**
+ * Get the name an asset is written under. Assets are always rendered as
+ * PNG; WebP mipmaps are written with a .webp extension.
+ *
+ * @example
+ * getOutputFileName({ androidIconFormat: 'webp' }, 'android/mipmap-hdpi/ic_launcher.png')
+ * // 'android/mipmap-hdpi/ic_launcher.webp'
+ */
+export function getOutputFileName(
+	config: Pick<AssetGeneratorConfig, 'androidIconFormat'>,
+	name: string,
+): string {
+	if (getAndroidIconFormat(config) === 'webp' && ANDROID_MIPMAP.test(name)) {
+		return name.replace(/\.png$/, '.webp')
+	}
+	return name
+}
+
+/**
+ * Get the companion files written next to a web image, in config order.
+ *
+ * @returns Companion formats and names, empty for other assets
+ */
+export function getWebCompanions(
+	config: Pick<AssetGeneratorConfig, 'webImageFormats'>,
+	name: string,
+): Array<{ format: WebImageFormat; name: string }> {
+	if (!WEB_COMPANION_SOURCE.test(name)) return []
+	return [...new Set(config.webImageFormats ?? [])].map(format => ({
+		format,
+		name: name.replace(/\.png$/, `.${format}`),
+	}))
+}
+
+// ─── Web Manifest Shortcuts ────────────────────────────────────────────────
+
+/** Shortcut icon sizes: 96px as recommended, 192px for Android launchers. */
+const WEB_SHORTCUT_ICON_SIZES = [96, 192]
+
+/**
+ * Get the icon specs of a manifest shortcut from its position in the
+ * config, so renaming a shortcut keeps its files.
+ *
+ * @example
+ * getWebShortcutIconSpecs(0).map(spec => spec.name)
+ * // ['web/shortcut-1-96x96.png', 'web/shortcut-1-192x192.png']
+ */
+export function getWebShortcutIconSpecs(index: number): AssetSpec[] {
+	return WEB_SHORTCUT_ICON_SIZES.map(size => ({
+		name: `web/shortcut-${index + 1}-${size}x${size}.png`,
+		width: size,
+		height: size,
+		platform: 'web' as const,
+		type: 'favicon' as const,
+	}))
+}
+
+// ─── Web Head ──────────────────────────────────────────────────────────────
+
+/** `<head>` snippet linking the web icons, manifest and theme colors. */
+export const WEB_HEAD_HTML = 'web/head.html'
+
+/** Windows tile configuration referencing the mstile PNGs. */
+export const WEB_BROWSERCONFIG_XML = 'web/browserconfig.xml'
+
+/** Vector favicon with a dark color scheme. */
+export const WEB_FAVICON_SVG = 'web/favicon.svg'
+
+/** Monochrome Safari pinned tab icon (`rel="mask-icon"`). */
+export const WEB_MASK_ICON_SVG = 'web/safari-pinned-tab.svg'
+
+/**
+ * Whether the foreground can be drawn as vector artwork in favicon.svg
+ * and the Safari mask icon (SVG and text foregrounds).
+ */
+export function hasVectorForeground(
+	config: Pick<AssetGeneratorConfig, 'foreground'>,
+): boolean {
+	return config.foreground.type === 'svg' || config.foreground.type === 'text'
+}
+
+/**
+ * Get the iOS startup images linked from head.html (light, then dark),
+ * empty unless web splash screens are generated.
+ */
+export function getWebStartupImages(
+	config: Pick<AssetGeneratorConfig, 'platforms' | 'assetTypes'>,
+): AssetSpec[] {
+	if (
+		!config.platforms.includes('web') ||
+		!config.assetTypes.includes('splash')
+	) {
+		return []
+	}
+	return [...WEB_SPLASH, ...WEB_SPLASH_DARK]
+}
+
+/**
+ * Whether favicon.svg is written. Badged favicons stay raster only, since
+ * the badge is drawn into the pixels.
+ */
+export function hasSvgFavicon(
+	config: Pick<AssetGeneratorConfig, 'foreground' | 'badge'>,
+): boolean {
+	return hasVectorForeground(config) && config.badge === undefined
+}
+
+/**
+ * Get the web files written next to the favicons, besides site.webmanifest
+ * and favicon.ico.
+ */
+export function getWebHeadFiles(
+	config: Pick<AssetGeneratorConfig, 'foreground' | 'badge'>,
+): string[] {
+	return [
+		WEB_HEAD_HTML,
+		WEB_BROWSERCONFIG_XML,
+		...(hasSvgFavicon(config) ? [WEB_FAVICON_SVG] : []),
+		...(hasVectorForeground(config) ? [WEB_MASK_ICON_SVG] : []),
+	]
+}
@@ -8,7 +8,8 @@
  *
  * Subcommands:
  * - generate: Generate assets from command-line options.
- * - validate: Validate configuration without generating.
+ * - validate: Validate configuration (and a generated directory's store
+ *   files) without generating.
  * - list-fonts: List available Google Fonts.
  * - list-platforms: Show platform specifications.
  * - instructions: Show integration instructions.
@@ -25,8 +26,33 @@ import { NodeContext, NodeRuntime } from '@effect/platform-node'
 import { Console, Effect, Option } from 'effect'
 
 import packageJson from '../package.json'
+import {
+	getAlternateIconLayout,
+	getAlternateIconSetDir,
+	getLinuxAppId,
+	getOutputFileName,
+	getWebCompanions,
+	getWebHeadFiles,
+	getWebStartupImages,
+	WEB_HEAD_HTML,
+} from './assets/asset_specs'
 import { runInteractiveMenu } from './index'
-import type { AssetGeneratorConfig } from './types'
+import type {
+	ArchiveFormat,
+	AssetGeneratorConfig,
+	AssetType,
+	Platform,
+	StoreComplianceResult,
+} from './types'
+import {
+	CONFIG_FILE_NAMES,
+	type ConfigLayer,
+	DEFAULT_CONFIG,
+	findConfigFile,
+	loadConfigFile,
+	resolveConfig,
+} from './utils/config_file'
+import { createConsoleReporter } from './utils/console_reporter'
 import {
 	fetchGoogleFonts,
 	type GoogleFont,
@@ -47,10 +73,19 @@ import {
 import {
 	formatInstructionsJson,
 	formatInstructionsText,
+	formatVariantsText,
 	type GenerationContext,
 	generateInstructions,
 } from './utils/instructions'
 import { resolvePath } from './utils/path_utils'
+import { getVariantNames, resolveVariantConfig } from './utils/variants'
+import {
+	ANDROID_VECTOR_BACKGROUND,
+	ANDROID_VECTOR_FOREGROUND,
+	ANDROID_VECTOR_MONOCHROME,
+	getVectorAdaptiveLayers,
+} from './utils/vector_drawable'
+import { getVectorMasterFiles } from './utils/vector_master'
 import {
 	checkForUpdatesNoCache,
 	printUpdateNoticeIfCached,
@@ -125,61 +160,206 @@ const quietOpt = Options.boolean('quiet').pipe(Options.withDefault(false))
 // The main asset generation command with all configuration options.
 
 // Application metadata options.
-const nameOpt = Options.text('name').pipe(Options.withDefault('MyApp'))
+// Generation options are optional (no CLI-level defaults) so that values from
+// the config file or history entry are only overridden by flags actually
+// passed. Defaults live in DEFAULT_CONFIG (utils/config_file.ts).
+const nameOpt = Options.text('name').pipe(
+	Options.withDescription('App name (default: MyApp)'),
+	Options.optional,
+)
 const platformsOpt = Options.text('platforms').pipe(
-	Options.withDefault('ios,android,web'),
 	Options.withDescription(
-		'Platforms: ios, android, web, watchos, tvos, visionos (comma-separated)',
+		'Platforms: ios, android, web, watchos, tvos, visionos, macos, windows, linux (comma-separated, default: ios,android,web)',
 	),
+	Options.optional,
 )
 const typesOpt = Options.text('types').pipe(
-	Options.withDefault('icon,splash,adaptive,favicon'),
 	Options.withDescription(
-		'Types: icon, splash, adaptive, favicon, store (comma-separated)',
+		'Types: icon, splash, adaptive, favicon, store, notification, social (comma-separated, default: icon,splash,adaptive,favicon)',
 	),
+	Options.optional,
 )
 
 // Background appearance options.
-const bgTypeOpt = Options.text('bg-type').pipe(Options.withDefault('color'))
-const bgColorOpt = Options.text('bg-color').pipe(Options.withDefault('#F7F5F0'))
+const bgTypeOpt = Options.text('bg-type').pipe(Options.optional)
+const bgColorOpt = Options.text('bg-color').pipe(Options.optional)
 const bgGradientTypeOpt = Options.text('bg-gradient-type').pipe(
-	Options.withDefault('linear'),
+	Options.optional,
 )
 const bgGradientColorsOpt = Options.text('bg-gradient-colors').pipe(
-	Options.withDefault('#B3D9E8,#004C6E'),
+	Options.optional,
 )
 const bgGradientAngleOpt = Options.integer('bg-gradient-angle').pipe(
-	Options.withDefault(180),
+	Options.optional,
 )
 const bgImageOpt = Options.text('bg-image').pipe(Options.optional)
 
 // Foreground (logo/icon) appearance options.
-const fgTypeOpt = Options.text('fg-type').pipe(Options.withDefault('text'))
-const fgTextOpt = Options.text('fg-text').pipe(Options.withDefault('"'))
-const fgColorOpt = Options.text('fg-color').pipe(Options.withDefault('#1A1A1A'))
-const fgFontOpt = Options.text('fg-font').pipe(
-	Options.withDefault('Playfair Display'),
-)
-const fgFontSourceOpt = Options.text('fg-font-source').pipe(
-	Options.withDefault('google'),
-)
+const fgTypeOpt = Options.text('fg-type').pipe(Options.optional)
+const fgTextOpt = Options.text('fg-text').pipe(Options.optional)
+const fgColorOpt = Options.text('fg-color').pipe(Options.optional)
+const fgFontOpt = Options.text('fg-font').pipe(Options.optional)
+const fgFontSourceOpt = Options.text('fg-font-source').pipe(Options.optional)
 const fgFontPathOpt = Options.text('fg-font-path').pipe(Options.optional)
 const fgFontSizeOpt = Options.integer('fg-font-size').pipe(Options.optional)
 const fgSvgOpt = Options.text('fg-svg').pipe(Options.optional)
 const fgSvgColorOpt = Options.text('fg-svg-color').pipe(Options.optional)
 const fgImageOpt = Options.text('fg-image').pipe(Options.optional)
 
+// Dark appearance options (iOS dark icons, Android night splashes, manifest).
+const darkBgColorOpt = Options.text('dark-bg-color').pipe(
+	Options.withDescription(
+		'Dark mode background color (default: light background darkened 70%)',
+	),
+	Options.optional,
+)
+const darkFgColorOpt = Options.text('dark-fg-color').pipe(
+	Options.withDescription('Dark mode text/SVG foreground color'),
+	Options.optional,
+)
+
+// Environment badge options (dev/staging builds).
+const badgeOpt = Options.text('badge').pipe(
+	Options.withDescription('Badge label drawn over icons, e.g. DEV or v1.4.0'),
+	Options.optional,
+)
+const badgeStyleOpt = Options.text('badge-style').pipe(
+	Options.withDescription(
+		'Badge style: ribbon, corner, banner (default: ribbon)',
+	),
+	Options.optional,
+)
+const badgePositionOpt = Options.text('badge-position').pipe(
+	Options.withDescription(
+		'Badge corner: top-left, top-right, bottom-left, bottom-right (default: top-right)',
+	),
+	Options.optional,
+)
+const badgeColorOpt = Options.text('badge-color').pipe(
+	Options.withDescription('Badge color (default: #E5484D)'),
+	Options.optional,
+)
+const badgeTextColorOpt = Options.text('badge-text-color').pipe(
+	Options.withDescription('Badge label color (default: #FFFFFF)'),
+	Options.optional,
+)
+
+// Social share image options.
+const taglineOpt = Options.text('tagline').pipe(
+	Options.withDescription(
+		'Tagline drawn under the app name on social share images',
+	),
+	Options.optional,
+)
+
 // Foreground scaling options (controls how much of the canvas the logo fills).
-const iconScaleOpt = Options.text('icon-scale').pipe(Options.withDefault('0.7'))
-const splashScaleOpt = Options.text('splash-scale').pipe(
-	Options.withDefault('0.25'),
+const iconScaleOpt = Options.float('icon-scale').pipe(
+	Options.withDescription('Icon foreground scale (0.1-1.5, default: 0.7)'),
+	Options.optional,
+)
+const splashScaleOpt = Options.float('splash-scale').pipe(
+	Options.withDescription('Splash foreground scale (0.05-1.0, default: 0.25)'),
+	Options.optional,
+)
+const faviconScaleOpt = Options.float('favicon-scale').pipe(
+	Options.withDescription('Favicon foreground scale (0.5-1.0, default: 0.85)'),
+	Options.optional,
+)
+const storeScaleOpt = Options.float('store-scale').pipe(
+	Options.withDescription(
+		'Store listing foreground scale (0.3-0.8, default: 0.5)',
+	),
+	Options.optional,
+)
+
+// iOS integration options.
+const iosLayoutOpt = Options.text('ios-layout').pipe(
+	Options.withDescription(
+		'iOS icon layout: folders, appiconset (self-contained AppIcon.appiconset, default: folders)',
+	),
+	Options.optional,
+)
+const iosSplashOpt = Options.text('ios-splash').pipe(
+	Options.withDescription(
+		'iOS launch screen: images (fixed-size PNGs), storyboard (LaunchScreen.storyboard + LaunchLogo/LaunchBackground sets, default: images)',
+	),
+	Options.optional,
+)
+const xcassetsOpt = Options.text('xcassets').pipe(
+	Options.withDescription(
+		'Install AppIcon.appiconset into an existing .xcassets catalog (or a project root containing ios/<App>/Images.xcassets)',
+	),
+	Options.optional,
+)
+
+// Android integration options.
+const androidLegacyShapeOpt = Options.text('android-legacy-shape').pipe(
+	Options.withDescription(
+		'Legacy ic_launcher.png shape for Android < 8.0: none (full-bleed), square, circle, squircle (default: none)',
+	),
+	Options.optional,
+)
+const androidAdaptiveFormatOpt = Options.text('android-adaptive-format').pipe(
+	Options.withDescription(
+		'Android adaptive icon layers: png (mipmaps) or vector (VectorDrawable XML for SVG/text foregrounds, gradient shape backgrounds) (default: png)',
+	),
+	Options.optional,
+)
+const androidIconFormatOpt = Options.text('android-icon-format').pipe(
+	Options.withDescription(
+		'Android launcher mipmap format: png or webp (lossless, API 18+) (default: png)',
+	),
+	Options.optional,
+)
+const androidResOpt = Options.text('android-res').pipe(
+	Options.withDescription(
+		'Install mipmaps and notification icons, and merge colors.xml into an existing Android res/ dir (or a project root containing android/app/src/main/res)',
+	),
+	Options.optional,
+)
+
+// Web options.
+const webImageFormatsOpt = Options.text('web-image-formats').pipe(
+	Options.withDescription(
+		'Also write web favicons and icons as: webp, avif (comma-separated), listed in site.webmanifest',
+	),
+	Options.optional,
+)
+const manifestMergeOpt = Options.text('manifest-merge').pipe(
+	Options.withDescription(
+		'Replace the icons array of an existing web app manifest (or a project root containing public/manifest.json) and copy the icons next to it',
+	),
+	Options.optional,
+)
+
+// Output encoding options.
+const pngOptimizationOpt = Options.text('png-optimization').pipe(
+	Options.withDescription(
+		'PNG encoding: none, max (lossless, maximum compression), palette (256 colors, lossy) (default: none)',
+	),
+	Options.optional,
+)
+
+// Store compliance options.
+const fixStoreAssetsOpt = Options.boolean('fix-store-assets').pipe(
+	Options.withDescription(
+		'Flatten transparent App Store icons, feature graphics and TV banners onto the background color so the stores accept them',
+	),
+	Options.withDefault(false),
 )
-const faviconScaleOpt = Options.text('favicon-scale').pipe(
-	Options.withDefault('0.85'),
+
+// Preview options.
+const maskPreviewOpt = Options.text('mask-preview').pipe(
+	Options.withDescription(
+		'Write launcher mask previews of adaptive/maskable icons: png, html (comma-separated)',
+	),
+	Options.optional,
 )
-const storeScaleOpt = Options.text('store-scale').pipe(
-	Options.withDefault('0.5'),
-	Options.withDescription('Store listing foreground scale (0.3-0.8)'),
+const vectorMasterOpt = Options.text('vector-master').pipe(
+	Options.withDescription(
+		'Write the composed icon and splash screen as vector masters into master/: svg, pdf (comma-separated)',
+	),
+	Options.optional,
 )
 
 // Output behavior options.
@@ -191,20 +371,313 @@ const outputOpt = Options.text('output').pipe(
 	Options.optional,
 )
 const dryRunOpt = Options.boolean('dry-run').pipe(Options.withDefault(false))
-const noZipOpt = Options.boolean('no-zip').pipe(Options.withDefault(false))
+const checkOpt = Options.boolean('check').pipe(
+	Options.withDescription(
+		'Compare the output directory with what the config generates, without writing; exits 1 on missing, extra or different files',
+	),
+	Options.withDefault(false),
+)
+const noZipOpt = Options.boolean('no-zip').pipe(
+	Options.withDescription('Skip writing the .zip archive of the output'),
+	Options.withDefault(false),
+)
+const tarGzOpt = Options.boolean('tar-gz').pipe(
+	Options.withDescription('Also write a .tar.gz archive of the output'),
+	Options.withDefault(false),
+)
+
+// Validate options.
+const storeOutputOpt = Options.text('output').pipe(
+	Options.withAlias('o'),
+	Options.withDescription(
+		'Also check the store files of a generated output directory against App Store and Google Play rules',
+	),
+	Options.optional,
+)
+const fixOpt = Options.boolean('fix').pipe(
+	Options.withDescription(
+		'With --output, re-encode store files that break a rule (flattening alpha onto the background color)',
+	),
+	Options.withDefault(false),
+)
 
-// History options.
+// Config source options.
+const configOpt = Options.text('config').pipe(
+	Options.withAlias('c'),
+	Options.withDescription(
+		`Path to a config file (default: ${CONFIG_FILE_NAMES.join(' or ')} in the current directory)`,
+	),
+	Options.optional,
+)
 const fromHistoryOpt = Options.text('from-history').pipe(
 	Options.withDescription('Load config from history entry ID'),
 	Options.optional,
 )
 
+/**
+ * CLI flags that map onto AssetGeneratorConfig keys.
+ *
+ * All fields are optional so commands that only expose a subset of the
+ * flags (e.g. 'validate') can share buildCliLayer().
+ */
+interface ConfigFlags {
+	name?: Option.Option<string>
+	platforms?: Option.Option<string>
+	types?: Option.Option<string>
+	bgType?: Option.Option<string>
+	bgColor?: Option.Option<string>
+	bgGradientType?: Option.Option<string>
+	bgGradientColors?: Option.Option<string>
+	bgGradientAngle?: Option.Option<number>
+	bgImage?: Option.Option<string>
+	fgType?: Option.Option<string>
+	fgText?: Option.Option<string>
+	fgColor?: Option.Option<string>
+	fgFont?: Option.Option<string>
+	fgFontSource?: Option.Option<string>
+	fgFontPath?: Option.Option<string>
+	fgFontSize?: Option.Option<number>
+	fgSvg?: Option.Option<string>
+	fgSvgColor?: Option.Option<string>
+	fgImage?: Option.Option<string>
+	darkBgColor?: Option.Option<string>
+	darkFgColor?: Option.Option<string>
+	badge?: Option.Option<string>
+	badgeStyle?: Option.Option<string>
+	badgePosition?: Option.Option<string>
+	badgeColor?: Option.Option<string>
+	badgeTextColor?: Option.Option<string>
+	tagline?: Option.Option<string>
+	iconScale?: Option.Option<number>
+	splashScale?: Option.Option<number>
+	faviconScale?: Option.Option<number>
+	storeScale?: Option.Option<number>
+	iosLayout?: Option.Option<string>
+	iosSplash?: Option.Option<string>
+	androidLegacyShape?: Option.Option<string>
+	androidAdaptiveFormat?: Option.Option<string>
+	androidIconFormat?: Option.Option<string>
+	webImageFormats?: Option.Option<string>
+	pngOptimization?: Option.Option<string>
+	fixStoreAssets?: boolean
+	xcassets?: Option.Option<string>
+	androidRes?: Option.Option<string>
+	manifestMerge?: Option.Option<string>
+	maskPreview?: Option.Option<string>
+	vectorMaster?: Option.Option<string>
+	output?: Option.Option<string>
+}
+
+/** Unwrap an optional flag, returning undefined when it wasn't passed. */
+function flag<A>(option: Option.Option<A> | undefined): A | undefined {
+	return option ? Option.getOrUndefined(option) : undefined
+}
+
+/**
+ * Build the highest-priority config layer from explicitly passed flags.
+ *
+ * When --bg-type/--fg-type is omitted, the type is inferred from the
+ * type-specific flag (e.g. --bg-image implies an image background), so
+ * `--bg-color` alone still switches a gradient config file to a solid color.
+ *
+ * Values are passed through unvalidated; resolveConfig() reports bad input
+ * against the config field it maps to.
+ */
+function buildCliLayer(opts: ConfigFlags): ConfigLayer {
+	const layer: Record<string, unknown> = {}
+
+	const name = flag(opts.name)
+	if (name !== undefined) layer.appName = name
+	const platforms = flag(opts.platforms)
+	if (platforms !== undefined) layer.platforms = platforms.split(',')
+	const types = flag(opts.types)
+	if (types !== undefined) layer.assetTypes = types.split(',')
+	const output = flag(opts.output)
+	if (output !== undefined) layer.outputDir = resolvePath(output)
+	const iosLayout = flag(opts.iosLayout)
+	if (iosLayout !== undefined) layer.iosIconLayout = iosLayout
+	const iosSplash = flag(opts.iosSplash)
+	if (iosSplash !== undefined) layer.iosSplashMode = iosSplash
+	const androidLegacyShape = flag(opts.androidLegacyShape)
+	if (androidLegacyShape !== undefined) {
+		layer.androidLegacyShape = androidLegacyShape
+	}
+	const androidAdaptiveFormat = flag(opts.androidAdaptiveFormat)
+	if (androidAdaptiveFormat !== undefined) {
+		layer.androidAdaptiveFormat = androidAdaptiveFormat
+	}
+	const androidIconFormat = flag(opts.androidIconFormat)
+	if (androidIconFormat !== undefined) {
+		layer.androidIconFormat = androidIconFormat
+	}
+	const webImageFormats = flag(opts.webImageFormats)
+	if (webImageFormats !== undefined) {
+		layer.webImageFormats = webImageFormats.split(',')
+	}
+	const pngOptimization = flag(opts.pngOptimization)
+	if (pngOptimization !== undefined) layer.pngOptimization = pngOptimization
+	if (opts.fixStoreAssets) layer.fixStoreAssets = true
+	const xcassets = flag(opts.xcassets)
+	if (xcassets !== undefined) layer.xcassetsPath = resolvePath(xcassets)
+	const androidRes = flag(opts.androidRes)
+	if (androidRes !== undefined) layer.androidResPath = resolvePath(androidRes)
+	const manifestMerge = flag(opts.manifestMerge)
+	if (manifestMerge !== undefined) {
+		layer.manifestMergePath = resolvePath(manifestMerge)
+	}
+	const maskPreview = flag(opts.maskPreview)
+	if (maskPreview !== undefined) layer.maskPreview = maskPreview.split(',')
+	const vectorMaster = flag(opts.vectorMaster)
+	if (vectorMaster !== undefined) layer.vectorMaster = vectorMaster.split(',')
+
+	const iconScale = flag(opts.iconScale)
+	if (iconScale !== undefined) layer.iconScale = iconScale
+	const splashScale = flag(opts.splashScale)
+	if (splashScale !== undefined) layer.splashScale = splashScale
+	const faviconScale = flag(opts.faviconScale)
+	if (faviconScale !== undefined) layer.faviconScale = faviconScale
+	const storeScale = flag(opts.storeScale)
+	if (storeScale !== undefined) layer.storeScale = storeScale
+
+	// Background layer.
+	const background: Record<string, unknown> = {}
+	const bgColor = flag(opts.bgColor)
+	const bgImage = flag(opts.bgImage)
+	const gradientType = flag(opts.bgGradientType)
+	const gradientColors = flag(opts.bgGradientColors)
+	const gradientAngle = flag(opts.bgGradientAngle)
+	const hasGradientFlag =
+		gradientType !== undefined ||
+		gradientColors !== undefined ||
+		gradientAngle !== undefined
+
+	const bgType =
+		flag(opts.bgType) ??
+		(bgImage !== undefined
+			? 'image'
+			: hasGradientFlag
+				? 'gradient'
+				: bgColor !== undefined
+					? 'color'
+					: undefined)
+	if (bgType !== undefined) background.type = bgType
+	if (bgColor !== undefined)
+		background.color = { type: 'solid', color: bgColor }
+	if (bgImage !== undefined) background.imagePath = bgImage
+	if (hasGradientFlag) {
+		const gradient: Record<string, unknown> = {}
+		if (gradientType !== undefined) gradient.type = gradientType
+		if (gradientColors !== undefined)
+			gradient.colors = gradientColors.split(',')
+		if (gradientAngle !== undefined) gradient.angle = gradientAngle
+		background.gradient = gradient
+	}
+	const darkBgColor = flag(opts.darkBgColor)
+	if (darkBgColor !== undefined) background.dark = { color: darkBgColor }
+	if (Object.keys(background).length > 0) layer.background = background
+
+	// Foreground layer.
+	const foreground: Record<string, unknown> = {}
+	const fgText = flag(opts.fgText)
+	const fgFont = flag(opts.fgFont)
+	const fgFontSource = flag(opts.fgFontSource)
+	const fgFontPath = flag(opts.fgFontPath)
+	const fgFontSize = flag(opts.fgFontSize)
+	const fgColor = flag(opts.fgColor)
+	const fgSvg = flag(opts.fgSvg)
+	const fgSvgColor = flag(opts.fgSvgColor)
+	const fgImage = flag(opts.fgImage)
+	const hasTextFlag = [
+		fgText,
+		fgFont,
+		fgFontSource,
+		fgFontPath,
+		fgFontSize,
+	].some(v => v !== undefined)
+
+	const fgType =
+		flag(opts.fgType) ??
+		(fgSvg !== undefined || fgSvgColor !== undefined
+			? 'svg'
+			: fgImage !== undefined
+				? 'image'
+				: hasTextFlag
+					? 'text'
+					: undefined)
+	if (fgType !== undefined) foreground.type = fgType
+
+	if (fgType === 'svg') {
+		if (fgSvg !== undefined) foreground.svgPath = fgSvg
+		if (fgSvgColor !== undefined) foreground.color = fgSvgColor
+	} else if (fgType === 'image') {
+		if (fgImage !== undefined) foreground.imagePath = fgImage
+	} else {
+		if (fgText !== undefined) foreground.text = fgText
+		if (fgFont !== undefined) foreground.fontFamily = fgFont
+		if (fgFontSource !== undefined) foreground.fontSource = fgFontSource
+		if (fgFontPath !== undefined) foreground.fontPath = fgFontPath
+		if (fgFontSize !== undefined) foreground.fontSize = fgFontSize
+		if (fgColor !== undefined) foreground.color = fgColor
+	}
+	const darkFgColor = flag(opts.darkFgColor)
+	if (darkFgColor !== undefined) foreground.dark = { color: darkFgColor }
+	if (Object.keys(foreground).length > 0) layer.foreground = foreground
+
+	// Badge layer, merged field by field with the config file's badge.
+	const badge: Record<string, unknown> = {}
+	const badgeText = flag(opts.badge)
+	if (badgeText !== undefined) badge.text = badgeText
+	const badgeStyle = flag(opts.badgeStyle)
+	if (badgeStyle !== undefined) badge.style = badgeStyle
+	const badgePosition = flag(opts.badgePosition)
+	if (badgePosition !== undefined) badge.position = badgePosition
+	const badgeColor = flag(opts.badgeColor)
+	if (badgeColor !== undefined) badge.color = badgeColor
+	const badgeTextColor = flag(opts.badgeTextColor)
+	if (badgeTextColor !== undefined) badge.textColor = badgeTextColor
+	if (Object.keys(badge).length > 0) layer.badge = badge
+
+	// Social layer, merged field by field with the config file's social.
+	const tagline = flag(opts.tagline)
+	if (tagline !== undefined) layer.social = { tagline }
+
+	return layer as ConfigLayer
+}
+
+/**
+ * Load the base config layer for a command.
+ *
+ * Uses --config when given, otherwise looks for a config file in the
+ * current directory. Exits with code 2 if the file can't be loaded.
+ *
+ * @returns The file's layer and path, or an empty layer when no file exists
+ */
+async function loadBaseLayer(
+	configPath: Option.Option<string>,
+): Promise<{ layer: ConfigLayer; path?: string }> {
+	const path = Option.isSome(configPath)
+		? resolvePath(configPath.value)
+		: await findConfigFile()
+
+	if (!path) {
+		return { layer: {} }
+	}
+
+	try {
+		return { layer: await loadConfigFile(path), path }
+	} catch (error) {
+		console.error(`Error: Failed to load config file ${path}`)
+		console.error(`  ${(error as Error).message}`)
+		process.exit(2)
+	}
+}
+
 /**
  * The 'generate' subcommand creates app assets from CLI options.
  *
  * This is the main workhorse command that:
- * 1. Parses and validates all configuration options.
- * 2. Builds background and foreground layer configurations.
+ * 1. Resolves the config from defaults, config file (or history), and flags.
+ * 2. Validates the merged config against the schema.
  * 3. Invokes the asset generator pipeline.
  * 4. Outputs results in text or JSON format.
  */
@@ -230,24 +703,58 @@ const generate = Command.make(
 		fgSvg: fgSvgOpt,
 		fgSvgColor: fgSvgColorOpt,
 		fgImage: fgImageOpt,
+		darkBgColor: darkBgColorOpt,
+		darkFgColor: darkFgColorOpt,
+		badge: badgeOpt,
+		badgeStyle: badgeStyleOpt,
+		badgePosition: badgePositionOpt,
+		badgeColor: badgeColorOpt,
+		badgeTextColor: badgeTextColorOpt,
+		tagline: taglineOpt,
 		iconScale: iconScaleOpt,
 		splashScale: splashScaleOpt,
 		faviconScale: faviconScaleOpt,
 		storeScale: storeScaleOpt,
+		iosLayout: iosLayoutOpt,
+		iosSplash: iosSplashOpt,
+		androidLegacyShape: androidLegacyShapeOpt,
+		androidAdaptiveFormat: androidAdaptiveFormatOpt,
+		androidIconFormat: androidIconFormatOpt,
+		webImageFormats: webImageFormatsOpt,
+		pngOptimization: pngOptimizationOpt,
+		fixStoreAssets: fixStoreAssetsOpt,
+		xcassets: xcassetsOpt,
+		androidRes: androidResOpt,
+		manifestMerge: manifestMergeOpt,
+		maskPreview: maskPreviewOpt,
+		vectorMaster: vectorMasterOpt,
 		output: outputOpt,
 		format: formatOpt,
 		quiet: quietOpt,
 		dryRun: dryRunOpt,
+		check: checkOpt,
 		noZip: noZipOpt,
+		tarGz: tarGzOpt,
+		config: configOpt,
 		fromHistory: fromHistoryOpt,
 	},
 	opts =>
 		Effect.promise(async () => {
 			const startTime = Date.now()
 
-			// If --from-history is provided, load config from history entry
-			if (Option.isSome(opts.fromHistory)) {
-				const historyId = opts.fromHistory.value
+			// Resolve the base layer: a history entry replaces the config file.
+			let baseLayer: ConfigLayer = {}
+			let configPath: string | undefined
+			const historyId = Option.getOrUndefined(opts.fromHistory)
+
+			if (historyId !== undefined) {
+				if (Option.isSome(opts.config)) {
+					console.error(
+						'Error: --config cannot be combined with --from-history',
+					)
+					process.exit(2)
+				}
+
 				const entry = await getHistoryEntry(historyId)
 
 				if (!entry) {
@@ -256,297 +763,245 @@ const generate = Command.make(
 					process.exit(2)
 				}
 
-				// Use config from history, but allow overrides from CLI options
-				const historyConfig = entry.config
-
-				// Override with CLI options if explicitly provided
-				const outputDir = Option.isSome(opts.output)
-					? resolvePath(opts.output.value)
-					: getOutputDir()
-
-				// Parse platforms/types if different from defaults
-				const platforms =
-					opts.platforms !== 'ios,android,web'
-						? (opts.platforms.split(',') as ('ios' | 'android' | 'web')[])
-						: historyConfig.platforms
-
-				const assetTypes =
-					opts.types !== 'icon,splash,adaptive,favicon'
-						? (opts.types.split(',') as (
-								| 'icon'
-								| 'splash'
-								| 'adaptive'
-								| 'favicon'
-							)[])
-						: historyConfig.assetTypes
-
-				const config: AssetGeneratorConfig = {
-					...historyConfig,
-					platforms,
-					assetTypes,
-					outputDir,
-				}
+				// A replayed entry writes to a fresh output directory.
+				const { outputDir: _previousOutputDir, ...historyConfig } = entry.config
+				baseLayer = historyConfig
 
-				if (!opts.quiet) {
+				if (!opts.quiet && opts.format !== 'json') {
 					console.log(
 						`\nLoading config from history: ${entry.name || formatHistoryDate(entry.createdAt)}`,
 					)
-					console.log(`Output directory: ${outputDir}`)
 				}
+			} else {
+				const base = await loadBaseLayer(opts.config)
+				baseLayer = base.layer
+				configPath = base.path
 
-				// Execute asset generation pipeline.
-				const { generateAssets } = await import('./generators/asset_generator')
-				const result = await generateAssets(config)
-
-				const duration = Date.now() - startTime
-
-				// Generate post-generation integration instructions.
-				const instructionContext: GenerationContext = {
-					outputDir,
-					platforms: config.platforms,
-					assetTypes: config.assetTypes,
+				if (configPath && !opts.quiet && opts.format !== 'json') {
+					console.log(`Using config file: ${configPath}`)
 				}
-				const instructions = generateInstructions(instructionContext)
+			}
 
-				// Format and output results based on requested format.
-				if (opts.format === 'json') {
-					const output = {
-						success: result.success,
-						fromHistory: historyId,
-						config: {
-							appName: config.appName,
-							platforms: config.platforms,
-							assetTypes: config.assetTypes,
-						},
-						assets: result.assets.map(asset => ({
-							name: asset.spec.name,
-							path: asset.path,
-							width: asset.spec.width,
-							height: asset.spec.height,
-							platform: asset.spec.platform,
-							type: asset.spec.type,
-							size: asset.buffer.length,
-						})),
-						summary: {
-							totalAssets: result.assets.length,
-							outputDir: result.outputDir,
-							instructionsPath: result.instructionsPath,
-						},
-						instructions: formatInstructionsJson(instructions),
-						errors: result.errors || [],
-						duration,
-					}
-					console.log(JSON.stringify(output, null, 2))
-				} else {
-					if (result.success) {
-						console.log(
-							`\n✓ Successfully generated ${result.assets.length} assets`,
-						)
-						console.log(`  Output directory: ${result.outputDir}`)
-						console.log(`  Duration: ${duration}ms`)
-					} else {
-						console.error(`\n✗ Generation failed`)
-						if (result.errors && result.errors.length > 0) {
-							for (const error of result.errors) {
-								console.error(`  - ${error}`)
-							}
-						}
-						process.exit(1)
-					}
+			// Merge defaults < file/history < CLI flags, then validate.
+			const defaultOutputDir = getOutputDir()
+			const resolved = resolveConfig([
+				{ ...DEFAULT_CONFIG, outputDir: defaultOutputDir },
+				baseLayer,
+				buildCliLayer(opts),
+			])
+
+			if (!resolved.success) {
+				console.error('Error: Invalid configuration')
+				for (const error of resolved.errors) {
+					console.error(`  - ${error}`)
 				}
-				return
+				process.exit(2)
 			}
 
-			const outputDir = Option.isSome(opts.output)
-				? resolvePath(opts.output.value)
-				: getOutputDir()
-
-			// Build background configuration based on the selected type.
-			const bgType = opts.bgType as 'color' | 'gradient' | 'image'
-			const background: any = { type: bgType }
-
-			if (bgType === 'color') {
-				background.color = { type: 'solid', color: opts.bgColor }
-			} else if (bgType === 'gradient') {
-				background.gradient = {
-					type: opts.bgGradientType,
-					colors: opts.bgGradientColors.split(','),
-					angle: opts.bgGradientAngle,
-				}
-			} else if (bgType === 'image') {
-				if (!Option.isSome(opts.bgImage)) {
-					console.error(
-						'Error: --bg-image is required when --bg-type is "image"',
-					)
-					process.exit(2)
-				}
-				background.imagePath = opts.bgImage.value
+			const config = resolved.config
+			const outputDir = config.outputDir
+
+			// A drift check compares against committed files, never a fresh dir.
+			if (opts.check && opts.dryRun) {
+				console.error('Error: --check cannot be combined with --dry-run')
+				process.exit(2)
+			}
+			if (opts.check && outputDir === defaultOutputDir) {
+				console.error(
+					'Error: --check needs the committed output directory (--output or outputDir in the config file)',
+				)
+				process.exit(2)
 			}
 
-			// Build foreground configuration based on the selected type.
-			const fgType = opts.fgType as 'text' | 'svg' | 'image'
-			const foreground: any = { type: fgType }
-
-			if (fgType === 'text') {
-				foreground.text = opts.fgText
-				foreground.fontFamily = opts.fgFont
-				foreground.color = opts.fgColor
-				foreground.fontSource = opts.fgFontSource
-				if (Option.isSome(opts.fgFontPath)) {
-					foreground.fontPath = opts.fgFontPath.value
-				}
-				if (Option.isSome(opts.fgFontSize)) {
-					foreground.fontSize = opts.fgFontSize.value
-				}
+			// Archive flags adjust the formats requested by the config file.
+			if (opts.noZip || opts.tarGz) {
+				const archive = new Set<ArchiveFormat>(config.archive ?? ['zip'])
+				if (opts.noZip) archive.delete('zip')
+				if (opts.tarGz) archive.add('tar.gz')
+				config.archive = [...archive]
+			}
 
-				// Validate Google Font if specified
-				if (opts.fgFontSource === 'google') {
-					if (!opts.quiet) {
-						console.log(`Validating Google Font: ${opts.fgFont}`)
-					}
-					const isValid = await isValidGoogleFont(opts.fgFont)
-					if (!isValid) {
-						console.error(
-							`\nError: Font "${opts.fgFont}" not found in Google Fonts`,
-						)
-						const suggestions = await suggestSimilarFonts(opts.fgFont)
-						if (suggestions.length > 0) {
-							console.error('\nDid you mean:')
-							for (const suggestion of suggestions) {
-								console.error(`  - ${suggestion}`)
-							}
-						}
-						console.error('\nBrowse all fonts: https://fonts.google.com/')
-						console.error('Or use: appicons list-fonts')
-						process.exit(2)
-					}
-				}
-			} else if (fgType === 'svg') {
-				if (!Option.isSome(opts.fgSvg)) {
-					console.error('Error: --fg-svg is required when --fg-type is "svg"')
-					process.exit(2)
-				}
-				foreground.svgPath = opts.fgSvg.value
-				if (Option.isSome(opts.fgSvgColor)) {
-					foreground.color = opts.fgSvgColor.value
+			// Validate Google Font if specified
+			const { foreground } = config
+			if (foreground.type === 'text' && foreground.fontSource === 'google') {
+				if (!opts.quiet && opts.format !== 'json') {
+					console.log(`Validating Google Font: ${foreground.fontFamily}`)
 				}
-			} else if (fgType === 'image') {
-				if (!Option.isSome(opts.fgImage)) {
+				const isValid = await isValidGoogleFont(foreground.fontFamily)
+				if (!isValid) {
 					console.error(
-						'Error: --fg-image is required when --fg-type is "image"',
+						`\nError: Font "${foreground.fontFamily}" not found in Google Fonts`,
 					)
+					const suggestions = await suggestSimilarFonts(foreground.fontFamily)
+					if (suggestions.length > 0) {
+						console.error('\nDid you mean:')
+						for (const suggestion of suggestions) {
+							console.error(`  - ${suggestion}`)
+						}
+					}
+					console.error('\nBrowse all fonts: https://fonts.google.com/')
+					console.error('Or use: appicons list-fonts')
 					process.exit(2)
 				}
-				foreground.imagePath = opts.fgImage.value
-			}
-
-			// Parse and validate scale options.
-			// Scales control how much of the canvas the foreground fills.
-			const iconScale = parseFloat(opts.iconScale)
-			const splashScale = parseFloat(opts.splashScale)
-			const faviconScale = parseFloat(opts.faviconScale)
-			const storeScale = parseFloat(opts.storeScale)
-
-			if (iconScale < 0.1 || iconScale > 1.5) {
-				console.error('Error: --icon-scale must be between 0.1 and 1.5')
-				process.exit(2)
-			}
-			if (splashScale < 0.05 || splashScale > 1.0) {
-				console.error('Error: --splash-scale must be between 0.05 and 1.0')
-				process.exit(2)
-			}
-			if (faviconScale < 0.5 || faviconScale > 1.0) {
-				console.error('Error: --favicon-scale must be between 0.5 and 1.0')
-				process.exit(2)
-			}
-			if (storeScale < 0.3 || storeScale > 0.8) {
-				console.error('Error: --store-scale must be between 0.3 and 0.8')
-				process.exit(2)
 			}
 
 			// Show scale warnings based on platform guidelines
-			const iconWarning = getIconScaleWarning(iconScale)
-			const splashWarning = getSplashScaleWarning(splashScale)
-			const faviconWarning = getFaviconScaleWarning(faviconScale)
+			const iconWarning = getIconScaleWarning(
+				config.iconScale ?? DEFAULT_CONFIG.iconScale!,
+			)
+			const splashWarning = getSplashScaleWarning(
+				config.splashScale ?? DEFAULT_CONFIG.splashScale!,
+			)
+			const faviconWarning = getFaviconScaleWarning(
+				config.faviconScale ?? DEFAULT_CONFIG.faviconScale!,
+			)
 			if (iconWarning) console.warn(`\x1b[33m${iconWarning}\x1b[0m`)
 			if (splashWarning) console.warn(`\x1b[33m${splashWarning}\x1b[0m`)
 			if (faviconWarning) console.warn(`\x1b[33m${faviconWarning}\x1b[0m`)
 
-			// Assemble the complete asset generator configuration.
-			const config: AssetGeneratorConfig = {
-				appName: opts.name,
-				platforms: opts.platforms.split(',') as (
-					| 'ios'
-					| 'android'
-					| 'web'
-					| 'watchos'
-					| 'tvos'
-					| 'visionos'
-				)[],
-				assetTypes: opts.types.split(',') as (
-					| 'icon'
-					| 'splash'
-					| 'adaptive'
-					| 'favicon'
-					| 'store'
-				)[],
-				background,
-				foreground,
-				outputDir,
-				iconScale,
-				splashScale,
-				faviconScale,
-				storeScale,
-			}
-
 			// Dry-run mode: show config and planned files without generating assets.
 			if (opts.dryRun) {
 				const { determineAssetSpecs } = await import(
 					'./generators/asset_generator'
 				)
-				const specs = determineAssetSpecs(config)
-
-				// Additional files generated beyond asset specs
-				const additionalFiles: string[] = []
-				if (
-					config.platforms.includes('web') &&
-					config.assetTypes.includes('favicon')
-				) {
-					additionalFiles.push('web/site.webmanifest', 'web/favicon.ico')
-				}
-				if (
-					config.platforms.includes('ios') &&
-					config.assetTypes.includes('icon')
-				) {
-					additionalFiles.push('ios/AppIcon.appiconset/Contents.json')
-				}
-				if (
-					config.platforms.includes('android') &&
-					config.assetTypes.includes('adaptive')
-				) {
-					additionalFiles.push(
-						'android/mipmap-anydpi-v26/ic_launcher.xml',
-						'android/mipmap-anydpi-v26/ic_launcher_round.xml',
-					)
-					if (config.background.type === 'color') {
-						additionalFiles.push('android/values/colors.xml')
+
+				// Files of one set of assets, relative to its output directory.
+				const planFiles = (plan: AssetGeneratorConfig): string[] => {
+					const specs = determineAssetSpecs(plan)
+
+					// Additional files generated beyond asset specs
+					const additionalFiles: string[] = []
+					if (
+						plan.platforms.includes('web') &&
+						plan.assetTypes.includes('favicon')
+					) {
+						additionalFiles.push(
+							'web/site.webmanifest',
+							'web/favicon.ico',
+							...getWebHeadFiles(plan),
+						)
+					} else if (getWebStartupImages(plan).length > 0) {
+						additionalFiles.push(WEB_HEAD_HTML)
+					}
+					if (
+						plan.platforms.includes('ios') &&
+						plan.assetTypes.includes('icon')
+					) {
+						additionalFiles.push('ios/AppIcon.appiconset/Contents.json')
+						if (getAlternateIconLayout(plan) === 'appiconset') {
+							for (const icon of plan.alternateIcons ?? []) {
+								additionalFiles.push(
+									`${getAlternateIconSetDir(icon.name)}/Contents.json`,
+								)
+							}
+						}
+					}
+					if (plan.assetTypes.includes('icon')) {
+						if (plan.platforms.includes('macos')) {
+							additionalFiles.push(
+								'macos/AppIcon.appiconset/Contents.json',
+								'macos/icon.icns',
+							)
+						}
+						if (plan.platforms.includes('windows')) {
+							additionalFiles.push('windows/icon.ico')
+						}
+						if (plan.platforms.includes('linux')) {
+							additionalFiles.push(
+								`linux/${getLinuxAppId(plan.appName)}.desktop`,
+							)
+						}
+					}
+					if (
+						plan.platforms.includes('ios') &&
+						plan.assetTypes.includes('splash') &&
+						plan.iosSplashMode === 'storyboard'
+					) {
+						additionalFiles.push(
+							'ios/LaunchScreen.storyboard',
+							'ios/LaunchLogo.imageset/Contents.json',
+							'ios/LaunchBackground.colorset/Contents.json',
+						)
+					}
+					if (
+						plan.platforms.includes('android') &&
+						plan.assetTypes.includes('adaptive')
+					) {
+						const vectorLayers = getVectorAdaptiveLayers(plan)
+						if (vectorLayers.foreground) {
+							additionalFiles.push(ANDROID_VECTOR_FOREGROUND)
+						}
+						if (vectorLayers.monochrome) {
+							additionalFiles.push(ANDROID_VECTOR_MONOCHROME)
+						}
+						if (vectorLayers.background === 'gradient') {
+							additionalFiles.push(ANDROID_VECTOR_BACKGROUND)
+						}
+						additionalFiles.push(
+							'android/mipmap-anydpi-v26/ic_launcher.xml',
+							'android/mipmap-anydpi-v26/ic_launcher_round.xml',
+						)
+						if (plan.background.type === 'color') {
+							additionalFiles.push('android/values/colors.xml')
+						}
+					}
+					if (
+						plan.platforms.includes('android') &&
+						plan.assetTypes.includes('splash')
+					) {
+						additionalFiles.push(
+							'android/values-v31/themes.xml',
+							'android/values-night-v31/themes.xml',
+						)
 					}
+					if (plan.maskPreview?.includes('png')) {
+						additionalFiles.push('preview/mask-preview.png')
+					}
+					if (plan.maskPreview?.includes('html')) {
+						additionalFiles.push('preview/mask-preview.html')
+					}
+					additionalFiles.push(...getVectorMasterFiles(plan))
+					additionalFiles.push('README.md')
+
+					return [
+						...specs.flatMap((s: { name: string }) => [
+							getOutputFileName(plan, s.name),
+							...getWebCompanions(plan, s.name).map(
+								companion => companion.name,
+							),
+						]),
+						...additionalFiles,
+					]
 				}
-				additionalFiles.push('README.md')
 
-				const plannedFiles = [
-					...specs.map((s: { name: string }) => s.name),
-					...additionalFiles,
-				]
+				// Variants each plan a subfolder, next to an index README.md.
+				const variants = getVariantNames(config)
+				const plannedFiles =
+					variants.length === 0
+						? planFiles(config)
+						: [
+								...variants.flatMap(name =>
+									planFiles(resolveVariantConfig(config, name)).map(
+										file => `${name}/${file}`,
+									),
+								),
+								'README.md',
+							]
+				const { getArchivePath } = await import('./utils/archive')
+				const plannedArchives = (config.archive ?? ['zip']).map(format =>
+					getArchivePath(outputDir, format),
+				)
 
 				if (opts.format === 'json') {
 					console.log(
 						JSON.stringify(
 							{
 								dryRun: true,
+								...(configPath !== undefined && { configFile: configPath }),
 								config,
 								plannedFiles,
 								totalFiles: plannedFiles.length,
+								plannedArchives,
 							},
 							null,
 							2,
@@ -559,35 +1014,98 @@ const generate = Command.make(
 					for (const file of plannedFiles) {
 						console.log(`  - ${file}`)
 					}
+					if (plannedArchives.length > 0) {
+						console.log(`\nPlanned archives (${plannedArchives.length}):`)
+						for (const archive of plannedArchives) {
+							console.log(`  - ${archive}`)
+						}
+					}
 					console.log('\nNo assets will be generated in dry-run mode.')
 				}
 				return
 			}
 
+			// Check mode: render in memory and compare with the output directory.
+			if (opts.check) {
+				if (!opts.quiet && opts.format !== 'json') {
+					console.log(`\nChecking assets in ${outputDir}...`)
+				}
+
+				const { checkAssets } = await import('./generators/asset_generator')
+				const result = await checkAssets(
+					config,
+					opts.format === 'json'
+						? undefined
+						: createConsoleReporter(outputDir, { quiet: true }),
+				)
+
+				if (opts.format === 'json') {
+					console.log(
+						JSON.stringify(
+							{
+								check: true,
+								success: result.success,
+								...(configPath !== undefined && { configFile: configPath }),
+								outputDir: result.outputDir,
+								checkedFiles: result.checkedFiles,
+								drift: result.drift,
+								errors: result.errors,
+								duration: Date.now() - startTime,
+							},
+							null,
+							2,
+						),
+					)
+				} else if (result.success) {
+					console.log(
+						`✓ All ${result.checkedFiles} files in ${outputDir} are up to date`,
+					)
+				} else {
+					for (const entry of result.drift) {
+						const reason = entry.reason ? ` (${entry.reason})` : ''
+						console.error(`✗ ${entry.status.padEnd(9)} ${entry.path}${reason}`)
+					}
+					if (result.drift.length > 0) {
+						console.error(
+							`\n${result.drift.length} files out of date. Run without --check to regenerate.`,
+						)
+					}
+				}
+
+				if (!result.success) process.exit(1)
+				return
+			}
+
 			// Execute asset generation pipeline.
-			if (!opts.quiet) {
+			if (!opts.quiet && opts.format !== 'json') {
 				console.log('\nGenerating assets...')
 				console.log(`Output directory: ${outputDir}`)
 			}
 
-			const { generateAssets } = await import('./generators/asset_generator')
-			const result = await generateAssets(config)
+			// JSON output must stay parseable, so progress is only printed as text.
+			const { generateAssets, getInstructionContext } = await import(
+				'./generators/asset_generator'
+			)
+			const { formatStoreIssue } = await import('./utils/store_compliance')
+			const reporter =
+				opts.format === 'json'
+					? undefined
+					: createConsoleReporter(outputDir, { quiet: opts.quiet })
+			const result = await generateAssets(config, reporter)
 
 			const duration = Date.now() - startTime
 
-			// Generate post-generation integration instructions.
-			const instructionContext: GenerationContext = {
-				outputDir,
-				platforms: config.platforms,
-				assetTypes: config.assetTypes,
-			}
-			const instructions = generateInstructions(instructionContext)
+			// Generate post-generation integration instructions, from the same
+			// context as README.md.
+			const instructions = generateInstructions(getInstructionContext(config))
 
 			// Format and output results based on requested format.
 			if (opts.format === 'json') {
 				// Structured JSON output for AI agents and automation.
 				const output = {
 					success: result.success,
+					...(historyId !== undefined && { fromHistory: historyId }),
+					...(configPath !== undefined && { configFile: configPath }),
 					config: {
 						appName: config.appName,
 						platforms: config.platforms,
@@ -601,6 +1119,7 @@ const generate = Command.make(
 						platform: asset.spec.platform,
 						type: asset.spec.type,
 						size: asset.buffer.length,
+						originalSize: asset.originalSize ?? asset.buffer.length,
 					})),
 					summary: {
 						totalAssets: result.assets.length,
@@ -622,12 +1141,21 @@ const generate = Command.make(
 							(sum, asset) => sum + asset.buffer.length,
 							0,
 						),
+						// Size with default PNG encoding and no companions.
+						originalTotalSize: result.assets.reduce(
+							(sum, asset) => sum + (asset.originalSize ?? asset.buffer.length),
+							0,
+						),
 						outputDir: result.outputDir,
 						instructionsPath: result.instructionsPath,
+						zipPath: result.zipPath,
+						tarPath: result.tarPath,
+						installedFiles: result.installedFiles ?? [],
 					},
 					instructions: formatInstructionsJson(instructions),
 					errors: result.errors || [],
-					warnings: [],
+					warnings: (result.storeIssues ?? []).map(formatStoreIssue),
+					storeIssues: result.storeIssues ?? [],
 					duration,
 				}
 				console.log(JSON.stringify(output, null, 2))
@@ -641,10 +1169,28 @@ const generate = Command.make(
 					if (result.instructionsPath) {
 						console.log(`  Instructions: ${result.instructionsPath}`)
 					}
+					if (result.zipPath) {
+						console.log(`  Archive: ${result.zipPath}`)
+					}
+					if (result.tarPath) {
+						console.log(`  Tarball: ${result.tarPath}`)
+					}
+					if (result.installedFiles) {
+						console.log(
+							`  Changed in project: ${result.installedFiles.length} files`,
+						)
+						for (const file of result.installedFiles) {
+							console.log(`    - ${file}`)
+						}
+					}
 					console.log(`  Duration: ${duration}ms`)
 
 					if (!opts.quiet) {
-						console.log(formatInstructionsText(instructions))
+						console.log(
+							getVariantNames(config).length > 0
+								? formatVariantsText(config)
+								: formatInstructionsText(instructions),
+						)
 					}
 				} else {
 					console.error(`\n✗ Generation failed`)
@@ -666,18 +1212,27 @@ const generate = Command.make(
  * The 'validate' subcommand checks configuration without generating assets.
  *
  * Useful for CI/CD pipelines or pre-flight checks before running expensive
- * asset generation. Validates file paths, font availability, and config.
+ * asset generation. Validates the config file (if any) merged with the given
+ * flags against the schema, then checks font availability.
+ *
+ * With --output, also checks the store files of a generated directory
+ * against the App Store and Google Play upload rules; --fix repairs them
+ * in place, flattening alpha onto the config's background color.
  */
 const validate = Command.make(
 	'validate',
 	{
 		bgType: bgTypeOpt,
+		bgColor: bgColorOpt,
 		bgImage: bgImageOpt,
 		fgType: fgTypeOpt,
 		fgSvg: fgSvgOpt,
 		fgImage: fgImageOpt,
 		fgFont: fgFontOpt,
 		fgFontSource: fgFontSourceOpt,
+		config: configOpt,
+		storeOutput: storeOutputOpt,
+		fix: fixOpt,
 		format: formatOpt,
 	},
 	opts =>
@@ -685,43 +1240,91 @@ const validate = Command.make(
 			const errors: string[] = []
 			const warnings: string[] = []
 
-			// Validate background image path
-			if (opts.bgType === 'image' && !Option.isSome(opts.bgImage)) {
-				errors.push('--bg-image is required when --bg-type is "image"')
-			}
+			const base = await loadBaseLayer(opts.config)
+			const resolved = resolveConfig([
+				{ ...DEFAULT_CONFIG, outputDir: getOutputDir() },
+				base.layer,
+				buildCliLayer(opts),
+			])
 
-			// Validate foreground paths
-			if (opts.fgType === 'svg' && !Option.isSome(opts.fgSvg)) {
-				errors.push('--fg-svg is required when --fg-type is "svg"')
-			}
-			if (opts.fgType === 'image' && !Option.isSome(opts.fgImage)) {
-				errors.push('--fg-image is required when --fg-type is "image"')
+			if (!resolved.success) {
+				errors.push(...resolved.errors)
 			}
 
 			// Validate Google Font if specified
-			if (opts.fgType === 'text' && opts.fgFontSource === 'google') {
-				const isValid = await isValidGoogleFont(opts.fgFont)
+			const foreground = resolved.success ? resolved.config.foreground : null
+			if (foreground?.type === 'text' && foreground.fontSource === 'google') {
+				const isValid = await isValidGoogleFont(foreground.fontFamily)
 				if (!isValid) {
-					const suggestions = await suggestSimilarFonts(opts.fgFont)
+					const suggestions = await suggestSimilarFonts(foreground.fontFamily)
 					if (suggestions.length > 0) {
 						warnings.push(
-							`Font "${opts.fgFont}" not found. Did you mean: ${suggestions.slice(0, 3).join(', ')}?`,
+							`Font "${foreground.fontFamily}" not found. Did you mean: ${suggestions.slice(0, 3).join(', ')}?`,
 						)
 					} else {
-						warnings.push(`Font "${opts.fgFont}" not found in Google Fonts`)
+						warnings.push(
+							`Font "${foreground.fontFamily}" not found in Google Fonts`,
+						)
 					}
 				}
 			}
 
+			// Check a generated directory against the store upload rules.
+			const storeOutput = flag(opts.storeOutput)
+			let storeCompliance: StoreComplianceResult | undefined
+			if (storeOutput !== undefined) {
+				const { getRepresentativeBackgroundColor } = await import(
+					'./generators/asset_generator'
+				)
+				const { formatStoreIssue, validateStoreAssets } = await import(
+					'./utils/store_compliance'
+				)
+				storeCompliance = await validateStoreAssets(resolvePath(storeOutput), {
+					fix: opts.fix,
+					...(resolved.success && {
+						background: getRepresentativeBackgroundColor(
+							resolved.config.background,
+						),
+					}),
+				})
+				if (storeCompliance.checkedFiles === 0) {
+					warnings.push(
+						`No App Store or Google Play files found in ${storeCompliance.outputDir}`,
+					)
+				}
+				errors.push(...storeCompliance.issues.map(formatStoreIssue))
+			} else if (opts.fix) {
+				warnings.push('--fix has no effect without --output')
+			}
+
 			const isValid = errors.length === 0
 
 			if (opts.format === 'json') {
 				console.log(
-					JSON.stringify({ valid: isValid, errors, warnings }, null, 2),
+					JSON.stringify(
+						{
+							valid: isValid,
+							...(base.path !== undefined && { configFile: base.path }),
+							...(storeCompliance !== undefined && { storeCompliance }),
+							errors,
+							warnings,
+						},
+						null,
+						2,
+					),
 				)
 			} else {
+				if (storeCompliance !== undefined) {
+					for (const file of storeCompliance.fixedFiles) {
+						console.log(`Fixed ${file}`)
+					}
+				}
 				if (isValid) {
-					console.log('✓ Configuration is valid')
+					console.log(
+						storeCompliance !== undefined
+							? `✓ Configuration is valid and ${storeCompliance.checkedFiles} store files comply`
+							: '✓ Configuration is valid',
+					)
 					if (warnings.length > 0) {
 						console.log('\nWarnings:')
 						for (const warning of warnings) {
@@ -729,7 +1332,11 @@ const validate = Command.make(
 						}
 					}
 				} else {
-					console.log('✗ Configuration is invalid')
+					console.log(
+						resolved.success
+							? '✗ Store files do not comply'
+							: '✗ Configuration is invalid',
+					)
 					console.log('\nErrors:')
 					for (const error of errors) {
 						console.log(`  - ${error}`)
@@ -835,13 +1442,14 @@ const instructionsCmd = Command.make(
 		Effect.sync(() => {
 			const context: GenerationContext = {
 				outputDir: getOutputDir(),
-				platforms: opts.platforms.split(',') as ('ios' | 'android' | 'web')[],
-				assetTypes: opts.types.split(',') as (
-					| 'icon'
-					| 'splash'
-					| 'adaptive'
-					| 'favicon'
-				)[],
+				platforms: Option.match(opts.platforms, {
+					onNone: () => DEFAULT_CONFIG.platforms,
+					onSome: value => value.split(',') as Platform[],
+				}),
+				assetTypes: Option.match(opts.types, {
+					onNone: () => DEFAULT_CONFIG.assetTypes,
+					onSome: value => value.split(',') as AssetType[],
+				}),
 			}
 
 			const instructions = generateInstructions(context)
@@ -882,23 +1490,31 @@ const listPlatformsCmd = Command.make(
 			android: {
 				name: 'Android',
 				description: 'Launcher icons and adaptive icons',
-				assetTypes: ['icon', 'adaptive', 'splash'],
-				assetCount: { icon: 5, adaptive: 15, splash: 10 },
+				assetTypes: ['icon', 'adaptive', 'splash', 'notification'],
+				assetCount: { icon: 10, adaptive: 15, splash: 10, notification: 5 },
 				features: [
 					'Adaptive icon layers (foreground/background)',
 					'Monochrome for Material You',
 					'ic_launcher.xml generation',
+					'Legacy round icons and launcher shapes',
+					'ic_stat_notification status bar icons',
 				],
 			},
 			web: {
 				name: 'Web',
-				description: 'PWA icons, favicons, and Apple touch icons',
-				assetTypes: ['favicon'],
-				assetCount: { favicon: 18 },
+				description:
+					'PWA icons, favicons, Apple touch icons, iOS startup images, and social share images',
+				assetTypes: ['favicon', 'splash', 'social'],
+				assetCount: { favicon: 23, splash: 52, social: 3 },
 				features: [
 					'Maskable and monochrome icons',
 					'site.webmanifest generation',
 					'favicon.ico multi-resolution',
+					'head.html link and theme-color tags',
+					'favicon.svg with dark mode and Safari mask icon',
+					'browserconfig.xml Windows tiles',
+					'apple-touch-startup-image for every iOS device and orientation',
+					'Open Graph and Twitter/X share images',
 				],
 			},
 			watchos: {
@@ -928,6 +1544,34 @@ const listPlatformsCmd = Command.make(
 					'Circular mask (80% safe zone)',
 				],
 			},
+			macos: {
+				name: 'macOS',
+				description: 'App icons for Mac apps (Xcode, Electron, Tauri)',
+				assetTypes: ['icon'],
+				assetCount: { icon: 10 },
+				features: [
+					'AppIcon.appiconset (16-1024px, @1x/@2x)',
+					'icon.icns for app bundles',
+					'Rounded body on Apple icon grid',
+				],
+			},
+			windows: {
+				name: 'Windows',
+				description: 'App icons for Windows desktop apps',
+				assetTypes: ['icon'],
+				assetCount: { icon: 7 },
+				features: ['icon.ico multi-resolution (16-256px)'],
+			},
+			linux: {
+				name: 'Linux',
+				description: 'App icons for Linux desktop environments',
+				assetTypes: ['icon'],
+				assetCount: { icon: 9 },
+				features: [
+					'hicolor theme layout (16-512px)',
+					'.desktop entry referencing the icon',
+				],
+			},
 		}
 
 		const storeAssets = {
@@ -67,15 +67,19 @@ export function PreviewScreen({
 	/**
 	 * Run the asset generation pipeline asynchronously.
 	 *
-	 * Updates progress state and calls onGenerationComplete when done.
-	 * Errors are logged but don't prevent partial results from displaying.
+	 * Advances the progress bar as each asset is rendered and calls
+	 * onGenerationComplete when done. Errors are logged but don't prevent
+	 * partial results from displaying.
 	 */
 	const generateAssetsAsync = useCallback(async () => {
 		setIsGenerating(true)
 		setProgress(0)
 
 		try {
-			const generationResult = await generateAssets(config)
+			const generationResult = await generateAssets(config, {
+				onAssetDone: (_asset, index, total) =>
+					setProgress(Math.floor(((index + 1) / total) * 100)),
+			})
 			setProgress(100)
 			onGenerationComplete(generationResult)
 		} catch (error) {
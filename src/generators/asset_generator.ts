@@ -7,40 +7,186 @@
  *
  * Generation pipeline:
  * 1. Determine asset specs based on target platforms and asset types.
- * 2. For each spec, generate background and foreground layers.
- * 3. Composite layers with appropriate sizing/positioning.
- * 4. Write files to platform-organized folders + README.md.
+ * 2. For each spec, resolve per-file overrides, then generate background and
+ *    foreground layers.
+ * 3. Composite layers with appropriate sizing/positioning, plus the optional
+ *    environment badge.
+ * 4. Encode the configured output formats (WebP mipmaps, web companions,
+ *    optimized PNG), then write files to platform-organized folders +
+ *    README.md.
+ * 5. Optionally install into an Xcode asset catalog / Android res dir.
+ * 6. Package the output directory into .zip / .tar.gz archives.
+ *
+ * With build variants, steps 1-5 run once per variant into
+ * `<outputDir>/<name>/` (see utils/variants.ts).
+ *
+ * checkAssets runs steps 1-4 in memory and compares the result with the
+ * output directory instead of writing it (`generate --check`).
  *
  * Platform support:
- * - iOS: App icons (@1x, @2x, @3x), launch images, dark icons (iOS 18+).
- * - Android: Adaptive icons (foreground/background/monochrome), night splash.
+ * - iOS: App icons (@1x, @2x, @3x), launch images or launch storyboard,
+ *   dark icons (iOS 18+).
+ * - Android: Adaptive icons (foreground/background/monochrome), night splash,
+ *   Android 12+ SplashScreen API icon and themes.
  * - Web: Favicons, PWA icons, Open Graph images.
+ * - Desktop: macOS icon set + .icns, Windows .ico, Linux hicolor + .desktop.
  */
 
-import { mkdir, writeFile } from 'node:fs/promises'
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
 import { dirname, join } from 'node:path'
 import sharp from 'sharp'
 import { encode as encodeIco } from 'sharp-ico'
 
 import {
+	getAlternateIconLayout,
+	getAlternateIconSetDir,
+	getAlternateIconSetName,
+	getAppIconSetFilename,
 	getAssetsByPlatform,
 	getAssetsByType,
+	getIosIconLayout,
+	getIosLaunchLogoPoints,
+	getIosLaunchLogoSpecs,
+	getIosSplashMode,
+	getLinuxAppId,
+	getLinuxIconName,
+	getOutputFileName,
 	getVariantAssetsByPlatform,
 	getVariantAssetsByType,
+	getWebHeadFiles,
+	getWebStartupImages,
+	IOS_APP_ICON_SET_DIR,
+	IOS_LAUNCH_BACKGROUND_DIR,
+	IOS_LAUNCH_LOGO_DIR,
+	IOS_LAUNCH_SCREEN_STORYBOARD,
+	MACOS_APP_ICON_SET_DIR,
+	MACOS_ICONS,
+	WEB_BROWSERCONFIG_XML,
+	WEB_FAVICON_SVG,
+	WEB_HEAD_HTML,
+	WEB_MASK_ICON_SVG,
 } from '../assets/asset_specs'
 import type {
 	AssetGeneratorConfig,
 	AssetSpec,
+	ColorMode,
+	DriftCheckResult,
 	GeneratedAsset,
+	GenerationReporter,
 	GenerationResult,
+	StoreComplianceIssue,
 } from '../types'
+import {
+	createAlternateIconSetContentsJson,
+	getAlternateIconAssetSpecs,
+	resolveAlternateIconConfig,
+} from '../utils/alternate_icons'
+import { installAndroidRes, resolveAndroidResPath } from '../utils/android_res'
+import { getArchivePath, isArchivePath, writeArchive } from '../utils/archive'
+import type { BadgeSafeZone } from '../utils/badge'
+import { compareOutputFiles } from '../utils/drift'
 import { saveToHistory } from '../utils/history'
+import { encodeIcns } from '../utils/icns'
+import { encodeOutputAssets } from '../utils/image_format'
 import {
 	formatInstructionsText,
+	formatVariantsText,
+	type GenerationContext,
 	generateInstructions,
 } from '../utils/instructions'
-import { generateBackground } from './background_generator'
-import { generateForeground } from './foreground_generator'
+import {
+	createLaunchBackgroundContentsJson,
+	createLaunchLogoContentsJson,
+	createLaunchScreenStoryboard,
+} from '../utils/launch_screen'
+import {
+	createLegacyIconMaskSvg,
+	createLegacyIconShadowSvg,
+	getLegacyIconPadding,
+	getLegacyIconShape,
+	type LegacyIconShape,
+} from '../utils/legacy_icon'
+import {
+	createMaskPreviewHtml,
+	getMaskPreviewSources,
+	MASK_PREVIEW_HTML,
+	MASK_PREVIEW_PNG,
+} from '../utils/mask_preview'
+import { resolveAssetConfig } from '../utils/overrides'
+import {
+	ANDROID_ADAPTIVE_RECOMMENDED_SCALE,
+	ANDROID_SPLASH_ICON_MAX_SCALE,
+} from '../utils/safe_zone_validation'
+import {
+	formatStoreIssue,
+	validateStoreAssets,
+} from '../utils/store_compliance'
+import {
+	getVariantAppIconName,
+	getVariantNames,
+	getVariantResDir,
+	resolveVariantConfig,
+} from '../utils/variants'
+import {
+	ANDROID_VECTOR_BACKGROUND,
+	ANDROID_VECTOR_FOREGROUND,
+	ANDROID_VECTOR_MONOCHROME,
+	createGradientDrawableXml,
+	createTextArtwork,
+	createVectorDrawableXml,
+	getAdaptiveIconDrawables,
+	getVectorAdaptiveLayers,
+	isReplacedByVectorDrawable,
+	parseSvgArtwork,
+	type VectorArtwork,
+} from '../utils/vector_drawable'
+import {
+	createVectorMasterPdf,
+	createVectorMasterSvg,
+	getVectorMasterSpecs,
+	type VectorMasterBackground,
+	type VectorMasterBox,
+} from '../utils/vector_master'
+import {
+	createBrowserConfigXml,
+	createFaviconSvg,
+	createHeadHtml,
+	createMaskIconSvg,
+	createStartupImageHtml,
+	createTextSvgArtwork,
+	FAVICON_SVG_SIZE,
+	parseSvgFaviconArtwork,
+	type SvgArtwork,
+	type SvgFaviconBackground,
+} from '../utils/web_head'
+import {
+	createWebManifest,
+	getWebShortcutAssetSpecs,
+	installManifestIcons,
+	resolveManifestPath,
+	resolveWebShortcutConfig,
+	WEB_MANIFEST,
+} from '../utils/web_manifest'
+import {
+	APP_ICON_SET_NAME,
+	installAppIconSet,
+	resolveXcassetsPath,
+} from '../utils/xcassets'
+import {
+	createLinearGradientSVG,
+	createRadialGradientSVG,
+	generateBackground,
+	getLinearGradientCoordinates,
+} from './background_generator'
+import { applyBadge } from './badge_generator'
+import {
+	createTextForegroundPath,
+	createTextPathSVG,
+	generateForeground,
+	loadFont,
+} from './foreground_generator'
+import { generateMaskPreviewSheet } from './mask_preview_generator'
+import { generateSocialImage } from './social_generator'
 
 /**
  * Generates all assets based on the provided configuration.
@@ -50,98 +196,192 @@ import { generateForeground } from './foreground_generator'
  * - Individual asset generation with error isolation.
  * - File output organized by platform folders.
  * - Integration instructions file (README.md).
+ * - Build variants, each in its own subfolder with its own history entry.
+ * - Archives of the output directory (default: .zip).
  *
  * Errors are collected rather than thrown, allowing partial success
  * when some assets fail (e.g., due to invalid source images).
+ *
+ * Nothing is printed; progress, errors and written files are reported
+ * through the optional reporter (see createConsoleReporter for the CLI's).
  */
 export async function generateAssets(
 	config: AssetGeneratorConfig,
+	reporter: GenerationReporter = {},
 ): Promise<GenerationResult> {
 	const errors: string[] = []
-	const assets: GeneratedAsset[] = []
+	const installedFiles: string[] = []
+
+	const fail = (message: string) => {
+		errors.push(message)
+		reporter.onError?.(message)
+	}
+	const writeToDisk: OutputWriter = async (relativePath, data) => {
+		const fullPath = join(config.outputDir, relativePath)
+		await mkdir(dirname(fullPath), { recursive: true })
+		await writeFile(fullPath, data)
+		reporter.onFileWritten?.(fullPath)
+	}
 
 	try {
-		// Resolve which assets to generate based on platforms and asset types.
-		const specs = determineAssetSpecs(config)
-		console.log(`\nGenerating ${specs.length} assets...`)
+		// Fail fast on a bad install target before spending time on generation.
+		const xcassetsDir =
+			config.xcassetsPath !== undefined
+				? await resolveXcassetsPath(config.xcassetsPath)
+				: undefined
+		const androidResDir =
+			config.androidResPath !== undefined
+				? await resolveAndroidResPath(config.androidResPath)
+				: undefined
+		const manifestPath =
+			config.manifestMergePath !== undefined
+				? await resolveManifestPath(config.manifestMergePath)
+				: undefined
+
+		const assets = await renderOutputFiles(config, reporter, writeToDisk, fail)
+
+		// Store rule violations are reported, not fatal: the files still work
+		// in the app, they are only rejected on upload.
+		const storeIssues = await checkStoreCompliance(config, reporter)
+
+		// A partial set is never installed over a working one.
+		const install = async (
+			generatedDir: string,
+			appIconSetName: string,
+			resDir: string | undefined,
+		) => {
+			// Copy the self-contained icon set into the project's asset catalog.
+			if (
+				xcassetsDir !== undefined &&
+				config.platforms.includes('ios') &&
+				config.assetTypes.includes('icon')
+			) {
+				if (errors.length > 0) {
+					reporter.onWarning?.(
+						`Skipped installing into ${xcassetsDir} because some assets failed`,
+					)
+				} else {
+					try {
+						const files = await installAppIconSet(
+							join(generatedDir, IOS_APP_ICON_SET_DIR),
+							xcassetsDir,
+							appIconSetName,
+						)
+						installedFiles.push(...files)
+						for (const name of getAlternateIconSetNames(config)) {
+							const alternateFiles = await installAppIconSet(
+								join(generatedDir, getAlternateIconSetDir(name)),
+								xcassetsDir,
+								`${getAlternateIconSetName(name)}.appiconset`,
+							)
+							installedFiles.push(...alternateFiles)
+						}
+					} catch (error) {
+						fail(
+							`Failed to install into ${xcassetsDir}: ${(error as Error).message}`,
+						)
+					}
+				}
+			}
 
-		// Generate assets sequentially to avoid memory pressure from parallel Sharp operations.
-		// Sharp holds image buffers in memory, and parallel execution can cause OOM on large assets.
-		for (const spec of specs) {
-			try {
-				const asset = await generateAsset(config, spec)
-				assets.push(asset)
-				console.log(`✓ Generated ${spec.name}`)
-			} catch (error) {
-				const message = `Failed to generate ${spec.name}: ${(error as Error).message}`
-				errors.push(message)
-				console.error(`✗ ${message}`)
+			// Copy launcher icons into the project's res/ directory.
+			if (resDir !== undefined && config.platforms.includes('android')) {
+				if (errors.length > 0) {
+					reporter.onWarning?.(
+						`Skipped installing into ${resDir} because some assets failed`,
+					)
+				} else {
+					try {
+						const files = await installAndroidRes(
+							join(generatedDir, 'android'),
+							resDir,
+						)
+						installedFiles.push(...files)
+					} catch (error) {
+						fail(
+							`Failed to install into ${resDir}: ${(error as Error).message}`,
+						)
+					}
+				}
 			}
 		}
 
-		// Persist generated assets to disk (organized by platform folders).
-		await writeAssetsToDisk(assets, config.outputDir)
+		// Variants install side by side: AppIcon-<Name>.appiconset and the
+		// src/<name>/res flavor source set.
+		const variants = getVariantNames(config)
+		if (variants.length === 0) {
+			await install(config.outputDir, APP_ICON_SET_NAME, androidResDir)
+		}
 
-		// Generate web manifest and favicon.ico if web platform is included
+		// A web app has a single manifest, so variants are not merged.
 		if (
+			manifestPath !== undefined &&
 			config.platforms.includes('web') &&
 			config.assetTypes.includes('favicon')
 		) {
-			await generateWebManifest(config, config.outputDir)
-			console.log(`✓ Generated web/site.webmanifest`)
-			await generateFaviconIco(config, config.outputDir)
-			console.log(`✓ Generated web/favicon.ico`)
+			if (variants.length > 0) {
+				reporter.onWarning?.(
+					`Skipped merging into ${manifestPath} because variants have separate icons`,
+				)
+			} else if (errors.length > 0) {
+				reporter.onWarning?.(
+					`Skipped merging into ${manifestPath} because some assets failed`,
+				)
+			} else {
+				try {
+					const files = await installManifestIcons(
+						join(config.outputDir, 'web'),
+						manifestPath,
+					)
+					installedFiles.push(...files)
+				} catch (error) {
+					fail(
+						`Failed to merge into ${manifestPath}: ${(error as Error).message}`,
+					)
+				}
+			}
 		}
-
-		// Generate iOS Contents.json if iOS platform with icons is included
-		if (
-			config.platforms.includes('ios') &&
-			config.assetTypes.includes('icon')
-		) {
-			await generateContentsJson(config, config.outputDir)
-			console.log(`✓ Generated ios/AppIcon.appiconset/Contents.json`)
+		for (const name of variants) {
+			await install(
+				join(config.outputDir, name),
+				`${getVariantAppIconName(name)}.appiconset`,
+				androidResDir !== undefined
+					? getVariantResDir(androidResDir, name)
+					: undefined,
+			)
 		}
 
-		// Generate Android adaptive icon XML files if Android with adaptive is included
-		if (
-			config.platforms.includes('android') &&
-			config.assetTypes.includes('adaptive')
-		) {
-			await generateAdaptiveIconXml(config, config.outputDir)
-			console.log(`✓ Generated android/mipmap-anydpi-v26/ic_launcher.xml`)
-			console.log(`✓ Generated android/mipmap-anydpi-v26/ic_launcher_round.xml`)
-
-			// Generate colors.xml only for solid color backgrounds
-			if (config.background.type === 'color' && config.background.color) {
-				await generateColorsXml(config, config.outputDir)
-				console.log(`✓ Generated android/values/colors.xml`)
+		// Package the output directory last so the archive includes README.md.
+		let zipPath: string | undefined
+		let tarPath: string | undefined
+		for (const format of config.archive ?? ['zip']) {
+			try {
+				const archivePath = await writeArchive(config.outputDir, format)
+				if (format === 'zip') zipPath = archivePath
+				else tarPath = archivePath
+				reporter.onFileWritten?.(archivePath)
+			} catch (error) {
+				fail(`Failed to write ${format} archive: ${(error as Error).message}`)
 			}
 		}
 
-		// Generate integration instructions file.
-		const instructions = generateInstructions({
-			outputDir: config.outputDir,
-			platforms: config.platforms,
-			assetTypes: config.assetTypes,
-			config,
-		})
-		const instructionsPath = join(config.outputDir, 'README.md')
-		await writeFile(instructionsPath, formatInstructionsText(instructions))
-		console.log(`✓ Generated README.md`)
-
-		// Report generation summary.
-		console.log(`\n✓ Generated ${assets.length} assets`)
-		if (errors.length > 0) {
-			console.log(`✗ Failed ${errors.length} assets`)
-		}
-
-		// Save to history on successful generation
+		// Save to history on successful generation. Each variant gets its own
+		// entry that regenerates just that variant.
 		if (errors.length === 0) {
 			try {
-				await saveToHistory(config, config.outputDir)
+				if (variants.length === 0) {
+					await saveToHistory(config, config.outputDir)
+				}
+				for (const name of variants) {
+					await saveToHistory(
+						{ ...config, variants: { [name]: config.variants![name]! } },
+						join(config.outputDir, name),
+						name,
+					)
+				}
 			} catch (_historyError) {
 				// Don't fail generation if history save fails
-				console.warn('Warning: Failed to save to history')
+				reporter.onWarning?.('Failed to save to history')
 			}
 		}
 
@@ -149,11 +389,16 @@ export async function generateAssets(
 			success: errors.length === 0,
 			assets,
 			outputDir: config.outputDir,
-			instructionsPath,
+			instructionsPath: join(config.outputDir, 'README.md'),
+			...(zipPath !== undefined && { zipPath }),
+			...(tarPath !== undefined && { tarPath }),
+			...(installedFiles.length > 0 && { installedFiles }),
+			...(storeIssues.length > 0 && { storeIssues }),
 			errors,
 		}
 	} catch (error) {
 		// Catch-all for unexpected errors during pipeline setup.
+		reporter.onError?.((error as Error).message)
 		return {
 			success: false,
 			assets: [],
@@ -163,6 +408,301 @@ export async function generateAssets(
 	}
 }
 
+/**
+ * Checks committed assets for drift without writing anything.
+ *
+ * Runs the same pipeline as generateAssets in memory and compares every
+ * file against the output directory on disk. Installation and history
+ * are skipped since they live outside the output directory; archives are
+ * not rendered and not reported as extra files.
+ *
+ * @returns Missing, extra and different files; success when there are none
+ */
+export async function checkAssets(
+	config: AssetGeneratorConfig,
+	reporter: GenerationReporter = {},
+): Promise<DriftCheckResult> {
+	const errors: string[] = []
+	const expected = new Map<string, Buffer>()
+
+	const fail = (message: string) => {
+		errors.push(message)
+		reporter.onError?.(message)
+	}
+	const writeToMemory: OutputWriter = async (relativePath, data) => {
+		expected.set(relativePath, Buffer.from(data))
+	}
+
+	try {
+		await renderOutputFiles(config, reporter, writeToMemory, fail)
+		const drift = (await compareOutputFiles(expected, config.outputDir)).filter(
+			entry => !(entry.status === 'extra' && isArchivePath(entry.path)),
+		)
+
+		return {
+			success: errors.length === 0 && drift.length === 0,
+			outputDir: config.outputDir,
+			checkedFiles: expected.size,
+			drift,
+			errors,
+		}
+	} catch (error) {
+		reporter.onError?.((error as Error).message)
+		return {
+			success: false,
+			outputDir: config.outputDir,
+			checkedFiles: 0,
+			drift: [],
+			errors: [(error as Error).message],
+		}
+	}
+}
+
+/**
+ * Receives each output file as it is produced, keyed by its path relative
+ * to the output directory.
+ */
+type OutputWriter = (
+	relativePath: string,
+	data: Buffer | string,
+) => Promise<void>
+
+/**
+ * Renders every file of the output directory and hands it to `write`:
+ * asset images, platform metadata (Contents.json, manifests, XML) and
+ * README.md. Shared by generation (writes to disk) and drift checks
+ * (collects in memory), so both always see the same files.
+ *
+ * Build variants are rendered one after another into `<name>/`, next to
+ * a README.md on wiring them into build configurations.
+ *
+ * @returns Successfully generated assets as written (see
+ *   encodeOutputAssets); failures are passed to `fail`
+ */
+async function renderOutputFiles(
+	config: AssetGeneratorConfig,
+	reporter: GenerationReporter,
+	write: OutputWriter,
+	fail: (message: string) => void,
+): Promise<GeneratedAsset[]> {
+	const variants = getVariantNames(config)
+	if (variants.length === 0) {
+		return renderVariantFiles(config, reporter, write, fail)
+	}
+
+	const assets: GeneratedAsset[] = []
+	for (const name of variants) {
+		const writeVariant: OutputWriter = (relativePath, data) =>
+			write(join(name, relativePath), data)
+		assets.push(
+			...(await renderVariantFiles(
+				resolveVariantConfig(config, name),
+				reporter,
+				writeVariant,
+				fail,
+				name,
+			)),
+		)
+	}
+	await write('README.md', formatVariantsText(config))
+
+	return assets
+}
+
+/**
+ * Checks the written store files of each output folder against the App
+ * Store and Google Play upload rules, reporting each issue as a warning.
+ *
+ * @returns Issues with paths relative to the output directory
+ */
+async function checkStoreCompliance(
+	config: AssetGeneratorConfig,
+	reporter: GenerationReporter,
+): Promise<StoreComplianceIssue[]> {
+	const variants = getVariantNames(config)
+	const folders = variants.length === 0 ? [''] : variants
+	const issues: StoreComplianceIssue[] = []
+
+	for (const folder of folders) {
+		const folderDir = join(config.outputDir, folder)
+		const result = await validateStoreAssets(folderDir)
+		for (const issue of result.issues) {
+			const entry = folder
+				? { ...issue, path: `${folder}/${issue.path}` }
+				: issue
+			issues.push(entry)
+			reporter.onWarning?.(formatStoreIssue(entry))
+		}
+		if (result.issues.some(issue => issue.fixable)) {
+			reporter.onWarning?.(
+				`Run \`appicons validate --output ${folderDir} --fix\` or set fixStoreAssets to repair store files`,
+			)
+		}
+	}
+
+	return issues
+}
+
+/**
+ * Renders the files of a single set of assets (one variant, or the whole
+ * output when there are no variants).
+ *
+ * @param variant - Variant name, for the README's wiring steps
+ */
+async function renderVariantFiles(
+	config: AssetGeneratorConfig,
+	reporter: GenerationReporter,
+	write: OutputWriter,
+	fail: (message: string) => void,
+	variant?: string,
+): Promise<GeneratedAsset[]> {
+	const assets: GeneratedAsset[] = []
+
+	// Resolve which assets to generate based on platforms and asset types.
+	const specs = determineAssetSpecs(config)
+
+	// Generate assets sequentially to avoid memory pressure from parallel Sharp operations.
+	// Sharp holds image buffers in memory, and parallel execution can cause OOM on large assets.
+	for (const [index, spec] of specs.entries()) {
+		reporter.onAssetStart?.(spec, index, specs.length)
+		try {
+			const assetConfig = resolveWebShortcutConfig(
+				resolveAlternateIconConfig(resolveAssetConfig(config, spec), spec),
+				spec,
+			)
+			const asset = await generateAsset(assetConfig, spec)
+			assets.push(asset)
+			reporter.onAssetDone?.(asset, index, specs.length)
+		} catch (error) {
+			fail(`Failed to generate ${spec.name}: ${(error as Error).message}`)
+		}
+	}
+
+	// Persist generated assets (organized by platform folders) in their
+	// output formats. Containers below are built from the rendered PNGs.
+	const outputs = await encodeOutputAssets(
+		config,
+		assets,
+		getRepresentativeBackgroundColor(config.background),
+	)
+	for (const output of outputs) {
+		await write(output.spec.name, output.buffer)
+	}
+
+	// Generate web manifest and favicon.ico if web platform is included
+	if (
+		config.platforms.includes('web') &&
+		config.assetTypes.includes('favicon')
+	) {
+		await generateWebManifest(config, write)
+		await generateFaviconIco(config, write)
+		await generateWebHead(config, write, fail)
+	} else if (getWebStartupImages(config).length > 0) {
+		await write(
+			WEB_HEAD_HTML,
+			createStartupImageHtml(getWebStartupImages(config)),
+		)
+	}
+
+	// Generate iOS Contents.json if iOS platform with icons is included
+	if (config.platforms.includes('ios') && config.assetTypes.includes('icon')) {
+		await generateContentsJson(config, write)
+		await generateAlternateIconSets(config, write)
+	}
+
+	// Generate desktop icon containers from the generated frames
+	if (config.assetTypes.includes('icon')) {
+		if (config.platforms.includes('macos')) {
+			await generateMacOSContentsJson(write)
+			await generateIcns(assets, write)
+		}
+		if (config.platforms.includes('windows')) {
+			await generateWindowsIco(assets, write)
+		}
+		if (config.platforms.includes('linux')) {
+			await generateDesktopEntry(config, write)
+		}
+	}
+
+	// Generate iOS launch storyboard and its asset catalog sets
+	if (
+		config.platforms.includes('ios') &&
+		config.assetTypes.includes('splash') &&
+		getIosSplashMode(config) === 'storyboard'
+	) {
+		await generateLaunchScreen(config, write)
+	}
+
+	// Generate Android adaptive icon XML files if Android with adaptive is included
+	if (
+		config.platforms.includes('android') &&
+		config.assetTypes.includes('adaptive')
+	) {
+		await generateVectorDrawables(config, write, fail)
+		await generateAdaptiveIconXml(config, write)
+
+		// Generate colors.xml only for solid color backgrounds
+		await generateColorsXml(config, write)
+	}
+
+	// Generate Android 12+ splash screen themes if Android with splash is included
+	if (
+		config.platforms.includes('android') &&
+		config.assetTypes.includes('splash')
+	) {
+		await generateSplashScreenThemes(config, write)
+	}
+
+	// Show adaptive/maskable icons under launcher masks
+	if (config.maskPreview !== undefined && config.maskPreview.length > 0) {
+		await generateMaskPreview(config, assets, write, reporter)
+	}
+
+	// Write the composed icon and splash screen as vector files
+	await generateVectorMasters(config, write, fail, reporter)
+
+	// Paths are relative to the output directory so the README is the same
+	// in every checkout.
+	const instructions = generateInstructions({
+		...getInstructionContext(config, variant),
+		relativeTo: config.outputDir,
+	})
+	await write('README.md', formatInstructionsText(instructions))
+
+	return outputs
+}
+
+/**
+ * Builds the instruction context of a set of assets, shared by README.md
+ * and the instructions the CLI prints.
+ *
+ * Archive paths are known up front so the instructions can reference them.
+ * Variants are archived together with the other variants.
+ *
+ * @param variant - Variant name, when config is resolved for one variant
+ */
+export function getInstructionContext(
+	config: AssetGeneratorConfig,
+	variant?: string,
+): GenerationContext {
+	const archiveFormats = config.archive ?? ['zip']
+	const archiveDir =
+		variant !== undefined ? dirname(config.outputDir) : config.outputDir
+	return {
+		outputDir: config.outputDir,
+		platforms: config.platforms,
+		assetTypes: config.assetTypes,
+		zipPath: archiveFormats.includes('zip')
+			? getArchivePath(archiveDir, 'zip')
+			: undefined,
+		tarPath: archiveFormats.includes('tar.gz')
+			? getArchivePath(archiveDir, 'tar.gz')
+			: undefined,
+		config,
+		variant,
+	}
+}
+
 /**
  * Resolves which asset specifications to generate based on config.
  *
@@ -176,6 +716,16 @@ export async function generateAssets(
  *
  * Deduplication ensures each unique asset is generated only once,
  * even if it appears in multiple platform/type combinations.
+ *
+ * Linux icons are renamed to the app id (hicolor/16x16/apps/my-app.png) so
+ * the .desktop file can reference them by name.
+ *
+ * In the 'storyboard' iOS splash mode, fixed-size iOS splash PNGs are
+ * replaced by the LaunchLogo imageset sized from the storyboard's
+ * splashScale (after overrides).
+ *
+ * In the 'vector' Android adaptive format, layers written as drawable XML
+ * have no mipmap PNGs.
  */
 export function determineAssetSpecs(config: AssetGeneratorConfig): AssetSpec[] {
 	const specs: AssetSpec[] = []
@@ -204,7 +754,53 @@ export function determineAssetSpecs(config: AssetGeneratorConfig): AssetSpec[] {
 	}
 
 	// Deduplicate by name using Map (preserves last occurrence).
-	return Array.from(new Map(specs.map(s => [s.name, s])).values())
+	let unique = Array.from(new Map(specs.map(s => [s.name, s])).values())
+
+	if (getIosSplashMode(config) === 'storyboard') {
+		const isIosSplash = (spec: AssetSpec) =>
+			spec.platform === 'ios' && spec.type === 'splash'
+		if (unique.some(isIosSplash)) {
+			unique = [
+				...unique.filter(spec => !isIosSplash(spec)),
+				...getIosLaunchLogoSpecs(
+					getLaunchScreenConfig(config).splashScale ?? 0.25,
+				),
+			]
+		}
+	}
+
+	const linuxAppId = getLinuxAppId(config.appName)
+	unique = unique.map(spec =>
+		spec.platform === 'linux'
+			? { ...spec, name: getLinuxIconName(spec, linuxAppId) }
+			: spec,
+	)
+
+	// The icon set layout moves every iOS icon into AppIcon.appiconset/.
+	if (getIosIconLayout(config) === 'appiconset') {
+		unique = unique.map(spec =>
+			spec.platform === 'ios' && spec.type === 'icon'
+				? {
+						...spec,
+						name: `${IOS_APP_ICON_SET_DIR}/${getAppIconSetFilename(spec, 'appiconset')}`,
+					}
+				: spec,
+		)
+	}
+
+	// Vector adaptive layers replace their mipmap PNGs.
+	const vectorLayers = getVectorAdaptiveLayers(config)
+	unique = unique.filter(
+		spec => !isReplacedByVectorDrawable(spec, vectorLayers),
+	)
+
+	// Alternate icons keep their own icon sets or loose files, and manifest
+	// shortcuts get their own icons.
+	return [
+		...unique,
+		...getAlternateIconAssetSpecs(config),
+		...getWebShortcutAssetSpecs(config),
+	]
 }
 
 /**
@@ -221,7 +817,7 @@ export function determineAssetSpecs(config: AssetGeneratorConfig): AssetSpec[] {
  *
  * Color mode handling:
  * - 'light' (default): Normal background and foreground
- * - 'dark': Auto-computed dark background (inverted/darkened)
+ * - 'dark': Dark background and foreground overrides, or an auto-darkened background
  * - 'tinted': White foreground on transparent (iOS 18 wallpaper tint)
  * - 'clear-light': Normal foreground on semi-transparent white (50% opacity)
  * - 'clear-dark': Normal foreground on semi-transparent black (50% opacity)
@@ -240,6 +836,45 @@ async function generateAsset(
 		return generateAdaptiveIconLayer(config, spec)
 	}
 
+	// Android 12+ splash icons: transparent canvas, theme supplies the color
+	if (spec.platform === 'android' && spec.name.includes('splashscreen_icon')) {
+		return generateSplashScreenIcon(config, spec)
+	}
+
+	// Android notification icons: alpha-only silhouette, no background
+	if (spec.type === 'notification') {
+		return generateNotificationIcon(config, spec)
+	}
+
+	// Social share images: logo beside the app name and tagline
+	if (spec.type === 'social') {
+		return {
+			spec,
+			buffer: await generateSocialImage(
+				config,
+				spec,
+				getRepresentativeBackgroundColor(config.background),
+			),
+			path: join(config.outputDir, spec.name),
+		}
+	}
+
+	// Android legacy icons: launcher shape with padding and drop shadow
+	const legacyShape = getLegacyIconShape(config, spec)
+	if (legacyShape !== undefined) {
+		return generateLegacyAndroidIcon(config, spec, legacyShape)
+	}
+
+	// macOS icons: rounded body with transparent margin (Apple icon grid)
+	if (spec.platform === 'macos') {
+		return generateMacOSIcon(config, spec)
+	}
+
+	// iOS launch logo: transparent, sized by the storyboard's imageset
+	if (spec.name.startsWith(`${IOS_LAUNCH_LOGO_DIR}/`)) {
+		return generateLaunchLogo(config, spec)
+	}
+
 	// Web maskable icons: like Android adaptive, with safe zone
 	if (spec.platform === 'web' && spec.name.includes('maskable')) {
 		return generateMaskableIcon(config, spec)
@@ -270,7 +905,7 @@ async function generateAsset(
 	}
 
 	// Step 1: Generate the background layer at full asset dimensions.
-	// For dark mode, auto-compute a dark background from the original.
+	// For dark mode, use the dark override or auto-darken the original.
 	let backgroundBuffer: Buffer
 	if (spec.colorMode === 'dark') {
 		backgroundBuffer = await generateDarkBackground(
@@ -287,47 +922,25 @@ async function generateAsset(
 	}
 
 	// Step 2: Calculate foreground size based on asset type and platform.
-	// Separate scales for icons, splash screens, favicons, and store graphics (user configurable).
-	let foregroundScale: number
-	if (spec.type === 'splash') {
-		foregroundScale = config.splashScale ?? 0.25 // Splash: 25% default
-	} else if (spec.type === 'favicon') {
-		foregroundScale = config.faviconScale ?? 0.85 // Favicons: 85% default
-	} else if (spec.type === 'store') {
-		foregroundScale = config.storeScale ?? 0.5 // Store: 50% default
-	} else if (spec.platform === 'watchos' || spec.platform === 'visionos') {
-		// Circular icons need to stay within 80% safe zone
-		const maxSafeScale = 0.8
-		const userScale = config.iconScale ?? 0.7
-		foregroundScale = Math.min(userScale, maxSafeScale)
-	} else if (spec.platform === 'tvos') {
-		// tvOS uses 80% safe zone for layered icons
-		const maxSafeScale = 0.8
-		const userScale = config.iconScale ?? 0.7
-		foregroundScale = Math.min(userScale, maxSafeScale)
-	} else {
-		foregroundScale = config.iconScale ?? 0.7 // Icons: 70% default
-	}
-	const foregroundSize = Math.floor(Math.min(width, height) * foregroundScale)
+	const box = getForegroundBox(width, height, getForegroundScale(config, spec))
 
 	const foregroundBuffer = await generateForeground(
-		config.foreground,
-		foregroundSize,
-		foregroundSize,
+		spec.colorMode === 'dark'
+			? getDarkForegroundConfig(config.foreground)
+			: config.foreground,
+		box.size,
+		box.size,
 	)
 
 	// Step 3: Composite foreground centered on background.
-	const buffer = await sharp(backgroundBuffer)
-		.composite([
-			{
-				input: foregroundBuffer,
-				top: Math.floor((height - foregroundSize) / 2),
-				left: Math.floor((width - foregroundSize) / 2),
-			},
-		])
+	const composited = await sharp(backgroundBuffer)
+		.composite([{ input: foregroundBuffer, top: box.top, left: box.left }])
 		.png()
 		.toBuffer()
 
+	// Step 4: Draw the environment badge, if any.
+	const buffer = await withBadge(config, spec, composited)
+
 	return {
 		spec,
 		buffer,
@@ -335,6 +948,67 @@ async function generateAsset(
 	}
 }
 
+/**
+ * Gets the foreground scale of a composed asset. Separate scales for
+ * icons, splash screens, favicons, and store graphics (user configurable).
+ */
+function getForegroundScale(
+	config: AssetGeneratorConfig,
+	spec: Pick<AssetSpec, 'type'> & Partial<Pick<AssetSpec, 'platform'>>,
+): number {
+	if (spec.type === 'splash') {
+		return config.splashScale ?? 0.25 // Splash: 25% default
+	}
+	if (spec.type === 'favicon') {
+		return config.faviconScale ?? 0.85 // Favicons: 85% default
+	}
+	if (spec.type === 'store') {
+		return config.storeScale ?? 0.5 // Store: 50% default
+	}
+	if (
+		spec.platform === 'watchos' ||
+		spec.platform === 'visionos' ||
+		spec.platform === 'tvos'
+	) {
+		// Circular icons and tvOS layered icons stay within the 80% safe zone
+		const maxSafeScale = 0.8
+		return Math.min(config.iconScale ?? 0.7, maxSafeScale)
+	}
+	return config.iconScale ?? 0.7 // Icons: 70% default
+}
+
+/**
+ * Gets the square the foreground is drawn into, centered on the canvas
+ * and sized by the scale of its shorter side.
+ */
+function getForegroundBox(
+	width: number,
+	height: number,
+	scale: number,
+): VectorMasterBox {
+	const size = Math.floor(Math.min(width, height) * scale)
+	return {
+		left: Math.floor((width - size) / 2),
+		top: Math.floor((height - size) / 2),
+		size,
+	}
+}
+
+/**
+ * Draws the environment badge over an asset when one is configured.
+ * Store graphics are returned unchanged, since store listings must show
+ * the production icon.
+ */
+async function withBadge(
+	config: AssetGeneratorConfig,
+	spec: AssetSpec,
+	buffer: Buffer,
+	zone?: BadgeSafeZone,
+): Promise<Buffer> {
+	if (!config.badge || spec.type === 'store') return buffer
+	return applyBadge(buffer, spec, config.badge, zone)
+}
+
 /**
  * Generates iOS 18 tinted icon (monochrome, system applies wallpaper color).
  * White foreground on transparent background.
@@ -443,16 +1117,23 @@ async function generateClearIcon(
 }
 
 /**
- * Generates an auto-computed dark background from the original.
+ * Generates the dark variant background.
+ *
+ * Uses `background.dark` when set. Otherwise falls back to auto-darkening:
  * - Solid colors: darkens the color by reducing lightness
- * - Gradients: inverts/darkens gradient colors
- * - Images: applies a dark overlay
+ * - Gradients: darkens every gradient color stop
+ * - Images: generated unchanged (set `dark.imagePath` for a dark version)
  */
 async function generateDarkBackground(
 	bgConfig: AssetGeneratorConfig['background'],
 	width: number,
 	height: number,
 ): Promise<Buffer> {
+	const darkConfig = getDarkBackgroundOverride(bgConfig)
+	if (darkConfig) {
+		return generateBackground(darkConfig, width, height)
+	}
+
 	if (bgConfig.type === 'color' && bgConfig.color) {
 		// Darken solid color by converting to dark variant
 		const darkColor = darkenHexColor(bgConfig.color.color, 0.7)
@@ -482,6 +1163,53 @@ async function generateDarkBackground(
 	return generateBackground(bgConfig, width, height)
 }
 
+/**
+ * Builds the background config described by `background.dark`.
+ *
+ * The first override set wins: imagePath, color, then gradientColors.
+ * Dark gradients keep the light gradient's type and angle.
+ *
+ * @returns The dark background, or undefined when no override is set
+ */
+function getDarkBackgroundOverride(
+	bgConfig: AssetGeneratorConfig['background'],
+): AssetGeneratorConfig['background'] | undefined {
+	const { dark } = bgConfig
+	if (dark?.imagePath) {
+		return { type: 'image', imagePath: dark.imagePath }
+	}
+	if (dark?.color) {
+		return { type: 'color', color: { type: 'solid', color: dark.color } }
+	}
+	if (dark?.gradientColors) {
+		return {
+			type: 'gradient',
+			gradient: {
+				...(bgConfig.gradient ?? { type: 'linear' }),
+				colors: dark.gradientColors,
+			},
+		}
+	}
+	return undefined
+}
+
+/**
+ * Applies the foreground's `dark` overrides (text/SVG color or image path).
+ * Foregrounds without overrides are used unchanged in dark variants.
+ */
+function getDarkForegroundConfig(
+	fgConfig: AssetGeneratorConfig['foreground'],
+): AssetGeneratorConfig['foreground'] {
+	if (fgConfig.type === 'image') {
+		return fgConfig.dark?.imagePath
+			? { ...fgConfig, imagePath: fgConfig.dark.imagePath }
+			: fgConfig
+	}
+	return fgConfig.dark?.color
+		? { ...fgConfig, color: fgConfig.dark.color }
+		: fgConfig
+}
+
 /**
  * Darkens a hex color by a factor (0-1, where 0.7 = 70% darker).
  */
@@ -537,7 +1265,7 @@ async function generateMaskableIcon(
 	)
 
 	// Composite foreground centered on background
-	const buffer = await sharp(backgroundBuffer)
+	const composited = await sharp(backgroundBuffer)
 		.composite([
 			{
 				input: foregroundBuffer,
@@ -550,49 +1278,341 @@ async function generateMaskableIcon(
 
 	return {
 		spec,
-		buffer,
+		buffer: await withBadge(config, spec, composited),
 		path: join(config.outputDir, spec.name),
 	}
 }
 
 /**
- * Generates Android adaptive icon layers.
- *
- * Android adaptive icons (API 26+) use a two-layer system:
- * - Background layer: Full 108×108 dp canvas with solid/gradient/image.
- * - Foreground layer: Transparent canvas with icon in the safe zone.
+ * Generates the Android 12+ SplashScreen API icon.
  *
- * Safe zone considerations:
- * The system may mask the icon to various shapes (circle, squircle, etc.)
- * and apply parallax effects. The visible area varies by device:
- * - Minimum visible: 66×66 dp (inner circle).
- * - Maximum canvas: 108×108 dp.
- * - Safe zone: ~60% of canvas to avoid clipping on any mask shape.
- *
- * Monochrome icons (colorMode: 'any') for Android 13+ themed icons:
- * - Generated as white (#FFFFFF) on transparent background
- * - System applies user's theme color at runtime
- *
- * We use 60% (not the theoretical 66/108 = 61%) for extra safety margin.
+ * The system draws this icon on windowSplashScreenBackground and masks it to
+ * a 192 dp circle in the middle of the 288 dp canvas, so the foreground is
+ * capped at 192/288 (~67%) of the canvas and anything outside is clipped.
+ * The canvas stays transparent so the theme's background color shows through.
  */
-async function generateAdaptiveIconLayer(
+async function generateSplashScreenIcon(
 	config: AssetGeneratorConfig,
 	spec: AssetSpec,
 ): Promise<GeneratedAsset> {
 	const { width, height } = spec
-	const isForeground = spec.name.includes('foreground')
-	const isMonochrome = spec.name.includes('monochrome')
+	const userScale = config.iconScale ?? ANDROID_ADAPTIVE_RECOMMENDED_SCALE
+	const safeScale = Math.min(userScale, ANDROID_SPLASH_ICON_MAX_SCALE)
+	const foregroundSize = Math.floor(Math.min(width, height) * safeScale)
 
-	let buffer: Buffer
+	const foregroundBuffer = await generateForeground(
+		config.foreground,
+		foregroundSize,
+		foregroundSize,
+	)
+
+	const buffer = await sharp({
+		create: {
+			width,
+			height,
+			channels: 4,
+			background: { r: 0, g: 0, b: 0, alpha: 0 },
+		},
+	})
+		.composite([
+			{
+				input: foregroundBuffer,
+				top: Math.floor((height - foregroundSize) / 2),
+				left: Math.floor((width - foregroundSize) / 2),
+			},
+		])
+		.png()
+		.toBuffer()
+
+	return {
+		spec,
+		buffer,
+		path: join(config.outputDir, spec.name),
+	}
+}
+
+/**
+ * Share of the notification icon covered by the silhouette (20dp live area
+ * of the 24dp icon, leaving the standard 2dp padding).
+ */
+const NOTIFICATION_ICON_LIVE_RATIO = 20 / 24
+
+/**
+ * Generates an Android status bar notification icon (ic_stat_*).
+ *
+ * Android only uses the alpha channel of notification icons, so the
+ * foreground is reduced to a white silhouette on a transparent canvas:
+ * colors (including image foregrounds) are discarded and only the shape
+ * is kept. There is no background layer, since an opaque icon renders as
+ * a white square.
+ */
+async function generateNotificationIcon(
+	config: AssetGeneratorConfig,
+	spec: AssetSpec,
+): Promise<GeneratedAsset> {
+	const { width, height } = spec
+	const size = Math.floor(
+		Math.min(width, height) * NOTIFICATION_ICON_LIVE_RATIO,
+	)
+
+	const foregroundBuffer = await generateForeground(
+		config.foreground,
+		size,
+		size,
+	)
+
+	const silhouette = await sharp({
+		create: {
+			width: size,
+			height: size,
+			channels: 4,
+			background: { r: 255, g: 255, b: 255, alpha: 1 },
+		},
+	})
+		.composite([{ input: foregroundBuffer, blend: 'dest-in' }])
+		.png()
+		.toBuffer()
+
+	const buffer = await sharp({
+		create: {
+			width,
+			height,
+			channels: 4,
+			background: { r: 0, g: 0, b: 0, alpha: 0 },
+		},
+	})
+		.composite([
+			{
+				input: silhouette,
+				top: Math.floor((height - size) / 2),
+				left: Math.floor((width - size) / 2),
+			},
+		])
+		.png()
+		.toBuffer()
+
+	return {
+		spec,
+		buffer,
+		path: join(config.outputDir, spec.name),
+	}
+}
+
+/**
+ * Share of the macOS icon canvas covered by the rounded body (824 of 1024).
+ * macOS does not mask app icons, so the shape and margin are baked in.
+ */
+const MACOS_ICON_BODY_RATIO = 824 / 1024
+
+/** Corner radius of the macOS icon body relative to its size (185.4 of 824). */
+const MACOS_ICON_CORNER_RATIO = 185.4 / 824
+
+/**
+ * Generates a macOS app icon.
+ *
+ * Follows Apple's icon grid: the background is clipped to a rounded square
+ * covering ~80% of the canvas and centered on a transparent margin, so the
+ * icon lines up with system icons in the Dock and Finder.
+ * The foreground is scaled relative to the body, not the canvas.
+ */
+async function generateMacOSIcon(
+	config: AssetGeneratorConfig,
+	spec: AssetSpec,
+): Promise<GeneratedAsset> {
+	const { width, height } = spec
+	const bodySize = Math.round(width * MACOS_ICON_BODY_RATIO)
+	const inset = Math.floor((width - bodySize) / 2)
+	const radius = bodySize * MACOS_ICON_CORNER_RATIO
+
+	const backgroundBuffer = await generateBackground(
+		config.background,
+		bodySize,
+		bodySize,
+	)
+
+	const foregroundSize = Math.floor(bodySize * (config.iconScale ?? 0.7))
+	const foregroundBuffer = await generateForeground(
+		config.foreground,
+		foregroundSize,
+		foregroundSize,
+	)
+
+	const mask = Buffer.from(
+		`<svg width="${bodySize}" height="${bodySize}"><rect width="${bodySize}" height="${bodySize}" rx="${radius}" ry="${radius}" fill="#fff"/></svg>`,
+	)
+
+	const bodyBuffer = await sharp(backgroundBuffer)
+		.composite([
+			{
+				input: foregroundBuffer,
+				top: Math.floor((bodySize - foregroundSize) / 2),
+				left: Math.floor((bodySize - foregroundSize) / 2),
+			},
+			{ input: mask, blend: 'dest-in' },
+		])
+		.png()
+		.toBuffer()
+
+	const buffer = await sharp({
+		create: {
+			width,
+			height,
+			channels: 4,
+			background: { r: 0, g: 0, b: 0, alpha: 0 },
+		},
+	})
+		.composite([{ input: bodyBuffer, top: inset, left: inset }])
+		.png()
+		.toBuffer()
+
+	return {
+		spec,
+		buffer,
+		path: join(config.outputDir, spec.name),
+	}
+}
+
+/**
+ * Generates a legacy Android launcher icon (ic_launcher.png with a legacy
+ * shape, or ic_launcher_round.png).
+ *
+ * Devices before API 26 show the PNG unmasked, so the icon is drawn in the
+ * Material legacy shape with 1dp of transparent padding and a drop shadow.
+ */
+async function generateLegacyAndroidIcon(
+	config: AssetGeneratorConfig,
+	spec: AssetSpec,
+	shape: LegacyIconShape,
+): Promise<GeneratedAsset> {
+	const { width } = spec
+	const padding = getLegacyIconPadding(width)
+	const bodySize = width - 2 * padding
+
+	const backgroundBuffer = await generateBackground(
+		config.background,
+		bodySize,
+		bodySize,
+	)
+
+	const foregroundSize = Math.floor(bodySize * (config.iconScale ?? 0.7))
+	const foregroundBuffer = await generateForeground(
+		config.foreground,
+		foregroundSize,
+		foregroundSize,
+	)
+
+	const body = await sharp(backgroundBuffer)
+		.composite([
+			{
+				input: foregroundBuffer,
+				top: Math.floor((bodySize - foregroundSize) / 2),
+				left: Math.floor((bodySize - foregroundSize) / 2),
+			},
+		])
+		.png()
+		.toBuffer()
+
+	// The badge is drawn on the body so the shape clips it like the icon.
+	const badged = await withBadge(
+		config,
+		{ ...spec, width: bodySize, height: bodySize },
+		body,
+		{ scale: 1, circular: shape === 'circle' },
+	)
+	const bodyBuffer = await sharp(badged)
+		.composite([
+			{
+				input: Buffer.from(createLegacyIconMaskSvg(shape, bodySize)),
+				blend: 'dest-in',
+			},
+		])
+		.png()
+		.toBuffer()
+
+	const buffer = await sharp(
+		Buffer.from(createLegacyIconShadowSvg(shape, width)),
+	)
+		.composite([{ input: bodyBuffer, top: padding, left: padding }])
+		.png()
+		.toBuffer()
+
+	return {
+		spec,
+		buffer,
+		path: join(config.outputDir, spec.name),
+	}
+}
+
+/**
+ * Generates an iOS LaunchLogo image.
+ *
+ * The storyboard draws the logo at its point size on the LaunchBackground
+ * color, so the image is just the foreground filling a transparent canvas;
+ * splashScale is already baked into the spec dimensions.
+ */
+async function generateLaunchLogo(
+	config: AssetGeneratorConfig,
+	spec: AssetSpec,
+): Promise<GeneratedAsset> {
+	const buffer = await generateForeground(
+		config.foreground,
+		spec.width,
+		spec.height,
+	)
+
+	return {
+		spec,
+		buffer,
+		path: join(config.outputDir, spec.name),
+	}
+}
+
+/**
+ * Size of the adaptive foreground as a fraction of the 108dp canvas:
+ * iconScale (default 60%), capped at 66% for the Android safe zone.
+ */
+function getAdaptiveForegroundScale(config: AssetGeneratorConfig): number {
+	const maxSafeScale = 0.66 // 66/108 = 61%, use 66% as absolute max
+	const defaultSafeScale = 0.6
+	return Math.min(config.iconScale ?? defaultSafeScale, maxSafeScale)
+}
+
+/**
+ * Generates Android adaptive icon layers.
+ *
+ * Android adaptive icons (API 26+) use a two-layer system:
+ * - Background layer: Full 108×108 dp canvas with solid/gradient/image.
+ * - Foreground layer: Transparent canvas with icon in the safe zone.
+ *
+ * Safe zone considerations:
+ * The system may mask the icon to various shapes (circle, squircle, etc.)
+ * and apply parallax effects. The visible area varies by device:
+ * - Minimum visible: 66×66 dp (inner circle).
+ * - Maximum canvas: 108×108 dp.
+ * - Safe zone: ~60% of canvas to avoid clipping on any mask shape.
+ *
+ * Monochrome icons (colorMode: 'any') for Android 13+ themed icons:
+ * - Generated as white (#FFFFFF) on transparent background
+ * - System applies user's theme color at runtime
+ *
+ * We use 60% (not the theoretical 66/108 = 61%) for extra safety margin.
+ */
+async function generateAdaptiveIconLayer(
+	config: AssetGeneratorConfig,
+	spec: AssetSpec,
+): Promise<GeneratedAsset> {
+	const { width, height } = spec
+	const isForeground = spec.name.includes('foreground')
+	const isMonochrome = spec.name.includes('monochrome')
+
+	let buffer: Buffer
 
 	if (isMonochrome) {
 		// Monochrome icons: white foreground on transparent for themed icons.
 		// System applies user's Material You theme color at runtime.
-		const maxSafeScale = 0.66
-		const defaultSafeScale = 0.6
-		const userScale = config.iconScale ?? defaultSafeScale
-		const safeScale = Math.min(userScale, maxSafeScale)
-		const safeSize = Math.floor(Math.min(width, height) * safeScale)
+		const safeSize = Math.floor(
+			Math.min(width, height) * getAdaptiveForegroundScale(config),
+		)
 
 		// Create monochrome foreground (force white color for text/SVG)
 		const monochromeConfig = { ...config.foreground }
@@ -627,13 +1647,10 @@ async function generateAdaptiveIconLayer(
 			.png()
 			.toBuffer()
 	} else if (isForeground) {
-		// Size the icon to fit within the safe zone (default 60%).
-		// User iconScale is applied but capped at 0.66 for Android safe zone.
-		const maxSafeScale = 0.66 // 66/108 = 61%, use 66% as absolute max
-		const defaultSafeScale = 0.6
-		const userScale = config.iconScale ?? defaultSafeScale
-		const safeScale = Math.min(userScale, maxSafeScale)
-		const safeSize = Math.floor(Math.min(width, height) * safeScale)
+		// Size the icon to fit within the safe zone.
+		const safeSize = Math.floor(
+			Math.min(width, height) * getAdaptiveForegroundScale(config),
+		)
 
 		const foregroundBuffer = await generateForeground(
 			config.foreground,
@@ -642,7 +1659,7 @@ async function generateAdaptiveIconLayer(
 		)
 
 		// Create transparent canvas and center the icon.
-		buffer = await sharp({
+		const layer = await sharp({
 			create: {
 				width,
 				height,
@@ -659,6 +1676,10 @@ async function generateAdaptiveIconLayer(
 			])
 			.png()
 			.toBuffer()
+
+		// The badge rides on the foreground so launcher parallax moves it
+		// with the logo; the monochrome layer stays clean for theming.
+		buffer = await withBadge(config, spec, layer)
 	} else {
 		// Background layer fills the entire canvas.
 		buffer = await generateBackground(config.background, width, height)
@@ -792,142 +1813,59 @@ async function generateVisionOSBackgroundLayer(
 // ─── File System Operations ────────────────────────────────────────────────
 
 /**
- * Persists all generated assets to the filesystem.
+ * Generates the site.webmanifest file for PWA support.
  *
- * Creates necessary directory structure automatically using recursive mkdir.
- * Asset paths may include subdirectories (e.g., 'android/mipmap-hdpi/icon.png').
+ * Theme and background colors follow the representative background color
+ * (the first stop of gradients), matching head.html's theme-color.
  */
-async function writeAssetsToDisk(
-	assets: GeneratedAsset[],
-	outputDir: string,
+async function generateWebManifest(
+	baseConfig: AssetGeneratorConfig,
+	write: OutputWriter,
 ): Promise<void> {
-	for (const asset of assets) {
-		const fullPath = join(outputDir, asset.spec.name)
+	const config = resolveAssetConfig(baseConfig, {
+		platform: 'web',
+		type: 'favicon',
+		name: WEB_MANIFEST,
+	})
+	const color = getRepresentativeBackgroundColor(config.background)
+	const darkBackground = getDarkBackgroundOverride(config.background)
+
+	const manifest = createWebManifest(config, {
+		theme: color,
+		background: color,
+		...(darkBackground !== undefined &&
+			darkBackground.type !== 'image' && {
+				dark: getRepresentativeBackgroundColor(darkBackground),
+			}),
+	})
 
-		await mkdir(dirname(fullPath), { recursive: true })
-		await writeFile(fullPath, asset.buffer)
-	}
+	await write(WEB_MANIFEST, JSON.stringify(manifest, null, 2))
 }
 
 /**
- * Web App Manifest (W3C standard) for PWA support.
+ * Generates favicon.ico containing multiple resolutions.
  *
- * Generates a site.webmanifest file with proper icon entries including:
- * - Standard icons (purpose: "any")
- * - Maskable icons (purpose: "maskable") - safe zone aware for adaptive display
- * - Monochrome icons (purpose: "monochrome") - for themed/tinted display
+ * Creates a multi-resolution ICO file with 16x16, 32x32, and 48x48 images.
+ * Uses higher foreground scale (85%) for small sizes to improve visibility.
  *
- * @see https://www.w3.org/TR/appmanifest/
- * @see https://web.dev/add-manifest/
- */
-interface WebManifest {
-	name: string
-	short_name: string
-	icons: Array<{
-		src: string
-		sizes: string
-		type: string
-		purpose?: string
-	}>
-	theme_color: string
-	background_color: string
-	display: string
-	start_url: string
-}
-
-/**
- * Generates the site.webmanifest file for PWA support.
+ * @see https://en.wikipedia.org/wiki/ICO_(file_format)
  */
-async function generateWebManifest(
-	config: AssetGeneratorConfig,
-	outputDir: string,
+async function generateFaviconIco(
+	baseConfig: AssetGeneratorConfig,
+	write: OutputWriter,
 ): Promise<void> {
-	// Get theme/background color from config
-	let themeColor = '#FFFFFF'
-	let backgroundColor = '#FFFFFF'
+	const config = resolveAssetConfig(baseConfig, {
+		platform: 'web',
+		type: 'favicon',
+		name: 'web/favicon.ico',
+	})
+	const sizes = [16, 32, 48]
+	const pngBuffers: Buffer[] = []
 
-	if (config.background.type === 'color' && config.background.color) {
-		backgroundColor = config.background.color.color
-		themeColor = config.background.color.color
-	}
-
-	const manifest: WebManifest = {
-		name: config.appName,
-		short_name: config.appName,
-		icons: [
-			// Standard icons (any purpose)
-			{
-				src: 'icon-192x192.png',
-				sizes: '192x192',
-				type: 'image/png',
-				purpose: 'any',
-			},
-			{
-				src: 'icon-512x512.png',
-				sizes: '512x512',
-				type: 'image/png',
-				purpose: 'any',
-			},
-			// Maskable icons (for adaptive display)
-			{
-				src: 'icon-maskable-192x192.png',
-				sizes: '192x192',
-				type: 'image/png',
-				purpose: 'maskable',
-			},
-			{
-				src: 'icon-maskable-512x512.png',
-				sizes: '512x512',
-				type: 'image/png',
-				purpose: 'maskable',
-			},
-			// Monochrome icons (for themed display)
-			{
-				src: 'icon-monochrome-192x192.png',
-				sizes: '192x192',
-				type: 'image/png',
-				purpose: 'monochrome',
-			},
-			{
-				src: 'icon-monochrome-512x512.png',
-				sizes: '512x512',
-				type: 'image/png',
-				purpose: 'monochrome',
-			},
-		],
-		theme_color: themeColor,
-		background_color: backgroundColor,
-		display: 'standalone',
-		start_url: '/',
-	}
-
-	const webDir = join(outputDir, 'web')
-	await mkdir(webDir, { recursive: true })
-	await writeFile(
-		join(webDir, 'site.webmanifest'),
-		JSON.stringify(manifest, null, 2),
-	)
-}
-
-/**
- * Generates favicon.ico containing multiple resolutions.
- *
- * Creates a multi-resolution ICO file with 16x16, 32x32, and 48x48 images.
- * Uses higher foreground scale (85%) for small sizes to improve visibility.
- *
- * @see https://en.wikipedia.org/wiki/ICO_(file_format)
- */
-async function generateFaviconIco(
-	config: AssetGeneratorConfig,
-	outputDir: string,
-): Promise<void> {
-	const sizes = [16, 32, 48]
-	const pngBuffers: Buffer[] = []
-
-	for (const size of sizes) {
-		// Use faviconScale for all favicon.ico sizes (default 85%)
-		const scale = config.faviconScale ?? 0.85
-		const foregroundSize = Math.floor(size * scale)
+	for (const size of sizes) {
+		// Use faviconScale for all favicon.ico sizes (default 85%)
+		const scale = config.faviconScale ?? 0.85
+		const foregroundSize = Math.floor(size * scale)
 
 		// Generate background at target size
 		const backgroundBuffer = await generateBackground(
@@ -961,10 +1899,175 @@ async function generateFaviconIco(
 	// Convert PNG buffers to ICO format
 	const icoBuffer = encodeIco(pngBuffers)
 
-	// Write to web/favicon.ico
-	const webDir = join(outputDir, 'web')
-	await mkdir(webDir, { recursive: true })
-	await writeFile(join(webDir, 'favicon.ico'), icoBuffer)
+	await write('web/favicon.ico', icoBuffer)
+}
+
+/** Pixel size of image backgrounds embedded in favicon.svg. */
+const SVG_FAVICON_IMAGE_SIZE = 128
+
+/**
+ * Generates the web files linking the favicons: favicon.svg and the
+ * Safari mask icon for SVG and text foregrounds, browserconfig.xml for
+ * the Windows tiles, and head.html referencing all of them and the iOS
+ * startup images.
+ *
+ * A vector icon that fails is left out of head.html; the raster
+ * favicons still cover every browser.
+ */
+async function generateWebHead(
+	baseConfig: AssetGeneratorConfig,
+	write: OutputWriter,
+	fail: (message: string) => void,
+): Promise<void> {
+	const config = resolveAssetConfig(baseConfig, {
+		platform: 'web',
+		type: 'favicon',
+		name: WEB_HEAD_HTML,
+	})
+	const files = getWebHeadFiles(config)
+	const lightColor = getRepresentativeBackgroundColor(config.background)
+	const scale = config.faviconScale ?? 0.85
+
+	const writeVectorIcon = async (
+		name: string,
+		render: () => Promise<string>,
+	) => {
+		if (!files.includes(name)) return
+		try {
+			await write(name, await render())
+		} catch (error) {
+			files.splice(files.indexOf(name), 1)
+			fail(`Failed to generate ${name}: ${(error as Error).message}`)
+		}
+	}
+
+	await writeVectorIcon(WEB_FAVICON_SVG, async () =>
+		createFaviconSvg(
+			await getSvgFaviconBackground(config.background),
+			await loadSvgFaviconArtwork(config, Math.floor(FAVICON_SVG_SIZE * scale)),
+			scale,
+			config.foreground.type !== 'image'
+				? config.foreground.dark?.color
+				: undefined,
+		),
+	)
+	await writeVectorIcon(WEB_MASK_ICON_SVG, async () =>
+		createMaskIconSvg(
+			await loadSvgFaviconArtwork(config, FAVICON_SVG_SIZE, '#000000'),
+		),
+	)
+
+	await write(WEB_BROWSERCONFIG_XML, createBrowserConfigXml(lightColor))
+	await write(
+		WEB_HEAD_HTML,
+		createHeadHtml(
+			files,
+			{
+				theme: lightColor,
+				darkTheme: getRepresentativeDarkBackgroundColor(config.background),
+				tile: lightColor,
+				maskIcon:
+					config.foreground.type !== 'image' && config.foreground.color
+						? config.foreground.color.toUpperCase()
+						: lightColor,
+			},
+			getWebStartupImages(config),
+		),
+	)
+}
+
+/**
+ * Loads the foreground as artwork for favicon.svg or the mask icon.
+ *
+ * @param size - Size the foreground is drawn at (text is laid out on it)
+ * @param color - Fill override, e.g. black for the mask icon
+ */
+async function loadSvgFaviconArtwork(
+	config: AssetGeneratorConfig,
+	size: number,
+	color?: string,
+): Promise<SvgArtwork> {
+	const { foreground } = config
+	if (foreground.type === 'svg') {
+		return parseSvgFaviconArtwork(
+			await readFile(foreground.svgPath, 'utf-8'),
+			color ?? foreground.color,
+		)
+	}
+	if (foreground.type === 'text') {
+		const layout = await createTextForegroundPath(foreground, size, size)
+		if (layout === null) {
+			throw new Error(`Font "${foreground.fontFamily}" could not be loaded`)
+		}
+		return createTextSvgArtwork(layout, size, color ?? foreground.color)
+	}
+	throw new Error('Image foregrounds cannot be drawn as SVG')
+}
+
+/**
+ * Describes the background of favicon.svg with the same dark colors as
+ * the dark raster variants (see generateDarkBackground).
+ * - Solid colors: a rect with the dark representative color
+ * - Gradients: the gradient markup, with dark colors per stop
+ * - Images: the image embedded as a PNG, and the dark image when set
+ */
+async function getSvgFaviconBackground(
+	bgConfig: AssetGeneratorConfig['background'],
+): Promise<SvgFaviconBackground> {
+	const darkConfig = getDarkBackgroundOverride(bgConfig)
+
+	if (bgConfig.type === 'color' && bgConfig.color) {
+		return {
+			type: 'color',
+			color: bgConfig.color.color.toUpperCase(),
+			darkColor: getRepresentativeDarkBackgroundColor(bgConfig),
+		}
+	}
+
+	if (bgConfig.type === 'gradient' && bgConfig.gradient) {
+		const { gradient } = bgConfig
+		const darkColors =
+			darkConfig?.type === 'gradient' && darkConfig.gradient
+				? darkConfig.gradient.colors
+				: darkConfig?.type === 'color' && darkConfig.color
+					? [darkConfig.color.color]
+					: gradient.colors.map(color => darkenHexColor(color, 0.7))
+		return {
+			type: 'gradient',
+			markup:
+				gradient.type === 'linear'
+					? createLinearGradientSVG(
+							gradient.colors,
+							FAVICON_SVG_SIZE,
+							FAVICON_SVG_SIZE,
+							gradient.angle || 0,
+						)
+					: createRadialGradientSVG(
+							gradient.colors,
+							FAVICON_SVG_SIZE,
+							FAVICON_SVG_SIZE,
+						),
+			// Stops past the dark colors keep the last one.
+			darkColors: gradient.colors.map(
+				(color, index) =>
+					darkColors[Math.min(index, darkColors.length - 1)] ?? color,
+			),
+		}
+	}
+
+	const toDataUri = async (config: AssetGeneratorConfig['background']) => {
+		const png = await generateBackground(
+			config,
+			SVG_FAVICON_IMAGE_SIZE,
+			SVG_FAVICON_IMAGE_SIZE,
+		)
+		return `data:image/png;base64,${png.toString('base64')}`
+	}
+	return {
+		type: 'image',
+		href: await toDataUri(bgConfig),
+		...(darkConfig !== undefined && { darkHref: await toDataUri(darkConfig) }),
+	}
 }
 
 // ─── iOS Contents.json Generation ──────────────────────────────────────────
@@ -974,7 +2077,7 @@ async function generateFaviconIco(
  */
 interface ContentsJsonImage {
 	filename: string
-	idiom: 'iphone' | 'ipad' | 'universal' | 'ios-marketing'
+	idiom: 'iphone' | 'ipad' | 'universal' | 'ios-marketing' | 'mac'
 	scale: '1x' | '2x' | '3x'
 	size: string
 	appearances?: Array<{ appearance: string; value: string }>
@@ -985,15 +2088,29 @@ interface ContentsJson {
 	info: { author: string; version: number }
 }
 
+/**
+ * Contents.json luminosity appearance for each iOS icon color mode.
+ * Light icons carry no appearance; clear variants have no catalog slot.
+ */
+const CONTENTS_JSON_APPEARANCES: Partial<
+	Record<ColorMode, 'light' | 'dark' | 'tinted'>
+> = {
+	light: 'light',
+	dark: 'dark',
+	tinted: 'tinted',
+}
+
 /**
  * Generates iOS Contents.json for Xcode asset catalog.
  *
  * Creates a Contents.json file that Xcode uses to understand the icon set.
  * Includes entries for standard icons, dark variants, and tinted variants.
+ * Filenames follow the configured iOS layout, so in the 'appiconset' layout
+ * every entry points at a file inside the icon set itself.
  */
 async function generateContentsJson(
-	_config: AssetGeneratorConfig,
-	outputDir: string,
+	config: AssetGeneratorConfig,
+	write: OutputWriter,
 ): Promise<void> {
 	// Define iOS icon sizes with their idioms
 	// Some sizes need entries for both iPhone and iPad
@@ -1080,84 +2197,288 @@ async function generateContentsJson(
 		},
 	]
 
-	const images: ContentsJsonImage[] = []
+	const layout = getIosIconLayout(config)
+	const iconSpecs = [
+		...getAssetsByPlatform('ios'),
+		...getVariantAssetsByPlatform('ios'),
+	].filter(spec => spec.type === 'icon')
 
-	// Add standard light mode icons
-	for (const icon of iconSizes) {
-		images.push({
-			filename: icon.filename,
-			idiom: icon.idiom,
-			scale: icon.scale,
-			size: icon.size,
-		})
-	}
+	// Each generated file fills every slot that uses its light-mode size.
+	// Clear variants have no asset catalog appearance and get no entry.
+	const images: ContentsJsonImage[] = []
+	for (const spec of iconSpecs) {
+		const appearance = CONTENTS_JSON_APPEARANCES[spec.colorMode ?? 'light']
+		if (appearance === undefined) continue
 
-	// Add dark appearance variants (iOS 18+)
-	const darkSizes = ['60x60', '76x76', '83.5x83.5', '1024x1024']
-	for (const icon of iconSizes) {
-		if (darkSizes.includes(icon.size)) {
+		const lightFilename = getAppIconSetFilename(spec, 'folders').replace(
+			/^[^/]+\//,
+			'',
+		)
+		for (const icon of iconSizes) {
+			if (icon.filename !== lightFilename) continue
 			images.push({
-				filename: `dark/${icon.filename}`,
+				filename: getAppIconSetFilename(spec, layout),
 				idiom: icon.idiom,
 				scale: icon.scale,
 				size: icon.size,
-				appearances: [{ appearance: 'luminosity', value: 'dark' }],
+				...(appearance !== 'light' && {
+					appearances: [{ appearance: 'luminosity', value: appearance }],
+				}),
 			})
 		}
 	}
 
-	// Add tinted appearance variants (iOS 18+)
-	for (const icon of iconSizes) {
-		if (darkSizes.includes(icon.size)) {
-			images.push({
-				filename: `tinted/${icon.filename}`,
-				idiom: icon.idiom,
-				scale: icon.scale,
-				size: icon.size,
-				appearances: [{ appearance: 'luminosity', value: 'tinted' }],
-			})
-		}
+	const contentsJson: ContentsJson = {
+		images,
+		info: { author: 'appicons', version: 1 },
+	}
+
+	await write(
+		`${IOS_APP_ICON_SET_DIR}/Contents.json`,
+		JSON.stringify(contentsJson, null, 2),
+	)
+}
+
+// ─── Desktop Icon Containers ───────────────────────────────────────────────
+
+/**
+ * Write Contents.json into each alternate icon set.
+ * Loose alternate icon files need no metadata.
+ */
+async function generateAlternateIconSets(
+	config: AssetGeneratorConfig,
+	write: OutputWriter,
+): Promise<void> {
+	for (const name of getAlternateIconSetNames(config)) {
+		await write(
+			`${getAlternateIconSetDir(name)}/Contents.json`,
+			createAlternateIconSetContentsJson(),
+		)
 	}
+}
+
+/**
+ * Names of the alternate icons generated as icon sets.
+ */
+function getAlternateIconSetNames(config: AssetGeneratorConfig): string[] {
+	if (getAlternateIconLayout(config) !== 'appiconset') return []
+	return (config.alternateIcons ?? []).map(icon => icon.name)
+}
+
+/**
+ * Generates macOS AppIcon.appiconset/Contents.json.
+ */
+async function generateMacOSContentsJson(write: OutputWriter): Promise<void> {
+	const images: ContentsJsonImage[] = MACOS_ICONS.map(spec => {
+		const points = spec.width / (spec.scale ?? 1)
+		return {
+			filename: spec.name.replace(`${MACOS_APP_ICON_SET_DIR}/`, ''),
+			idiom: 'mac',
+			scale: spec.scale === 2 ? '2x' : '1x',
+			size: `${points}x${points}`,
+		}
+	})
 
 	const contentsJson: ContentsJson = {
 		images,
 		info: { author: 'appicons', version: 1 },
 	}
 
-	// Write to ios/AppIcon.appiconset/Contents.json
-	const appiconsetDir = join(outputDir, 'ios', 'AppIcon.appiconset')
-	await mkdir(appiconsetDir, { recursive: true })
-	await writeFile(
-		join(appiconsetDir, 'Contents.json'),
+	await write(
+		`${MACOS_APP_ICON_SET_DIR}/Contents.json`,
 		JSON.stringify(contentsJson, null, 2),
 	)
 }
 
+/**
+ * Generates macos/icon.icns from the generated macOS icon set PNGs.
+ *
+ * Reuses the icon set images rather than rendering again, so the .icns
+ * and the asset catalog are pixel-identical. Failed sizes are left out.
+ */
+async function generateIcns(
+	assets: GeneratedAsset[],
+	write: OutputWriter,
+): Promise<void> {
+	const entries = assets
+		.filter(asset => asset.spec.platform === 'macos')
+		.map(asset => ({
+			points: asset.spec.width / (asset.spec.scale ?? 1),
+			scale: asset.spec.scale ?? 1,
+			data: asset.buffer,
+		}))
+
+	await write('macos/icon.icns', encodeIcns(entries))
+}
+
+/**
+ * Generates windows/icon.ico with every Windows frame (16-256px).
+ *
+ * @see https://learn.microsoft.com/en-us/windows/apps/design/style/iconography/app-icon-construction
+ */
+async function generateWindowsIco(
+	assets: GeneratedAsset[],
+	write: OutputWriter,
+): Promise<void> {
+	const frames = assets
+		.filter(asset => asset.spec.platform === 'windows')
+		.map(asset => asset.buffer)
+
+	await write('windows/icon.ico', encodeIco(frames))
+}
+
+/**
+ * Builds a freedesktop .desktop entry for the application.
+ */
+function createDesktopEntry(appName: string, appId: string): string {
+	return `[Desktop Entry]
+Type=Application
+Name=${appName}
+Icon=${appId}
+Exec=${appId}
+Terminal=false
+Categories=Utility;
+`
+}
+
+/**
+ * Generates linux/<app-id>.desktop referencing the hicolor icons by name.
+ *
+ * Exec and Categories are placeholders to adjust for the actual binary.
+ *
+ * @see https://specifications.freedesktop.org/desktop-entry-spec/latest/
+ */
+async function generateDesktopEntry(
+	config: AssetGeneratorConfig,
+	write: OutputWriter,
+): Promise<void> {
+	const appId = getLinuxAppId(config.appName)
+	await write(
+		`linux/${appId}.desktop`,
+		createDesktopEntry(config.appName, appId),
+	)
+}
+
 // ─── Android XML Generation ────────────────────────────────────────────────
 
+/** Size of the xxxhdpi adaptive layer (108dp at 4x), used to lay out text. */
+const ADAPTIVE_LAYER_REFERENCE_SIZE = 432
+
+/**
+ * Converts an SVG or text foreground to vector artwork.
+ *
+ * Text is laid out on the canvas of the xxxhdpi foreground PNG so explicit
+ * font sizes keep their proportions.
+ *
+ * @param color - Color replacing the foreground colors (monochrome)
+ * @param textSize - Canvas text is laid out on, when not the adaptive
+ *   foreground's
+ * @throws Error for image foregrounds, SVG that VectorDrawable cannot
+ *   express, and fonts that could not be loaded
+ */
+async function loadVectorArtwork(
+	config: AssetGeneratorConfig,
+	color?: string,
+	textSize?: number,
+): Promise<VectorArtwork> {
+	const { foreground } = config
+	if (foreground.type === 'svg') {
+		return parseSvgArtwork(
+			await readFile(foreground.svgPath, 'utf-8'),
+			color ?? foreground.color,
+		)
+	}
+	if (foreground.type === 'text') {
+		const size =
+			textSize ??
+			Math.floor(
+				ADAPTIVE_LAYER_REFERENCE_SIZE * getAdaptiveForegroundScale(config),
+			)
+		const layout = await createTextForegroundPath(foreground, size, size)
+		if (layout === null) {
+			throw new Error(`Font "${foreground.fontFamily}" could not be loaded`)
+		}
+		return createTextArtwork(layout, size, color ?? foreground.color)
+	}
+	throw new Error('Image foregrounds cannot be converted to vector drawables')
+}
+
+/**
+ * Generates the Android adaptive icon layers written as drawable XML in
+ * the 'vector' format (see getVectorAdaptiveLayers).
+ *
+ * The foreground and monochrome VectorDrawables place the artwork in the
+ * same safe zone as the PNG layers; gradient backgrounds become a
+ * `<gradient>` shape drawable.
+ */
+async function generateVectorDrawables(
+	baseConfig: AssetGeneratorConfig,
+	write: OutputWriter,
+	fail: (message: string) => void,
+): Promise<void> {
+	const layers = getVectorAdaptiveLayers(baseConfig)
+	const writeDrawable = async (
+		name: string,
+		render: (config: AssetGeneratorConfig) => Promise<string>,
+	) => {
+		try {
+			const config = resolveAssetConfig(baseConfig, {
+				platform: 'android',
+				type: 'adaptive',
+				name,
+			})
+			await write(name, await render(config))
+		} catch (error) {
+			fail(`Failed to generate ${name}: ${(error as Error).message}`)
+		}
+	}
+
+	if (layers.foreground) {
+		await writeDrawable(ANDROID_VECTOR_FOREGROUND, async config =>
+			createVectorDrawableXml(
+				await loadVectorArtwork(config),
+				getAdaptiveForegroundScale(config),
+			),
+		)
+	}
+	if (layers.monochrome) {
+		await writeDrawable(ANDROID_VECTOR_MONOCHROME, async config =>
+			createVectorDrawableXml(
+				await loadVectorArtwork(config, '#FFFFFF'),
+				getAdaptiveForegroundScale(config),
+			),
+		)
+	}
+	if (layers.background === 'gradient') {
+		await writeDrawable(ANDROID_VECTOR_BACKGROUND, async config =>
+			createGradientDrawableXml(config.background.gradient!),
+		)
+	}
+}
+
 /**
  * Generates Android adaptive icon XML files.
  *
  * Creates ic_launcher.xml and ic_launcher_round.xml that define
  * the adaptive icon structure with background, foreground, and monochrome layers.
+ * Layers point at the mipmap PNGs, or at drawable XML and colors in the
+ * 'vector' format.
  */
 async function generateAdaptiveIconXml(
-	_config: AssetGeneratorConfig,
-	outputDir: string,
+	config: AssetGeneratorConfig,
+	write: OutputWriter,
 ): Promise<void> {
+	const drawables = getAdaptiveIconDrawables(getVectorAdaptiveLayers(config))
 	const xmlContent = `<?xml version="1.0" encoding="utf-8"?>
 <adaptive-icon xmlns:android="http://schemas.android.com/apk/res/android">
-    <background android:drawable="@mipmap/ic_launcher_background"/>
-    <foreground android:drawable="@mipmap/ic_launcher_foreground"/>
-    <monochrome android:drawable="@mipmap/ic_launcher_monochrome"/>
+    <background android:drawable="${drawables.background}"/>
+    <foreground android:drawable="${drawables.foreground}"/>
+    <monochrome android:drawable="${drawables.monochrome}"/>
 </adaptive-icon>
 `
 
-	// Write to android/mipmap-anydpi-v26/
-	const xmlDir = join(outputDir, 'android', 'mipmap-anydpi-v26')
-	await mkdir(xmlDir, { recursive: true })
-	await writeFile(join(xmlDir, 'ic_launcher.xml'), xmlContent)
-	await writeFile(join(xmlDir, 'ic_launcher_round.xml'), xmlContent)
+	await write('android/mipmap-anydpi-v26/ic_launcher.xml', xmlContent)
+	await write('android/mipmap-anydpi-v26/ic_launcher_round.xml', xmlContent)
 }
 
 /**
@@ -1167,9 +2488,14 @@ async function generateAdaptiveIconXml(
  * when a solid color background is preferred over an image.
  */
 async function generateColorsXml(
-	config: AssetGeneratorConfig,
-	outputDir: string,
+	baseConfig: AssetGeneratorConfig,
+	write: OutputWriter,
 ): Promise<void> {
+	const config = resolveAssetConfig(baseConfig, {
+		platform: 'android',
+		type: 'adaptive',
+		name: 'android/values/colors.xml',
+	})
 	if (config.background.type !== 'color' || !config.background.color) {
 		return
 	}
@@ -1181,10 +2507,333 @@ async function generateColorsXml(
 </resources>
 `
 
-	// Write to android/values/
-	const valuesDir = join(outputDir, 'android', 'values')
-	await mkdir(valuesDir, { recursive: true })
-	await writeFile(join(valuesDir, 'colors.xml'), xmlContent)
+	await write('android/values/colors.xml', xmlContent)
+}
+
+/**
+ * Picks a single color to represent the background where only a solid
+ * color is allowed (e.g., windowSplashScreenBackground).
+ * - Solid colors: the color itself
+ * - Gradients: the first color stop
+ * - Images: white, since the image cannot be sampled up front
+ */
+export function getRepresentativeBackgroundColor(
+	bgConfig: AssetGeneratorConfig['background'],
+): string {
+	if (bgConfig.type === 'color' && bgConfig.color) {
+		return bgConfig.color.color.toUpperCase()
+	}
+	if (bgConfig.type === 'gradient' && bgConfig.gradient?.colors[0]) {
+		return bgConfig.gradient.colors[0].toUpperCase()
+	}
+	return '#FFFFFF'
+}
+
+/**
+ * Picks the single color representing the dark background: the dark
+ * color or first gradient stop when set, otherwise the darkened light
+ * representative color (dark images cannot be sampled up front either).
+ */
+function getRepresentativeDarkBackgroundColor(
+	bgConfig: AssetGeneratorConfig['background'],
+): string {
+	const darkConfig = getDarkBackgroundOverride(bgConfig)
+	if (darkConfig && darkConfig.type !== 'image') {
+		return getRepresentativeBackgroundColor(darkConfig)
+	}
+	return darkenHexColor(
+		getRepresentativeBackgroundColor(bgConfig),
+		0.7,
+	).toUpperCase()
+}
+
+/**
+ * Builds a themes.xml declaring the Android 12+ splash screen theme.
+ */
+function createSplashScreenThemeXml(backgroundColor: string): string {
+	return `<?xml version="1.0" encoding="utf-8"?>
+<!--
+  Android 12+ SplashScreen API (requires androidx.core:core-splashscreen).
+  Set android:theme="@style/Theme.App.SplashScreen" on the launcher activity
+  and call installSplashScreen() before setContentView(). After the splash,
+  the activity switches to postSplashScreenTheme (change AppTheme if your
+  app theme has a different name).
+-->
+<resources>
+    <style name="Theme.App.SplashScreen" parent="Theme.SplashScreen">
+        <item name="windowSplashScreenBackground">${backgroundColor}</item>
+        <item name="windowSplashScreenAnimatedIcon">@drawable/splashscreen_icon</item>
+        <item name="postSplashScreenTheme">@style/AppTheme</item>
+    </style>
+</resources>
+`
+}
+
+/**
+ * Generates Android 12+ splash screen themes.
+ *
+ * Creates values-v31/themes.xml and values-night-v31/themes.xml. The night
+ * theme uses the same dark background as the drawable-night splash
+ * bitmaps, so pre-12 and 12+ devices show matching colors.
+ */
+async function generateSplashScreenThemes(
+	config: AssetGeneratorConfig,
+	write: OutputWriter,
+): Promise<void> {
+	const lightPath = 'android/values-v31/themes.xml'
+	const darkPath = 'android/values-night-v31/themes.xml'
+	const lightConfig = resolveAssetConfig(config, {
+		platform: 'android',
+		type: 'splash',
+		name: lightPath,
+	})
+	const darkConfig = resolveAssetConfig(config, {
+		platform: 'android',
+		type: 'splash',
+		name: darkPath,
+	})
+
+	await write(
+		lightPath,
+		createSplashScreenThemeXml(
+			getRepresentativeBackgroundColor(lightConfig.background),
+		),
+	)
+	await write(
+		darkPath,
+		createSplashScreenThemeXml(
+			getRepresentativeDarkBackgroundColor(darkConfig.background),
+		),
+	)
+}
+
+/**
+ * Generates the iOS launch storyboard and its asset catalog sets.
+ *
+ * Creates ios/LaunchScreen.storyboard, ios/LaunchLogo.imageset/Contents.json
+ * and ios/LaunchBackground.colorset/Contents.json. The dark appearance uses
+ * the same dark background as Android night splash screens.
+ */
+async function generateLaunchScreen(
+	baseConfig: AssetGeneratorConfig,
+	write: OutputWriter,
+): Promise<void> {
+	const config = getLaunchScreenConfig(baseConfig)
+	const lightColor = getRepresentativeBackgroundColor(config.background)
+	const darkColor = getRepresentativeDarkBackgroundColor(config.background)
+	const logoPoints = getIosLaunchLogoPoints(config.splashScale ?? 0.25)
+
+	await write(
+		IOS_LAUNCH_SCREEN_STORYBOARD,
+		createLaunchScreenStoryboard(logoPoints, lightColor),
+	)
+	await write(
+		`${IOS_LAUNCH_LOGO_DIR}/Contents.json`,
+		createLaunchLogoContentsJson(),
+	)
+	await write(
+		`${IOS_LAUNCH_BACKGROUND_DIR}/Contents.json`,
+		createLaunchBackgroundContentsJson(lightColor, darkColor),
+	)
+}
+
+/**
+ * Resolves the config of the iOS launch storyboard. The storyboard, its
+ * colorset and the LaunchLogo sizes all follow overrides for
+ * ios/LaunchScreen.storyboard.
+ */
+function getLaunchScreenConfig(
+	config: AssetGeneratorConfig,
+): AssetGeneratorConfig {
+	return resolveAssetConfig(config, {
+		platform: 'ios',
+		type: 'splash',
+		name: IOS_LAUNCH_SCREEN_STORYBOARD,
+	})
+}
+
+// ─── Mask Preview ──────────────────────────────────────────────────────────
+
+/**
+ * Generates the launcher mask preview (preview/mask-preview.png and/or
+ * preview/mask-preview.html) from the generated adaptive/maskable icons.
+ *
+ * Skipped with a warning when neither Android adaptive layers nor web
+ * maskable icons were generated.
+ */
+async function generateMaskPreview(
+	config: AssetGeneratorConfig,
+	assets: GeneratedAsset[],
+	write: OutputWriter,
+	reporter: GenerationReporter,
+): Promise<void> {
+	const images = new Map(assets.map(asset => [asset.spec.name, asset.buffer]))
+	const sources = getMaskPreviewSources(images.keys())
+	if (sources.length === 0) {
+		reporter.onWarning?.(
+			'Skipped mask preview: no Android adaptive or web maskable icons were generated',
+		)
+		return
+	}
+
+	if (config.maskPreview?.includes('png')) {
+		await write(
+			MASK_PREVIEW_PNG,
+			await generateMaskPreviewSheet(sources, images),
+		)
+	}
+	if (config.maskPreview?.includes('html')) {
+		// The page links the written files, e.g. WebP mipmaps.
+		const written = sources.map(source => ({
+			...source,
+			layers: source.layers.map(layer => getOutputFileName(config, layer)),
+		}))
+		await write(
+			MASK_PREVIEW_HTML,
+			createMaskPreviewHtml(config.appName, written),
+		)
+	}
+}
+
+// ─── Vector Masters ────────────────────────────────────────────────────────
+
+/**
+ * Describes a color or gradient background as SVG markup filling the
+ * canvas, for the SVG master.
+ */
+function getVectorMasterBackgroundSvg(
+	bgConfig: AssetGeneratorConfig['background'],
+	width: number,
+	height: number,
+): string {
+	const { gradient } = bgConfig
+	if (bgConfig.type === 'gradient' && gradient) {
+		return gradient.type === 'linear'
+			? createLinearGradientSVG(
+					gradient.colors,
+					width,
+					height,
+					gradient.angle || 0,
+				)
+			: createRadialGradientSVG(gradient.colors, width, height)
+	}
+	return `<rect width="${width}" height="${height}" fill="${getRepresentativeBackgroundColor(bgConfig)}"/>`
+}
+
+/**
+ * Describes a color or gradient background for the PDF master, with the
+ * same gradient line as the SVG.
+ */
+function getVectorMasterBackground(
+	bgConfig: AssetGeneratorConfig['background'],
+): VectorMasterBackground {
+	const { gradient } = bgConfig
+	if (bgConfig.type === 'gradient' && gradient?.type === 'linear') {
+		const { x1, y1, x2, y2 } = getLinearGradientCoordinates(gradient.angle || 0)
+		return {
+			type: 'linear',
+			colors: gradient.colors,
+			from: { x: x1 / 100, y: y1 / 100 },
+			to: { x: x2 / 100, y: y2 / 100 },
+		}
+	}
+	if (bgConfig.type === 'gradient' && gradient?.type === 'radial') {
+		return { type: 'radial', colors: gradient.colors }
+	}
+	return { type: 'color', color: getRepresentativeBackgroundColor(bgConfig) }
+}
+
+/**
+ * Loads the foreground as artwork for the SVG master. Text uses the markup
+ * of the rasterized text foreground (createTextPathSVG).
+ *
+ * @param size - Size the foreground is drawn at
+ */
+async function loadVectorMasterArtwork(
+	config: AssetGeneratorConfig,
+	size: number,
+): Promise<SvgArtwork> {
+	const { foreground } = config
+	if (foreground.type !== 'text') return loadSvgFaviconArtwork(config, size)
+
+	const fontBuffer = await loadFont(foreground)
+	if (!fontBuffer) {
+		throw new Error(`Font "${foreground.fontFamily}" could not be loaded`)
+	}
+	return parseSvgFaviconArtwork(
+		createTextPathSVG(
+			foreground.text,
+			foreground.fontSize || Math.floor(size * 0.6),
+			foreground.color,
+			size,
+			size,
+			fontBuffer,
+		),
+	)
+}
+
+/**
+ * Generates the vector masters (master/icon.svg, master/splash.pdf, ...)
+ * of the composed icon and splash screen.
+ *
+ * The foreground is placed with the same scale and centering as
+ * generateAsset. The masters hold the top-level design: overrides,
+ * variants' badges and dark colors are not applied.
+ *
+ * Skipped with a warning when the background or foreground is an image.
+ */
+async function generateVectorMasters(
+	config: AssetGeneratorConfig,
+	write: OutputWriter,
+	fail: (message: string) => void,
+	reporter: GenerationReporter,
+): Promise<void> {
+	const specs = getVectorMasterSpecs(config)
+	if (specs.length === 0) return
+	if (
+		config.background.type === 'image' ||
+		config.foreground.type === 'image'
+	) {
+		reporter.onWarning?.(
+			'Skipped vector masters: they need a color or gradient background and an SVG or text foreground',
+		)
+		return
+	}
+
+	for (const spec of specs) {
+		const box = getForegroundBox(
+			spec.width,
+			spec.height,
+			getForegroundScale(config, spec),
+		)
+		for (const format of config.vectorMaster ?? []) {
+			const name = `${spec.name}.${format}`
+			try {
+				await write(
+					name,
+					format === 'svg'
+						? createVectorMasterSvg(
+								spec,
+								getVectorMasterBackgroundSvg(
+									config.background,
+									spec.width,
+									spec.height,
+								),
+								await loadVectorMasterArtwork(config, box.size),
+								box,
+							)
+						: createVectorMasterPdf(
+								spec,
+								getVectorMasterBackground(config.background),
+								await loadVectorArtwork(config, undefined, box.size),
+								box,
+							),
+				)
+			} catch (error) {
+				fail(`Failed to generate ${name}: ${(error as Error).message}`)
+			}
+		}
+	}
 }
 
 // ─── Preview ───────────────────────────────────────────────────────────────
@@ -100,7 +100,8 @@ async function generateGradientBackground(
 }
 
 /**
- * Generates SVG markup for a linear gradient.
+ * Converts a gradient angle to the start and end of the gradient line, as
+ * percentages of the canvas.
  *
  * Angle conversion algorithm:
  * SVG linearGradient uses (x1,y1) to (x2,y2) coordinates as percentages.
@@ -112,18 +113,32 @@ async function generateGradientBackground(
  * - 90deg: Left to right (x1=0, x2=100).
  * - 45deg: Top-left to bottom-right.
  */
-function createLinearGradientSVG(
+export function getLinearGradientCoordinates(angle: number): {
+	x1: number
+	y1: number
+	x2: number
+	y2: number
+} {
+	const rad = (angle * Math.PI) / 180
+	return {
+		x1: Math.round(50 + Math.sin(rad) * 50),
+		y1: Math.round(50 - Math.cos(rad) * 50),
+		x2: Math.round(50 + Math.sin(rad + Math.PI) * 50),
+		y2: Math.round(50 - Math.cos(rad + Math.PI) * 50),
+	}
+}
+
+/**
+ * Generates SVG markup for a linear gradient (see
+ * getLinearGradientCoordinates for the angle).
+ */
+export function createLinearGradientSVG(
 	colors: string[],
 	width: number,
 	height: number,
 	angle: number,
 ): string {
-	// Convert CSS angle to SVG gradient coordinates.
-	const rad = (angle * Math.PI) / 180
-	const x1 = Math.round(50 + Math.sin(rad) * 50)
-	const y1 = Math.round(50 - Math.cos(rad) * 50)
-	const x2 = Math.round(50 + Math.sin(rad + Math.PI) * 50)
-	const y2 = Math.round(50 - Math.cos(rad + Math.PI) * 50)
+	const { x1, y1, x2, y2 } = getLinearGradientCoordinates(angle)
 
 	// Distribute color stops evenly across the gradient.
 	const stops = colors
@@ -151,7 +166,7 @@ function createLinearGradientSVG(
  * The gradient radiates from the center (50%, 50%) outward.
  * Colors are distributed evenly from center (first color) to edge (last color).
  */
-function createRadialGradientSVG(
+export function createRadialGradientSVG(
 	colors: string[],
 	width: number,
 	height: number,
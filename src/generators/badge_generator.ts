@@ -0,0 +1,110 @@
+/**
+ * Badge generator that overlays environment badges on generated assets.
+ *
+ * The label is converted to vector paths with opentype.js (see
+ * foreground_generator.ts), using fonts from font_loader. When the font
+ * cannot be loaded, the label falls back to SVG text in a sans-serif font.
+ * Layout and safe zones live in utils/badge.ts.
+ */
+
+import { readFile } from 'node:fs/promises'
+import opentype from 'opentype.js'
+import sharp from 'sharp'
+
+import type { AssetSpec, BadgeConfig } from '../types'
+import {
+	type BadgeLabelPath,
+	type BadgeSafeZone,
+	createBadgeSvg,
+	getBadgeSafeZone,
+} from '../utils/badge'
+import { loadGoogleFont, loadSystemFont } from '../utils/font_loader'
+
+/** Default badge font. */
+const DEFAULT_BADGE_FONT = 'Roboto'
+
+/** Font size used to trace the label; the SVG scales it to fit. */
+const LABEL_FONT_SIZE = 100
+
+/** Traced labels by text and font, so each is traced once per run. */
+const labelCache = new Map<string, Promise<BadgeLabelPath>>()
+
+/**
+ * Load the badge font, or null when it is unavailable.
+ */
+async function loadBadgeFont(badge: BadgeConfig): Promise<Buffer | null> {
+	const fontFamily = badge.fontFamily ?? DEFAULT_BADGE_FONT
+	switch (badge.fontSource ?? 'google') {
+		case 'google':
+			return loadGoogleFont(fontFamily)
+		case 'system':
+			return loadSystemFont(fontFamily)
+		case 'custom':
+			if (!badge.fontPath) {
+				throw new Error('Font path is required for custom badge fonts')
+			}
+			return readFile(badge.fontPath)
+	}
+}
+
+/**
+ * Trace the badge label to an SVG path with opentype.js.
+ *
+ * @returns The outline and its bounds, or null when the font is unavailable
+ */
+async function traceBadgeLabel(badge: BadgeConfig): Promise<BadgeLabelPath> {
+	const fontBuffer = await loadBadgeFont(badge)
+	if (!fontBuffer) return null
+
+	// Copy into a standalone ArrayBuffer; the Buffer may be a view.
+	const arrayBuffer = fontBuffer.buffer.slice(
+		fontBuffer.byteOffset,
+		fontBuffer.byteOffset + fontBuffer.byteLength,
+	)
+	const path = opentype
+		.parse(arrayBuffer)
+		.getPath(badge.text, 0, 0, LABEL_FONT_SIZE)
+	const { x1, y1, x2, y2 } = path.getBoundingBox()
+	return { pathData: path.toPathData(2), x1, y1, x2, y2 }
+}
+
+/**
+ * Trace the badge label once per text and font.
+ */
+function getBadgeLabel(badge: BadgeConfig): Promise<BadgeLabelPath> {
+	const key = JSON.stringify([
+		badge.text,
+		badge.fontFamily,
+		badge.fontSource,
+		badge.fontPath,
+	])
+	let label = labelCache.get(key)
+	if (!label) {
+		label = traceBadgeLabel(badge)
+		labelCache.set(key, label)
+	}
+	return label
+}
+
+/**
+ * Draw the badge over an asset, inside the asset's safe zone.
+ *
+ * @param buffer - Rendered asset (PNG)
+ * @param spec - Asset the buffer was rendered for
+ * @param badge - Badge configuration
+ * @param zone - Safe zone to stay inside (default: from the spec)
+ * @returns PNG with the badge composited on top
+ */
+export async function applyBadge(
+	buffer: Buffer,
+	spec: AssetSpec,
+	badge: BadgeConfig,
+	zone: BadgeSafeZone = getBadgeSafeZone(spec),
+): Promise<Buffer> {
+	const label = await getBadgeLabel(badge)
+	const svg = createBadgeSvg(badge, spec.width, spec.height, zone, label)
+	return sharp(buffer)
+		.composite([{ input: Buffer.from(svg) }])
+		.png()
+		.toBuffer()
+}
@@ -23,7 +23,7 @@ import { readFile } from 'node:fs/promises'
 import opentype from 'opentype.js'
 import sharp from 'sharp'
 
-import type { ForegroundConfig } from '../types'
+import type { ForegroundConfig, TextForegroundConfig } from '../types'
 import { loadGoogleFont, loadSystemFont } from '../utils/font_loader'
 
 /**
@@ -157,7 +157,7 @@ async function generateTextForeground(
  * This function exists for future integration with libraries like opentype.js
  * that support direct font buffer rendering.
  */
-async function loadFont(config: {
+export async function loadFont(config: {
 	fontFamily: string
 	fontSource: 'google' | 'system' | 'custom'
 	fontPath?: string
@@ -181,37 +181,50 @@ async function loadFont(config: {
 }
 
 /**
- * Creates SVG markup with text converted to paths using opentype.js.
+ * Text outline centered on a canvas, as produced by opentype.js.
+ */
+export interface TextPathLayout {
+	/** SVG path data with the glyphs' baseline at y = 0. */
+	pathData: string
+	/** Translation that centers the outline on the canvas. */
+	offsetX: number
+	offsetY: number
+}
+
+/**
+ * Converts a text foreground to an outline centered on a canvas.
  *
- * This approach bypasses librsvg's font rendering limitations by converting
- * text characters to vector paths. The paths are mathematically precise
- * representations of the glyphs that render perfectly at any resolution.
+ * Uses the same font and default font size as generateForeground, so a
+ * VectorDrawable built from the outline matches the rasterized layer.
+ *
+ * @returns The outline, or null when the font could not be loaded
+ */
+export async function createTextForegroundPath(
+	config: Omit<TextForegroundConfig, 'type'>,
+	width: number,
+	height: number,
+): Promise<TextPathLayout | null> {
+	const fontBuffer = await loadFont(config)
+	if (!fontBuffer) return null
+
+	const fontSize = config.fontSize || Math.floor(height * 0.6)
+	return layoutTextPath(config.text, fontSize, width, height, fontBuffer)
+}
+
+/**
+ * Converts text to an SVG path with opentype.js and centers it.
  *
  * Path centering:
  * 1. Get the bounding box of the rendered path
  * 2. Calculate offsets to center the path in the canvas
- * 3. Apply transform to position the path
- *
- * Fallback: When no fontBuffer is available, creates a simple rectangle
- * placeholder (system font fallback isn't possible with path approach).
  */
-function createTextPathSVG(
+function layoutTextPath(
 	text: string,
 	fontSize: number,
-	color: string,
 	width: number,
 	height: number,
-	fontBuffer: Buffer | null,
-): string {
-	if (!fontBuffer) {
-		// Fallback: simple placeholder when font unavailable
-		return `
-<svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg">
-  <rect x="${width * 0.25}" y="${height * 0.25}" width="${width * 0.5}" height="${height * 0.5}" fill="${color}" opacity="0.3"/>
-</svg>
-    `.trim()
-	}
-
+	fontBuffer: Buffer,
+): TextPathLayout {
 	// Parse font from buffer using opentype.js
 	// Note: Must convert Buffer to ArrayBuffer correctly - fontBuffer.buffer
 	// returns the underlying ArrayBuffer which may have wrong offset/length
@@ -232,12 +245,48 @@ function createTextPathSVG(
 	const pathWidth = bbox.x2 - bbox.x1
 	const pathHeight = bbox.y2 - bbox.y1
 
-	// Center the path in the canvas
-	const offsetX = (width - pathWidth) / 2 - bbox.x1
-	const offsetY = (height - pathHeight) / 2 - bbox.y1
+	return {
+		pathData: path.toPathData(2), // 2 decimal places precision
+		offsetX: (width - pathWidth) / 2 - bbox.x1,
+		offsetY: (height - pathHeight) / 2 - bbox.y1,
+	}
+}
 
-	// Get the SVG path data and apply transform for centering
-	const pathData = path.toPathData(2) // 2 decimal places precision
+/**
+ * Creates SVG markup with text converted to paths using opentype.js.
+ *
+ * This approach bypasses librsvg's font rendering limitations by converting
+ * text characters to vector paths. The paths are mathematically precise
+ * representations of the glyphs that render perfectly at any resolution.
+ * The path is centered with a transform (see layoutTextPath).
+ *
+ * Fallback: When no fontBuffer is available, creates a simple rectangle
+ * placeholder (system font fallback isn't possible with path approach).
+ */
+export function createTextPathSVG(
+	text: string,
+	fontSize: number,
+	color: string,
+	width: number,
+	height: number,
+	fontBuffer: Buffer | null,
+): string {
+	if (!fontBuffer) {
+		// Fallback: simple placeholder when font unavailable
+		return `
+<svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg">
+  <rect x="${width * 0.25}" y="${height * 0.25}" width="${width * 0.5}" height="${height * 0.5}" fill="${color}" opacity="0.3"/>
+</svg>
+    `.trim()
+	}
+
+	const { pathData, offsetX, offsetY } = layoutTextPath(
+		text,
+		fontSize,
+		width,
+		height,
+		fontBuffer,
+	)
 
 	return `
 <svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg">
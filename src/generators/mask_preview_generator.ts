@@ -0,0 +1,156 @@
+/**
+ * Mask preview generator that renders the launcher mask contact sheet.
+ *
+ * Each row is a generated adaptive or maskable icon; each column applies
+ * one launcher mask (see MASK_SHAPES). Every cell carries the mask outline
+ * and the platform's safe zone circle as guides, so clipping can be
+ * signed off from a single image.
+ *
+ * The sheet is composed from already generated images rather than
+ * re-rendering the icon, so it shows exactly what ships.
+ */
+
+import sharp from 'sharp'
+
+import {
+	createGuideSvg,
+	createMaskSvg,
+	MASK_SHAPES,
+	type MaskPreviewSource,
+} from '../utils/mask_preview'
+
+// ─── Layout ────────────────────────────────────────────────────────────────
+
+/** Edge length of one masked icon in pixels. */
+const TILE_SIZE = 192
+
+/** Space between and around cells. */
+const GAP = 24
+
+/** Width of the row label column. */
+const LABEL_WIDTH = 200
+
+/** Height of the column heading row. */
+const HEADER_HEIGHT = 40
+
+/** Sheet background and label colors. */
+const SHEET_BACKGROUND = '#F4F4F5'
+const LABEL_COLOR = '#1A1A1A'
+
+// ─── Rendering ─────────────────────────────────────────────────────────────
+
+/**
+ * Stack a source's layers and crop to the part launchers can show.
+ */
+async function renderVisibleArea(
+	source: MaskPreviewSource,
+	images: Map<string, Buffer>,
+): Promise<Buffer> {
+	const layerSize = Math.round(TILE_SIZE / (1 - 2 * source.inset))
+	const offset = Math.round(source.inset * layerSize)
+
+	const layers: Buffer[] = []
+	for (const layer of source.layers) {
+		const image = images.get(layer)
+		if (image === undefined) throw new Error(`Missing layer ${layer}`)
+		layers.push(
+			await sharp(image).resize(layerSize, layerSize).png().toBuffer(),
+		)
+	}
+
+	const stacked = await sharp({
+		create: {
+			width: layerSize,
+			height: layerSize,
+			channels: 4,
+			background: { r: 0, g: 0, b: 0, alpha: 0 },
+		},
+	})
+		.composite(layers.map(input => ({ input })))
+		.png()
+		.toBuffer()
+
+	return sharp(stacked)
+		.extract({ left: offset, top: offset, width: TILE_SIZE, height: TILE_SIZE })
+		.png()
+		.toBuffer()
+}
+
+/**
+ * Escape text for SVG content.
+ */
+function escapeXml(text: string): string {
+	return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+/**
+ * Build the SVG carrying column headings and row labels.
+ */
+function createLabelsSvg(
+	sources: MaskPreviewSource[],
+	width: number,
+	height: number,
+): string {
+	const headings = MASK_SHAPES.map((shape, column) => {
+		const x = LABEL_WIDTH + column * (TILE_SIZE + GAP) + TILE_SIZE / 2
+		return `<text x="${x}" y="${GAP + 16}" text-anchor="middle" font-weight="600">${escapeXml(shape.label)}</text>`
+	})
+	const labels = sources.map((source, row) => {
+		const y = HEADER_HEIGHT + GAP + row * (TILE_SIZE + GAP) + TILE_SIZE / 2
+		return `<text x="${GAP}" y="${y}" dominant-baseline="middle" font-weight="600">${escapeXml(source.label)}</text>`
+	})
+
+	return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}"><g font-family="sans-serif" font-size="16" fill="${LABEL_COLOR}">${[...headings, ...labels].join('')}</g></svg>`
+}
+
+/**
+ * Render the mask preview contact sheet.
+ *
+ * @param sources - Rows to render (from getMaskPreviewSources)
+ * @param images - Generated images keyed by path relative to the output dir
+ * @returns PNG contact sheet
+ * @throws Error if a source layer is missing from `images`
+ */
+export async function generateMaskPreviewSheet(
+	sources: MaskPreviewSource[],
+	images: Map<string, Buffer>,
+): Promise<Buffer> {
+	const width = LABEL_WIDTH + MASK_SHAPES.length * (TILE_SIZE + GAP)
+	const height = HEADER_HEIGHT + GAP + sources.length * (TILE_SIZE + GAP)
+
+	const cells: sharp.OverlayOptions[] = []
+	for (const [row, source] of sources.entries()) {
+		const visible = await renderVisibleArea(source, images)
+		for (const [column, shape] of MASK_SHAPES.entries()) {
+			const cell = await sharp(visible)
+				.composite([
+					{
+						input: Buffer.from(createMaskSvg(shape, TILE_SIZE)),
+						blend: 'dest-in',
+					},
+					{
+						input: Buffer.from(
+							createGuideSvg(shape, source.safeZone, TILE_SIZE),
+						),
+					},
+				])
+				.png()
+				.toBuffer()
+			cells.push({
+				input: cell,
+				left: LABEL_WIDTH + column * (TILE_SIZE + GAP),
+				top: HEADER_HEIGHT + GAP + row * (TILE_SIZE + GAP),
+			})
+		}
+	}
+
+	return sharp({
+		create: { width, height, channels: 4, background: SHEET_BACKGROUND },
+	})
+		.composite([
+			...cells,
+			{ input: Buffer.from(createLabelsSvg(sources, width, height)) },
+		])
+		.png()
+		.toBuffer()
+}
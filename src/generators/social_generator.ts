@@ -0,0 +1,131 @@
+/**
+ * Social share image generator (Open Graph, Twitter/X, square).
+ *
+ * Draws the foreground logo and the app name and tagline over the
+ * background, laid out by utils/social.ts. The text is converted to paths
+ * with createTextPathSVG (see foreground_generator.ts); when the font
+ * cannot be loaded, it falls back to SVG text in a sans-serif font.
+ */
+
+import sharp from 'sharp'
+
+import type { AssetGeneratorConfig, AssetSpec } from '../types'
+import {
+	getSocialFont,
+	getSocialLayout,
+	getSocialTextColor,
+	type SocialBox,
+	type SocialLayout,
+} from '../utils/social'
+import { generateBackground } from './background_generator'
+import {
+	createTextPathSVG,
+	generateForeground,
+	loadFont,
+} from './foreground_generator'
+
+/** Canvas a text line is traced on, per font size. */
+const LINE_CANVAS_WIDTH = 1.2
+const LINE_CANVAS_HEIGHT = 1.5
+
+/**
+ * Escape text for SVG character data.
+ */
+function escapeXml(text: string): string {
+	return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+/**
+ * Draw one line of text, trimmed to its ink and scaled down to fit its
+ * box.
+ *
+ * The line is traced at the box height as font size on a canvas wide
+ * enough for any glyph, then trimmed, so the fit does not depend on the
+ * font's metrics.
+ */
+async function renderTextLine(
+	text: string,
+	box: SocialBox,
+	align: SocialLayout['align'],
+	color: string,
+	fontBuffer: Buffer | null,
+): Promise<sharp.OverlayOptions> {
+	const fontSize = box.height
+	const width = Math.ceil(fontSize * LINE_CANVAS_WIDTH * (text.length + 1))
+	const height = Math.ceil(fontSize * LINE_CANVAS_HEIGHT)
+	const svg = fontBuffer
+		? createTextPathSVG(text, fontSize, color, width, height, fontBuffer)
+		: `<svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg"><text x="${width / 2}" y="${height / 2}" text-anchor="middle" dominant-baseline="central" font-family="sans-serif" font-weight="bold" font-size="${fontSize}" fill="${color}">${escapeXml(text)}</text></svg>`
+
+	const { data, info } = await sharp(Buffer.from(svg))
+		.trim()
+		.png()
+		.toBuffer({ resolveWithObject: true })
+	const scale = Math.min(1, box.width / info.width, box.height / info.height)
+	const lineWidth = Math.max(1, Math.floor(info.width * scale))
+	const lineHeight = Math.max(1, Math.floor(info.height * scale))
+	const input =
+		scale < 1
+			? await sharp(data).resize(lineWidth, lineHeight).png().toBuffer()
+			: data
+
+	return {
+		input,
+		left:
+			align === 'start'
+				? box.left
+				: box.left + Math.floor((box.width - lineWidth) / 2),
+		top: box.top + Math.floor((box.height - lineHeight) / 2),
+	}
+}
+
+/**
+ * Generate a social share image.
+ *
+ * @param config - Config resolved for the spec (overrides applied)
+ * @param backgroundColor - Representative background color, for the
+ *   default text color
+ * @returns PNG of the share image
+ */
+export async function generateSocialImage(
+	config: AssetGeneratorConfig,
+	spec: AssetSpec,
+	backgroundColor: string,
+): Promise<Buffer> {
+	const { width, height } = spec
+	const tagline = config.social?.tagline
+	const layout = getSocialLayout(width, height, tagline !== undefined)
+	const color = getSocialTextColor(config, backgroundColor)
+	const fontBuffer = await loadFont({
+		fontSource: 'google',
+		...getSocialFont(config),
+	})
+
+	const [background, logo, title, taglineLine] = await Promise.all([
+		generateBackground(config.background, width, height),
+		generateForeground(
+			config.foreground,
+			layout.logo.width,
+			layout.logo.height,
+		),
+		renderTextLine(
+			config.appName,
+			layout.title,
+			layout.align,
+			color,
+			fontBuffer,
+		),
+		tagline !== undefined && layout.tagline
+			? renderTextLine(tagline, layout.tagline, layout.align, color, fontBuffer)
+			: undefined,
+	])
+
+	return sharp(background)
+		.composite([
+			{ input: logo, left: layout.logo.left, top: layout.logo.top },
+			title,
+			...(taglineLine ? [taglineLine] : []),
+		])
+		.png()
+		.toBuffer()
+}
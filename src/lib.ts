@@ -0,0 +1,31 @@
+/**
+ * appicons - Library Entry Point
+ *
+ * Programmatic API for build scripts and other tools. Exposes the same
+ * generation pipeline the CLI and TUI use, without any terminal output:
+ *
+ *   import { createConsoleReporter, generateAssets } from 'appicons'
+ *
+ *   const result = await generateAssets(config, {
+ *     onAssetDone: (asset, index, total) => {
+ *       console.log(`${index + 1}/${total} ${asset.spec.name}`)
+ *     },
+ *   })
+ *
+ * Also exports the asset spec catalog (IOS_ICONS, ANDROID_SPLASH, ...),
+ * spec lookup helpers, and all config/result types.
+ */
+
+export * from './assets/asset_specs'
+export {
+	checkAssets,
+	determineAssetSpecs,
+	generateAssets,
+	generatePreviewIcon,
+	PREVIEW_SIZES,
+} from './generators/asset_generator'
+export type * from './types'
+export {
+	type ConsoleReporterOptions,
+	createConsoleReporter,
+} from './utils/console_reporter'
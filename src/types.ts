@@ -21,9 +21,19 @@ export type Platform =
 	| 'watchos'
 	| 'tvos'
 	| 'visionos'
+	| 'macos'
+	| 'windows'
+	| 'linux'
 
 /** Category of asset to generate. */
-export type AssetType = 'icon' | 'splash' | 'adaptive' | 'favicon' | 'store'
+export type AssetType =
+	| 'icon'
+	| 'splash'
+	| 'adaptive'
+	| 'favicon'
+	| 'store'
+	| 'notification'
+	| 'social'
 
 /** Type of background layer. */
 export type BackgroundType = 'color' | 'gradient' | 'image'
@@ -31,6 +41,81 @@ export type BackgroundType = 'color' | 'gradient' | 'image'
 /** Type of foreground layer (the logo/icon content). */
 export type ForegroundType = 'svg' | 'text' | 'image'
 
+/**
+ * Layout of generated iOS icons.
+ * - 'folders': PNGs in ios/ with appearance variants in ios/dark/, ios/tinted/, etc.
+ * - 'appiconset': Self-contained ios/AppIcon.appiconset/ with flat filenames.
+ */
+export type IosIconLayout = 'folders' | 'appiconset'
+
+/**
+ * How iOS launch screens are produced.
+ * - 'images': Fixed-size splash PNGs for each device resolution.
+ * - 'storyboard': LaunchScreen.storyboard with a LaunchLogo imageset and a
+ *   LaunchBackground colorset, which adapts to every device and orientation.
+ */
+export type IosSplashMode = 'images' | 'storyboard'
+
+/**
+ * Shape of the legacy (pre-API 26) Android ic_launcher.png.
+ * - 'none': Full-bleed square, the composite as-is.
+ * - 'square', 'circle', 'squircle': Material legacy launcher shape with
+ *   1dp padding and the standard drop shadow.
+ */
+export type AndroidLegacyShape = 'none' | 'square' | 'circle' | 'squircle'
+
+/**
+ * Format of the Android adaptive icon layers.
+ * - 'png': Rasterized mipmap-{mdpi..xxxhdpi} layers.
+ * - 'vector': VectorDrawable XML in drawable/ for SVG and text foregrounds,
+ *   and a gradient shape drawable (or @color) for the background.
+ */
+export type AndroidAdaptiveFormat = 'png' | 'vector'
+
+/**
+ * Image format of Android launcher mipmaps.
+ * - 'png': PNG files.
+ * - 'webp': Lossless WebP files (API 18+), usually much smaller.
+ */
+export type AndroidIconFormat = 'png' | 'webp'
+
+/** Format written next to each web icon PNG. */
+export type WebImageFormat = 'webp' | 'avif'
+
+/**
+ * PNG encoding of generated assets.
+ * - 'none': Default encoding.
+ * - 'max': Maximum zlib compression with the best row filtering (lossless).
+ * - 'palette': Quantized to a 256-color palette (lossy, smallest).
+ */
+export type PngOptimization = 'none' | 'max' | 'palette'
+
+/**
+ * Layout of iOS alternate icons.
+ * - 'appiconset': One single-size ios/AppIcon-<Name>.appiconset per icon.
+ * - 'files': Loose ios/AlternateIcons/<Name>@2x.png and @3x.png files, as
+ *   listed in CFBundleIconFiles and used by React Native icon libraries.
+ */
+export type AlternateIconLayout = 'appiconset' | 'files'
+
+/** Archive format for packaging the output directory. */
+export type ArchiveFormat = 'zip' | 'tar.gz'
+
+/**
+ * Output format of the launcher mask preview.
+ * - 'png': Contact sheet image at preview/mask-preview.png.
+ * - 'html': Page at preview/mask-preview.html drawing the generated images
+ *   under each mask, with toggleable guides.
+ */
+export type MaskPreviewFormat = 'png' | 'html'
+
+/**
+ * Format of the vector masters written into master/.
+ * - 'svg': SVG documents, nesting the foreground artwork as is.
+ * - 'pdf': Single-page PDFs with the foreground converted to paths.
+ */
+export type VectorMasterFormat = 'svg' | 'pdf'
+
 /**
  * Color mode for theming support.
  * - 'light': Standard light appearance.
@@ -66,6 +151,23 @@ export interface GradientConfig {
 	angle?: number
 }
 
+/**
+ * Dark appearance overrides for the background layer.
+ *
+ * Used by iOS dark icons, Android night splash screens and the web
+ * manifest's dark color scheme. The first field set wins, in the order
+ * imagePath, color, gradientColors. Without overrides, dark variants fall
+ * back to a 70% darkened version of the light background.
+ */
+export interface DarkBackgroundConfig {
+	/** Hex color for a solid dark background. */
+	color?: string
+	/** Dark gradient color stops (keeps the light gradient's type and angle). */
+	gradientColors?: string[]
+	/** Path to a dark background image. */
+	imagePath?: string
+}
+
 /**
  * Background layer configuration.
  *
@@ -80,6 +182,8 @@ export interface BackgroundConfig {
 	gradient?: GradientConfig
 	/** Path to background image file (when type is 'image'). */
 	imagePath?: string
+	/** Dark appearance overrides (auto-darkened when omitted). */
+	dark?: DarkBackgroundConfig
 }
 
 // ─── Foreground Configuration ──────────────────────────────────────────────
@@ -104,6 +208,11 @@ export interface TextForegroundConfig {
 	fontSource: 'google' | 'system' | 'custom'
 	/** Path to custom font file (required when fontSource is 'custom'). */
 	fontPath?: string
+	/** Dark appearance overrides. */
+	dark?: {
+		/** Text color in dark variants. */
+		color?: string
+	}
 }
 
 /**
@@ -118,6 +227,11 @@ export interface SVGForegroundConfig {
 	svgPath: string
 	/** Optional color override (replaces all fill colors in the SVG). */
 	color?: string
+	/** Dark appearance overrides. */
+	dark?: {
+		/** Fill color override in dark variants. */
+		color?: string
+	}
 }
 
 /**
@@ -130,6 +244,11 @@ export interface ImageForegroundConfig {
 	type: 'image'
 	/** Path to image file (PNG, JPEG, WebP, etc.). */
 	imagePath: string
+	/** Dark appearance overrides. */
+	dark?: {
+		/** Path to the image used in dark variants. */
+		imagePath?: string
+	}
 }
 
 /** Union type for all foreground configuration variants. */
@@ -138,6 +257,199 @@ export type ForegroundConfig =
 	| SVGForegroundConfig
 	| ImageForegroundConfig
 
+// ─── Badge Configuration ───────────────────────────────────────────────────
+
+/**
+ * Shape of the environment badge drawn over icons.
+ * - 'ribbon': Diagonal band across a corner.
+ * - 'corner': Pill-shaped label in a corner.
+ * - 'banner': Full-width strip along the top or bottom edge.
+ */
+export type BadgeStyle = 'ribbon' | 'corner' | 'banner'
+
+/** Corner of the badge; banners use the vertical half (top or bottom). */
+export type BadgePosition =
+	| 'top-left'
+	| 'top-right'
+	| 'bottom-left'
+	| 'bottom-right'
+
+/**
+ * Environment badge (e.g. "DEV" or a version) overlaid on every asset
+ * except store graphics and social images, kept inside each platform's
+ * safe zone.
+ */
+export interface BadgeConfig {
+	/** Label to draw (e.g. 'DEV', 'STAGING', 'v1.4.0'). */
+	text: string
+	/** Badge shape (default: 'ribbon'). */
+	style?: BadgeStyle
+	/** Corner to draw in (default: 'top-right'). */
+	position?: BadgePosition
+	/** Badge fill color as hex code (default: '#E5484D'). */
+	color?: string
+	/** Label color as hex code (default: '#FFFFFF'). */
+	textColor?: string
+	/** Font family for the label (default: 'Roboto'). */
+	fontFamily?: string
+	/** Where to load the font from (default: 'google'). */
+	fontSource?: 'google' | 'system' | 'custom'
+	/** Path to custom font file (required when fontSource is 'custom'). */
+	fontPath?: string
+}
+
+// ─── Social Images ─────────────────────────────────────────────────────────
+
+/**
+ * Text of the Open Graph and Twitter/X share images, drawn next to the
+ * foreground logo under the app name.
+ */
+export interface SocialConfig {
+	/** Line drawn under the app name, also used as og:description. */
+	tagline?: string
+	/**
+	 * Text color as hex code (default: the text foreground's color, else
+	 * black or white, whichever reads better on the background).
+	 */
+	textColor?: string
+	/** Font family for the text (default: text foreground font, else 'Roboto'). */
+	fontFamily?: string
+	/** Where to load the font from (default: 'google'). */
+	fontSource?: 'google' | 'system' | 'custom'
+	/** Path to custom font file (required when fontSource is 'custom'). */
+	fontPath?: string
+}
+
+// ─── Web Manifest ──────────────────────────────────────────────────────────
+
+/** How an installed web app is displayed. */
+export type WebManifestDisplay =
+	| 'fullscreen'
+	| 'standalone'
+	| 'minimal-ui'
+	| 'browser'
+
+/** Display modes tried in order before `display`. */
+export type WebManifestDisplayOverride =
+	| WebManifestDisplay
+	| 'window-controls-overlay'
+	| 'tabbed'
+
+/** Default orientation of an installed web app. */
+export type WebManifestOrientation =
+	| 'any'
+	| 'natural'
+	| 'landscape'
+	| 'landscape-primary'
+	| 'landscape-secondary'
+	| 'portrait'
+	| 'portrait-primary'
+	| 'portrait-secondary'
+
+/**
+ * An app shortcut, listed in the launcher or taskbar menu of an installed
+ * web app. Its icons are generated like the PWA icons.
+ *
+ * Unset layers fall back to the top-level configuration.
+ */
+export interface WebManifestShortcut {
+	/** Label shown in the menu. */
+	name: string
+	/** Label used where space is limited. */
+	shortName?: string
+	/** What the shortcut does, for assistive technologies. */
+	description?: string
+	/** URL opened by the shortcut, within the manifest scope. */
+	url: string
+	/** Background used instead of the top-level background. */
+	background?: BackgroundConfig
+	/** Foreground used instead of the top-level foreground. */
+	foreground?: ForegroundConfig
+}
+
+/**
+ * Fields of site.webmanifest beyond the icons and colors.
+ *
+ * @see https://www.w3.org/TR/appmanifest/
+ */
+export interface WebManifestConfig {
+	/** Name shown where space is limited (default: appName). */
+	shortName?: string
+	/** What the app does. */
+	description?: string
+	/** Identity of the app across manifest updates (default: start URL). */
+	id?: string
+	/** URL opened when the app launches (default: '/'). */
+	startUrl?: string
+	/** URLs considered part of the app (default: the start URL's folder). */
+	scope?: string
+	/** Display mode (default: 'standalone'). */
+	display?: WebManifestDisplay
+	/** Preferred display modes, falling back to `display`. */
+	displayOverride?: WebManifestDisplayOverride[]
+	/** Default orientation. */
+	orientation?: WebManifestOrientation
+	/** App shortcuts, each with generated icons. */
+	shortcuts?: WebManifestShortcut[]
+}
+
+// ─── Overrides ─────────────────────────────────────────────────────────────
+
+/**
+ * Replacement layers or scale for a subset of generated files.
+ *
+ * Fields replace their top-level counterpart as a whole (no deep merge).
+ */
+export interface AssetOverride {
+	/** Background used instead of the top-level background. */
+	background?: BackgroundConfig
+	/** Foreground used instead of the top-level foreground. */
+	foreground?: ForegroundConfig
+	/** Foreground scale used instead of the icon/splash/favicon/store scale. */
+	scale?: number
+}
+
+// ─── Alternate Icons ───────────────────────────────────────────────────────
+
+/**
+ * An iOS alternate app icon, selectable at runtime with
+ * `setAlternateIconName`.
+ *
+ * Unset fields fall back to the top-level configuration.
+ */
+export interface AlternateIconConfig {
+	/** Icon name used in Info.plist and at runtime, e.g. 'Halloween'. */
+	name: string
+	/** Background used instead of the top-level background. */
+	background?: BackgroundConfig
+	/** Foreground used instead of the top-level foreground. */
+	foreground?: ForegroundConfig
+	/** Foreground scale used instead of iconScale. */
+	iconScale?: number
+}
+
+// ─── Variants ──────────────────────────────────────────────────────────────
+
+/**
+ * Config delta for one build variant (flavour), e.g. `staging`.
+ *
+ * Fields replace their top-level counterpart as a whole, like overrides.
+ */
+export type VariantConfig = Partial<
+	Pick<
+		AssetGeneratorConfig,
+		| 'appName'
+		| 'background'
+		| 'foreground'
+		| 'iconScale'
+		| 'splashScale'
+		| 'faviconScale'
+		| 'storeScale'
+		| 'overrides'
+		| 'badge'
+	>
+>
+
 // ─── Main Configuration ────────────────────────────────────────────────────
 
 /**
@@ -225,6 +537,179 @@ export interface AssetGeneratorConfig {
 	 * wide-format and benefit from lower scales to avoid crowding.
 	 */
 	storeScale?: number
+
+	/**
+	 * Per-file overrides of background, foreground and scale.
+	 *
+	 * Keys select generated files by platform (`web`), asset type
+	 * (`splash`) or a glob on the output path (`web/favicon-*.png`,
+	 * `ios/dark/*.png`). Matching overrides apply from least to
+	 * most specific: platforms, then asset types, then globs.
+	 *
+	 * @example
+	 * { splash: { foreground: { type: 'svg', svgPath: './wordmark.svg' } } }
+	 */
+	overrides?: Record<string, AssetOverride>
+
+	/**
+	 * Environment badge drawn over every asset except store graphics and
+	 * social images.
+	 */
+	badge?: BadgeConfig
+
+	/** App name text of the social share images (`social` asset type). */
+	social?: SocialConfig
+
+	/**
+	 * site.webmanifest fields: names, URLs, display and shortcuts.
+	 * Generated with web favicons.
+	 */
+	manifest?: WebManifestConfig
+
+	/**
+	 * iOS alternate app icons, e.g. seasonal icons. Generated with iOS icons.
+	 *
+	 * The README includes the `CFBundleAlternateIcons` Info.plist snippet
+	 * and the Expo / React Native config for switching icons at runtime.
+	 */
+	alternateIcons?: AlternateIconConfig[]
+
+	/** Layout of alternate icons. Default: 'appiconset'. */
+	alternateIconLayout?: AlternateIconLayout
+
+	/**
+	 * Build variants (flavours) to generate in one run, keyed by name.
+	 *
+	 * Each variant is written to `<outputDir>/<name>/` with its own README
+	 * and history entry. With `androidResPath` it is installed into the
+	 * `src/<name>/res` source set; with `xcassetsPath` as
+	 * `AppIcon-<Name>.appiconset`.
+	 *
+	 * @example
+	 * { staging: { badge: { text: 'STAGING' } }, prod: {} }
+	 */
+	variants?: Record<string, VariantConfig>
+
+	/**
+	 * Archives to package the output directory into after generation.
+	 *
+	 * Default: ['zip']. Archives are written inside the output directory
+	 * (e.g., `generated/appicons.zip`). Use an empty array to skip
+	 * archiving.
+	 */
+	archive?: ArchiveFormat[]
+
+	/**
+	 * Launcher mask previews to write into preview/. Default: none.
+	 *
+	 * Shows the Android adaptive and web maskable icons under the circle,
+	 * squircle, rounded square, teardrop and iOS masks, with the mask
+	 * outline and safe zone circle overlaid as guides.
+	 */
+	maskPreview?: MaskPreviewFormat[]
+
+	/**
+	 * Vector masters of the composed icon and splash screen to write into
+	 * master/. Default: none.
+	 *
+	 * Needs a color or gradient background and an SVG or text foreground,
+	 * so the whole design is vector.
+	 */
+	vectorMaster?: VectorMasterFormat[]
+
+	/**
+	 * Layout of generated iOS icons. Default: 'folders'.
+	 *
+	 * 'appiconset' places every icon, including dark, tinted and clear
+	 * variants, inside ios/AppIcon.appiconset/ so Xcode can use the folder
+	 * as-is. Asset catalogs have no clear appearance slot, so clear variants
+	 * are carried in the set without a Contents.json entry.
+	 */
+	iosIconLayout?: IosIconLayout
+
+	/**
+	 * How iOS launch screens are produced. Default: 'images'.
+	 *
+	 * 'storyboard' replaces the fixed-size splash PNGs with
+	 * ios/LaunchScreen.storyboard, ios/LaunchLogo.imageset (@1x/@2x/@3x,
+	 * sized from splashScale) and ios/LaunchBackground.colorset (any/dark).
+	 */
+	iosSplashMode?: IosSplashMode
+
+	/**
+	 * Shape of the legacy Android ic_launcher.png. Default: 'none'.
+	 *
+	 * ic_launcher_round.png is always a circle with the same padding and
+	 * shadow, for `android:roundIcon` on devices before API 26.
+	 */
+	androidLegacyShape?: AndroidLegacyShape
+
+	/**
+	 * Format of the Android adaptive icon layers. Default: 'png'.
+	 *
+	 * 'vector' writes drawable/ic_launcher_foreground.xml and
+	 * ic_launcher_monochrome.xml instead of the mipmap PNGs when the
+	 * foreground is SVG or text without a badge. Solid backgrounds use
+	 * @color/ic_launcher_background and gradients with up to three colors
+	 * (linear angles in 45° steps) become drawable/ic_launcher_background.xml.
+	 * Other layers stay PNG.
+	 */
+	androidAdaptiveFormat?: AndroidAdaptiveFormat
+
+	/**
+	 * Image format of Android launcher mipmaps. Default: 'png'.
+	 *
+	 * 'webp' writes every mipmap-* image as lossless WebP; drawables such
+	 * as splash screens and notification icons stay PNG.
+	 */
+	androidIconFormat?: AndroidIconFormat
+
+	/**
+	 * Formats written next to the web favicon and icon PNGs. Default: none.
+	 *
+	 * Each `web/icon-*.png` and `web/favicon-*.png` gets a companion with
+	 * the same name (e.g., `icon-192x192.webp`), listed in site.webmanifest
+	 * before its PNG. Apple touch icons stay PNG only.
+	 */
+	webImageFormats?: WebImageFormat[]
+
+	/** PNG encoding of generated assets. Default: 'none'. */
+	pngOptimization?: PngOptimization
+
+	/**
+	 * Flatten store files that must not have alpha onto the background
+	 * color, and write the Play Store icon as RGBA, so App Store Connect
+	 * and Google Play accept them. Default: false (transparency is only
+	 * reported).
+	 */
+	fixStoreAssets?: boolean
+
+	/**
+	 * Existing asset catalog to install AppIcon.appiconset into.
+	 *
+	 * Either the `.xcassets` directory or a project root containing
+	 * `ios/<App>/Images.xcassets`. Implies the 'appiconset' layout.
+	 */
+	xcassetsPath?: string
+
+	/**
+	 * Existing Android `res/` directory to install launcher icons into.
+	 *
+	 * Either the `res/` directory or a project root / module containing
+	 * `src/main/res`. Mipmaps and adaptive icon XML are copied in and
+	 * `values/colors.xml` is merged rather than replaced.
+	 */
+	androidResPath?: string
+
+	/**
+	 * Existing web app manifest whose `icons` array is replaced with the
+	 * generated icons.
+	 *
+	 * Either the manifest file or a project root containing one (e.g.
+	 * `public/manifest.json`). The icons are copied next to it; every other
+	 * field of the manifest is kept.
+	 */
+	manifestMergePath?: string
 }
 
 // ─── Asset Specification and Results ───────────────────────────────────────
@@ -265,11 +750,17 @@ export interface GeneratedAsset {
 	/** The specification this asset was generated from. */
 	spec: AssetSpec
 
-	/** PNG image data as a Buffer. */
+	/** Image data as written (PNG unless re-encoded). */
 	buffer: Buffer
 
 	/** Full output path for the asset file. */
 	path: string
+
+	/**
+	 * Size in bytes of the default PNG encoding, when the written file was
+	 * re-encoded or optimized. 0 for WebP/AVIF companion files.
+	 */
+	originalSize?: number
 }
 
 /**
@@ -291,10 +782,139 @@ export interface GenerationResult {
 	/** Path to the generated README.md file. */
 	instructionsPath?: string
 
+	/** Path to the .zip archive of the output directory, if written. */
+	zipPath?: string
+
+	/** Path to the .tar.gz archive of the output directory, if written. */
+	tarPath?: string
+
+	/** Files written outside the output directory (e.g., into a project). */
+	installedFiles?: string[]
+
+	/** Store upload rules broken by generated files, if any. */
+	storeIssues?: StoreComplianceIssue[]
+
 	/** Array of error messages for failed assets. */
 	errors?: string[]
 }
 
+/**
+ * Progress callbacks for the asset generation pipeline.
+ *
+ * Every callback is optional. Without a reporter generateAssets prints
+ * nothing; the CLI and TUI subscribe to these events to show progress.
+ */
+export interface GenerationReporter {
+	/** Called before an asset is rendered. `index` is 0-based. */
+	onAssetStart?: (spec: AssetSpec, index: number, total: number) => void
+
+	/** Called after an asset is rendered, before files are written. */
+	onAssetDone?: (asset: GeneratedAsset, index: number, total: number) => void
+
+	/** Called for each failure, with the message also added to `errors`. */
+	onError?: (message: string) => void
+
+	/** Called for non-fatal problems, e.g., a skipped project install. */
+	onWarning?: (message: string) => void
+
+	/** Called after each file is written, with its full path. */
+	onFileWritten?: (path: string) => void
+}
+
+/**
+ * How a file on disk differs from what the config would generate.
+ * - 'missing': Would be generated but is not on disk.
+ * - 'extra': On disk but would not be generated.
+ * - 'different': On disk with different pixels or bytes.
+ */
+export type DriftStatus = 'missing' | 'extra' | 'different'
+
+/**
+ * A single out-of-date file found by a drift check.
+ */
+export interface DriftEntry {
+	/** Path relative to the output directory. */
+	path: string
+
+	/** Kind of drift. */
+	status: DriftStatus
+
+	/** What differs, for 'different' entries (e.g., "pixels differ"). */
+	reason?: string
+}
+
+/**
+ * Result of checking an output directory for drift (`generate --check`).
+ */
+export interface DriftCheckResult {
+	/** True if every file is up to date and nothing failed to render. */
+	success: boolean
+
+	/** Output directory that was checked. */
+	outputDir: string
+
+	/** Number of files the config would generate. */
+	checkedFiles: number
+
+	/** Out-of-date files, sorted by path. */
+	drift: DriftEntry[]
+
+	/** Array of error messages for assets that failed to render. */
+	errors: string[]
+}
+
+// ─── Store Compliance Types ────────────────────────────────────────────────
+
+/** Store whose upload rules a file is checked against. */
+export type StoreName = 'App Store' | 'Google Play'
+
+/** Upload rule a store file can break. */
+export type StoreRule =
+	| 'format'
+	| 'dimensions'
+	| 'alpha'
+	| 'bit-depth'
+	| 'color-profile'
+	| 'file-size'
+
+/**
+ * A store upload rule broken by a generated file.
+ */
+export interface StoreComplianceIssue {
+	/** Path relative to the output directory. */
+	path: string
+
+	/** Store the file is uploaded to. */
+	store: StoreName
+
+	/** Rule that is broken. */
+	rule: StoreRule
+
+	/** What is wrong, e.g. "has an alpha channel". */
+	message: string
+
+	/** Whether `validate --fix` can repair it by re-encoding the file. */
+	fixable: boolean
+}
+
+/**
+ * Result of checking an output directory against store upload rules
+ * (`appicons validate --output <dir>`).
+ */
+export interface StoreComplianceResult {
+	/** Output directory that was checked. */
+	outputDir: string
+
+	/** Number of store files found and checked. */
+	checkedFiles: number
+
+	/** Rules still broken after any fixes, sorted by path. */
+	issues: StoreComplianceIssue[]
+
+	/** Paths rewritten by the fix, relative to the output directory. */
+	fixedFiles: string[]
+}
+
 // ─── History Types ─────────────────────────────────────────────────────────
 
 /**
@@ -0,0 +1,195 @@
+/**
+ * iOS Alternate Icons Module
+ *
+ * Resolves the configuration of each alternate app icon and builds the
+ * files and snippets needed to switch icons at runtime with
+ * `setAlternateIconName`:
+ *
+ * - `AppIcon-<Name>.appiconset/Contents.json`: Single-size icon set, listed
+ *   in the ASSETCATALOG_COMPILER_ALTERNATE_APPICON_NAMES build setting.
+ * - `CFBundleAlternateIcons`: Info.plist entries naming every icon, either
+ *   by icon set (CFBundleIconName) or by loose files (CFBundleIconFiles).
+ * - Expo and React Native config pointing at the generated icons.
+ */
+
+import {
+	getAlternateIconLayout,
+	getAlternateIconSetName,
+	getAlternateIconSpecs,
+} from '../assets/asset_specs'
+import type {
+	AlternateIconConfig,
+	AlternateIconLayout,
+	AssetGeneratorConfig,
+	AssetSpec,
+} from '../types'
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+/**
+ * Valid alternate icon names: usable as a file name, an Info.plist key and
+ * an asset catalog name suffix.
+ */
+export const ALTERNATE_ICON_NAME_PATTERN = /^[A-Za-z][A-Za-z0-9]*$/
+
+// ─── Resolution ─────────────────────────────────────────────────────────────
+
+/**
+ * Get the specs of every alternate icon of a config.
+ *
+ * Alternate icons are only generated together with iOS icons.
+ */
+export function getAlternateIconAssetSpecs(
+	config: AssetGeneratorConfig,
+): AssetSpec[] {
+	if (
+		!config.platforms.includes('ios') ||
+		!config.assetTypes.includes('icon')
+	) {
+		return []
+	}
+	const layout = getAlternateIconLayout(config)
+	return (config.alternateIcons ?? []).flatMap(icon =>
+		getAlternateIconSpecs(icon.name, layout),
+	)
+}
+
+/**
+ * Find the alternate icon a generated file belongs to.
+ */
+function findAlternateIcon(
+	config: AssetGeneratorConfig,
+	spec: Pick<AssetSpec, 'name'>,
+): AlternateIconConfig | undefined {
+	const layout = getAlternateIconLayout(config)
+	return config.alternateIcons?.find(icon =>
+		getAlternateIconSpecs(icon.name, layout).some(
+			alternate => alternate.name === spec.name,
+		),
+	)
+}
+
+/**
+ * Resolve the configuration of a file, applying its alternate icon's
+ * layers and scale.
+ *
+ * @returns The config with the alternate icon applied (the same object when
+ *   the file is not an alternate icon)
+ */
+export function resolveAlternateIconConfig(
+	config: AssetGeneratorConfig,
+	spec: Pick<AssetSpec, 'name'>,
+): AssetGeneratorConfig {
+	const icon = findAlternateIcon(config, spec)
+	if (icon === undefined) return config
+
+	const resolved = { ...config }
+	if (icon.background) resolved.background = icon.background
+	if (icon.foreground) resolved.foreground = icon.foreground
+	if (icon.iconScale !== undefined) resolved.iconScale = icon.iconScale
+	return resolved
+}
+
+// ─── Asset Catalog Contents ─────────────────────────────────────────────────
+
+/**
+ * Build Contents.json for a single-size alternate icon set.
+ */
+export function createAlternateIconSetContentsJson(): string {
+	const images = [
+		{
+			filename: 'icon-1024.png',
+			idiom: 'universal',
+			platform: 'ios',
+			size: '1024x1024',
+		},
+	]
+	return `${JSON.stringify({ images, info: { author: 'xcode', version: 1 } }, null, 2)}\n`
+}
+
+// ─── Integration Snippets ───────────────────────────────────────────────────
+
+/**
+ * Build the `CFBundleAlternateIcons` Info.plist snippet.
+ *
+ * Icon sets are referenced with CFBundleIconName, loose files by their base
+ * name in CFBundleIconFiles (iOS appends @2x/@3x itself).
+ */
+export function createAlternateIconsPlist(
+	icons: AlternateIconConfig[],
+	layout: AlternateIconLayout,
+): string {
+	const lines = [
+		'<key>CFBundleIcons</key>',
+		'<dict>',
+		'  <key>CFBundleAlternateIcons</key>',
+		'  <dict>',
+	]
+	for (const icon of icons) {
+		lines.push(`    <key>${icon.name}</key>`)
+		lines.push('    <dict>')
+		if (layout === 'appiconset') {
+			lines.push('      <key>CFBundleIconName</key>')
+			lines.push(`      <string>${getAlternateIconSetName(icon.name)}</string>`)
+		} else {
+			lines.push('      <key>CFBundleIconFiles</key>')
+			lines.push('      <array>')
+			lines.push(`        <string>${icon.name}</string>`)
+			lines.push('      </array>')
+		}
+		lines.push('      <key>UIPrerenderedIcon</key>')
+		lines.push('      <false/>')
+		lines.push('    </dict>')
+	}
+	lines.push('  </dict>')
+	lines.push('</dict>')
+	return lines.join('\n')
+}
+
+/**
+ * Get the largest generated image of an alternate icon, used as the source
+ * image for Expo.
+ */
+export function getAlternateIconSource(
+	name: string,
+	layout: AlternateIconLayout,
+): string {
+	return getAlternateIconSpecs(name, layout).at(-1)!.name
+}
+
+/**
+ * Build the Expo (expo-alternate-app-icons) and bare React Native config.
+ *
+ * Expo reads one source image per icon, copied to
+ * `assets/images/alternate-icons/<Name>.png`.
+ */
+export function createAlternateIconsExpoConfig(
+	icons: AlternateIconConfig[],
+): string {
+	const example = icons[0]?.name ?? 'Name'
+	const lines = [
+		'// app.config.ts (expo-alternate-app-icons)',
+		'plugins: [',
+		"  ['expo-alternate-app-icons', [",
+	]
+	for (const icon of icons) {
+		lines.push(
+			`    { name: '${icon.name}', ios: './assets/images/alternate-icons/${icon.name}.png' },`,
+		)
+	}
+	lines.push('  ]],')
+	lines.push('],')
+	lines.push('')
+	lines.push('// Switch icons at runtime (Expo)')
+	lines.push("import { setAlternateAppIcon } from 'expo-alternate-app-icons'")
+	lines.push(`await setAlternateAppIcon('${example}')`)
+	lines.push('await setAlternateAppIcon(null) // back to the primary icon')
+	lines.push('')
+	lines.push(
+		'// Bare React Native (react-native-change-icon), with the plist above',
+	)
+	lines.push("import { changeIcon, resetIcon } from 'react-native-change-icon'")
+	lines.push(`await changeIcon('${example}')`)
+	lines.push('await resetIcon()')
+	return lines.join('\n')
+}
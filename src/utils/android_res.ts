@@ -0,0 +1,260 @@
+/**
+ * Android Resources Module
+ *
+ * Installs generated launcher icons into an existing Android module's `res/`
+ * directory so icons don't have to be copied into `android/app/src/main/res`
+ * by hand after every generation.
+ *
+ * Installed resources:
+ * - `mipmap-{mdpi..xxxhdpi}/`: Launcher PNGs and adaptive icon layers.
+ * - `mipmap-anydpi-v26/`: Adaptive icon XML (ic_launcher, ic_launcher_round).
+ * - `drawable-{mdpi..xxxhdpi}/ic_stat_*.png`: Notification icons. Legacy
+ *   splash drawables are not installed.
+ * - `drawable/ic_launcher_*.xml`: Vector adaptive icon layers.
+ * - `values/colors.xml`: Merged into the existing file, never replaced.
+ *
+ * Only files whose content actually changes are written and reported, so
+ * re-running generation with the same config leaves the project untouched.
+ */
+
+import { mkdir, readdir, readFile, rm, stat, writeFile } from 'node:fs/promises'
+import { basename, extname, join } from 'node:path'
+
+import { ANDROID_NOTIFICATION_ICON_NAME } from '../assets/asset_specs'
+import { resolvePath } from './path_utils'
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+/** Where `res/` lives relative to a project root, module, or source set. */
+const RES_DIR_CANDIDATES = [
+	'android/app/src/main/res',
+	'app/src/main/res',
+	'src/main/res',
+]
+
+/**
+ * Drawable extensions Android treats as the same resource.
+ * Two files differing only by these extensions fail the build with
+ * "Duplicate resources", e.g. Expo's ic_launcher.webp next to ic_launcher.png,
+ * or a drawable XML next to a PNG of the same name.
+ */
+const DRAWABLE_EXTENSIONS = ['.png', '.webp', '.jpg', '.jpeg', '.xml']
+
+/** Matches one `<color name="...">value</color>` entry. */
+const COLOR_ENTRY = /<color\s+name="([^"]+)"\s*>([^<]*)<\/color>/g
+
+// ─── Res Directory Discovery ────────────────────────────────────────────────
+
+/**
+ * Check whether a path is an existing directory.
+ */
+async function isDirectory(path: string): Promise<boolean> {
+	try {
+		return (await stat(path)).isDirectory()
+	} catch {
+		return false
+	}
+}
+
+/**
+ * Resolve the `res/` directory to install icons into.
+ *
+ * Accepts the `res/` directory itself, a project root, an Android module,
+ * or a module's `src/` directory.
+ *
+ * @param inputPath - Path to a `res/` directory or a directory containing one
+ * @returns Absolute path of the res directory
+ * @throws Error if no res directory is found
+ *
+ * @example
+ * await resolveAndroidResPath('./android/app/src/main/res')
+ * await resolveAndroidResPath('.')  // finds android/app/src/main/res
+ */
+export async function resolveAndroidResPath(
+	inputPath: string,
+): Promise<string> {
+	const resolved = resolvePath(inputPath)
+
+	if (basename(resolved) === 'res' && (await isDirectory(resolved))) {
+		return resolved
+	}
+
+	for (const candidate of RES_DIR_CANDIDATES) {
+		const resDir = join(resolved, candidate)
+		if (await isDirectory(resDir)) return resDir
+	}
+
+	throw new Error(
+		`No Android res directory found in ${resolved} (looked for ${RES_DIR_CANDIDATES.join(', ')})`,
+	)
+}
+
+// ─── colors.xml Merging ─────────────────────────────────────────────────────
+
+/**
+ * Escape a string for literal use in a regular expression.
+ */
+function escapeRegExp(value: string): string {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Merge generated color entries into an existing colors.xml.
+ *
+ * Colors with the same name are updated in place; new colors are appended
+ * before `</resources>`. Everything else in the file (comments, other
+ * resources, formatting) is preserved.
+ *
+ * @param existing - Current colors.xml content from the project
+ * @param generated - colors.xml content produced by the generator
+ * @returns Merged colors.xml content
+ * @throws Error if the existing file has no `</resources>` closing tag
+ */
+export function mergeColorsXml(existing: string, generated: string): string {
+	let merged = existing
+
+	for (const [, name, value] of generated.matchAll(COLOR_ENTRY)) {
+		const entry = new RegExp(
+			`(<color\\s+name="${escapeRegExp(name!)}"\\s*>)[^<]*(</color>)`,
+		)
+		if (entry.test(merged)) {
+			merged = merged.replace(
+				entry,
+				(_match, open, close) => `${open}${value}${close}`,
+			)
+			continue
+		}
+
+		const closingIndex = merged.lastIndexOf('</resources>')
+		if (closingIndex === -1) {
+			throw new Error('Cannot merge colors.xml: missing </resources>')
+		}
+		merged = `${merged.slice(0, closingIndex)}    <color name="${name}">${value}</color>\n${merged.slice(closingIndex)}`
+	}
+
+	return merged
+}
+
+// ─── Installation ───────────────────────────────────────────────────────────
+
+/**
+ * Write a file only if its content differs from what is on disk.
+ *
+ * @returns True if the file was created or changed
+ */
+async function writeIfChanged(path: string, data: Buffer): Promise<boolean> {
+	try {
+		if ((await readFile(path)).equals(data)) return false
+	} catch {
+		// Missing file: always write.
+	}
+	await writeFile(path, data)
+	return true
+}
+
+/**
+ * Remove drawables that would clash with a newly installed drawable resource.
+ *
+ * @returns Paths of the removed files
+ */
+async function removeConflictingDrawables(target: string): Promise<string[]> {
+	const ext = extname(target)
+	if (!DRAWABLE_EXTENSIONS.includes(ext)) return []
+
+	const stem = target.slice(0, -ext.length)
+	const removed: string[] = []
+	for (const other of DRAWABLE_EXTENSIONS) {
+		if (other === ext) continue
+		try {
+			await stat(`${stem}${other}`)
+		} catch {
+			continue
+		}
+		await rm(`${stem}${other}`)
+		removed.push(`${stem}${other}`)
+	}
+	return removed
+}
+
+/**
+ * Whether a generated file is installed into res/: everything in mipmap
+ * folders, the notification icon in drawable folders and the vector
+ * adaptive icon layers in drawable/.
+ */
+function isInstalledResource(folder: string, file: string): boolean {
+	if (folder.startsWith('mipmap-')) return true
+	if (folder === 'drawable') return file.startsWith('ic_launcher_')
+	return (
+		folder.startsWith('drawable-') &&
+		file.startsWith(`${ANDROID_NOTIFICATION_ICON_NAME}.`)
+	)
+}
+
+/**
+ * Install generated Android resources into a module's res directory.
+ *
+ * @param androidOutputDir - Generated `android/` directory
+ * @param resDir - Target res directory (from resolveAndroidResPath)
+ * @returns Absolute paths of files created, updated, or removed
+ */
+export async function installAndroidRes(
+	androidOutputDir: string,
+	resDir: string,
+): Promise<string[]> {
+	const changed: string[] = []
+	let folders: string[]
+	try {
+		folders = (await readdir(androidOutputDir))
+			.filter(
+				folder => folder.startsWith('mipmap-') || folder.startsWith('drawable'),
+			)
+			.sort()
+	} catch {
+		// Nothing was generated for Android (e.g., only store assets).
+		return changed
+	}
+
+	for (const folder of folders) {
+		const files = (await readdir(join(androidOutputDir, folder)))
+			.filter(file => isInstalledResource(folder, file))
+			.sort()
+		if (files.length === 0) continue
+		await mkdir(join(resDir, folder), { recursive: true })
+		for (const file of files) {
+			const target = join(resDir, folder, file)
+			changed.push(...(await removeConflictingDrawables(target)))
+			const data = await readFile(join(androidOutputDir, folder, file))
+			if (await writeIfChanged(target, data)) changed.push(target)
+		}
+	}
+
+	// colors.xml is only generated for solid color backgrounds.
+	let generatedColors: string | undefined
+	try {
+		generatedColors = await readFile(
+			join(androidOutputDir, 'values', 'colors.xml'),
+			'utf-8',
+		)
+	} catch {
+		generatedColors = undefined
+	}
+
+	if (generatedColors !== undefined) {
+		const target = join(resDir, 'values', 'colors.xml')
+		let existing: string | undefined
+		try {
+			existing = await readFile(target, 'utf-8')
+		} catch {
+			existing = undefined
+		}
+
+		const merged =
+			existing === undefined
+				? generatedColors
+				: mergeColorsXml(existing, generatedColors)
+		await mkdir(join(resDir, 'values'), { recursive: true })
+		if (await writeIfChanged(target, Buffer.from(merged))) changed.push(target)
+	}
+
+	return changed
+}
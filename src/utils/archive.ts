@@ -0,0 +1,344 @@
+/**
+ * Archive Module
+ *
+ * Packages a generated output directory into a single distributable file so
+ * designers can hand the whole bundle to contractors without zipping by hand.
+ *
+ * Formats:
+ * - `.zip`: readable everywhere (Finder, Explorer, unzip).
+ * - `.tar.gz`: preferred by some CI pipelines and Linux tooling.
+ *
+ * Archives are deterministic: entries are sorted, timestamps and permissions
+ * are fixed, and no host-specific metadata is written. Regenerating the same
+ * assets produces a byte-identical archive, so bundles can be checksummed or
+ * committed without noisy diffs.
+ */
+
+import { readdir, readFile, writeFile } from 'node:fs/promises'
+import { basename, join, resolve } from 'node:path'
+import { deflateRawSync, gzipSync } from 'node:zlib'
+
+import type { ArchiveFormat } from '../types'
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+/**
+ * A single file to place in an archive.
+ */
+export interface ArchiveEntry {
+	/** Path inside the archive, always using forward slashes. */
+	name: string
+
+	/** File contents. */
+	data: Buffer
+}
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+/** DOS date for 1980-01-01, the earliest date a ZIP entry can carry. */
+const ZIP_FIXED_DATE = (0 << 9) | (1 << 5) | 1
+
+/** Unix regular file with rw-r--r-- permissions, stored in the high word. */
+const ZIP_FILE_ATTRIBUTES = 0o100644 << 16
+
+/** "Made by" Unix (3), spec version 2.0, so extractors honour permissions. */
+const ZIP_VERSION_MADE_BY = (3 << 8) | 20
+
+/** Minimum spec version required to extract deflated entries. */
+const ZIP_VERSION_NEEDED = 20
+
+/** General purpose flag: file names are UTF-8 encoded. */
+const ZIP_FLAG_UTF8 = 0x0800
+
+/** Largest size representable without ZIP64 extensions. */
+const ZIP_MAX_SIZE = 0xffffffff
+
+/** Tar block size in bytes; headers and data are padded to this boundary. */
+const TAR_BLOCK_SIZE = 512
+
+/** File name of archives in the output directory, without extension. */
+export const ARCHIVE_NAME = 'appicons'
+
+/** Every archive format, to keep each archive out of the others. */
+const ARCHIVE_FORMATS: ArchiveFormat[] = ['zip', 'tar.gz']
+
+// ─── CRC-32 ─────────────────────────────────────────────────────────────────
+
+/** Lookup table for the IEEE 802.3 polynomial used by ZIP. */
+const CRC_TABLE = (() => {
+	const table = new Uint32Array(256)
+	for (let n = 0; n < 256; n++) {
+		let c = n
+		for (let k = 0; k < 8; k++) {
+			c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+		}
+		table[n] = c >>> 0
+	}
+	return table
+})()
+
+/**
+ * Computes the CRC-32 checksum of a buffer.
+ */
+function crc32(data: Buffer): number {
+	let crc = 0xffffffff
+	for (const byte of data) {
+		crc = CRC_TABLE[(crc ^ byte) & 0xff]! ^ (crc >>> 8)
+	}
+	return (crc ^ 0xffffffff) >>> 0
+}
+
+// ─── ZIP ────────────────────────────────────────────────────────────────────
+
+/**
+ * Builds a ZIP archive from the given entries.
+ *
+ * Each entry is deflated unless deflating would make it larger (already
+ * compressed PNGs often are), in which case it is stored as-is. Entries are
+ * written in the order given; callers sort them for determinism.
+ *
+ * @throws Error if any entry or the archive exceeds the 4 GB ZIP32 limit.
+ */
+export function createZip(entries: ArchiveEntry[]): Buffer {
+	const localParts: Buffer[] = []
+	const centralParts: Buffer[] = []
+	let offset = 0
+
+	for (const entry of entries) {
+		const name = Buffer.from(entry.name, 'utf8')
+		const crc = crc32(entry.data)
+		const deflated = deflateRawSync(entry.data, { level: 9 })
+		const useDeflate = deflated.length < entry.data.length
+		const body = useDeflate ? deflated : entry.data
+		const method = useDeflate ? 8 : 0
+
+		if (entry.data.length > ZIP_MAX_SIZE || offset > ZIP_MAX_SIZE) {
+			throw new Error(`Archive too large for ZIP format at ${entry.name}`)
+		}
+
+		const local = Buffer.alloc(30)
+		local.writeUInt32LE(0x04034b50, 0)
+		local.writeUInt16LE(ZIP_VERSION_NEEDED, 4)
+		local.writeUInt16LE(ZIP_FLAG_UTF8, 6)
+		local.writeUInt16LE(method, 8)
+		local.writeUInt16LE(0, 10)
+		local.writeUInt16LE(ZIP_FIXED_DATE, 12)
+		local.writeUInt32LE(crc, 14)
+		local.writeUInt32LE(body.length, 18)
+		local.writeUInt32LE(entry.data.length, 22)
+		local.writeUInt16LE(name.length, 26)
+		local.writeUInt16LE(0, 28)
+
+		const central = Buffer.alloc(46)
+		central.writeUInt32LE(0x02014b50, 0)
+		central.writeUInt16LE(ZIP_VERSION_MADE_BY, 4)
+		central.writeUInt16LE(ZIP_VERSION_NEEDED, 6)
+		central.writeUInt16LE(ZIP_FLAG_UTF8, 8)
+		central.writeUInt16LE(method, 10)
+		central.writeUInt16LE(0, 12)
+		central.writeUInt16LE(ZIP_FIXED_DATE, 14)
+		central.writeUInt32LE(crc, 16)
+		central.writeUInt32LE(body.length, 20)
+		central.writeUInt32LE(entry.data.length, 24)
+		central.writeUInt16LE(name.length, 28)
+		central.writeUInt16LE(0, 30)
+		central.writeUInt16LE(0, 32)
+		central.writeUInt16LE(0, 34)
+		central.writeUInt16LE(0, 36)
+		central.writeUInt32LE(ZIP_FILE_ATTRIBUTES >>> 0, 38)
+		central.writeUInt32LE(offset, 42)
+
+		localParts.push(local, name, body)
+		centralParts.push(central, name)
+		offset += local.length + name.length + body.length
+	}
+
+	const centralDirectory = Buffer.concat(centralParts)
+	if (offset + centralDirectory.length > ZIP_MAX_SIZE) {
+		throw new Error('Archive too large for ZIP format')
+	}
+
+	const end = Buffer.alloc(22)
+	end.writeUInt32LE(0x06054b50, 0)
+	end.writeUInt16LE(0, 4)
+	end.writeUInt16LE(0, 6)
+	end.writeUInt16LE(entries.length, 8)
+	end.writeUInt16LE(entries.length, 10)
+	end.writeUInt32LE(centralDirectory.length, 12)
+	end.writeUInt32LE(offset, 16)
+	end.writeUInt16LE(0, 20)
+
+	return Buffer.concat([...localParts, centralDirectory, end])
+}
+
+// ─── Tar ────────────────────────────────────────────────────────────────────
+
+/**
+ * Writes a NUL-terminated octal number into a tar header field.
+ */
+function writeOctal(
+	header: Buffer,
+	value: number,
+	offset: number,
+	length: number,
+): void {
+	header.write(
+		`${value.toString(8).padStart(length - 1, '0')}\0`,
+		offset,
+		'ascii',
+	)
+}
+
+/**
+ * Splits a path into ustar `prefix` and `name` fields.
+ *
+ * The name field holds 100 bytes; longer paths are split at a slash so the
+ * directory part goes into the 155-byte prefix field.
+ *
+ * @throws Error if the path cannot be represented in ustar format.
+ */
+function splitTarPath(path: string): { prefix: string; name: string } {
+	if (Buffer.byteLength(path) <= 100) return { prefix: '', name: path }
+
+	for (let i = path.lastIndexOf('/'); i > 0; i = path.lastIndexOf('/', i - 1)) {
+		const prefix = path.slice(0, i)
+		const name = path.slice(i + 1)
+		if (Buffer.byteLength(prefix) <= 155 && Buffer.byteLength(name) <= 100) {
+			return { prefix, name }
+		}
+	}
+	throw new Error(`Path too long for tar archive: ${path}`)
+}
+
+/**
+ * Builds a 512-byte ustar header for a regular file.
+ */
+function createTarHeader(entry: ArchiveEntry): Buffer {
+	const header = Buffer.alloc(TAR_BLOCK_SIZE)
+	const { prefix, name } = splitTarPath(entry.name)
+
+	header.write(name, 0, 100, 'utf8')
+	writeOctal(header, 0o644, 100, 8)
+	writeOctal(header, 0, 108, 8)
+	writeOctal(header, 0, 116, 8)
+	writeOctal(header, entry.data.length, 124, 12)
+	writeOctal(header, 0, 136, 12)
+	header.fill(' ', 148, 156)
+	header.write('0', 156, 'ascii')
+	header.write('ustar\0', 257, 'ascii')
+	header.write('00', 263, 'ascii')
+	header.write(prefix, 345, 155, 'utf8')
+
+	// Checksum is computed with the checksum field itself set to spaces.
+	let checksum = 0
+	for (const byte of header) checksum += byte
+	header.write(`${checksum.toString(8).padStart(6, '0')}\0 `, 148, 'ascii')
+
+	return header
+}
+
+/**
+ * Builds a gzip-compressed tar archive from the given entries.
+ *
+ * The gzip header's OS byte is normalized so the same input produces the
+ * same bytes regardless of the host platform.
+ */
+export function createTarGz(entries: ArchiveEntry[]): Buffer {
+	const parts: Buffer[] = []
+
+	for (const entry of entries) {
+		parts.push(createTarHeader(entry), entry.data)
+		const padding =
+			(TAR_BLOCK_SIZE - (entry.data.length % TAR_BLOCK_SIZE)) % TAR_BLOCK_SIZE
+		if (padding > 0) parts.push(Buffer.alloc(padding))
+	}
+
+	// Two empty blocks mark the end of the archive.
+	parts.push(Buffer.alloc(TAR_BLOCK_SIZE * 2))
+
+	const gzipped = gzipSync(Buffer.concat(parts), { level: 9 })
+	gzipped[9] = 0xff
+	return gzipped
+}
+
+// ─── Directory Packaging ────────────────────────────────────────────────────
+
+/**
+ * Returns the archive path for an output directory.
+ *
+ * Archives are written inside the directory, so generation never writes
+ * outside of it, and are left out of the archives themselves.
+ *
+ * @example
+ * getArchivePath('./assets/generated', 'zip')  // '/cwd/assets/generated/appicons.zip'
+ */
+export function getArchivePath(
+	outputDir: string,
+	format: ArchiveFormat,
+): string {
+	return join(resolve(outputDir), `${ARCHIVE_NAME}.${format}`)
+}
+
+/**
+ * Checks whether a path relative to the output directory is an archive.
+ */
+export function isArchivePath(relativePath: string): boolean {
+	return ARCHIVE_FORMATS.some(
+		format => relativePath === `${ARCHIVE_NAME}.${format}`,
+	)
+}
+
+/**
+ * Recursively collects files under a directory, sorted by archive path.
+ *
+ * @param dir - Directory to read.
+ * @param prefix - Archive path prefix for entries in this directory.
+ */
+async function collectEntries(
+	dir: string,
+	prefix: string,
+): Promise<ArchiveEntry[]> {
+	const dirents = await readdir(dir, { withFileTypes: true })
+	const entries: ArchiveEntry[] = []
+
+	for (const dirent of dirents) {
+		const fullPath = join(dir, dirent.name)
+		const name = `${prefix}/${dirent.name}`
+		if (dirent.isDirectory()) {
+			entries.push(...(await collectEntries(fullPath, name)))
+		} else if (dirent.isFile()) {
+			entries.push({ name, data: await readFile(fullPath) })
+		}
+	}
+
+	return entries.sort((a, b) =>
+		a.name < b.name ? -1 : a.name > b.name ? 1 : 0,
+	)
+}
+
+/**
+ * Packages a directory into an archive written inside it.
+ *
+ * Entries are rooted at the directory's name, so extracting the archive
+ * recreates the folder instead of scattering files into the current one.
+ * Archives from this or an earlier run are left out.
+ *
+ * @param sourceDir - Directory to package.
+ * @param format - Archive format to write.
+ * @returns Absolute path of the written archive.
+ */
+export async function writeArchive(
+	sourceDir: string,
+	format: ArchiveFormat,
+): Promise<string> {
+	const root = resolve(sourceDir)
+	const prefix = basename(root)
+	const entries = (await collectEntries(root, prefix)).filter(
+		entry => !isArchivePath(entry.name.slice(prefix.length + 1)),
+	)
+	const archive = format === 'zip' ? createZip(entries) : createTarGz(entries)
+	const archivePath = getArchivePath(root, format)
+
+	await writeFile(archivePath, archive)
+	return archivePath
+}
@@ -0,0 +1,311 @@
+/**
+ * Badge Module
+ *
+ * Lays out environment badges (ribbon, corner, banner) as SVG overlays so
+ * dev and staging builds get visually distinct icons.
+ *
+ * Badges are placed inside the safe area of each asset, derived from the
+ * platform safe zones in safe_zone_validation.ts. In circular safe zones
+ * (Android adaptive, web maskable, watchOS, visionOS) ribbons and banners
+ * are clipped to the circle and corner pills stay inside its inscribed
+ * square, so no launcher mask can cut into a badge.
+ */
+
+import type {
+	AssetSpec,
+	BadgeConfig,
+	BadgePosition,
+	BadgeStyle,
+} from '../types'
+import {
+	ANDROID_ADAPTIVE_MAX_SCALE,
+	CIRCULAR_ICON_MAX_SCALE,
+	WEB_MASKABLE_MAX_SCALE,
+} from './safe_zone_validation'
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+/**
+ * Part of an asset a badge may cover.
+ */
+export interface BadgeSafeZone {
+	/** Safe zone size as a fraction of the asset. */
+	scale: number
+
+	/** Whether the safe zone is a circle (diameter = scale). */
+	circular: boolean
+}
+
+/** Rectangle in pixels. */
+export interface BadgeBox {
+	x: number
+	y: number
+	width: number
+	height: number
+}
+
+/**
+ * Label outline from opentype.js, or null to fall back to SVG text.
+ * Bounds are in the path's own coordinates.
+ */
+export type BadgeLabelPath = {
+	pathData: string
+	x1: number
+	y1: number
+	x2: number
+	y2: number
+} | null
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+/** Default badge colors. */
+export const DEFAULT_BADGE_COLOR = '#E5484D'
+export const DEFAULT_BADGE_TEXT_COLOR = '#FFFFFF'
+
+/** Default badge shape and position. */
+export const DEFAULT_BADGE_STYLE: BadgeStyle = 'ribbon'
+export const DEFAULT_BADGE_POSITION: BadgePosition = 'top-right'
+
+/** Badge dimensions as fractions of the safe area's shorter side. */
+const RIBBON_OFFSET = 0.3
+const RIBBON_OFFSET_CIRCULAR = 0.45
+const RIBBON_THICKNESS = 0.16
+const CORNER_HEIGHT = 0.22
+const CORNER_INSET = 0.04
+const BANNER_HEIGHT = 0.2
+
+/** Label height as a fraction of the badge thickness. */
+const LABEL_HEIGHT = 0.6
+
+/** Approximate advance of a bold sans-serif character per font size. */
+const FALLBACK_CHAR_WIDTH = 0.62
+
+// ─── Safe Area ──────────────────────────────────────────────────────────────
+
+/**
+ * Get the safe zone a badge must stay inside for an asset.
+ *
+ * Square icons and splash screens have no safe zone beyond the canvas.
+ */
+export function getBadgeSafeZone(spec: AssetSpec): BadgeSafeZone {
+	if (spec.type === 'adaptive') {
+		return { scale: ANDROID_ADAPTIVE_MAX_SCALE, circular: true }
+	}
+	if (spec.platform === 'web' && spec.name.includes('maskable')) {
+		return { scale: WEB_MASKABLE_MAX_SCALE, circular: true }
+	}
+	if (spec.platform === 'watchos' || spec.platform === 'visionos') {
+		return { scale: CIRCULAR_ICON_MAX_SCALE, circular: true }
+	}
+	return { scale: 1, circular: false }
+}
+
+/**
+ * Compute the rectangle a badge is laid out in.
+ *
+ * Ribbons and banners span the safe zone's bounding box and are clipped
+ * to circular zones; corner pills cannot be clipped without cutting the
+ * label, so they use the square inscribed in the circle instead.
+ *
+ * @param width - Canvas width in pixels
+ * @param height - Canvas height in pixels
+ * @param zone - Safe zone of the asset
+ * @param style - Badge style
+ */
+export function getBadgeBox(
+	width: number,
+	height: number,
+	zone: BadgeSafeZone,
+	style: BadgeStyle,
+): BadgeBox {
+	const inscribed = zone.circular && style === 'corner'
+	const scale = inscribed ? zone.scale / Math.SQRT2 : zone.scale
+	const boxWidth = width * scale
+	const boxHeight = height * scale
+	return {
+		x: (width - boxWidth) / 2,
+		y: (height - boxHeight) / 2,
+		width: boxWidth,
+		height: boxHeight,
+	}
+}
+
+// ─── SVG ────────────────────────────────────────────────────────────────────
+
+/**
+ * Escape text for SVG content.
+ */
+function escapeXml(text: string): string {
+	return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+/**
+ * Format a coordinate for SVG output.
+ */
+function n(value: number): string {
+	return value.toFixed(2)
+}
+
+/**
+ * Length of a circle's chord at a distance from its center.
+ */
+function chordLength(radius: number, distance: number): number {
+	return 2 * Math.sqrt(Math.max(radius ** 2 - distance ** 2, 0))
+}
+
+/**
+ * Build the label centered on a point, fitted into maxWidth × maxHeight
+ * and rotated by angle degrees.
+ */
+function createLabel(
+	text: string,
+	path: BadgeLabelPath,
+	color: string,
+	center: { x: number; y: number },
+	maxWidth: number,
+	maxHeight: number,
+	angle: number,
+): string {
+	if (path) {
+		const pathWidth = path.x2 - path.x1
+		const pathHeight = path.y2 - path.y1
+		if (pathWidth <= 0 || pathHeight <= 0) return ''
+		const scale = Math.min(maxWidth / pathWidth, maxHeight / pathHeight)
+		return `<path d="${path.pathData}" fill="${color}" transform="translate(${n(center.x)} ${n(center.y)}) rotate(${angle}) scale(${scale.toFixed(4)}) translate(${n(-(path.x1 + pathWidth / 2))} ${n(-(path.y1 + pathHeight / 2))})"/>`
+	}
+
+	// No font available: let librsvg pick a sans-serif and estimate its width.
+	const fontSize = Math.min(
+		maxHeight,
+		maxWidth / (Math.max(text.length, 1) * FALLBACK_CHAR_WIDTH),
+	)
+	return `<text x="${n(center.x)}" y="${n(center.y)}" transform="rotate(${angle} ${n(center.x)} ${n(center.y)})" text-anchor="middle" dominant-baseline="central" font-family="sans-serif" font-weight="bold" font-size="${n(fontSize)}" fill="${color}">${escapeXml(text)}</text>`
+}
+
+/**
+ * Build the shape and label of a badge inside a box at the origin.
+ *
+ * In circular safe zones the box is the circle's bounding square and the
+ * label is fitted to the chord it sits on, since the caller clips the
+ * shape to the circle.
+ */
+function createBadgeElements(
+	badge: BadgeConfig,
+	style: BadgeStyle,
+	position: BadgePosition,
+	box: BadgeBox,
+	circular: boolean,
+	path: BadgeLabelPath,
+): string {
+	const color = badge.color ?? DEFAULT_BADGE_COLOR
+	const textColor = badge.textColor ?? DEFAULT_BADGE_TEXT_COLOR
+	const side = Math.min(box.width, box.height)
+	const radius = side / 2
+	const flipX = position.endsWith('right')
+	const flipY = position.startsWith('bottom')
+	const mapX = (x: number) => (flipX ? box.width - x : x)
+	const mapY = (y: number) => (flipY ? box.height - y : y)
+
+	if (style === 'banner') {
+		const bannerHeight = side * BANNER_HEIGHT
+		const labelHeight = bannerHeight * LABEL_HEIGHT
+		const y = flipY ? box.height - bannerHeight : 0
+		const maxWidth = circular
+			? chordLength(radius, radius - (bannerHeight - labelHeight) / 2)
+			: box.width
+		return `<rect x="0" y="${n(y)}" width="${n(box.width)}" height="${n(bannerHeight)}" fill="${color}"/>${createLabel(
+			badge.text,
+			path,
+			textColor,
+			{ x: box.width / 2, y: y + bannerHeight / 2 },
+			maxWidth * 0.9,
+			labelHeight,
+			0,
+		)}`
+	}
+
+	if (style === 'corner') {
+		const height = side * CORNER_HEIGHT
+		const inset = side * CORNER_INSET
+		const labelHeight = height * LABEL_HEIGHT
+		const labelWidth = path
+			? (labelHeight * (path.x2 - path.x1)) / Math.max(path.y2 - path.y1, 1)
+			: labelHeight * FALLBACK_CHAR_WIDTH * badge.text.length
+		const width = Math.min(labelWidth + height, box.width - 2 * inset)
+		const x = flipX ? box.width - inset - width : inset
+		const y = flipY ? box.height - inset - height : inset
+		return `<rect x="${n(x)}" y="${n(y)}" width="${n(width)}" height="${n(height)}" rx="${n(height / 2)}" fill="${color}"/>${createLabel(
+			badge.text,
+			path,
+			textColor,
+			{ x: x + width / 2, y: y + height / 2 },
+			width - height,
+			labelHeight,
+			0,
+		)}`
+	}
+
+	// Ribbon: band between the lines x + y = offset and x + y = outer,
+	// drawn for the top-left corner and mirrored to the requested one.
+	const offset = side * (circular ? RIBBON_OFFSET_CIRCULAR : RIBBON_OFFSET)
+	const thickness = side * RIBBON_THICKNESS
+	const outer = offset + thickness * Math.SQRT2
+	const points = [
+		[offset, 0],
+		[outer, 0],
+		[0, outer],
+		[0, offset],
+	]
+		.map(([x, y]) => `${n(mapX(x as number))},${n(mapY(y as number))}`)
+		.join(' ')
+	const middle = (offset + outer) / 4
+	const innerEdge = circular
+		? chordLength(radius, (side - offset) / Math.SQRT2)
+		: offset * Math.SQRT2
+	return `<polygon points="${points}" fill="${color}"/>${createLabel(
+		badge.text,
+		path,
+		textColor,
+		{ x: mapX(middle), y: mapY(middle) },
+		innerEdge * 0.9,
+		thickness * LABEL_HEIGHT,
+		flipX === flipY ? -45 : 45,
+	)}`
+}
+
+/**
+ * Build a transparent SVG overlay with the badge inside the safe zone.
+ *
+ * @param badge - Badge configuration
+ * @param width - Canvas width in pixels
+ * @param height - Canvas height in pixels
+ * @param zone - Safe zone of the asset (from getBadgeSafeZone)
+ * @param path - Label outline, or null to use SVG text
+ */
+export function createBadgeSvg(
+	badge: BadgeConfig,
+	width: number,
+	height: number,
+	zone: BadgeSafeZone,
+	path: BadgeLabelPath,
+): string {
+	const style = badge.style ?? DEFAULT_BADGE_STYLE
+	const box = getBadgeBox(width, height, zone, style)
+	const clipped = zone.circular && style !== 'corner'
+	const elements = createBadgeElements(
+		badge,
+		style,
+		badge.position ?? DEFAULT_BADGE_POSITION,
+		box,
+		clipped,
+		path,
+	)
+	const radius = Math.min(box.width, box.height) / 2
+	const clip = clipped
+		? `<defs><clipPath id="badge-safe-zone"><circle cx="${n(box.width / 2)}" cy="${n(box.height / 2)}" r="${n(radius)}"/></clipPath></defs>`
+		: ''
+	const content = clipped
+		? `<g clip-path="url(#badge-safe-zone)">${elements}</g>`
+		: elements
+	return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}"><g transform="translate(${n(box.x)} ${n(box.y)})">${clip}${content}</g></svg>`
+}
@@ -0,0 +1,803 @@
+/**
+ * Project Configuration File
+ *
+ * Loads and validates `appicons.config.json` (or `appicons.config.ts`) so a
+ * generation setup can be committed alongside the app instead of living in
+ * shell history or ~/.appicons.
+ *
+ * Resolution order (later layers win):
+ * 1. Built-in defaults (same values the CLI used to hard-code)
+ * 2. Config file (or a history entry when --from-history is used)
+ * 3. CLI flags that were explicitly passed
+ *
+ * The merged result is validated with Effect Schema. Every issue is reported
+ * with the exact field path (e.g. `background.gradient.colors[1]`).
+ */
+
+import { access, readFile } from 'node:fs/promises'
+import { dirname, join, resolve } from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { Either, ParseResult, Schema } from 'effect'
+
+import type {
+	AssetGeneratorConfig,
+	BackgroundConfig,
+	BackgroundType,
+	BadgeConfig,
+	ForegroundConfig,
+	ForegroundType,
+	GradientConfig,
+	ImageForegroundConfig,
+	SocialConfig,
+	SVGForegroundConfig,
+	TextForegroundConfig,
+} from '../types'
+import { ALTERNATE_ICON_NAME_PATTERN } from './alternate_icons'
+import { resolvePath } from './path_utils'
+import { VARIANT_NAME_PATTERN } from './variants'
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+/** Config file names searched in the working directory, in priority order. */
+export const CONFIG_FILE_NAMES = [
+	'appicons.config.json',
+	'appicons.config.ts',
+] as const
+
+/** Default configuration (matches the historical CLI defaults). */
+export const DEFAULT_CONFIG: Omit<AssetGeneratorConfig, 'outputDir'> = {
+	appName: 'MyApp',
+	platforms: ['ios', 'android', 'web'],
+	assetTypes: ['icon', 'splash', 'adaptive', 'favicon'],
+	background: {
+		type: 'color',
+		color: { type: 'solid', color: '#F7F5F0' },
+	},
+	foreground: {
+		type: 'text',
+		text: '"',
+		fontFamily: 'Playfair Display',
+		fontSource: 'google',
+		color: '#1A1A1A',
+	},
+	iconScale: 0.7,
+	splashScale: 0.25,
+	faviconScale: 0.85,
+	storeScale: 0.5,
+}
+
+/**
+ * Starting point when a layer switches the background type.
+ * Lets `--bg-type gradient` work without spelling out every gradient field.
+ */
+const DEFAULT_BACKGROUNDS: Record<BackgroundType, Partial<BackgroundConfig>> = {
+	color: DEFAULT_CONFIG.background,
+	gradient: {
+		type: 'gradient',
+		gradient: { type: 'linear', colors: ['#B3D9E8', '#004C6E'], angle: 180 },
+	},
+	image: { type: 'image' },
+}
+
+/** Starting point when a layer switches the foreground type. */
+const DEFAULT_FOREGROUNDS: Record<ForegroundType, Partial<ForegroundConfig>> = {
+	text: DEFAULT_CONFIG.foreground,
+	svg: { type: 'svg' },
+	image: { type: 'image' },
+}
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+/**
+ * A partial configuration contributed by one source (defaults, file, CLI).
+ *
+ * Layers are intentionally loose: they are merged first and validated as a
+ * whole, so a file may rely on defaults for anything it leaves out.
+ */
+export interface ConfigLayer
+	extends Partial<
+		Omit<AssetGeneratorConfig, 'background' | 'foreground' | 'badge' | 'social'>
+	> {
+	background?: Partial<Omit<BackgroundConfig, 'gradient'>> & {
+		gradient?: Partial<GradientConfig>
+	}
+	foreground?:
+		| Partial<TextForegroundConfig>
+		| Partial<SVGForegroundConfig>
+		| Partial<ImageForegroundConfig>
+	badge?: Partial<BadgeConfig>
+	social?: SocialConfig
+}
+
+/** Result of resolving and validating a configuration. */
+export type ConfigResult =
+	| { success: true; config: AssetGeneratorConfig }
+	| { success: false; errors: string[] }
+
+// ─── Schema ─────────────────────────────────────────────────────────────────
+
+const HexColor = Schema.String.pipe(
+	Schema.pattern(/^#[0-9a-fA-F]{6}$/, {
+		message: () => 'Expected a 6-digit hex color like "#FF5500"',
+	}),
+)
+
+const FilePath = Schema.String.pipe(
+	Schema.minLength(1, { message: () => 'Expected a non-empty file path' }),
+)
+
+/**
+ * Literal union with a single "Expected one of" message instead of one
+ * issue per member.
+ */
+const oneOf = <const L extends ReadonlyArray<string>>(...literals: L) =>
+	Schema.Literal(...literals).annotations({
+		message: issue => ({
+			message: `Expected one of: ${literals.join(', ')}, actual ${JSON.stringify(issue.actual)}`,
+			override: true,
+		}),
+	})
+
+const PlatformSchema = oneOf(
+	'ios',
+	'android',
+	'web',
+	'watchos',
+	'tvos',
+	'visionos',
+	'macos',
+	'windows',
+	'linux',
+)
+
+const AssetTypeSchema = oneOf(
+	'icon',
+	'splash',
+	'adaptive',
+	'favicon',
+	'store',
+	'notification',
+	'social',
+)
+
+const GradientConfigSchema = Schema.Struct({
+	type: oneOf('linear', 'radial'),
+	colors: Schema.mutable(Schema.Array(HexColor)).pipe(
+		Schema.minItems(2, { message: () => 'Expected at least 2 color stops' }),
+	),
+	angle: Schema.optionalWith(Schema.Number.pipe(Schema.between(0, 360)), {
+		exact: true,
+	}),
+})
+
+const DarkBackgroundSchema = Schema.Struct({
+	color: Schema.optionalWith(HexColor, { exact: true }),
+	gradientColors: Schema.optionalWith(
+		Schema.mutable(Schema.Array(HexColor)).pipe(
+			Schema.minItems(2, { message: () => 'Expected at least 2 color stops' }),
+		),
+		{ exact: true },
+	),
+	imagePath: Schema.optionalWith(FilePath, { exact: true }),
+})
+
+const BackgroundConfigSchema = Schema.Struct({
+	type: oneOf('color', 'gradient', 'image'),
+	color: Schema.optionalWith(
+		Schema.Struct({ type: Schema.Literal('solid'), color: HexColor }),
+		{ exact: true },
+	),
+	gradient: Schema.optionalWith(GradientConfigSchema, { exact: true }),
+	imagePath: Schema.optionalWith(FilePath, { exact: true }),
+	dark: Schema.optionalWith(DarkBackgroundSchema, { exact: true }),
+}).pipe(
+	Schema.filter(bg => {
+		if (bg.type === 'gradient' && !bg.gradient) {
+			return { path: ['gradient'], message: 'Required when type is "gradient"' }
+		}
+		if (bg.type === 'image' && !bg.imagePath) {
+			return { path: ['imagePath'], message: 'Required when type is "image"' }
+		}
+		return undefined
+	}),
+)
+
+/** Dark override for text and SVG foreground colors. */
+const DarkColorSchema = Schema.Struct({
+	color: Schema.optionalWith(HexColor, { exact: true }),
+})
+
+const TextForegroundSchema = Schema.Struct({
+	type: Schema.Literal('text'),
+	text: Schema.String.pipe(
+		Schema.minLength(1, { message: () => 'Expected at least 1 character' }),
+	),
+	fontFamily: Schema.String.pipe(Schema.minLength(1)),
+	fontSize: Schema.optionalWith(Schema.Number.pipe(Schema.positive()), {
+		exact: true,
+	}),
+	color: HexColor,
+	fontSource: oneOf('google', 'system', 'custom'),
+	fontPath: Schema.optionalWith(FilePath, { exact: true }),
+	dark: Schema.optionalWith(DarkColorSchema, { exact: true }),
+}).pipe(
+	Schema.filter(fg =>
+		fg.fontSource === 'custom' && !fg.fontPath
+			? { path: ['fontPath'], message: 'Required when fontSource is "custom"' }
+			: undefined,
+	),
+)
+
+const SVGForegroundSchema = Schema.Struct({
+	type: Schema.Literal('svg'),
+	svgPath: FilePath,
+	color: Schema.optionalWith(HexColor, { exact: true }),
+	dark: Schema.optionalWith(DarkColorSchema, { exact: true }),
+})
+
+const ImageForegroundSchema = Schema.Struct({
+	type: Schema.Literal('image'),
+	imagePath: FilePath,
+	dark: Schema.optionalWith(
+		Schema.Struct({
+			imagePath: Schema.optionalWith(FilePath, { exact: true }),
+		}),
+		{ exact: true },
+	),
+})
+
+const ForegroundConfigSchema = Schema.Union(
+	TextForegroundSchema,
+	SVGForegroundSchema,
+	ImageForegroundSchema,
+)
+
+const BadgeConfigSchema = Schema.Struct({
+	text: Schema.String.pipe(
+		Schema.minLength(1, { message: () => 'Expected at least 1 character' }),
+	),
+	style: Schema.optionalWith(oneOf('ribbon', 'corner', 'banner'), {
+		exact: true,
+	}),
+	position: Schema.optionalWith(
+		oneOf('top-left', 'top-right', 'bottom-left', 'bottom-right'),
+		{ exact: true },
+	),
+	color: Schema.optionalWith(HexColor, { exact: true }),
+	textColor: Schema.optionalWith(HexColor, { exact: true }),
+	fontFamily: Schema.optionalWith(Schema.String.pipe(Schema.minLength(1)), {
+		exact: true,
+	}),
+	fontSource: Schema.optionalWith(oneOf('google', 'system', 'custom'), {
+		exact: true,
+	}),
+	fontPath: Schema.optionalWith(FilePath, { exact: true }),
+}).pipe(
+	Schema.filter(badge =>
+		badge.fontSource === 'custom' && !badge.fontPath
+			? { path: ['fontPath'], message: 'Required when fontSource is "custom"' }
+			: undefined,
+	),
+)
+
+const SocialConfigSchema = Schema.Struct({
+	tagline: Schema.optionalWith(Schema.String.pipe(Schema.minLength(1)), {
+		exact: true,
+	}),
+	textColor: Schema.optionalWith(HexColor, { exact: true }),
+	fontFamily: Schema.optionalWith(Schema.String.pipe(Schema.minLength(1)), {
+		exact: true,
+	}),
+	fontSource: Schema.optionalWith(oneOf('google', 'system', 'custom'), {
+		exact: true,
+	}),
+	fontPath: Schema.optionalWith(FilePath, { exact: true }),
+}).pipe(
+	Schema.filter(social =>
+		social.fontSource === 'custom' && !social.fontPath
+			? { path: ['fontPath'], message: 'Required when fontSource is "custom"' }
+			: undefined,
+	),
+)
+
+/** Optional foreground scale constrained to an inclusive range. */
+const optionalScale = (min: number, max: number) =>
+	Schema.optionalWith(Schema.Number.pipe(Schema.between(min, max)), {
+		exact: true,
+	})
+
+/** Override scales span every scale field's range, since keys may mix kinds. */
+const AssetOverrideSchema = Schema.Struct({
+	background: Schema.optionalWith(BackgroundConfigSchema, { exact: true }),
+	foreground: Schema.optionalWith(ForegroundConfigSchema, { exact: true }),
+	scale: optionalScale(0.05, 1.5),
+})
+
+/** Alternate icon fields replace their top-level counterparts. */
+const AlternateIconConfigSchema = Schema.Struct({
+	name: Schema.String.pipe(
+		Schema.pattern(ALTERNATE_ICON_NAME_PATTERN, {
+			message: () =>
+				'Expected a name starting with a letter, using only letters and digits',
+		}),
+	),
+	background: Schema.optionalWith(BackgroundConfigSchema, { exact: true }),
+	foreground: Schema.optionalWith(ForegroundConfigSchema, { exact: true }),
+	iconScale: optionalScale(0.1, 1.5),
+})
+
+/** Alternate icon names must be unique, since they name files and keys. */
+const AlternateIconsSchema = Schema.mutable(
+	Schema.Array(AlternateIconConfigSchema),
+).pipe(
+	Schema.filter(icons => {
+		const index = icons.findIndex(
+			(icon, i) => icons.findIndex(other => other.name === icon.name) !== i,
+		)
+		return index === -1
+			? undefined
+			: { path: [index, 'name'], message: 'Duplicate alternate icon name' }
+	}),
+)
+
+/** Shortcut layers replace their top-level counterparts. */
+const WebManifestShortcutSchema = Schema.Struct({
+	name: Schema.String.pipe(Schema.minLength(1)),
+	shortName: Schema.optionalWith(Schema.String.pipe(Schema.minLength(1)), {
+		exact: true,
+	}),
+	description: Schema.optionalWith(Schema.String.pipe(Schema.minLength(1)), {
+		exact: true,
+	}),
+	url: Schema.String.pipe(Schema.minLength(1)),
+	background: Schema.optionalWith(BackgroundConfigSchema, { exact: true }),
+	foreground: Schema.optionalWith(ForegroundConfigSchema, { exact: true }),
+})
+
+const WebManifestConfigSchema = Schema.Struct({
+	shortName: Schema.optionalWith(Schema.String.pipe(Schema.minLength(1)), {
+		exact: true,
+	}),
+	description: Schema.optionalWith(Schema.String.pipe(Schema.minLength(1)), {
+		exact: true,
+	}),
+	id: Schema.optionalWith(Schema.String.pipe(Schema.minLength(1)), {
+		exact: true,
+	}),
+	startUrl: Schema.optionalWith(Schema.String.pipe(Schema.minLength(1)), {
+		exact: true,
+	}),
+	scope: Schema.optionalWith(Schema.String.pipe(Schema.minLength(1)), {
+		exact: true,
+	}),
+	display: Schema.optionalWith(
+		oneOf('fullscreen', 'standalone', 'minimal-ui', 'browser'),
+		{ exact: true },
+	),
+	displayOverride: Schema.optionalWith(
+		Schema.mutable(
+			Schema.Array(
+				oneOf(
+					'fullscreen',
+					'standalone',
+					'minimal-ui',
+					'browser',
+					'window-controls-overlay',
+					'tabbed',
+				),
+			),
+		),
+		{ exact: true },
+	),
+	orientation: Schema.optionalWith(
+		oneOf(
+			'any',
+			'natural',
+			'landscape',
+			'landscape-primary',
+			'landscape-secondary',
+			'portrait',
+			'portrait-primary',
+			'portrait-secondary',
+		),
+		{ exact: true },
+	),
+	shortcuts: Schema.optionalWith(
+		Schema.mutable(Schema.Array(WebManifestShortcutSchema)),
+		{ exact: true },
+	),
+})
+
+/** Variant fields replace their top-level counterparts, same ranges. */
+const VariantConfigSchema = Schema.Struct({
+	appName: Schema.optionalWith(Schema.String.pipe(Schema.minLength(1)), {
+		exact: true,
+	}),
+	background: Schema.optionalWith(BackgroundConfigSchema, { exact: true }),
+	foreground: Schema.optionalWith(ForegroundConfigSchema, { exact: true }),
+	iconScale: optionalScale(0.1, 1.5),
+	splashScale: optionalScale(0.05, 1.0),
+	faviconScale: optionalScale(0.5, 1.0),
+	storeScale: optionalScale(0.3, 0.8),
+	overrides: Schema.optionalWith(
+		Schema.Record({ key: Schema.String, value: AssetOverrideSchema }),
+		{ exact: true },
+	),
+	badge: Schema.optionalWith(BadgeConfigSchema, { exact: true }),
+})
+
+/** Variant names double as folders, Gradle flavors and icon set suffixes. */
+const VariantNameSchema = Schema.String.pipe(
+	Schema.pattern(VARIANT_NAME_PATTERN),
+)
+
+/**
+ * Schema for a fully resolved AssetGeneratorConfig.
+ *
+ * Scale ranges mirror the limits documented on AssetGeneratorConfig.
+ */
+export const AssetGeneratorConfigSchema = Schema.Struct({
+	appName: Schema.String.pipe(Schema.minLength(1)),
+	platforms: Schema.mutable(Schema.Array(PlatformSchema)).pipe(
+		Schema.minItems(1),
+	),
+	assetTypes: Schema.mutable(Schema.Array(AssetTypeSchema)).pipe(
+		Schema.minItems(1),
+	),
+	background: BackgroundConfigSchema,
+	foreground: ForegroundConfigSchema,
+	outputDir: FilePath,
+	iconScale: optionalScale(0.1, 1.5),
+	splashScale: optionalScale(0.05, 1.0),
+	faviconScale: optionalScale(0.5, 1.0),
+	storeScale: optionalScale(0.3, 0.8),
+	overrides: Schema.optionalWith(
+		Schema.Record({ key: Schema.String, value: AssetOverrideSchema }),
+		{ exact: true },
+	),
+	badge: Schema.optionalWith(BadgeConfigSchema, { exact: true }),
+	social: Schema.optionalWith(SocialConfigSchema, { exact: true }),
+	manifest: Schema.optionalWith(WebManifestConfigSchema, { exact: true }),
+	alternateIcons: Schema.optionalWith(AlternateIconsSchema, { exact: true }),
+	alternateIconLayout: Schema.optionalWith(oneOf('appiconset', 'files'), {
+		exact: true,
+	}),
+	variants: Schema.optionalWith(
+		Schema.Record({ key: VariantNameSchema, value: VariantConfigSchema }),
+		{ exact: true },
+	),
+	archive: Schema.optionalWith(
+		Schema.mutable(Schema.Array(oneOf('zip', 'tar.gz'))),
+		{ exact: true },
+	),
+	maskPreview: Schema.optionalWith(
+		Schema.mutable(Schema.Array(oneOf('png', 'html'))),
+		{ exact: true },
+	),
+	vectorMaster: Schema.optionalWith(
+		Schema.mutable(Schema.Array(oneOf('svg', 'pdf'))),
+		{ exact: true },
+	),
+	iosIconLayout: Schema.optionalWith(oneOf('folders', 'appiconset'), {
+		exact: true,
+	}),
+	iosSplashMode: Schema.optionalWith(oneOf('images', 'storyboard'), {
+		exact: true,
+	}),
+	androidLegacyShape: Schema.optionalWith(
+		oneOf('none', 'square', 'circle', 'squircle'),
+		{ exact: true },
+	),
+	androidAdaptiveFormat: Schema.optionalWith(oneOf('png', 'vector'), {
+		exact: true,
+	}),
+	androidIconFormat: Schema.optionalWith(oneOf('png', 'webp'), {
+		exact: true,
+	}),
+	webImageFormats: Schema.optionalWith(
+		Schema.mutable(Schema.Array(oneOf('webp', 'avif'))),
+		{ exact: true },
+	),
+	pngOptimization: Schema.optionalWith(oneOf('none', 'max', 'palette'), {
+		exact: true,
+	}),
+	fixStoreAssets: Schema.optionalWith(Schema.Boolean, { exact: true }),
+	xcassetsPath: Schema.optionalWith(FilePath, { exact: true }),
+	androidResPath: Schema.optionalWith(FilePath, { exact: true }),
+	manifestMergePath: Schema.optionalWith(FilePath, { exact: true }),
+})
+
+// ─── Validation ─────────────────────────────────────────────────────────────
+
+/**
+ * Format a schema issue path as a dotted field name.
+ *
+ * @example
+ * formatIssuePath(['background', 'gradient', 'colors', 1])
+ * // 'background.gradient.colors[1]'
+ */
+function formatIssuePath(path: ReadonlyArray<PropertyKey>): string {
+	return path
+		.map((key, i) =>
+			typeof key === 'number'
+				? `[${key}]`
+				: `${i > 0 ? '.' : ''}${String(key)}`,
+		)
+		.join('')
+}
+
+/**
+ * Validate an unknown value against the AssetGeneratorConfig schema.
+ *
+ * Unknown keys are rejected so typos like `iconscale` don't silently
+ * fall back to defaults.
+ *
+ * @param input - Candidate configuration object
+ * @returns The typed config, or one error message per offending field
+ */
+export function validateConfig(input: unknown): ConfigResult {
+	const result = Schema.decodeUnknownEither(AssetGeneratorConfigSchema)(input, {
+		errors: 'all',
+		onExcessProperty: 'error',
+	})
+
+	if (Either.isRight(result)) {
+		return { success: true, config: result.right }
+	}
+
+	const errors = ParseResult.ArrayFormatter.formatErrorSync(result.left).map(
+		issue =>
+			issue.path.length > 0
+				? `${formatIssuePath(issue.path)}: ${issue.message}`
+				: issue.message,
+	)
+	return { success: false, errors }
+}
+
+// ─── Layer Merging ──────────────────────────────────────────────────────────
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Merge a background/foreground override onto its base.
+ *
+ * Changing `type` starts over from that type's defaults so stale fields
+ * (e.g. a solid color when switching to gradient) don't leak through.
+ * Same-type overrides merge field by field, one level deep.
+ */
+function mergeLayer(
+	base: unknown,
+	override: unknown,
+	defaults: Record<string, unknown>,
+): unknown {
+	if (override === undefined) return base
+	if (!isRecord(override) || !isRecord(base)) return override
+
+	const typeChanged = override.type !== undefined && override.type !== base.type
+	const start = typeChanged
+		? (defaults[String(override.type)] ?? { type: override.type })
+		: base
+	if (!isRecord(start)) return override
+
+	const merged: Record<string, unknown> = { ...start }
+	for (const [key, value] of Object.entries(override)) {
+		const current = merged[key]
+		merged[key] =
+			isRecord(current) && isRecord(value) ? { ...current, ...value } : value
+	}
+	return merged
+}
+
+/**
+ * Merge configuration layers, later layers taking precedence.
+ *
+ * @param layers - Layers ordered from lowest to highest priority
+ * @returns Merged (unvalidated) configuration object
+ */
+export function mergeConfigLayers(
+	layers: ReadonlyArray<ConfigLayer>,
+): Record<string, unknown> {
+	let merged: Record<string, unknown> = {}
+
+	for (const layer of layers) {
+		const { background, foreground, badge, social, ...scalars } = layer
+		merged = {
+			...merged,
+			...scalars,
+			background: mergeLayer(
+				merged.background,
+				background,
+				DEFAULT_BACKGROUNDS,
+			),
+			foreground: mergeLayer(
+				merged.foreground,
+				foreground,
+				DEFAULT_FOREGROUNDS,
+			),
+			badge: mergeLayer(merged.badge, badge, {}),
+			social: mergeLayer(merged.social, social, {}),
+		}
+	}
+
+	if (merged.background === undefined) delete merged.background
+	if (merged.foreground === undefined) delete merged.foreground
+	if (merged.badge === undefined) delete merged.badge
+	if (merged.social === undefined) delete merged.social
+	return merged
+}
+
+/**
+ * Merge configuration layers and validate the result.
+ *
+ * @param layers - Layers ordered from lowest to highest priority
+ * @returns The resolved config, or field-level validation errors
+ */
+export function resolveConfig(
+	layers: ReadonlyArray<ConfigLayer>,
+): ConfigResult {
+	return validateConfig(mergeConfigLayers(layers))
+}
+
+// ─── File Loading ───────────────────────────────────────────────────────────
+
+/**
+ * Find a config file in the given directory.
+ *
+ * @param cwd - Directory to search (usually the project root)
+ * @returns Absolute path to the first matching file, or undefined
+ */
+export async function findConfigFile(
+	cwd: string = process.cwd(),
+): Promise<string | undefined> {
+	for (const name of CONFIG_FILE_NAMES) {
+		const candidate = join(cwd, name)
+		try {
+			await access(candidate)
+			return candidate
+		} catch {
+			// Try next name
+		}
+	}
+	return undefined
+}
+
+/**
+ * Resolve a path from the config file relative to the file's directory.
+ * Home-relative paths (~/) are expanded as on the command line.
+ */
+function resolveFromConfigDir(baseDir: string, value: unknown): unknown {
+	if (typeof value !== 'string' || value.length === 0) return value
+	return value.startsWith('~/') ? resolvePath(value) : resolve(baseDir, value)
+}
+
+/**
+ * Rewrite relative file paths in a raw config so the file behaves the same
+ * no matter which directory the CLI is launched from.
+ */
+function resolveConfigPaths(
+	raw: Record<string, unknown>,
+	baseDir: string,
+): Record<string, unknown> {
+	const config = { ...raw }
+
+	for (const key of [
+		'outputDir',
+		'xcassetsPath',
+		'androidResPath',
+		'manifestMergePath',
+	]) {
+		if (key in config) {
+			config[key] = resolveFromConfigDir(baseDir, config[key])
+		}
+	}
+	if (isRecord(config.background)) {
+		config.background = resolveLayerPaths(config.background, baseDir, [
+			'imagePath',
+		])
+	}
+	if (isRecord(config.foreground)) {
+		config.foreground = resolveLayerPaths(config.foreground, baseDir, [
+			'svgPath',
+			'imagePath',
+			'fontPath',
+		])
+	}
+	if (isRecord(config.badge)) {
+		config.badge = resolveLayerPaths(config.badge, baseDir, ['fontPath'])
+	}
+	if (isRecord(config.social)) {
+		config.social = resolveLayerPaths(config.social, baseDir, ['fontPath'])
+	}
+	if (Array.isArray(config.alternateIcons)) {
+		config.alternateIcons = config.alternateIcons.map(icon =>
+			isRecord(icon) ? resolveConfigPaths(icon, baseDir) : icon,
+		)
+	}
+	if (isRecord(config.manifest) && Array.isArray(config.manifest.shortcuts)) {
+		config.manifest = {
+			...config.manifest,
+			shortcuts: config.manifest.shortcuts.map(shortcut =>
+				isRecord(shortcut) ? resolveConfigPaths(shortcut, baseDir) : shortcut,
+			),
+		}
+	}
+	for (const key of ['overrides', 'variants']) {
+		const entries = config[key]
+		if (!isRecord(entries)) continue
+		const resolved: Record<string, unknown> = {}
+		for (const [name, entry] of Object.entries(entries)) {
+			resolved[name] = isRecord(entry)
+				? resolveConfigPaths(entry, baseDir)
+				: entry
+		}
+		config[key] = resolved
+	}
+
+	return config
+}
+
+/**
+ * Resolve the file path fields of a background or foreground layer,
+ * including its `dark` image.
+ */
+function resolveLayerPaths(
+	layer: Record<string, unknown>,
+	baseDir: string,
+	keys: string[],
+): Record<string, unknown> {
+	const resolved = { ...layer }
+	for (const key of keys) {
+		if (key in resolved) {
+			resolved[key] = resolveFromConfigDir(baseDir, resolved[key])
+		}
+	}
+	if (isRecord(resolved.dark) && 'imagePath' in resolved.dark) {
+		resolved.dark = {
+			...resolved.dark,
+			imagePath: resolveFromConfigDir(baseDir, resolved.dark.imagePath),
+		}
+	}
+	return resolved
+}
+
+/**
+ * Load a config file as a configuration layer.
+ *
+ * JSON files are parsed directly. TypeScript files are imported and their
+ * default export is used, which requires a runtime that can load .ts
+ * modules (Bun, or Node with type stripping).
+ *
+ * The returned layer is not validated on its own; pass it to
+ * resolveConfig() together with the other layers.
+ *
+ * @param filePath - Absolute path to the config file
+ * @returns The config as a layer with file paths made absolute
+ * @throws Error if the file can't be read or parsed
+ */
+export async function loadConfigFile(filePath: string): Promise<ConfigLayer> {
+	let raw: unknown
+
+	if (filePath.endsWith('.json')) {
+		const content = await readFile(filePath, 'utf-8')
+		try {
+			raw = JSON.parse(content)
+		} catch (error) {
+			throw new Error(
+				`Invalid JSON in ${filePath}: ${(error as Error).message}`,
+			)
+		}
+	} else {
+		const module = await import(pathToFileURL(filePath).href)
+		raw = module.default
+	}
+
+	if (!isRecord(raw)) {
+		throw new Error(`${filePath} must export a configuration object`)
+	}
+
+	// $schema is an editor hint, not part of the config.
+	const { $schema: _schema, ...config } = raw
+	return resolveConfigPaths(config, dirname(filePath)) as ConfigLayer
+}
@@ -0,0 +1,59 @@
+/**
+ * Console Reporter Module
+ *
+ * Prints generation progress to the terminal, one line per rendered asset
+ * or written file, in the format the CLI has always used:
+ *
+ *   ✓ Generated ios/icon-60@2x.png
+ *   ✗ Failed to generate ios/icon-1024.png: <reason>
+ *
+ * Library consumers pass their own GenerationReporter instead.
+ */
+
+import { isAbsolute, relative } from 'node:path'
+
+import type { GenerationReporter } from '../types'
+
+/**
+ * Options for the console reporter.
+ */
+export interface ConsoleReporterOptions {
+	/** Only print errors and warnings. */
+	quiet?: boolean
+}
+
+/**
+ * Create a reporter that logs generation progress to the console.
+ *
+ * Asset images are announced once when rendered; their later write to disk
+ * is not repeated. Other files are shown relative to the output directory.
+ *
+ * @param outputDir - Output directory, used to shorten printed paths
+ * @param options - Reporter options
+ */
+export function createConsoleReporter(
+	outputDir: string,
+	options: ConsoleReporterOptions = {},
+): GenerationReporter {
+	const announced = new Set<string>()
+
+	const displayPath = (path: string): string => {
+		const relativePath = relative(outputDir, path)
+		return relativePath.startsWith('..') || isAbsolute(relativePath)
+			? path
+			: relativePath
+	}
+
+	return {
+		onAssetDone: asset => {
+			announced.add(asset.path)
+			if (!options.quiet) console.log(`✓ Generated ${asset.spec.name}`)
+		},
+		onFileWritten: path => {
+			if (announced.has(path) || options.quiet) return
+			console.log(`✓ Generated ${displayPath(path)}`)
+		},
+		onError: message => console.error(`✗ ${message}`),
+		onWarning: message => console.warn(`Warning: ${message}`),
+	}
+}
@@ -0,0 +1,135 @@
+/**
+ * Drift Check Module
+ *
+ * Compares files rendered in memory against an output directory on disk,
+ * so CI can fail when committed icons no longer match their config
+ * (`appicons generate --check`).
+ *
+ * Comparison per file:
+ * - Identical bytes: up to date.
+ * - PNG and WebP images: decoded and compared pixel by pixel, so the
+ *   report says whether the image itself changed or only its encoding.
+ * - Anything else: different whenever the bytes differ.
+ *
+ * Hidden files (e.g., .DS_Store) are ignored when looking for extra files.
+ */
+
+import { readdir, readFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import sharp from 'sharp'
+
+import type { DriftEntry } from '../types'
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+/** Images compared by pixels (AVIF companions are lossy). */
+const LOSSLESS_IMAGE = /\.(png|webp)$/
+
+// ─── File Listing ───────────────────────────────────────────────────────────
+
+/**
+ * List files below a directory as `/`-separated relative paths.
+ *
+ * A missing directory has no files.
+ */
+async function listFiles(dir: string, prefix = ''): Promise<string[]> {
+	let entries: Array<{ name: string; isDirectory(): boolean }>
+	try {
+		entries = await readdir(join(dir, prefix), { withFileTypes: true })
+	} catch {
+		return []
+	}
+
+	const files: string[] = []
+	for (const entry of entries) {
+		if (entry.name.startsWith('.')) continue
+		const path = prefix === '' ? entry.name : `${prefix}/${entry.name}`
+		if (entry.isDirectory()) files.push(...(await listFiles(dir, path)))
+		else files.push(path)
+	}
+	return files
+}
+
+// ─── Comparison ─────────────────────────────────────────────────────────────
+
+/**
+ * Decode an image to raw RGBA pixels.
+ */
+async function decodePixels(
+	image: Buffer,
+): Promise<{ width: number; height: number; data: Buffer }> {
+	const { data, info } = await sharp(image)
+		.ensureAlpha()
+		.raw()
+		.toBuffer({ resolveWithObject: true })
+	return { width: info.width, height: info.height, data }
+}
+
+/**
+ * Describe how two versions of the same file differ.
+ *
+ * @param path - Relative path, used to detect PNG and WebP images
+ * @param actual - Content on disk
+ * @param expected - Content the config generates
+ */
+async function describeDifference(
+	path: string,
+	actual: Buffer,
+	expected: Buffer,
+): Promise<string> {
+	if (!LOSSLESS_IMAGE.test(path)) return 'bytes differ'
+
+	try {
+		const [onDisk, generated] = await Promise.all([
+			decodePixels(actual),
+			decodePixels(expected),
+		])
+		if (
+			onDisk.width !== generated.width ||
+			onDisk.height !== generated.height
+		) {
+			return `size ${onDisk.width}x${onDisk.height}, expected ${generated.width}x${generated.height}`
+		}
+		return onDisk.data.equals(generated.data)
+			? 'same pixels, bytes differ'
+			: 'pixels differ'
+	} catch {
+		// The file on disk is not a readable image.
+		return 'bytes differ'
+	}
+}
+
+/**
+ * Compare expected output files against an output directory.
+ *
+ * @param expected - File contents keyed by path relative to the output dir
+ * @param outputDir - Directory holding the committed files
+ * @returns Missing, extra and different files, sorted by path
+ */
+export async function compareOutputFiles(
+	expected: Map<string, Buffer>,
+	outputDir: string,
+): Promise<DriftEntry[]> {
+	const onDisk = new Set(await listFiles(outputDir))
+	const drift: DriftEntry[] = []
+
+	for (const [path, data] of expected) {
+		if (!onDisk.has(path)) {
+			drift.push({ path, status: 'missing' })
+			continue
+		}
+		const actual = await readFile(join(outputDir, path))
+		if (actual.equals(data)) continue
+		drift.push({
+			path,
+			status: 'different',
+			reason: await describeDifference(path, actual, data),
+		})
+	}
+
+	for (const path of onDisk) {
+		if (!expected.has(path)) drift.push({ path, status: 'extra' })
+	}
+
+	return drift.sort((a, b) => a.path.localeCompare(b.path))
+}
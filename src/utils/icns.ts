@@ -0,0 +1,91 @@
+/**
+ * Apple Icon Image (.icns) Module
+ *
+ * Packs PNG images into a macOS `.icns` file, the format Electron, Tauri
+ * and app bundles without an asset catalog use for the application icon.
+ *
+ * File layout (all integers big-endian):
+ * - Header: magic `icns` + total file length.
+ * - One chunk per image: 4-character type + chunk length (including the
+ *   8-byte chunk header) + PNG data.
+ *
+ * Only PNG-backed types are written; they are supported since OS X 10.7.
+ *
+ * @see https://en.wikipedia.org/wiki/Apple_Icon_Image_format
+ */
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+/**
+ * A single image to place in an icns file.
+ */
+export interface IcnsEntry {
+	/** Size in points (16, 32, 128, 256, 512). */
+	points: number
+
+	/** Display scale: 1 for standard, 2 for Retina. */
+	scale: number
+
+	/** PNG data at points × scale pixels. */
+	data: Buffer
+}
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+/** Chunk type for each `<points>@<scale>x` slot. */
+const ICNS_TYPES: Record<string, string> = {
+	'16@1x': 'icp4',
+	'16@2x': 'ic11',
+	'32@1x': 'icp5',
+	'32@2x': 'ic12',
+	'128@1x': 'ic07',
+	'128@2x': 'ic13',
+	'256@1x': 'ic08',
+	'256@2x': 'ic14',
+	'512@1x': 'ic09',
+	'512@2x': 'ic10',
+}
+
+/** Size of the file header and of each chunk header in bytes. */
+const HEADER_SIZE = 8
+
+// ─── Encoding ───────────────────────────────────────────────────────────────
+
+/**
+ * Get the icns chunk type for an icon slot.
+ *
+ * @throws Error if the size has no PNG-backed icns type
+ */
+export function getIcnsType(points: number, scale: number): string {
+	const type = ICNS_TYPES[`${points}@${scale}x`]
+	if (type === undefined) {
+		throw new Error(`No icns type for ${points}pt @${scale}x`)
+	}
+	return type
+}
+
+/**
+ * Encode PNG images into an icns file.
+ *
+ * Chunks are written in the order given; callers pass entries sorted by
+ * size so the output is deterministic.
+ *
+ * @throws Error if an entry has no PNG-backed icns type
+ */
+export function encodeIcns(entries: IcnsEntry[]): Buffer {
+	const chunks: Buffer[] = []
+
+	for (const entry of entries) {
+		const header = Buffer.alloc(HEADER_SIZE)
+		header.write(getIcnsType(entry.points, entry.scale), 0, 'ascii')
+		header.writeUInt32BE(HEADER_SIZE + entry.data.length, 4)
+		chunks.push(header, entry.data)
+	}
+
+	const body = Buffer.concat(chunks)
+	const header = Buffer.alloc(HEADER_SIZE)
+	header.write('icns', 0, 'ascii')
+	header.writeUInt32BE(HEADER_SIZE + body.length, 4)
+
+	return Buffer.concat([header, body])
+}
@@ -0,0 +1,156 @@
+/**
+ * Image Format Module
+ *
+ * Encodes rendered PNG assets into the files written to the output
+ * directory:
+ * - Android launcher mipmaps as lossless WebP (`androidIconFormat`).
+ * - WebP/AVIF companions next to web favicons and icons
+ *   (`webImageFormats`), for `<picture>` sources and manifest entries.
+ * - Optimized PNG (`pngOptimization`) for everything else.
+ *
+ * Store files that must not carry alpha (the App Store icon, feature
+ * graphic and TV banner) lose their opaque alpha channel, or with
+ * `fixStoreAssets` are flattened onto the background. Store files are
+ * never palette PNGs, which App Store Connect and Play reject.
+ *
+ * Containers built from the rendered PNGs (favicon.ico, icon.icns, mask
+ * previews) are unaffected, since only the written files are re-encoded.
+ */
+
+import { join } from 'node:path'
+import sharp from 'sharp'
+
+import { getOutputFileName, getWebCompanions } from '../assets/asset_specs'
+import type {
+	AssetGeneratorConfig,
+	GeneratedAsset,
+	PngOptimization,
+	WebImageFormat,
+} from '../types'
+import {
+	fixStoreFile,
+	getStoreFileRule,
+	removeOpaqueAlpha,
+	type StoreFileRules,
+} from './store_compliance'
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+/** AVIF quality for web companions; lossless AVIF is larger than PNG. */
+const AVIF_QUALITY = 80
+
+// ─── Encoding ───────────────────────────────────────────────────────────────
+
+/**
+ * Re-encode a PNG with the configured optimization.
+ *
+ * 'max' tries maximum zlib compression with and without adaptive row
+ * filtering, which wins depends on the image, and keeps the smallest
+ * encoding (possibly the original).
+ */
+export async function optimizePng(
+	png: Buffer,
+	optimization: PngOptimization,
+): Promise<Buffer> {
+	if (optimization === 'none') return png
+	if (optimization === 'palette') {
+		return sharp(png)
+			.png({ palette: true, compressionLevel: 9, effort: 10 })
+			.toBuffer()
+	}
+
+	let smallest = png
+	for (const adaptiveFiltering of [false, true]) {
+		const encoded = await sharp(png)
+			.png({ compressionLevel: 9, adaptiveFiltering })
+			.toBuffer()
+		if (encoded.length < smallest.length) smallest = encoded
+	}
+	return smallest
+}
+
+/**
+ * Prepare a rendered store file for upload (see store_compliance).
+ */
+async function encodeStorePng(
+	config: AssetGeneratorConfig,
+	rules: StoreFileRules,
+	png: Buffer,
+	background: string,
+): Promise<Buffer> {
+	const prepared = config.fixStoreAssets
+		? await fixStoreFile(rules, png, background)
+		: rules.alpha
+			? png
+			: await removeOpaqueAlpha(png)
+	const optimization = config.pngOptimization ?? 'none'
+	return optimizePng(
+		prepared,
+		optimization === 'palette' ? 'max' : optimization,
+	)
+}
+
+/**
+ * Encode a rendered PNG as a web companion.
+ */
+async function encodeWebImage(
+	png: Buffer,
+	format: WebImageFormat,
+): Promise<Buffer> {
+	const image = sharp(png)
+	return format === 'webp'
+		? image.webp({ lossless: true }).toBuffer()
+		: image.avif({ quality: AVIF_QUALITY }).toBuffer()
+}
+
+/**
+ * Encode rendered assets into the files to write.
+ *
+ * Each asset keeps its spec dimensions; WebP mipmaps and companions get
+ * their own names. Re-encoded files record the size of the default PNG in
+ * `originalSize`, and companions record 0.
+ *
+ * @param background - Color transparent store files are flattened onto
+ *   with `fixStoreAssets`
+ * @returns Assets to write, each followed by its companions
+ */
+export async function encodeOutputAssets(
+	config: AssetGeneratorConfig,
+	assets: GeneratedAsset[],
+	background = '#FFFFFF',
+): Promise<GeneratedAsset[]> {
+	const optimization = config.pngOptimization ?? 'none'
+	const outputs: GeneratedAsset[] = []
+
+	for (const asset of assets) {
+		const name = getOutputFileName(config, asset.spec.name)
+		const storeRules = getStoreFileRule(asset.spec.name)
+		const buffer =
+			name !== asset.spec.name
+				? await sharp(asset.buffer).webp({ lossless: true }).toBuffer()
+				: storeRules
+					? await encodeStorePng(config, storeRules, asset.buffer, background)
+					: await optimizePng(asset.buffer, optimization)
+		outputs.push(
+			name === asset.spec.name && buffer === asset.buffer
+				? asset
+				: {
+						spec: { ...asset.spec, name },
+						buffer,
+						path: join(config.outputDir, name),
+						originalSize: asset.buffer.length,
+					},
+		)
+
+		for (const companion of getWebCompanions(config, asset.spec.name)) {
+			outputs.push({
+				spec: { ...asset.spec, name: companion.name },
+				buffer: await encodeWebImage(asset.buffer, companion.format),
+				path: join(config.outputDir, companion.name),
+				originalSize: 0,
+			})
+		}
+	}
+
+	return outputs
+}
@@ -5,20 +5,65 @@
  * into an Expo project.
  */
 
+import { relative } from 'node:path'
+
+import {
+	ANDROID_NOTIFICATION_ICON_NAME,
+	getAlternateIconLayout,
+	getAlternateIconSetDir,
+	getAlternateIconSetName,
+	getAndroidIconFormat,
+	getIosIconLayout,
+	getIosSplashMode,
+	getLinuxAppId,
+	getWebHeadFiles,
+	IOS_ALTERNATE_ICONS_DIR,
+	IOS_APP_ICON_SET_DIR,
+	IOS_LAUNCH_BACKGROUND_DIR,
+	IOS_LAUNCH_LOGO_DIR,
+	IOS_LAUNCH_SCREEN_STORYBOARD,
+	SOCIAL_ASSETS,
+	WEB_BROWSERCONFIG_XML,
+	WEB_HEAD_HTML,
+} from '../assets/asset_specs'
 import type {
 	AssetGeneratorConfig,
 	AssetType,
 	BackgroundConfig,
 	ForegroundConfig,
+	IosIconLayout,
 	Platform,
+	WebImageFormat,
 } from '../types'
+import {
+	createAlternateIconsExpoConfig,
+	createAlternateIconsPlist,
+	getAlternateIconSource,
+} from './alternate_icons'
+import { createSocialMetaTags, SOCIAL_IMAGE_ORIGIN } from './social'
+import { getVariantAppIconName, getVariantNames } from './variants'
+import {
+	type AdaptiveIconDrawables,
+	getAdaptiveIconDrawables,
+	getVectorAdaptiveLayers,
+	PNG_ADAPTIVE_LAYERS,
+} from './vector_drawable'
+import { getVectorMasterFiles } from './vector_master'
 
 export interface GenerationContext {
 	outputDir: string
 	platforms: Platform[]
 	assetTypes: AssetType[]
 	zipPath?: string | undefined
+	tarPath?: string | undefined
 	config?: AssetGeneratorConfig
+	/** Build variant the output belongs to (a key of config.variants). */
+	variant?: string | undefined
+	/**
+	 * Directory to write paths relative to (the README.md's folder), so
+	 * the text does not depend on where the output is checked out.
+	 */
+	relativeTo?: string | undefined
 }
 
 export interface InstructionStep {
@@ -34,6 +79,10 @@ export interface Instructions {
 	generationConfig?: string | undefined
 	steps: InstructionStep[]
 	expoConfigChanges?: string
+	/** Info.plist and Expo/React Native config for alternate app icons. */
+	alternateIcons?: string | undefined
+	/** Open Graph and Twitter/X meta tags for the social share images. */
+	socialMetaTags?: string | undefined
 	notes: string[]
 }
 
@@ -41,9 +90,27 @@ export interface Instructions {
  * Generate human-readable instructions for integrating assets into Expo.
  */
 export function generateInstructions(context: GenerationContext): Instructions {
-	const { outputDir, platforms, assetTypes } = context
+	const { platforms, assetTypes, relativeTo } = context
+	const displayPath = (path: string) =>
+		relativeTo !== undefined ? relative(relativeTo, path) || '.' : path
+	const outputDir = displayPath(context.outputDir)
 	const steps: InstructionStep[] = []
 	let stepNum = 1
+	const iosLayout = getIosIconLayout(context.config ?? {})
+	const iosIconDir = iosLayout === 'appiconset' ? IOS_APP_ICON_SET_DIR : 'ios'
+	const useLaunchStoryboard =
+		platforms.includes('ios') &&
+		getIosSplashMode(context.config ?? {}) === 'storyboard'
+	const { variant } = context
+	const appIconSetName =
+		variant !== undefined
+			? `${getVariantAppIconName(variant)}.appiconset`
+			: 'AppIcon.appiconset'
+	const vectorLayers = context.config
+		? getVectorAdaptiveLayers(context.config)
+		: PNG_ADAPTIVE_LAYERS
+	const mipmapExtension = getAndroidIconFormat(context.config ?? {})
+	const webImageFormats = [...new Set(context.config?.webImageFormats ?? [])]
 
 	// Step 1: Copy main icon
 	if (assetTypes.includes('icon')) {
@@ -51,13 +118,41 @@ export function generateInstructions(context: GenerationContext): Instructions {
 			step: stepNum++,
 			title: 'Copy app icon',
 			description: 'Copy the main icon to your Expo assets directory',
-			command: `cp ${outputDir}/ios/icon-1024.png ../expo/assets/images/icon.png`,
-			files: [`${outputDir}/ios/icon-1024.png`],
+			command: `cp ${outputDir}/${iosIconDir}/icon-1024.png ../expo/assets/images/icon.png`,
+			files: [`${outputDir}/${iosIconDir}/icon-1024.png`],
 		})
 	}
 
 	// Step 2: Copy adaptive icon (Android)
-	if (platforms.includes('android') && assetTypes.includes('adaptive')) {
+	if (
+		platforms.includes('android') &&
+		assetTypes.includes('adaptive') &&
+		vectorLayers.foreground
+	) {
+		// Expo's adaptiveIcon only takes PNG layers.
+		steps.push({
+			step: stepNum++,
+			title: 'Install Android vector adaptive icon',
+			description:
+				'Copy drawable/ and mipmap-anydpi-v26/ into android/app/src/main/res (Expo adaptiveIcon needs PNG layers: use --android-adaptive-format png)',
+			files: [
+				`${outputDir}/android/drawable/ic_launcher_*.xml`,
+				`${outputDir}/android/mipmap-anydpi-v26/`,
+			],
+		})
+	} else if (
+		platforms.includes('android') &&
+		assetTypes.includes('adaptive') &&
+		mipmapExtension === 'webp'
+	) {
+		steps.push({
+			step: stepNum++,
+			title: 'Install Android WebP mipmaps',
+			description:
+				'Copy mipmap-*/ into android/app/src/main/res (Expo adaptiveIcon needs PNG layers: use --android-icon-format png)',
+			files: [`${outputDir}/android/mipmap-*/`],
+		})
+	} else if (platforms.includes('android') && assetTypes.includes('adaptive')) {
 		steps.push({
 			step: stepNum++,
 			title: 'Copy Android adaptive icon',
@@ -69,19 +164,54 @@ export function generateInstructions(context: GenerationContext): Instructions {
 
 	// Step 3: Copy splash screen
 	if (assetTypes.includes('splash')) {
+		const splashSource = useLaunchStoryboard
+			? `${outputDir}/${IOS_LAUNCH_LOGO_DIR}/LaunchLogo@3x.png`
+			: `${outputDir}/ios/splash-1170x2532.png`
 		steps.push({
 			step: stepNum++,
 			title: 'Copy splash screen',
 			description:
 				'Copy a splash screen image (choose appropriate size for your needs)',
-			command: `cp ${outputDir}/ios/splash-1170x2532.png ../expo/assets/images/splash.png`,
+			command: `cp ${splashSource} ../expo/assets/images/splash.png`,
 			files: [
-				`${outputDir}/ios/splash-*.png`,
+				useLaunchStoryboard
+					? `${outputDir}/${IOS_LAUNCH_LOGO_DIR}/LaunchLogo*.png`
+					: `${outputDir}/ios/splash-*.png`,
 				`${outputDir}/android/drawable-*/splash.png`,
 			],
 		})
 	}
 
+	// Step: Add the launch storyboard to Xcode
+	if (useLaunchStoryboard && assetTypes.includes('splash')) {
+		steps.push({
+			step: stepNum++,
+			title: 'Add LaunchScreen.storyboard to Xcode',
+			description:
+				'Copy LaunchLogo.imageset and LaunchBackground.colorset into your Images.xcassets, add LaunchScreen.storyboard to the app target and set it as the Launch Screen File (UILaunchStoryboardName)',
+			files: [
+				`${outputDir}/${IOS_LAUNCH_SCREEN_STORYBOARD}`,
+				`${outputDir}/${IOS_LAUNCH_LOGO_DIR}/`,
+				`${outputDir}/${IOS_LAUNCH_BACKGROUND_DIR}/`,
+			],
+		})
+	}
+
+	// Step: Configure Android 12+ splash screen
+	if (platforms.includes('android') && assetTypes.includes('splash')) {
+		steps.push({
+			step: stepNum++,
+			title: 'Configure Android 12+ splash screen',
+			description:
+				'Copy drawable-*/splashscreen_icon.png and values-v31/, values-night-v31/ themes.xml to your res folder, set Theme.App.SplashScreen on the launcher activity and call installSplashScreen()',
+			files: [
+				`${outputDir}/android/drawable-*/splashscreen_icon.png`,
+				`${outputDir}/android/values-v31/themes.xml`,
+				`${outputDir}/android/values-night-v31/themes.xml`,
+			],
+		})
+	}
+
 	// Step 4: Copy favicon (Web)
 	if (platforms.includes('web') && assetTypes.includes('favicon')) {
 		steps.push({
@@ -89,13 +219,72 @@ export function generateInstructions(context: GenerationContext): Instructions {
 			title: 'Copy web favicon',
 			description:
 				'Copy favicon.ico to public root and PNG favicons for web builds',
-			command: `cp ${outputDir}/web/favicon.ico ../public/ && cp ${outputDir}/web/favicon-*.png ../public/`,
-			files: [`${outputDir}/web/favicon.ico`, `${outputDir}/web/favicon-*.png`],
+			command: `cp ${outputDir}/web/favicon.ico ../public/ && cp ${['png', ...webImageFormats].map(ext => `${outputDir}/web/favicon-*.${ext}`).join(' ')} ../public/`,
+			files: [
+				`${outputDir}/web/favicon.ico`,
+				...['png', ...webImageFormats].map(
+					ext => `${outputDir}/web/favicon-*.${ext}`,
+				),
+			],
+		})
+	}
+
+	// Step 5: Add the self-contained icon set to Xcode
+	const xcassetsPath =
+		context.config?.xcassetsPath !== undefined
+			? displayPath(context.config.xcassetsPath)
+			: undefined
+	if (
+		iosLayout === 'appiconset' &&
+		platforms.includes('ios') &&
+		assetTypes.includes('icon')
+	) {
+		steps.push({
+			step: stepNum++,
+			title: `Add ${appIconSetName} to Xcode`,
+			description:
+				xcassetsPath !== undefined
+					? `${appIconSetName} (light, dark, tinted and clear variants) was installed into ${xcassetsPath}; rebuild in Xcode`
+					: `Replace ${appIconSetName} in your Images.xcassets with this folder; it already contains light, dark, tinted and clear variants`,
+			files: [`${outputDir}/${IOS_APP_ICON_SET_DIR}/`],
+		})
+	}
+
+	// Step: Add alternate app icons
+	const alternateIcons =
+		platforms.includes('ios') && assetTypes.includes('icon')
+			? (context.config?.alternateIcons ?? [])
+			: []
+	const alternateLayout = getAlternateIconLayout(context.config ?? {})
+	if (alternateIcons.length > 0) {
+		const names = alternateIcons.map(icon => icon.name)
+		const copyToExpo = alternateIcons
+			.map(
+				icon =>
+					`cp ${outputDir}/${getAlternateIconSource(icon.name, alternateLayout)} ../expo/assets/images/alternate-icons/${icon.name}.png`,
+			)
+			.join(' && ')
+		steps.push({
+			step: stepNum++,
+			title: 'Add alternate app icons',
+			description:
+				alternateLayout === 'appiconset'
+					? `${xcassetsPath !== undefined ? `${names.map(getAlternateIconSetName).join(', ')} were installed into ${xcassetsPath}` : `Add ${names.map(getAlternateIconSetName).join(', ')} to your Images.xcassets`}; set Alternate App Icon Sets (ASSETCATALOG_COMPILER_ALTERNATE_APPICON_NAMES) to them, or enable Include All App Icon Assets, and add the CFBundleAlternateIcons entries below to Info.plist. For Expo, copy the sources to assets/images/alternate-icons/`
+					: `Add the ${IOS_ALTERNATE_ICONS_DIR}/ files to the app target (not the asset catalog) and the CFBundleAlternateIcons entries below to Info.plist. For Expo, copy the sources to assets/images/alternate-icons/`,
+			command: `mkdir -p ../expo/assets/images/alternate-icons && ${copyToExpo}`,
+			files:
+				alternateLayout === 'appiconset'
+					? names.map(name => `${outputDir}/${getAlternateIconSetDir(name)}/`)
+					: [`${outputDir}/${IOS_ALTERNATE_ICONS_DIR}/`],
 		})
 	}
 
 	// Step 5: Configure iOS 18 icon variants (dark, tinted, clear)
-	if (platforms.includes('ios') && assetTypes.includes('icon')) {
+	if (
+		iosLayout === 'folders' &&
+		platforms.includes('ios') &&
+		assetTypes.includes('icon')
+	) {
 		steps.push({
 			step: stepNum++,
 			title: 'Configure iOS 18 icon variants (Xcode)',
@@ -117,26 +306,102 @@ export function generateInstructions(context: GenerationContext): Instructions {
 			title: 'Configure Android 13+ monochrome icons',
 			description:
 				'Add monochrome layer to your adaptive-icon XML for Material You themed icons',
-			files: [`${outputDir}/android/mipmap-*/ic_launcher_monochrome.png`],
+			files: [
+				vectorLayers.monochrome
+					? `${outputDir}/android/drawable/ic_launcher_monochrome.xml`
+					: `${outputDir}/android/mipmap-*/ic_launcher_monochrome.${mipmapExtension}`,
+			],
+		})
+	}
+
+	// Step: Add the notification icon
+	if (platforms.includes('android') && assetTypes.includes('notification')) {
+		steps.push({
+			step: stepNum++,
+			title: 'Add the Android notification icon',
+			description: context.config?.androidResPath
+				? `${ANDROID_NOTIFICATION_ICON_NAME}.png was installed into the drawable folders; point expo-notifications or the default_notification_icon meta-data at it`
+				: `Copy drawable-*/${ANDROID_NOTIFICATION_ICON_NAME}.png into android/app/src/main/res, or use the 96px icon with expo-notifications`,
+			command: `cp ${outputDir}/android/drawable-xxxhdpi/${ANDROID_NOTIFICATION_ICON_NAME}.png ../expo/assets/images/notification-icon.png`,
+			files: [
+				`${outputDir}/android/drawable-*/${ANDROID_NOTIFICATION_ICON_NAME}.png`,
+			],
 		})
 	}
 
 	// Step 7: Copy web manifest and PWA icons
 	if (platforms.includes('web') && assetTypes.includes('favicon')) {
+		const manifestMergePath =
+			context.config?.manifestMergePath !== undefined
+				? displayPath(context.config.manifestMergePath)
+				: undefined
+		const hasShortcuts = (context.config?.manifest?.shortcuts ?? []).length > 0
 		steps.push({
 			step: stepNum++,
 			title: 'Copy web manifest and PWA icons',
 			description:
-				'Copy site.webmanifest and PWA icons (including maskable) to your web public folder',
+				manifestMergePath !== undefined && variant === undefined
+					? `The icons array of ${manifestMergePath} was replaced and the PWA icons copied next to it${hasShortcuts ? '; shortcuts are only in site.webmanifest, copy them and their icons by hand' : ''}`
+					: 'Copy site.webmanifest and PWA icons (including maskable) to your web public folder',
 			files: [
 				`${outputDir}/web/site.webmanifest`,
-				`${outputDir}/web/icon-*.png`,
+				...['png', ...webImageFormats].map(
+					ext => `${outputDir}/web/icon-*.${ext}`,
+				),
+				...(hasShortcuts ? [`${outputDir}/web/shortcut-*.png`] : []),
+			],
+		})
+	}
+
+	// Step 8: Link the web icons from the page head
+	if (platforms.includes('web') && assetTypes.includes('favicon')) {
+		const headFiles = context.config
+			? getWebHeadFiles(context.config)
+			: [WEB_HEAD_HTML, WEB_BROWSERCONFIG_XML]
+		steps.push({
+			step: stepNum++,
+			title: 'Add web head tags',
+			description:
+				"Copy the remaining web files and Windows tiles to your public folder, and paste head.html into your page's <head> (favicon, touch icon, manifest and theme-color tags)",
+			files: [
+				...headFiles.map(name => `${outputDir}/${name}`),
+				`${outputDir}/web/mstile-*.png`,
+			],
+		})
+	}
+
+	// Step: Link the iOS startup images from the page head
+	if (platforms.includes('web') && assetTypes.includes('splash')) {
+		steps.push({
+			step: stepNum++,
+			title: 'Add iOS startup images',
+			description:
+				"Copy the apple-splash-*.png images to your public folder and paste head.html into your page's <head>; it links each image for its device, orientation and color scheme, shown when the web app opens from the home screen",
+			files: [
+				`${outputDir}/web/apple-splash-*.png`,
+				`${outputDir}/${WEB_HEAD_HTML}`,
 			],
 		})
 	}
 
+	// Step: Link the social share images from the page head
+	const hasSocialImages =
+		platforms.includes('web') && assetTypes.includes('social')
+	if (hasSocialImages) {
+		steps.push({
+			step: stepNum++,
+			title: 'Add social share meta tags',
+			description: `Copy the share images to your public folder and paste the Open Graph and Twitter/X meta tags into your page's <head>, replacing ${SOCIAL_IMAGE_ORIGIN} with your site's origin`,
+			files: SOCIAL_ASSETS.map(spec => `${outputDir}/${spec.name}`),
+		})
+	}
+
 	// Step: Use auto-generated iOS Contents.json
-	if (platforms.includes('ios') && assetTypes.includes('icon')) {
+	if (
+		iosLayout === 'folders' &&
+		platforms.includes('ios') &&
+		assetTypes.includes('icon')
+	) {
 		steps.push({
 			step: stepNum++,
 			title: 'Use auto-generated iOS Contents.json',
@@ -146,8 +411,33 @@ export function generateInstructions(context: GenerationContext): Instructions {
 		})
 	}
 
+	// Step: Android resources installed into the project
+	const androidResPath =
+		context.config?.androidResPath !== undefined
+			? displayPath(context.config.androidResPath)
+			: undefined
+	if (androidResPath !== undefined && platforms.includes('android')) {
+		const target =
+			variant !== undefined
+				? `the src/${variant}/res source set of ${androidResPath}`
+				: androidResPath
+		steps.push({
+			step: stepNum++,
+			title: 'Review Android resources in your project',
+			description: `Launcher mipmaps, adaptive icon XML and colors.xml were installed into ${target}; review the changes and rebuild`,
+			files: [
+				`${androidResPath}/mipmap-*/`,
+				`${androidResPath}/values/colors.xml`,
+			],
+		})
+	}
+
 	// Step: Use auto-generated Android XML
-	if (platforms.includes('android') && assetTypes.includes('adaptive')) {
+	if (
+		androidResPath === undefined &&
+		platforms.includes('android') &&
+		assetTypes.includes('adaptive')
+	) {
 		steps.push({
 			step: stepNum++,
 			title: 'Use auto-generated Android adaptive icon XML',
@@ -217,6 +507,70 @@ export function generateInstructions(context: GenerationContext): Instructions {
 		})
 	}
 
+	// Step: Configure macOS icons
+	if (platforms.includes('macos') && assetTypes.includes('icon')) {
+		steps.push({
+			step: stepNum++,
+			title: 'Configure macOS icons',
+			description:
+				'Replace AppIcon.appiconset in your Mac target asset catalog, or point Electron (build/icon.icns) / Tauri (bundle.icon) at icon.icns',
+			files: [
+				`${outputDir}/macos/AppIcon.appiconset/`,
+				`${outputDir}/macos/icon.icns`,
+			],
+		})
+	}
+
+	// Step: Configure Windows icons
+	if (platforms.includes('windows') && assetTypes.includes('icon')) {
+		steps.push({
+			step: stepNum++,
+			title: 'Configure Windows icons',
+			description:
+				'Use icon.ico as the executable icon (Electron build/icon.ico, Tauri bundle.icon, or the .rc ICON resource)',
+			files: [`${outputDir}/windows/icon.ico`],
+		})
+	}
+
+	// Step: Configure Linux icons
+	if (platforms.includes('linux') && assetTypes.includes('icon')) {
+		const appId = getLinuxAppId(context.config?.appName ?? '')
+		steps.push({
+			step: stepNum++,
+			title: 'Configure Linux icons',
+			description: `Install hicolor/ into /usr/share/icons (or ~/.local/share/icons) and ${appId}.desktop into /usr/share/applications; adjust Exec= to your binary`,
+			command: `cp -r ${outputDir}/linux/hicolor ~/.local/share/icons/ && cp ${outputDir}/linux/${appId}.desktop ~/.local/share/applications/`,
+			files: [
+				`${outputDir}/linux/hicolor/`,
+				`${outputDir}/linux/${appId}.desktop`,
+			],
+		})
+	}
+
+	// Step: Wire the build variant into the native build configurations
+	if (variant !== undefined && platforms.includes('android')) {
+		steps.push({
+			step: stepNum++,
+			title: `Add the ${variant} product flavor`,
+			description: `Declare productFlavors { ${variant} { dimension "environment" } } in android/app/build.gradle; Gradle merges src/${variant}/res over src/main/res for that flavor`,
+			...(androidResPath === undefined && {
+				command: `mkdir -p android/app/src/${variant}/res && cp -r ${outputDir}/android/mipmap-* android/app/src/${variant}/res/`,
+			}),
+			files: [`${outputDir}/android/`],
+		})
+	}
+	if (
+		variant !== undefined &&
+		platforms.includes('ios') &&
+		assetTypes.includes('icon')
+	) {
+		steps.push({
+			step: stepNum++,
+			title: `Use ${getVariantAppIconName(variant)} for the ${variant} build configuration`,
+			description: `In the app target's Build Settings, set Primary App Icon Set Name (ASSETCATALOG_COMPILER_APPICON_NAME) to ${getVariantAppIconName(variant)} for the build configurations of the ${variant} scheme`,
+		})
+	}
+
 	// Step: Rebuild native projects
 	steps.push({
 		step: stepNum++,
@@ -226,12 +580,18 @@ export function generateInstructions(context: GenerationContext): Instructions {
 	})
 
 	// Generate expo config example
-	const expoConfigChanges = generateExpoConfigExample(platforms, assetTypes)
+	const expoConfigChanges = generateExpoConfigExample(
+		platforms,
+		assetTypes,
+		iosLayout,
+		getAdaptiveIconDrawables(vectorLayers),
+		webImageFormats,
+	)
 
 	// Notes
 	const notes: string[] = [
 		'The 1024x1024 icon is used as source; Expo generates all required sizes',
-		'For production, ensure icon has no transparency (iOS requirement)',
+		'For production, ensure icon has no transparency (iOS requirement); `appicons validate --output <dir>` checks store files',
 		'Android adaptive icons should have content within the safe zone (66% center)',
 	]
 
@@ -248,6 +608,59 @@ export function generateInstructions(context: GenerationContext): Instructions {
 		)
 	}
 
+	// Alternate icon notes
+	if (alternateIcons.length > 0) {
+		notes.push(
+			'Alternate icons have a single light appearance; iOS asks the user to confirm each switch',
+		)
+	}
+
+	// Build variant notes
+	if (variant !== undefined) {
+		notes.push(
+			`Expo: select this variant's icons in app.config.ts, e.g. when process.env.APP_VARIANT === '${variant}'`,
+		)
+	}
+
+	// iOS launch storyboard notes
+	if (useLaunchStoryboard && assetTypes.includes('splash')) {
+		notes.push(
+			'LaunchScreen.storyboard centers LaunchLogo on LaunchBackground, so one launch screen fits every device and orientation; LaunchBackground switches to its dark color in Dark Mode',
+		)
+	}
+
+	// Android legacy icon notes
+	if (platforms.includes('android') && assetTypes.includes('icon')) {
+		notes.push(
+			'Reference ic_launcher_round.png with android:roundIcon="@mipmap/ic_launcher_round"; Android 7.1 and launchers without adaptive icon support show it as-is',
+		)
+	}
+
+	// Android WebP mipmap notes
+	if (
+		platforms.includes('android') &&
+		(assetTypes.includes('icon') || assetTypes.includes('adaptive')) &&
+		mipmapExtension === 'webp'
+	) {
+		notes.push(
+			'Launcher mipmaps are lossless WebP (API 18+); remove the ic_launcher*.png files they replace in mipmap-*/, Android fails on duplicate resources',
+		)
+	}
+
+	// Android notification notes
+	if (platforms.includes('android') && assetTypes.includes('notification')) {
+		notes.push(
+			'Notification icons only use the alpha channel: the system tints the silhouette, so an icon with an opaque background shows as a white square',
+		)
+	}
+
+	// Android 12+ splash notes
+	if (platforms.includes('android') && assetTypes.includes('splash')) {
+		notes.push(
+			'Android 12+ ignores drawable-*/splash.png; it shows splashscreen_icon.png (288dp, 192dp circle-safe) on the theme background',
+		)
+	}
+
 	// Android 13+ notes
 	if (platforms.includes('android') && assetTypes.includes('adaptive')) {
 		notes.push(
@@ -256,6 +669,11 @@ export function generateInstructions(context: GenerationContext): Instructions {
 		notes.push(
 			'ic_launcher.xml and ic_launcher_round.xml are auto-generated with monochrome layer',
 		)
+		if (vectorLayers.foreground || vectorLayers.monochrome) {
+			notes.push(
+				'Vector adaptive layers live in drawable/; delete drawable-v24/ic_launcher_foreground.xml from the Android Studio template, it takes precedence',
+			)
+		}
 	}
 
 	// watchOS notes
@@ -278,6 +696,16 @@ export function generateInstructions(context: GenerationContext): Instructions {
 		notes.push('visionOS supports optional 3D layered icons (back/front)')
 	}
 
+	// Desktop notes
+	if (platforms.includes('macos') && assetTypes.includes('icon')) {
+		notes.push(
+			'macOS icons are not masked by the system; the rounded shape and transparent margin follow the Apple icon grid',
+		)
+	}
+	if (platforms.includes('windows') && assetTypes.includes('icon')) {
+		notes.push('icon.ico contains 16, 24, 32, 48, 64, 128 and 256px frames')
+	}
+
 	// Store listing notes
 	if (assetTypes.includes('store')) {
 		notes.push('Play Store icon: 512x512 PNG, required for Google Play')
@@ -287,20 +715,54 @@ export function generateInstructions(context: GenerationContext): Instructions {
 		notes.push('TV banner: 1280x720 PNG, for Android TV apps on Play Store')
 	}
 
+	// Social share image notes
+	if (hasSocialImages) {
+		notes.push(
+			'og:image and twitter:image need absolute URLs; social-square.png is for posts and square previews (Instagram, Mastodon) and has no meta tag',
+		)
+	}
+
+	// Mask preview notes
+	if (context.config?.maskPreview && context.config.maskPreview.length > 0) {
+		notes.push(
+			'preview/ shows the adaptive and maskable icons under common launcher masks; keep content inside the dashed safe zone circle',
+		)
+	}
+
+	// Vector master notes
+	if (context.config && getVectorMasterFiles(context.config).length > 0) {
+		notes.push(
+			'master/ holds the icon and splash screen as vector files for design tools; they show the top-level design without overrides, badges or dark colors',
+		)
+	}
+
 	if (context.zipPath) {
-		notes.push(`Full asset archive available at: ${context.zipPath}`)
+		notes.push(
+			`Full asset archive available at: ${displayPath(context.zipPath)}`,
+		)
+	}
+	if (context.tarPath) {
+		notes.push(`Tarball available at: ${displayPath(context.tarPath)}`)
 	}
 
 	// Generate config summary if available
 	const generationConfig = context.config
-		? formatGenerationConfig(context.config)
+		? formatGenerationConfig(context.config, displayPath)
 		: undefined
 
 	return {
-		summary: `Generated assets for ${platforms.join(', ')} (${assetTypes.join(', ')})`,
+		summary: `Generated ${variant !== undefined ? `${variant} variant ` : ''}assets for ${platforms.join(', ')} (${assetTypes.join(', ')})`,
 		generationConfig,
 		steps,
 		expoConfigChanges,
+		alternateIcons:
+			alternateIcons.length > 0
+				? `${createAlternateIconsPlist(alternateIcons, alternateLayout)}\n\n${createAlternateIconsExpoConfig(alternateIcons)}`
+				: undefined,
+		socialMetaTags:
+			hasSocialImages && context.config
+				? createSocialMetaTags(context.config)
+				: undefined,
 		notes,
 	}
 }
@@ -308,7 +770,10 @@ export function generateInstructions(context: GenerationContext): Instructions {
 /**
  * Format background configuration for display.
  */
-function formatBackgroundConfig(bg: BackgroundConfig): string[] {
+function formatBackgroundConfig(
+	bg: BackgroundConfig,
+	displayPath: (path: string) => string,
+): string[] {
 	const lines: string[] = []
 
 	if (bg.type === 'color' && bg.color) {
@@ -322,7 +787,7 @@ function formatBackgroundConfig(bg: BackgroundConfig): string[] {
 		}
 	} else if (bg.type === 'image' && bg.imagePath) {
 		lines.push(`Type:  Image`)
-		lines.push(`Path:  ${bg.imagePath}`)
+		lines.push(`Path:  ${displayPath(bg.imagePath)}`)
 	}
 
 	return lines
@@ -331,7 +796,10 @@ function formatBackgroundConfig(bg: BackgroundConfig): string[] {
 /**
  * Format foreground configuration for display.
  */
-function formatForegroundConfig(fg: ForegroundConfig): string[] {
+function formatForegroundConfig(
+	fg: ForegroundConfig,
+	displayPath: (path: string) => string,
+): string[] {
 	const lines: string[] = []
 
 	if (fg.type === 'text') {
@@ -345,13 +813,13 @@ function formatForegroundConfig(fg: ForegroundConfig): string[] {
 		}
 	} else if (fg.type === 'svg') {
 		lines.push(`Type: SVG`)
-		lines.push(`Path: ${fg.svgPath}`)
+		lines.push(`Path: ${displayPath(fg.svgPath)}`)
 		if (fg.color) {
 			lines.push(`Color override: ${fg.color}`)
 		}
 	} else if (fg.type === 'image') {
 		lines.push(`Type: Image`)
-		lines.push(`Path: ${fg.imagePath}`)
+		lines.push(`Path: ${displayPath(fg.imagePath)}`)
 	}
 
 	return lines
@@ -360,7 +828,10 @@ function formatForegroundConfig(fg: ForegroundConfig): string[] {
 /**
  * Format the complete generation configuration for display.
  */
-function formatGenerationConfig(config: AssetGeneratorConfig): string {
+function formatGenerationConfig(
+	config: AssetGeneratorConfig,
+	displayPath: (path: string) => string,
+): string {
 	const lines: string[] = []
 
 	lines.push(`App name:    ${config.appName}`)
@@ -372,12 +843,12 @@ function formatGenerationConfig(config: AssetGeneratorConfig): string {
 	)
 	lines.push('')
 	lines.push('Background:')
-	for (const line of formatBackgroundConfig(config.background)) {
+	for (const line of formatBackgroundConfig(config.background, displayPath)) {
 		lines.push(`  ${line}`)
 	}
 	lines.push('')
 	lines.push('Foreground:')
-	for (const line of formatForegroundConfig(config.foreground)) {
+	for (const line of formatForegroundConfig(config.foreground, displayPath)) {
 		lines.push(`  ${line}`)
 	}
 
@@ -390,6 +861,9 @@ function formatGenerationConfig(config: AssetGeneratorConfig): string {
 function generateExpoConfigExample(
 	platforms: Platform[],
 	assetTypes: AssetType[],
+	iosLayout: IosIconLayout,
+	adaptiveDrawables: AdaptiveIconDrawables,
+	webImageFormats: WebImageFormat[],
 ): string {
 	const lines: string[] = ['// app.config.ts asset configuration example:', '']
 
@@ -424,6 +898,27 @@ function generateExpoConfigExample(
 		lines.push('')
 	}
 
+	if (platforms.includes('android') && assetTypes.includes('notification')) {
+		lines.push('// Notification icon (in expo.plugins)')
+		lines.push('[')
+		lines.push("  'expo-notifications',")
+		lines.push('  {')
+		lines.push("    icon: './assets/images/notification-icon.png',")
+		lines.push("    color: '#FFFFFF', // accent color behind the icon")
+		lines.push('  },')
+		lines.push('],')
+		lines.push('')
+		lines.push('// Bare Android (AndroidManifest.xml, inside <application>):')
+		lines.push('// <meta-data')
+		lines.push(
+			'//   android:name="com.google.firebase.messaging.default_notification_icon"',
+		)
+		lines.push(
+			`//   android:resource="@drawable/${ANDROID_NOTIFICATION_ICON_NAME}" />`,
+		)
+		lines.push('')
+	}
+
 	if (platforms.includes('web') && assetTypes.includes('favicon')) {
 		lines.push('// Web favicon (in expo.web)')
 		lines.push("favicon: './assets/images/favicon.png',")
@@ -434,22 +929,42 @@ function generateExpoConfigExample(
 		lines.push(
 			'// Place favicon.ico in your public root (browsers check /favicon.ico automatically)',
 		)
-		lines.push('//')
 		lines.push(
-			'// <link rel="icon" type="image/png" sizes="32x32" href="/favicon-32x32.png">',
+			'// and paste web/head.html into <head>: icon, apple-touch-icon, manifest,',
 		)
+		lines.push('// mask-icon and light/dark theme-color tags, e.g.')
+		lines.push('//')
 		lines.push(
-			'// <link rel="icon" type="image/png" sizes="16x16" href="/favicon-16x16.png">',
+			'// <link rel="icon" href="/favicon.ico" sizes="16x16 32x32 48x48">',
 		)
 		lines.push(
-			'// <link rel="apple-touch-icon" sizes="180x180" href="/apple-touch-icon-180x180.png">',
+			'// <link rel="apple-touch-icon" href="/apple-touch-icon-180x180.png" sizes="180x180">',
 		)
 		lines.push('// <link rel="manifest" href="/site.webmanifest">')
 		lines.push('')
+		if (webImageFormats.length > 0) {
+			lines.push('// Icons in pages, with the smaller formats first:')
+			lines.push('// <picture>')
+			for (const format of webImageFormats) {
+				lines.push(
+					`//   <source srcset="/icon-192x192.${format}" type="image/${format}">`,
+				)
+			}
+			lines.push(
+				'//   <img src="/icon-192x192.png" width="192" height="192" alt="">',
+			)
+			lines.push('// </picture>')
+			lines.push('')
+		}
 	}
 
-	// iOS 18 Xcode asset catalog configuration
-	if (platforms.includes('ios') && assetTypes.includes('icon')) {
+	// iOS 18 Xcode asset catalog configuration (the icon set layout ships
+	// a ready-made Contents.json instead)
+	if (
+		iosLayout === 'folders' &&
+		platforms.includes('ios') &&
+		assetTypes.includes('icon')
+	) {
 		lines.push('')
 		lines.push(
 			'// ─── iOS 18 Icon Variants (Xcode Asset Catalog) ───────────────',
@@ -495,13 +1010,13 @@ function generateExpoConfigExample(
 			'// <adaptive-icon xmlns:android="http://schemas.android.com/apk/res/android">',
 		)
 		lines.push(
-			'//   <background android:drawable="@mipmap/ic_launcher_background"/>',
+			`//   <background android:drawable="${adaptiveDrawables.background}"/>`,
 		)
 		lines.push(
-			'//   <foreground android:drawable="@mipmap/ic_launcher_foreground"/>',
+			`//   <foreground android:drawable="${adaptiveDrawables.foreground}"/>`,
 		)
 		lines.push(
-			'//   <monochrome android:drawable="@mipmap/ic_launcher_monochrome"/>',
+			`//   <monochrome android:drawable="${adaptiveDrawables.monochrome}"/>`,
 		)
 		lines.push('// </adaptive-icon>')
 		lines.push('')
@@ -564,6 +1079,32 @@ export function formatInstructionsText(instructions: Instructions): string {
 		lines.push('')
 	}
 
+	if (instructions.alternateIcons) {
+		lines.push(
+			'───────────────────────────────────────────────────────────────',
+		)
+		lines.push('  ALTERNATE ICONS')
+		lines.push(
+			'───────────────────────────────────────────────────────────────',
+		)
+		lines.push('')
+		lines.push(instructions.alternateIcons)
+		lines.push('')
+	}
+
+	if (instructions.socialMetaTags) {
+		lines.push(
+			'───────────────────────────────────────────────────────────────',
+		)
+		lines.push('  SOCIAL META TAGS')
+		lines.push(
+			'───────────────────────────────────────────────────────────────',
+		)
+		lines.push('')
+		lines.push(instructions.socialMetaTags)
+		lines.push('')
+	}
+
 	lines.push('───────────────────────────────────────────────────────────────')
 	lines.push('  NOTES')
 	lines.push('───────────────────────────────────────────────────────────────')
@@ -577,6 +1118,84 @@ export function formatInstructionsText(instructions: Instructions): string {
 	return lines.join('\n')
 }
 
+/**
+ * Format the README.md at the root of a multi-variant output directory.
+ *
+ * Lists the variant folders (each with its own README.md) and how to
+ * select each variant's icons per build configuration on Android and iOS.
+ */
+export function formatVariantsText(config: AssetGeneratorConfig): string {
+	const variants = getVariantNames(config)
+	const lines: string[] = []
+
+	lines.push('')
+	lines.push('═══════════════════════════════════════════════════════════════')
+	lines.push('  BUILD VARIANTS')
+	lines.push('═══════════════════════════════════════════════════════════════')
+	lines.push('')
+	lines.push(
+		`${config.appName} assets for ${variants.length} build variants, each in its own folder with a README.md:`,
+	)
+	lines.push('')
+	for (const variant of variants) {
+		lines.push(`  • ${variant}/`)
+	}
+	lines.push('')
+
+	if (config.platforms.includes('android')) {
+		lines.push(
+			'───────────────────────────────────────────────────────────────',
+		)
+		lines.push('  ANDROID PRODUCT FLAVORS')
+		lines.push(
+			'───────────────────────────────────────────────────────────────',
+		)
+		lines.push('')
+		lines.push('  // android/app/build.gradle')
+		lines.push('  android {')
+		lines.push('      flavorDimensions "environment"')
+		lines.push('      productFlavors {')
+		for (const variant of variants) {
+			lines.push(`          ${variant} { dimension "environment" }`)
+		}
+		lines.push('      }')
+		lines.push('  }')
+		lines.push('')
+		lines.push('  Each flavor uses the mipmaps in its source set:')
+		lines.push('')
+		for (const variant of variants) {
+			lines.push(
+				`  ${variant}/android/mipmap-* → android/app/src/${variant}/res/`,
+			)
+		}
+		lines.push('')
+	}
+
+	if (config.platforms.includes('ios')) {
+		lines.push(
+			'───────────────────────────────────────────────────────────────',
+		)
+		lines.push('  iOS BUILD CONFIGURATIONS')
+		lines.push(
+			'───────────────────────────────────────────────────────────────',
+		)
+		lines.push('')
+		lines.push(
+			'  Set Primary App Icon Set Name (ASSETCATALOG_COMPILER_APPICON_NAME)',
+		)
+		lines.push("  in each scheme's build configurations:")
+		lines.push('')
+		for (const variant of variants) {
+			lines.push(`  ${variant}: ${getVariantAppIconName(variant)}`)
+		}
+		lines.push('')
+	}
+
+	lines.push('═══════════════════════════════════════════════════════════════')
+
+	return lines.join('\n')
+}
+
 /**
  * Format instructions for JSON output (AI agents).
  */
@@ -585,6 +1204,8 @@ export function formatInstructionsJson(instructions: Instructions): object {
 		summary: instructions.summary,
 		steps: instructions.steps,
 		expoConfig: instructions.expoConfigChanges,
+		alternateIcons: instructions.alternateIcons,
+		socialMetaTags: instructions.socialMetaTags,
 		notes: instructions.notes,
 		aiInstructions: [
 			'Copy the generated assets to the Expo project assets/images/ directory',
@@ -0,0 +1,161 @@
+/**
+ * iOS Launch Screen Module
+ *
+ * Builds the files that replace fixed-size launch images with a launch
+ * storyboard, which iOS renders at any device size and orientation:
+ *
+ * - `LaunchScreen.storyboard`: A view filled with the LaunchBackground color
+ *   and a LaunchLogo image view pinned to its center.
+ * - `LaunchLogo.imageset/Contents.json`: The @1x/@2x/@3x logo PNGs.
+ * - `LaunchBackground.colorset/Contents.json`: Background color with an
+ *   "any" and a "dark" appearance.
+ *
+ * The storyboard references assets by name only, so the imageset and
+ * colorset must be added to the app's asset catalog alongside it.
+ */
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+/** Asset catalog name of the launch logo image. */
+export const LAUNCH_LOGO_NAME = 'LaunchLogo'
+
+/** Asset catalog name of the launch background color. */
+export const LAUNCH_BACKGROUND_NAME = 'LaunchBackground'
+
+/** Canvas size of the storyboard scene (iPhone 15), only used by Interface Builder. */
+const SCENE_WIDTH = 393
+const SCENE_HEIGHT = 852
+
+// ─── Colors ─────────────────────────────────────────────────────────────────
+
+/**
+ * Convert a hex color to sRGB components in the 0-1 range.
+ */
+function hexToComponents(hex: string): {
+	red: number
+	green: number
+	blue: number
+} {
+	const value = hex.replace('#', '')
+	return {
+		red: Number.parseInt(value.slice(0, 2), 16) / 255,
+		green: Number.parseInt(value.slice(2, 4), 16) / 255,
+		blue: Number.parseInt(value.slice(4, 6), 16) / 255,
+	}
+}
+
+/**
+ * Build an asset catalog color entry for a hex color.
+ */
+function createCatalogColor(hex: string): Record<string, unknown> {
+	const { red, green, blue } = hexToComponents(hex)
+	return {
+		'color-space': 'srgb',
+		components: {
+			alpha: '1.000',
+			blue: blue.toFixed(3),
+			green: green.toFixed(3),
+			red: red.toFixed(3),
+		},
+	}
+}
+
+// ─── Asset Catalog Contents ─────────────────────────────────────────────────
+
+/**
+ * Build Contents.json for LaunchLogo.imageset.
+ */
+export function createLaunchLogoContentsJson(): string {
+	const images = [1, 2, 3].map(scale => ({
+		filename: `${LAUNCH_LOGO_NAME}${scale === 1 ? '' : `@${scale}x`}.png`,
+		idiom: 'universal',
+		scale: `${scale}x`,
+	}))
+	return `${JSON.stringify({ images, info: { author: 'xcode', version: 1 } }, null, 2)}\n`
+}
+
+/**
+ * Build Contents.json for LaunchBackground.colorset.
+ *
+ * @param lightColor - Hex color for the default ("any") appearance
+ * @param darkColor - Hex color for the dark appearance
+ */
+export function createLaunchBackgroundContentsJson(
+	lightColor: string,
+	darkColor: string,
+): string {
+	const colors = [
+		{ color: createCatalogColor(lightColor), idiom: 'universal' },
+		{
+			appearances: [{ appearance: 'luminosity', value: 'dark' }],
+			color: createCatalogColor(darkColor),
+			idiom: 'universal',
+		},
+	]
+	return `${JSON.stringify({ colors, info: { author: 'xcode', version: 1 } }, null, 2)}\n`
+}
+
+// ─── Storyboard ─────────────────────────────────────────────────────────────
+
+/**
+ * Build LaunchScreen.storyboard.
+ *
+ * The logo keeps its intrinsic size from the imageset and is centered with
+ * two constraints, so it stays centered in every orientation. The
+ * `resources` section only supplies Interface Builder previews; at runtime
+ * the named image and color come from the asset catalog.
+ *
+ * @param logoPoints - Edge length of the launch logo in points
+ * @param lightColor - Hex background color shown in Interface Builder
+ */
+export function createLaunchScreenStoryboard(
+	logoPoints: number,
+	lightColor: string,
+): string {
+	const { red, green, blue } = hexToComponents(lightColor)
+	const x = (SCENE_WIDTH - logoPoints) / 2
+	const y = (SCENE_HEIGHT - logoPoints) / 2
+
+	return `<?xml version="1.0" encoding="UTF-8"?>
+<document type="com.apple.InterfaceBuilder3.CocoaTouch.Storyboard.XIB" version="3.0" toolsVersion="22505" targetRuntime="iOS.CocoaTouch" propertyAccessControl="none" useAutolayout="YES" launchScreen="YES" useTraitCollections="YES" useSafeAreas="YES" colorMatched="YES" initialViewController="01J-lp-oVM">
+    <device id="retina6_12" orientation="portrait" appearance="light"/>
+    <dependencies>
+        <plugIn identifier="com.apple.InterfaceBuilder.IBCocoaTouchPlugin" version="22504"/>
+        <capability name="Named colors" minToolsVersion="9.0"/>
+        <capability name="Safe area layout guides" minToolsVersion="9.0"/>
+        <capability name="documents saved in the Xcode 8 format" minToolsVersion="8.0"/>
+    </dependencies>
+    <scenes>
+        <scene sceneID="EHf-IW-A2E">
+            <objects>
+                <viewController id="01J-lp-oVM" sceneMemberID="viewController">
+                    <view key="view" contentMode="scaleToFill" id="Ze5-6b-2t3">
+                        <rect key="frame" x="0.0" y="0.0" width="${SCENE_WIDTH}" height="${SCENE_HEIGHT}"/>
+                        <autoresizingMask key="autoresizingMask" widthSizable="YES" heightSizable="YES"/>
+                        <subviews>
+                            <imageView clipsSubviews="YES" userInteractionEnabled="NO" contentMode="scaleAspectFit" horizontalHuggingPriority="251" verticalHuggingPriority="251" image="${LAUNCH_LOGO_NAME}" translatesAutoresizingMaskIntoConstraints="NO" id="LLg-0g-Vw1">
+                                <rect key="frame" x="${x}" y="${y}" width="${logoPoints}" height="${logoPoints}"/>
+                            </imageView>
+                        </subviews>
+                        <viewLayoutGuide key="safeArea" id="Bcu-3y-fUS"/>
+                        <color key="backgroundColor" name="${LAUNCH_BACKGROUND_NAME}"/>
+                        <constraints>
+                            <constraint firstItem="LLg-0g-Vw1" firstAttribute="centerX" secondItem="Ze5-6b-2t3" secondAttribute="centerX" id="Cnx-0g-X01"/>
+                            <constraint firstItem="LLg-0g-Vw1" firstAttribute="centerY" secondItem="Ze5-6b-2t3" secondAttribute="centerY" id="Cny-0g-Y01"/>
+                        </constraints>
+                    </view>
+                </viewController>
+                <placeholder placeholderIdentifier="IBFirstResponder" id="iYj-Kq-Ea1" userLabel="First Responder" sceneMemberID="firstResponder"/>
+            </objects>
+            <point key="canvasLocation" x="53" y="375"/>
+        </scene>
+    </scenes>
+    <resources>
+        <image name="${LAUNCH_LOGO_NAME}" width="${logoPoints}" height="${logoPoints}"/>
+        <namedColor name="${LAUNCH_BACKGROUND_NAME}">
+            <color red="${red.toFixed(3)}" green="${green.toFixed(3)}" blue="${blue.toFixed(3)}" alpha="1" colorSpace="custom" customColorSpace="sRGB"/>
+        </namedColor>
+    </resources>
+</document>
+`
+}
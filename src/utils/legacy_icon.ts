@@ -0,0 +1,123 @@
+/**
+ * Android Legacy Icon Module
+ *
+ * Lays out the Material legacy launcher shapes drawn into ic_launcher.png
+ * and ic_launcher_round.png. Devices before API 26 (and launchers that
+ * ignore adaptive icons) show these PNGs as-is, so the shape, padding and
+ * shadow are baked into the image:
+ *
+ * - 1dp transparent padding around the shape on the 48dp canvas.
+ * - The shape (rounded square, circle or squircle) filled with the icon,
+ *   reusing the launcher mask outlines from mask_preview.ts.
+ * - A soft drop shadow below the shape.
+ *
+ * @see https://developer.android.com/develop/ui/views/launch/icon_design_launcher
+ */
+
+import type {
+	AndroidLegacyShape,
+	AssetGeneratorConfig,
+	AssetSpec,
+} from '../types'
+import {
+	createMaskSvg,
+	MASK_SHAPES,
+	type MaskShape,
+	type MaskShapeInfo,
+} from './mask_preview'
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+/** Legacy shapes that are drawn (everything but the full-bleed square). */
+export type LegacyIconShape = Exclude<AndroidLegacyShape, 'none'>
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+/** Legacy launcher icon canvas and padding in dp. */
+const LEGACY_ICON_CANVAS_DP = 48
+const LEGACY_ICON_PADDING_DP = 1
+
+/** Drop shadow offset and blur in dp, and its opacity. */
+const LEGACY_SHADOW_OFFSET_DP = 0.5
+const LEGACY_SHADOW_BLUR_DP = 0.5
+const LEGACY_SHADOW_OPACITY = 0.3
+
+/** Launcher mask outline used for each legacy shape. */
+const LEGACY_SHAPE_MASKS: Record<LegacyIconShape, MaskShape> = {
+	square: 'rounded-square',
+	circle: 'circle',
+	squircle: 'squircle',
+}
+
+// ─── Resolution ─────────────────────────────────────────────────────────────
+
+/**
+ * Get the shape a legacy Android launcher icon is drawn in.
+ *
+ * Round icons are always circles; ic_launcher.png follows
+ * `androidLegacyShape` and stays full-bleed by default.
+ *
+ * @returns The shape, or undefined for full-bleed and non-launcher assets
+ */
+export function getLegacyIconShape(
+	config: Pick<AssetGeneratorConfig, 'androidLegacyShape'>,
+	spec: Pick<AssetSpec, 'name' | 'platform' | 'type'>,
+): LegacyIconShape | undefined {
+	if (spec.platform !== 'android' || spec.type !== 'icon') return undefined
+	if (spec.name.endsWith('/ic_launcher_round.png')) return 'circle'
+	if (spec.name.endsWith('/ic_launcher.png')) {
+		const shape = config.androidLegacyShape ?? 'none'
+		return shape === 'none' ? undefined : shape
+	}
+	return undefined
+}
+
+/**
+ * Get the transparent padding around the shape, in pixels.
+ *
+ * @param size - Canvas width and height in pixels
+ */
+export function getLegacyIconPadding(size: number): number {
+	return Math.round((size * LEGACY_ICON_PADDING_DP) / LEGACY_ICON_CANVAS_DP)
+}
+
+// ─── SVG ────────────────────────────────────────────────────────────────────
+
+/**
+ * Get the launcher mask a legacy shape is drawn with.
+ */
+function getLegacyMaskShape(shape: LegacyIconShape): MaskShapeInfo {
+	return MASK_SHAPES.find(info => info.shape === LEGACY_SHAPE_MASKS[shape])!
+}
+
+/**
+ * Build an SVG filled with a legacy shape, for use with `dest-in` blending.
+ *
+ * @param shape - Legacy shape
+ * @param size - Shape width and height in pixels
+ */
+export function createLegacyIconMaskSvg(
+	shape: LegacyIconShape,
+	size: number,
+): string {
+	return createMaskSvg(getLegacyMaskShape(shape), size)
+}
+
+/**
+ * Build the transparent canvas with the shape's drop shadow, drawn below
+ * the shape.
+ *
+ * @param shape - Legacy shape
+ * @param size - Canvas width and height in pixels
+ */
+export function createLegacyIconShadowSvg(
+	shape: LegacyIconShape,
+	size: number,
+): string {
+	const dp = size / LEGACY_ICON_CANVAS_DP
+	const padding = getLegacyIconPadding(size)
+	const scale = (size - 2 * padding) / 100
+	const offset = (dp * LEGACY_SHADOW_OFFSET_DP).toFixed(2)
+	const blur = (dp * LEGACY_SHADOW_BLUR_DP).toFixed(2)
+	return `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}"><defs><filter id="legacy-shadow" x="-10%" y="-10%" width="120%" height="120%"><feGaussianBlur stdDeviation="${blur}"/></filter></defs><g filter="url(#legacy-shadow)"><path d="${getLegacyMaskShape(shape).path}" transform="translate(${padding} ${padding}) translate(0 ${offset}) scale(${scale.toFixed(4)})" fill="#000" fill-opacity="${LEGACY_SHADOW_OPACITY}"/></g></svg>`
+}
@@ -0,0 +1,290 @@
+/**
+ * Mask Preview Module
+ *
+ * Describes the icon masks launchers apply to adaptive and maskable icons,
+ * so a contact sheet can show how the generated icons will actually be
+ * cropped:
+ *
+ * - Circle, squircle, rounded square and teardrop: the AOSP icon shape
+ *   overlays used by Pixel and most Android launchers.
+ * - iOS: The continuous-corner (superellipse) app icon shape.
+ *
+ * Every shape is an SVG path in a 100×100 box, shared by the PNG contact
+ * sheet (rendered with sharp) and the optional HTML page (inline SVG).
+ *
+ * @see https://developer.android.com/develop/ui/views/launch/icon_design_adaptive
+ */
+
+import {
+	ANDROID_ADAPTIVE_MAX_SCALE,
+	ANDROID_ADAPTIVE_VIEWPORT_SCALE,
+	WEB_MASKABLE_MAX_SCALE,
+} from './safe_zone_validation'
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+/** Launcher mask shapes shown on the preview sheet. */
+export type MaskShape =
+	| 'circle'
+	| 'squircle'
+	| 'rounded-square'
+	| 'teardrop'
+	| 'ios'
+
+/**
+ * A mask shape with its display label and outline.
+ */
+export interface MaskShapeInfo {
+	shape: MaskShape
+
+	/** Column heading on the preview sheet. */
+	label: string
+
+	/** SVG path data in a 100×100 box. */
+	path: string
+}
+
+/**
+ * A generated icon to preview under every mask.
+ */
+export interface MaskPreviewSource {
+	/** Row heading on the preview sheet. */
+	label: string
+
+	/** Image layers from bottom to top, relative to the output directory. */
+	layers: string[]
+
+	/** Fraction of each layer hidden outside the mask on every side. */
+	inset: number
+
+	/** Safe zone circle diameter as a fraction of the visible area. */
+	safeZone: number
+}
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+/** Path of the contact sheet, relative to the output directory. */
+export const MASK_PREVIEW_PNG = 'preview/mask-preview.png'
+
+/** Path of the HTML preview, relative to the output directory. */
+export const MASK_PREVIEW_HTML = 'preview/mask-preview.html'
+
+/** Exponent of the superellipse approximating Apple's continuous corners. */
+const IOS_SUPERELLIPSE_EXPONENT = 5
+
+/** Number of points sampled along the superellipse outline. */
+const IOS_SUPERELLIPSE_POINTS = 96
+
+/**
+ * Build the iOS continuous-corner outline as a sampled superellipse.
+ */
+function createSuperellipsePath(): string {
+	const points: string[] = []
+	for (let i = 0; i < IOS_SUPERELLIPSE_POINTS; i++) {
+		const angle = (i / IOS_SUPERELLIPSE_POINTS) * 2 * Math.PI
+		const cos = Math.cos(angle)
+		const sin = Math.sin(angle)
+		const x = Math.sign(cos) * Math.abs(cos) ** (2 / IOS_SUPERELLIPSE_EXPONENT)
+		const y = Math.sign(sin) * Math.abs(sin) ** (2 / IOS_SUPERELLIPSE_EXPONENT)
+		points.push(`${(50 + 50 * x).toFixed(2)},${(50 + 50 * y).toFixed(2)}`)
+	}
+	return `M${points.join(' L')} Z`
+}
+
+/** Mask shapes in sheet column order. */
+export const MASK_SHAPES: MaskShapeInfo[] = [
+	{
+		shape: 'circle',
+		label: 'Circle',
+		path: 'M50 0A50 50 0 1 1 50 100A50 50 0 1 1 50 0Z',
+	},
+	{
+		shape: 'squircle',
+		label: 'Squircle',
+		path: 'M50 0C10 0 0 10 0 50C0 90 10 100 50 100C90 100 100 90 100 50C100 10 90 0 50 0Z',
+	},
+	{
+		shape: 'rounded-square',
+		label: 'Rounded square',
+		path: 'M8 0H92A8 8 0 0 1 100 8V92A8 8 0 0 1 92 100H8A8 8 0 0 1 0 92V8A8 8 0 0 1 8 0Z',
+	},
+	{
+		shape: 'teardrop',
+		label: 'Teardrop',
+		path: 'M50 0A50 50 0 0 1 100 50V85A15 15 0 0 1 85 100H50A50 50 0 0 1 50 0Z',
+	},
+	{
+		shape: 'ios',
+		label: 'iOS',
+		path: createSuperellipsePath(),
+	},
+]
+
+/** Icons that launchers mask, in sheet row order. */
+const PREVIEW_SOURCES: MaskPreviewSource[] = [
+	{
+		label: 'Android adaptive',
+		layers: [
+			'android/mipmap-xxxhdpi/ic_launcher_background.png',
+			'android/mipmap-xxxhdpi/ic_launcher_foreground.png',
+		],
+		inset: (1 - ANDROID_ADAPTIVE_VIEWPORT_SCALE) / 2,
+		safeZone: ANDROID_ADAPTIVE_MAX_SCALE / ANDROID_ADAPTIVE_VIEWPORT_SCALE,
+	},
+	{
+		label: 'Web maskable',
+		layers: ['web/icon-maskable-512x512.png'],
+		inset: 0,
+		safeZone: WEB_MASKABLE_MAX_SCALE,
+	},
+]
+
+// ─── Sources ────────────────────────────────────────────────────────────────
+
+/**
+ * Pick the preview rows whose layers were all generated.
+ *
+ * @param generatedFiles - Generated file paths relative to the output dir
+ */
+export function getMaskPreviewSources(
+	generatedFiles: Iterable<string>,
+): MaskPreviewSource[] {
+	const files = new Set(generatedFiles)
+	return PREVIEW_SOURCES.filter(source =>
+		source.layers.every(layer => files.has(layer)),
+	)
+}
+
+// ─── SVG ────────────────────────────────────────────────────────────────────
+
+/**
+ * Build an SVG filled with a mask shape, for use with `dest-in` blending.
+ *
+ * @param shape - Mask shape to draw
+ * @param size - Width and height in pixels
+ */
+export function createMaskSvg(shape: MaskShapeInfo, size: number): string {
+	return `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 100 100"><path d="${shape.path}" fill="#fff"/></svg>`
+}
+
+/**
+ * Build the guide elements drawn over a masked icon: the mask outline and
+ * the dashed safe zone circle.
+ */
+function createGuideElements(shape: MaskShapeInfo, safeZone: number): string {
+	const radius = (safeZone * 50).toFixed(2)
+	return `<path d="${shape.path}" fill="none" stroke="#1A1A1A" stroke-opacity="0.35" stroke-width="0.75"/><circle cx="50" cy="50" r="${radius}" fill="none" stroke="#E5484D" stroke-width="0.75" stroke-dasharray="3 2"/>`
+}
+
+/**
+ * Build an SVG overlay with the mask outline and safe zone circle.
+ *
+ * @param shape - Mask shape to outline
+ * @param safeZone - Safe zone diameter as a fraction of the size
+ * @param size - Width and height in pixels
+ */
+export function createGuideSvg(
+	shape: MaskShapeInfo,
+	safeZone: number,
+	size: number,
+): string {
+	return `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 100 100">${createGuideElements(shape, safeZone)}</svg>`
+}
+
+// ─── HTML ───────────────────────────────────────────────────────────────────
+
+/**
+ * Escape text for HTML content.
+ */
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+}
+
+/**
+ * Build an inline SVG showing one source under one mask.
+ *
+ * Layers are placed so the visible part of the layer fills the 100×100
+ * box; anything outside it is clipped by the mask.
+ */
+function createPreviewCell(
+	source: MaskPreviewSource,
+	shape: MaskShapeInfo,
+): string {
+	const layerSize = 100 / (1 - 2 * source.inset)
+	const offset = (-source.inset * layerSize).toFixed(2)
+	const images = source.layers
+		.map(
+			layer =>
+				`<image href="../${layer}" x="${offset}" y="${offset}" width="${layerSize.toFixed(2)}" height="${layerSize.toFixed(2)}"/>`,
+		)
+		.join('')
+	return `<svg viewBox="0 0 100 100" role="img" aria-label="${escapeHtml(`${source.label}, ${shape.label}`)}"><g clip-path="url(#mask-${shape.shape})">${images}</g><g class="guide">${createGuideElements(shape, source.safeZone)}</g></svg>`
+}
+
+/**
+ * Build the HTML mask preview page.
+ *
+ * The page references the generated images relative to `preview/`, so it
+ * stays in sync with the output directory and scales without blurring.
+ * Guides can be toggled off to judge the icon without overlays.
+ *
+ * @param appName - Application name for the page title
+ * @param sources - Rows to show (from getMaskPreviewSources)
+ */
+export function createMaskPreviewHtml(
+	appName: string,
+	sources: MaskPreviewSource[],
+): string {
+	const clipPaths = MASK_SHAPES.map(
+		shape =>
+			`<clipPath id="mask-${shape.shape}" clipPathUnits="userSpaceOnUse"><path d="${shape.path}"/></clipPath>`,
+	).join('\n      ')
+	const header = MASK_SHAPES.map(shape => `<th>${shape.label}</th>`).join('')
+	const rows = sources
+		.map(source => {
+			const cells = MASK_SHAPES.map(
+				shape => `<td>${createPreviewCell(source, shape)}</td>`,
+			).join('')
+			return `        <tr><th scope="row">${escapeHtml(source.label)}</th>${cells}</tr>`
+		})
+		.join('\n')
+
+	return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(appName)} – icon mask preview</title>
+  <style>
+    body { font-family: system-ui, sans-serif; margin: 2rem; background: #F4F4F5; color: #1A1A1A; }
+    table { border-spacing: 1.5rem 1rem; }
+    th { font-weight: 600; text-align: center; }
+    th[scope="row"] { text-align: left; }
+    td svg { width: 160px; height: 160px; display: block; }
+    #guides:not(:checked) ~ table .guide { display: none; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(appName)}</h1>
+  <svg width="0" height="0" style="position: absolute">
+    <defs>
+      ${clipPaths}
+    </defs>
+  </svg>
+  <input type="checkbox" id="guides" checked>
+  <label for="guides">Show mask outline and safe zone</label>
+  <table>
+    <thead>
+      <tr><th></th>${header}</tr>
+    </thead>
+    <tbody>
+${rows}
+    </tbody>
+  </table>
+</body>
+</html>
+`
+}
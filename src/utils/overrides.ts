@@ -0,0 +1,164 @@
+/**
+ * Config Overrides Module
+ *
+ * Resolves the effective configuration of a single generated file from
+ * `AssetGeneratorConfig.overrides`. Each key selects files by:
+ *
+ * - Platform: `ios`, `android`, `web`, ...
+ * - Asset type: `icon`, `splash`, `adaptive`, `favicon`, `store`,
+ *   `notification`, `social`
+ * - Anything else: a glob on the output path, where `*` and `?` stay
+ *   within one path segment and `**` spans segments
+ *
+ * Matching overrides apply from least to most specific (platforms, asset
+ * types, globs), so `splash` beats `android` and `android/drawable-*` beats
+ * both. Keys of the same kind apply in declaration order.
+ */
+
+import type {
+	AssetGeneratorConfig,
+	AssetOverride,
+	AssetSpec,
+	AssetType,
+	Platform,
+} from '../types'
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+/** How an override key selects files. */
+export type OverrideKeyKind = 'platform' | 'assetType' | 'glob'
+
+/**
+ * A generated file an override may apply to. Metadata files (manifests,
+ * themes, storyboards) use the platform and asset type they belong to.
+ */
+export type OverrideTarget = Pick<AssetSpec, 'platform' | 'type' | 'name'>
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+const PLATFORM_KEYS: ReadonlySet<string> = new Set<Platform>([
+	'ios',
+	'android',
+	'web',
+	'watchos',
+	'tvos',
+	'visionos',
+	'macos',
+	'windows',
+	'linux',
+])
+
+const ASSET_TYPE_KEYS: ReadonlySet<string> = new Set<AssetType>([
+	'icon',
+	'splash',
+	'adaptive',
+	'favicon',
+	'store',
+	'notification',
+	'social',
+])
+
+/** Key kinds from least to most specific. */
+const KIND_ORDER: OverrideKeyKind[] = ['platform', 'assetType', 'glob']
+
+// ─── Matching ───────────────────────────────────────────────────────────────
+
+/**
+ * Classify an override key as a platform, asset type or path glob.
+ */
+export function getOverrideKeyKind(key: string): OverrideKeyKind {
+	if (PLATFORM_KEYS.has(key)) return 'platform'
+	if (ASSET_TYPE_KEYS.has(key)) return 'assetType'
+	return 'glob'
+}
+
+/**
+ * Test a path relative to the output directory against a glob.
+ *
+ * @example
+ * matchesGlob('android/drawable-*\/splash.png', 'android/drawable-hdpi/splash.png') // true
+ * matchesGlob('web/*.png', 'web/icons/icon.png') // false
+ * matchesGlob('web/**', 'web/icons/icon.png') // true
+ */
+export function matchesGlob(pattern: string, path: string): boolean {
+	let source = ''
+	for (let i = 0; i < pattern.length; i++) {
+		const char = pattern[i] as string
+		if (char === '*' && pattern[i + 1] === '*') {
+			source += '.*'
+			i++
+		} else if (char === '*') {
+			source += '[^/]*'
+		} else if (char === '?') {
+			source += '[^/]'
+		} else {
+			source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+		}
+	}
+	return new RegExp(`^${source}$`).test(path)
+}
+
+/**
+ * Test whether an override key selects a target file.
+ */
+function keyMatches(key: string, target: OverrideTarget): boolean {
+	switch (getOverrideKeyKind(key)) {
+		case 'platform':
+			return target.platform === key
+		case 'assetType':
+			return target.type === key
+		case 'glob':
+			return matchesGlob(key, target.name)
+	}
+}
+
+// ─── Resolution ─────────────────────────────────────────────────────────────
+
+/**
+ * Collect the overrides matching a target, least specific first.
+ */
+export function getMatchingOverrides(
+	overrides: Record<string, AssetOverride>,
+	target: OverrideTarget,
+): AssetOverride[] {
+	const keys = Object.keys(overrides).filter(key => keyMatches(key, target))
+	return KIND_ORDER.flatMap(kind =>
+		keys
+			.filter(key => getOverrideKeyKind(key) === kind)
+			.map(key => overrides[key] as AssetOverride),
+	)
+}
+
+/**
+ * Resolve the effective configuration for one generated file.
+ *
+ * A matching `scale` replaces every scale field, since each file only
+ * reads the one for its own kind.
+ *
+ * @param config - Top-level configuration
+ * @param target - File to resolve the configuration for
+ * @returns The config with matching overrides applied (the same object
+ *   when nothing matches)
+ */
+export function resolveAssetConfig(
+	config: AssetGeneratorConfig,
+	target: OverrideTarget,
+): AssetGeneratorConfig {
+	if (config.overrides === undefined) return config
+
+	const matching = getMatchingOverrides(config.overrides, target)
+	if (matching.length === 0) return config
+
+	const resolved = { ...config }
+	for (const override of matching) {
+		if (override.background) resolved.background = override.background
+		if (override.foreground) resolved.foreground = override.foreground
+		if (override.scale !== undefined) {
+			resolved.iconScale = override.scale
+			resolved.splashScale = override.scale
+			resolved.faviconScale = override.scale
+			resolved.storeScale = override.scale
+		}
+	}
+	return resolved
+}
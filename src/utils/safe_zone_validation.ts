@@ -3,6 +3,7 @@
  *
  * Different platforms have different safe zone requirements:
  * - Android adaptive icons: 66dp of 108dp canvas (61%), recommended 60%
+ * - Android 12+ splash icons: 192dp circle of 288dp canvas (67%)
  * - Web maskable icons: 80% per W3C PWA spec
  * - watchOS/visionOS circular: 80% diameter recommended
  * - Store listing graphics: Full bleed allowed, 50% recommended
@@ -15,9 +16,15 @@ import type { AssetType, Platform } from '../types'
 /** Maximum safe scale for Android adaptive icons (66dp of 108dp). */
 export const ANDROID_ADAPTIVE_MAX_SCALE = 0.61
 
+/** Part of an adaptive icon layer visible inside launcher masks (72dp of 108dp). */
+export const ANDROID_ADAPTIVE_VIEWPORT_SCALE = 72 / 108
+
 /** Recommended scale for Android adaptive icons. */
 export const ANDROID_ADAPTIVE_RECOMMENDED_SCALE = 0.6
 
+/** Maximum safe scale for Android 12+ splash icons (192dp circle of 288dp). */
+export const ANDROID_SPLASH_ICON_MAX_SCALE = 192 / 288
+
 /** Maximum safe scale for web maskable icons (W3C PWA safe zone). */
 export const WEB_MASKABLE_MAX_SCALE = 0.8
 
@@ -0,0 +1,255 @@
+/**
+ * Social Image Module
+ *
+ * Layout, text defaults and meta tags of the social share images (the
+ * `social` asset type). Rendering lives in generators/social_generator.ts.
+ *
+ * Layouts, in fractions of the image's shorter side:
+ * - Wide (Open Graph, Twitter/X): the logo on the left, the app name and
+ *   tagline left-aligned next to it, vertically centered.
+ * - Square: the logo above the app name and tagline, all centered.
+ */
+
+import {
+	SOCIAL_ASSETS,
+	SOCIAL_OG_IMAGE,
+	SOCIAL_TWITTER_CARD,
+} from '../assets/asset_specs'
+import type { AssetGeneratorConfig, SocialConfig } from '../types'
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+/**
+ * Rectangle in pixels, from the top-left corner of the image.
+ */
+export interface SocialBox {
+	left: number
+	top: number
+	width: number
+	height: number
+}
+
+/**
+ * Where the logo and text lines go on a share image.
+ */
+export interface SocialLayout {
+	/** Square the foreground logo is drawn into. */
+	logo: SocialBox
+
+	/** Line of the app name; the text is fitted inside. */
+	title: SocialBox
+
+	/** Line of the tagline, when set. */
+	tagline?: SocialBox
+
+	/** Horizontal alignment of the text inside its line. */
+	align: 'start' | 'center'
+}
+
+/** Font of the share image text. */
+export type SocialFont = Required<Pick<SocialConfig, 'fontFamily'>> &
+	Pick<SocialConfig, 'fontSource' | 'fontPath'>
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+/** Default font when the foreground is not text. */
+export const DEFAULT_SOCIAL_FONT = 'Roboto'
+
+/** Placeholder origin of the image URLs; og:image must be absolute. */
+export const SOCIAL_IMAGE_ORIGIN = 'https://example.com'
+
+/** Width-to-height ratio from which the logo sits beside the text. */
+const WIDE_RATIO = 1.5
+
+/** Layout metrics as fractions of the shorter side. */
+const PADDING = 0.1
+const LOGO_SIZE_WIDE = 0.5
+const LOGO_SIZE_SQUARE = 0.4
+const LOGO_GAP_WIDE = 0.08
+const LOGO_GAP_SQUARE = 0.06
+const TITLE_HEIGHT = 0.14
+const TAGLINE_HEIGHT = 0.07
+const LINE_GAP = 0.04
+
+// ─── Layout ─────────────────────────────────────────────────────────────────
+
+/**
+ * Lay out the logo and text lines of a share image.
+ *
+ * @param hasTagline - Whether a tagline line is reserved under the title
+ */
+export function getSocialLayout(
+	width: number,
+	height: number,
+	hasTagline: boolean,
+): SocialLayout {
+	const unit = Math.min(width, height)
+	const padding = Math.round(unit * PADDING)
+	const titleHeight = Math.round(unit * TITLE_HEIGHT)
+	const taglineHeight = Math.round(unit * TAGLINE_HEIGHT)
+	const lineGap = Math.round(unit * LINE_GAP)
+	const textHeight = titleHeight + (hasTagline ? lineGap + taglineHeight : 0)
+
+	if (width / height >= WIDE_RATIO) {
+		const logoSize = Math.round(unit * LOGO_SIZE_WIDE)
+		const textLeft = padding + logoSize + Math.round(unit * LOGO_GAP_WIDE)
+		const textWidth = width - textLeft - padding
+		const textTop = Math.floor((height - textHeight) / 2)
+		return {
+			logo: {
+				left: padding,
+				top: Math.floor((height - logoSize) / 2),
+				width: logoSize,
+				height: logoSize,
+			},
+			title: {
+				left: textLeft,
+				top: textTop,
+				width: textWidth,
+				height: titleHeight,
+			},
+			...(hasTagline && {
+				tagline: {
+					left: textLeft,
+					top: textTop + titleHeight + lineGap,
+					width: textWidth,
+					height: taglineHeight,
+				},
+			}),
+			align: 'start',
+		}
+	}
+
+	const logoSize = Math.round(unit * LOGO_SIZE_SQUARE)
+	const logoGap = Math.round(unit * LOGO_GAP_SQUARE)
+	const top = Math.floor((height - (logoSize + logoGap + textHeight)) / 2)
+	const titleTop = top + logoSize + logoGap
+	const textWidth = width - padding * 2
+	return {
+		logo: {
+			left: Math.floor((width - logoSize) / 2),
+			top,
+			width: logoSize,
+			height: logoSize,
+		},
+		title: {
+			left: padding,
+			top: titleTop,
+			width: textWidth,
+			height: titleHeight,
+		},
+		...(hasTagline && {
+			tagline: {
+				left: padding,
+				top: titleTop + titleHeight + lineGap,
+				width: textWidth,
+				height: taglineHeight,
+			},
+		}),
+		align: 'center',
+	}
+}
+
+// ─── Text ───────────────────────────────────────────────────────────────────
+
+/**
+ * Get the font of the share image text: `social.fontFamily`, else the text
+ * foreground's font, else Roboto.
+ */
+export function getSocialFont(
+	config: Pick<AssetGeneratorConfig, 'foreground' | 'social'>,
+): SocialFont {
+	const social = config.social ?? {}
+	if (social.fontFamily !== undefined || config.foreground.type !== 'text') {
+		return {
+			fontFamily: social.fontFamily ?? DEFAULT_SOCIAL_FONT,
+			...(social.fontSource !== undefined && {
+				fontSource: social.fontSource,
+			}),
+			...(social.fontPath !== undefined && { fontPath: social.fontPath }),
+		}
+	}
+	const { fontFamily, fontSource, fontPath } = config.foreground
+	return {
+		fontFamily,
+		fontSource,
+		...(fontPath !== undefined && { fontPath }),
+	}
+}
+
+/**
+ * Get the color of the share image text: `social.textColor`, else the text
+ * foreground's color, else black or white against the background.
+ *
+ * @param backgroundColor - Representative background color (hex)
+ */
+export function getSocialTextColor(
+	config: Pick<AssetGeneratorConfig, 'foreground' | 'social'>,
+	backgroundColor: string,
+): string {
+	if (config.social?.textColor !== undefined) return config.social.textColor
+	if (config.foreground.type === 'text') return config.foreground.color
+
+	// Relative luminance per WCAG, from sRGB.
+	const value = backgroundColor.replace('#', '')
+	const [r, g, b] = [0, 2, 4].map(offset => {
+		const channel = Number.parseInt(value.slice(offset, offset + 2), 16) / 255
+		return channel <= 0.03928
+			? channel / 12.92
+			: ((channel + 0.055) / 1.055) ** 2.4
+	}) as [number, number, number]
+	const luminance = 0.2126 * r + 0.7152 * g + 0.0722 * b
+	return luminance > 0.179 ? '#111111' : '#FFFFFF'
+}
+
+// ─── Meta Tags ──────────────────────────────────────────────────────────────
+
+/**
+ * Escape text for an HTML attribute value.
+ */
+function escapeAttribute(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/"/g, '&quot;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+}
+
+/**
+ * Build the Open Graph and Twitter/X `<meta>` tags for the share images.
+ *
+ * Image URLs use SOCIAL_IMAGE_ORIGIN, to be replaced with the site's
+ * origin; the images are expected at the site root like the favicons.
+ */
+export function createSocialMetaTags(
+	config: Pick<AssetGeneratorConfig, 'appName' | 'social'>,
+): string {
+	const og = SOCIAL_ASSETS.find(spec => spec.name === SOCIAL_OG_IMAGE)
+	const url = (name: string) =>
+		`${SOCIAL_IMAGE_ORIGIN}/${name.replace(/^web\//, '')}`
+	const title = escapeAttribute(config.appName)
+	const tagline = config.social?.tagline
+	const description =
+		tagline !== undefined ? escapeAttribute(tagline) : undefined
+
+	return [
+		`<meta property="og:title" content="${title}">`,
+		...(description !== undefined
+			? [`<meta property="og:description" content="${description}">`]
+			: []),
+		`<meta property="og:image" content="${url(SOCIAL_OG_IMAGE)}">`,
+		...(og
+			? [
+					`<meta property="og:image:width" content="${og.width}">`,
+					`<meta property="og:image:height" content="${og.height}">`,
+				]
+			: []),
+		`<meta property="og:image:alt" content="${title}">`,
+		'<meta name="twitter:card" content="summary_large_image">',
+		`<meta name="twitter:title" content="${title}">`,
+		...(description !== undefined
+			? [`<meta name="twitter:description" content="${description}">`]
+			: []),
+		`<meta name="twitter:image" content="${url(SOCIAL_TWITTER_CARD)}">`,
+	].join('\n')
+}
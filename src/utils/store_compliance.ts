@@ -0,0 +1,388 @@
+/**
+ * Store Compliance Module
+ *
+ * Checks generated store files against the App Store Connect and Google
+ * Play upload rules, so a rejected upload is caught right after generation
+ * (and by `appicons validate --output <dir>`).
+ *
+ * Rules per file, with dimensions from STORE_ASSETS and the iOS 1024px
+ * marketing icon:
+ * - App Store icon (`store/ios/app-store-icon.png`, `ios/icon-1024.png`):
+ *   PNG without an alpha channel, 8 bits per channel, sRGB or Display P3.
+ * - Play Store icon: 32-bit PNG (RGBA, 8 bits per channel), sRGB, at most
+ *   1024 KB.
+ * - Feature graphic and TV banner: 24-bit PNG (no alpha), sRGB; the
+ *   feature graphic at most 15 MB.
+ *
+ * Images without an embedded color profile count as sRGB. The fix
+ * re-encodes a file as 8-bit sRGB, flattening alpha onto a background
+ * color (or adding an opaque alpha channel where Play wants 32 bits).
+ *
+ * @see https://developer.apple.com/help/app-store-connect/reference/app-icon-specifications
+ * @see https://support.google.com/googleplay/android-developer/answer/9866151
+ */
+
+import { readFile, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import sharp from 'sharp'
+
+import {
+	getAppIconSetFilename,
+	IOS_APP_ICON_SET_DIR,
+	IOS_ICONS,
+	STORE_ASSETS,
+} from '../assets/asset_specs'
+import type {
+	AssetSpec,
+	StoreComplianceIssue,
+	StoreComplianceResult,
+	StoreName,
+} from '../types'
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+/**
+ * Upload rules for one store file.
+ */
+export interface StoreFileRules {
+	/** Path relative to the output directory. */
+	path: string
+
+	/** Store the file is uploaded to. */
+	store: StoreName
+
+	/** Required width and height in pixels. */
+	width: number
+	height: number
+
+	/** Whether the PNG must have (true) or must not have (false) alpha. */
+	alpha: boolean
+
+	/** Accepted embedded color profiles, matched against their description. */
+	colorProfiles: RegExp
+
+	/** Maximum file size in bytes. */
+	maxBytes?: number
+}
+
+/** Fields of the PNG IHDR chunk that the rules depend on. */
+interface PngHeader {
+	width: number
+	height: number
+	bitDepth: number
+	colorType: number
+}
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+/** PNG file signature. */
+const PNG_SIGNATURE = Buffer.from([
+	0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+])
+
+/** IHDR color types stores reject (RGB and RGBA are 2 and 6). */
+const PNG_COLOR_TYPE_NAMES: Record<number, string> = {
+	0: 'grayscale',
+	3: 'palette',
+	4: 'grayscale with alpha',
+}
+
+/** Accepted color profiles per store. */
+const APP_STORE_PROFILES = /sRGB|P3/i
+const PLAY_PROFILES = /sRGB/i
+
+/** Store rules by STORE_ASSETS name; dimensions come from the spec. */
+const STORE_ASSET_RULES: Record<
+	string,
+	Omit<StoreFileRules, 'path' | 'width' | 'height'>
+> = {
+	'store/android/play-store-icon.png': {
+		store: 'Google Play',
+		alpha: true,
+		colorProfiles: PLAY_PROFILES,
+		maxBytes: 1024 * 1024,
+	},
+	'store/android/feature-graphic.png': {
+		store: 'Google Play',
+		alpha: false,
+		colorProfiles: PLAY_PROFILES,
+		maxBytes: 15 * 1024 * 1024,
+	},
+	'store/android/tv-banner.png': {
+		store: 'Google Play',
+		alpha: false,
+		colorProfiles: PLAY_PROFILES,
+	},
+	'store/ios/app-store-icon.png': {
+		store: 'App Store',
+		alpha: false,
+		colorProfiles: APP_STORE_PROFILES,
+	},
+}
+
+// ─── Rules ──────────────────────────────────────────────────────────────────
+
+/**
+ * Get the rules for every store file an output directory may contain.
+ *
+ * The iOS 1024px icon is checked in both icon layouts, since Xcode uploads
+ * it as the App Store icon.
+ */
+export function getStoreFileRules(): StoreFileRules[] {
+	const rules: StoreFileRules[] = STORE_ASSETS.flatMap(spec => {
+		const rule = STORE_ASSET_RULES[spec.name]
+		return rule
+			? [{ ...rule, path: spec.name, width: spec.width, height: spec.height }]
+			: []
+	})
+
+	const marketingIcon = IOS_ICONS.find(
+		(spec: AssetSpec) => spec.name === 'ios/icon-1024.png',
+	)
+	if (marketingIcon) {
+		for (const path of [
+			marketingIcon.name,
+			`${IOS_APP_ICON_SET_DIR}/${getAppIconSetFilename(marketingIcon, 'appiconset')}`,
+		]) {
+			rules.push({
+				path,
+				store: 'App Store',
+				width: marketingIcon.width,
+				height: marketingIcon.height,
+				alpha: false,
+				colorProfiles: APP_STORE_PROFILES,
+			})
+		}
+	}
+
+	return rules
+}
+
+/**
+ * Get the rules for a store file by its path relative to the output
+ * directory.
+ */
+export function getStoreFileRule(path: string): StoreFileRules | undefined {
+	return getStoreFileRules().find(rules => rules.path === path)
+}
+
+// ─── Inspection ─────────────────────────────────────────────────────────────
+
+/**
+ * Read the IHDR chunk of a PNG.
+ *
+ * @returns The header, or undefined when the data is not a PNG
+ */
+function readPngHeader(data: Buffer): PngHeader | undefined {
+	if (data.length < 33 || !data.subarray(0, 8).equals(PNG_SIGNATURE)) {
+		return undefined
+	}
+	if (data.toString('ascii', 12, 16) !== 'IHDR') return undefined
+	return {
+		width: data.readUInt32BE(16),
+		height: data.readUInt32BE(20),
+		bitDepth: data.readUInt8(24),
+		colorType: data.readUInt8(25),
+	}
+}
+
+/**
+ * Read the description of an ICC profile (the `desc` tag), in either the
+ * ICC v2 `desc` or the v4 `mluc` encoding.
+ */
+export function readIccDescription(icc: Buffer): string | undefined {
+	if (icc.length < 132) return undefined
+	const tagCount = icc.readUInt32BE(128)
+	for (let index = 0; index < tagCount; index++) {
+		const entry = 132 + index * 12
+		if (entry + 12 > icc.length) return undefined
+		if (icc.toString('ascii', entry, entry + 4) !== 'desc') continue
+
+		const offset = icc.readUInt32BE(entry + 4)
+		if (offset + 28 > icc.length) return undefined
+		const type = icc.toString('ascii', offset, offset + 4)
+		if (type === 'desc') {
+			const length = icc.readUInt32BE(offset + 8)
+			return icc
+				.toString('latin1', offset + 12, offset + 12 + length)
+				.replace(/\0+$/, '')
+		}
+		if (type === 'mluc') {
+			// First record: language, country, byte length, offset.
+			const length = icc.readUInt32BE(offset + 20)
+			const start = offset + icc.readUInt32BE(offset + 24)
+			return Buffer.from(icc.subarray(start, start + length))
+				.swap16()
+				.toString('utf16le')
+		}
+		return undefined
+	}
+	return undefined
+}
+
+/**
+ * Check one store file against its rules.
+ */
+async function checkStoreFile(
+	rules: StoreFileRules,
+	data: Buffer,
+): Promise<StoreComplianceIssue[]> {
+	const issue = (
+		rule: StoreComplianceIssue['rule'],
+		message: string,
+		fixable: boolean,
+	): StoreComplianceIssue => ({
+		path: rules.path,
+		store: rules.store,
+		rule,
+		message,
+		fixable,
+	})
+
+	const header = readPngHeader(data)
+	if (!header) return [issue('format', 'is not a PNG', false)]
+
+	const issues: StoreComplianceIssue[] = []
+	if (header.width !== rules.width || header.height !== rules.height) {
+		issues.push(
+			issue(
+				'dimensions',
+				`is ${header.width}x${header.height}, expected ${rules.width}x${rules.height}`,
+				false,
+			),
+		)
+	}
+
+	const metadata = await sharp(data).metadata()
+	if (metadata.hasAlpha && !rules.alpha) {
+		issues.push(issue('alpha', 'has an alpha channel', true))
+	}
+	if (!metadata.hasAlpha && rules.alpha) {
+		issues.push(issue('alpha', 'has no alpha channel (32-bit PNG)', true))
+	}
+
+	const colorTypeName = PNG_COLOR_TYPE_NAMES[header.colorType]
+	if (colorTypeName !== undefined) {
+		issues.push(
+			issue('bit-depth', `is a ${colorTypeName} PNG, expected RGB`, true),
+		)
+	} else if (header.bitDepth !== 8) {
+		issues.push(
+			issue(
+				'bit-depth',
+				`has ${header.bitDepth} bits per channel, expected 8`,
+				true,
+			),
+		)
+	}
+
+	if (metadata.icc) {
+		const description = readIccDescription(metadata.icc) ?? 'unknown'
+		if (!rules.colorProfiles.test(description)) {
+			issues.push(
+				issue(
+					'color-profile',
+					`has the "${description}" color profile, expected sRGB`,
+					true,
+				),
+			)
+		}
+	}
+
+	if (rules.maxBytes !== undefined && data.length > rules.maxBytes) {
+		issues.push(
+			issue(
+				'file-size',
+				`is ${Math.ceil(data.length / 1024)} KB, at most ${rules.maxBytes / 1024} KB allowed`,
+				false,
+			),
+		)
+	}
+
+	return issues
+}
+
+// ─── Fixing ─────────────────────────────────────────────────────────────────
+
+/**
+ * Drop the alpha channel of a fully opaque PNG, which is lossless.
+ *
+ * Rendered assets always carry alpha; store files that must not have it
+ * go through this before they are written.
+ *
+ * @returns The 24-bit PNG, or the input when it has transparent pixels
+ */
+export async function removeOpaqueAlpha(png: Buffer): Promise<Buffer> {
+	const { isOpaque } = await sharp(png).stats()
+	return isOpaque ? sharp(png).removeAlpha().png().toBuffer() : png
+}
+
+/**
+ * Re-encode a store file as an 8-bit sRGB PNG with or without alpha.
+ *
+ * @param background - Color transparent pixels are flattened onto
+ */
+export async function fixStoreFile(
+	rules: StoreFileRules,
+	data: Buffer,
+	background: string,
+): Promise<Buffer> {
+	const image = sharp(data)
+	return (rules.alpha ? image.ensureAlpha(1) : image.flatten({ background }))
+		.toColourspace('srgb')
+		.png({ palette: false })
+		.toBuffer()
+}
+
+// ─── Validation ─────────────────────────────────────────────────────────────
+
+/**
+ * Check the store files of an output directory against the upload rules.
+ *
+ * Files that were not generated are skipped. With `fix`, files with
+ * fixable issues are rewritten in place and checked again, so only what
+ * is left (e.g., file size) is reported.
+ *
+ * @param outputDir - Output directory (or one variant's folder)
+ * @param options.fix - Rewrite files with fixable issues
+ * @param options.background - Color alpha is flattened onto (default: white)
+ */
+export async function validateStoreAssets(
+	outputDir: string,
+	options: { fix?: boolean; background?: string } = {},
+): Promise<StoreComplianceResult> {
+	const issues: StoreComplianceIssue[] = []
+	const fixedFiles: string[] = []
+	let checkedFiles = 0
+
+	for (const rules of getStoreFileRules()) {
+		const fullPath = join(outputDir, rules.path)
+		let data: Buffer
+		try {
+			data = await readFile(fullPath)
+		} catch {
+			continue
+		}
+		checkedFiles++
+
+		let fileIssues = await checkStoreFile(rules, data)
+		if (options.fix && fileIssues.some(issue => issue.fixable)) {
+			data = await fixStoreFile(rules, data, options.background ?? '#FFFFFF')
+			await writeFile(fullPath, data)
+			fixedFiles.push(rules.path)
+			fileIssues = await checkStoreFile(rules, data)
+		}
+		issues.push(...fileIssues)
+	}
+
+	issues.sort((a, b) => a.path.localeCompare(b.path))
+	return { outputDir, checkedFiles, issues, fixedFiles }
+}
+
+/**
+ * Format an issue as a single line, e.g.
+ * "store/ios/app-store-icon.png has an alpha channel (App Store)".
+ */
+export function formatStoreIssue(issue: StoreComplianceIssue): string {
+	return `${issue.path} ${issue.message} (${issue.store})`
+}
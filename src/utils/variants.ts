@@ -0,0 +1,87 @@
+/**
+ * Build Variants Module
+ *
+ * Resolves the configuration of each build variant (flavour) declared in
+ * `AssetGeneratorConfig.variants`, and where the variant is written and
+ * installed:
+ *
+ * - Output: `<outputDir>/<name>/`, a complete output directory per variant.
+ * - Android: the `src/<name>/res` source set next to the installed
+ *   `src/main/res`, picked up by the product flavor of the same name.
+ * - iOS: `AppIcon-<Name>.appiconset`, selected per build configuration
+ *   with the `ASSETCATALOG_COMPILER_APPICON_NAME` build setting.
+ */
+
+import { basename, dirname, join } from 'node:path'
+
+import type { AssetGeneratorConfig, VariantConfig } from '../types'
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+/**
+ * Valid variant names: usable as a folder, a Gradle product flavor and an
+ * asset catalog name suffix.
+ */
+export const VARIANT_NAME_PATTERN = /^[a-z][a-zA-Z0-9]*$/
+
+// ─── Resolution ─────────────────────────────────────────────────────────────
+
+/**
+ * Get the declared variant names, in declaration order.
+ */
+export function getVariantNames(config: AssetGeneratorConfig): string[] {
+	return Object.keys(config.variants ?? {})
+}
+
+/**
+ * Resolve the effective configuration of one variant.
+ *
+ * The variant's fields replace their top-level counterparts and the output
+ * directory becomes `<outputDir>/<name>`. The result has no `variants`, so
+ * it generates exactly one set of assets.
+ *
+ * @param config - Top-level configuration
+ * @param name - Variant name (a key of `config.variants`)
+ * @throws Error if the variant is not declared
+ */
+export function resolveVariantConfig(
+	config: AssetGeneratorConfig,
+	name: string,
+): AssetGeneratorConfig {
+	const variant: VariantConfig | undefined = config.variants?.[name]
+	if (variant === undefined) {
+		throw new Error(`Unknown variant "${name}"`)
+	}
+
+	const { variants: _variants, ...base } = config
+	return {
+		...base,
+		...variant,
+		outputDir: join(config.outputDir, name),
+	}
+}
+
+// ─── Install Targets ────────────────────────────────────────────────────────
+
+/**
+ * Name of a variant's asset catalog icon set, without the extension.
+ *
+ * @example
+ * getVariantAppIconName('staging') // 'AppIcon-Staging'
+ */
+export function getVariantAppIconName(name: string): string {
+	return `AppIcon-${name.charAt(0).toUpperCase()}${name.slice(1)}`
+}
+
+/**
+ * Get a variant's Android `res/` directory from the main one.
+ *
+ * The flavor source set sits next to the source set of the resolved res
+ * directory, e.g. `app/src/main/res` → `app/src/staging/res`.
+ *
+ * @param resDir - Resolved res directory (from resolveAndroidResPath)
+ * @param name - Variant (product flavor) name
+ */
+export function getVariantResDir(resDir: string, name: string): string {
+	return join(dirname(dirname(resDir)), name, basename(resDir))
+}
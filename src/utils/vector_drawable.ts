@@ -0,0 +1,622 @@
+/**
+ * Android VectorDrawable Module
+ *
+ * Converts Android adaptive icon layers to drawable XML, which launchers
+ * draw crisp at every density from a single small file:
+ *
+ * - `drawable/ic_launcher_foreground.xml` and `ic_launcher_monochrome.xml`:
+ *   VectorDrawables on the 108dp viewport, with the artwork fitted into the
+ *   centered safe zone like the rasterized layers. SVG shapes become path
+ *   data; text comes from the opentype.js outline.
+ * - `drawable/ic_launcher_background.xml`: `<shape>` with a `<gradient>`
+ *   for gradient backgrounds. Solid colors use `@color/ic_launcher_background`
+ *   from colors.xml instead.
+ *
+ * Only part of SVG maps onto VectorDrawable: paths and basic shapes with
+ * flat fills and strokes, nested in plain groups. Transforms, CSS, paint
+ * servers, clipping, text and images are rejected with an error.
+ *
+ * @see https://developer.android.com/develop/ui/views/graphics/vector-drawable-resources
+ */
+
+import type {
+	AssetGeneratorConfig,
+	AssetSpec,
+	BackgroundConfig,
+	GradientConfig,
+} from '../types'
+import { resolveAssetConfig } from './overrides'
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+/** One `<path>` of a VectorDrawable, with Android colors. */
+export interface VectorPath {
+	pathData: string
+	fillColor?: string
+	fillAlpha?: number
+	fillType?: 'evenOdd'
+	strokeColor?: string
+	strokeAlpha?: number
+	strokeWidth?: number
+}
+
+/** Vector artwork in its own coordinate space. */
+export interface VectorArtwork {
+	/** Area of the artwork fitted into the safe zone. */
+	viewBox: { x: number; y: number; width: number; height: number }
+	paths: VectorPath[]
+	/** Translation applied to every path (text outlines are drawn at 0, 0). */
+	translate?: { x: number; y: number }
+}
+
+/** Adaptive icon layers written as drawable XML instead of mipmap PNGs. */
+export interface VectorAdaptiveLayers {
+	foreground: boolean
+	monochrome: boolean
+	/** Solid colors reference colors.xml, gradients get a shape drawable. */
+	background: 'color' | 'gradient' | undefined
+}
+
+/** Drawable resources referenced by the adaptive icon XML. */
+export interface AdaptiveIconDrawables {
+	background: string
+	foreground: string
+	monochrome: string
+}
+
+/** SVG paint attributes inherited from ancestors. */
+interface SvgStyle {
+	fill: string
+	fillOpacity: number
+	fillRule: string
+	stroke: string
+	strokeOpacity: number
+	strokeWidth: number
+	opacity: number
+}
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+/** Generated drawable files, relative to the output directory. */
+export const ANDROID_VECTOR_FOREGROUND =
+	'android/drawable/ic_launcher_foreground.xml'
+export const ANDROID_VECTOR_MONOCHROME =
+	'android/drawable/ic_launcher_monochrome.xml'
+export const ANDROID_VECTOR_BACKGROUND =
+	'android/drawable/ic_launcher_background.xml'
+
+/** Layers of the 'png' format: every adaptive layer is a mipmap PNG. */
+export const PNG_ADAPTIVE_LAYERS: VectorAdaptiveLayers = {
+	foreground: false,
+	monochrome: false,
+	background: undefined,
+}
+
+/** Adaptive icon canvas in dp, used as the VectorDrawable viewport. */
+const ADAPTIVE_VIEWPORT_DP = 108
+
+/** `<gradient>` only has start, center and end colors. */
+const MAX_GRADIENT_COLORS = 3
+
+/** Matches one opening, closing or self-closing tag. */
+const TAG = /<(\/?)([A-Za-z][\w:.-]*)((?:[^>"']|"[^"]*"|'[^']*')*?)(\/?)>/g
+
+/** Matches one attribute of a tag. */
+const ATTRIBUTE = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g
+
+/** Elements that only group their children. */
+const GROUP_ELEMENTS = new Set(['svg', 'g'])
+
+/** Elements whose content is never drawn directly. */
+const SKIPPED_ELEMENTS = new Set([
+	'defs',
+	'title',
+	'desc',
+	'metadata',
+	'symbol',
+])
+
+/** Attributes that cannot be expressed on a VectorDrawable path. */
+const UNSUPPORTED_ATTRIBUTES = ['transform', 'clip-path', 'mask', 'filter']
+
+/** Paint of the root element (SVG defaults). */
+const DEFAULT_STYLE: SvgStyle = {
+	fill: '#000000',
+	fillOpacity: 1,
+	fillRule: 'nonzero',
+	stroke: 'none',
+	strokeOpacity: 1,
+	strokeWidth: 1,
+	opacity: 1,
+}
+
+// ─── Resolution ─────────────────────────────────────────────────────────────
+
+/**
+ * Get the background mode of a vector adaptive icon, or undefined when it
+ * stays a PNG (images, and gradients `<gradient>` cannot express).
+ */
+function getVectorBackground(
+	background: BackgroundConfig,
+): VectorAdaptiveLayers['background'] {
+	if (background.type === 'color' && background.color) return 'color'
+	if (
+		background.type === 'gradient' &&
+		background.gradient &&
+		canUseGradientDrawable(background.gradient)
+	) {
+		return 'gradient'
+	}
+	return undefined
+}
+
+/**
+ * Get the adaptive icon layers written as drawable XML.
+ *
+ * Only applies to the 'vector' format. Image foregrounds stay PNG, and so
+ * does a badged foreground since the badge is drawn into the pixels.
+ */
+export function getVectorAdaptiveLayers(
+	config: AssetGeneratorConfig,
+): VectorAdaptiveLayers {
+	if (config.androidAdaptiveFormat !== 'vector') return PNG_ADAPTIVE_LAYERS
+	const foreground = resolveAssetConfig(config, {
+		platform: 'android',
+		type: 'adaptive',
+		name: ANDROID_VECTOR_FOREGROUND,
+	})
+	const background = resolveAssetConfig(config, {
+		platform: 'android',
+		type: 'adaptive',
+		name: ANDROID_VECTOR_BACKGROUND,
+	})
+	const isVector = foreground.foreground.type !== 'image'
+	return {
+		foreground: isVector && foreground.badge === undefined,
+		monochrome: isVector,
+		background: getVectorBackground(background.background),
+	}
+}
+
+/**
+ * Whether a rasterized adaptive layer is replaced by drawable XML.
+ */
+export function isReplacedByVectorDrawable(
+	spec: Pick<AssetSpec, 'platform' | 'name'>,
+	layers: VectorAdaptiveLayers,
+): boolean {
+	if (spec.platform !== 'android') return false
+	const layer = spec.name.match(
+		/\/ic_launcher_(foreground|monochrome|background)\.png$/,
+	)?.[1]
+	if (layer === 'foreground') return layers.foreground
+	if (layer === 'monochrome') return layers.monochrome
+	if (layer === 'background') return layers.background !== undefined
+	return false
+}
+
+/**
+ * Get the drawable resources the adaptive icon XML references.
+ *
+ * @param layers - Layers written as drawable XML (from getVectorAdaptiveLayers)
+ */
+export function getAdaptiveIconDrawables(
+	layers: VectorAdaptiveLayers,
+): AdaptiveIconDrawables {
+	return {
+		background:
+			layers.background === 'color'
+				? '@color/ic_launcher_background'
+				: `@${layers.background === 'gradient' ? 'drawable' : 'mipmap'}/ic_launcher_background`,
+		foreground: `@${layers.foreground ? 'drawable' : 'mipmap'}/ic_launcher_foreground`,
+		monochrome: `@${layers.monochrome ? 'drawable' : 'mipmap'}/ic_launcher_monochrome`,
+	}
+}
+
+// ─── SVG Conversion ─────────────────────────────────────────────────────────
+
+/**
+ * Format a number for XML output.
+ */
+function n(value: number, digits = 2): string {
+	return String(Number(value.toFixed(digits)))
+}
+
+/**
+ * Parse the attributes of a tag, with `style` declarations taking
+ * precedence over presentation attributes.
+ */
+function parseAttributes(source: string): Map<string, string> {
+	const attributes = new Map<string, string>()
+	for (const [, name, double, single] of source.matchAll(ATTRIBUTE)) {
+		attributes.set(name!, (double ?? single ?? '').trim())
+	}
+	const style = attributes.get('style')
+	if (style !== undefined) {
+		attributes.delete('style')
+		for (const declaration of style.split(';')) {
+			const [property, ...value] = declaration.split(':')
+			if (property?.trim() && value.length > 0) {
+				attributes.set(property.trim(), value.join(':').trim())
+			}
+		}
+	}
+	return attributes
+}
+
+/**
+ * Convert an SVG color to an Android color and its alpha.
+ *
+ * @returns undefined for `none`
+ * @throws Error for colors other than hex and currentColor
+ */
+function toAndroidColor(
+	value: string,
+): { color: string; alpha: number } | undefined {
+	if (value === 'none' || value === 'transparent') return undefined
+	if (value === 'currentColor') return { color: '#000000', alpha: 1 }
+
+	const hex = value.match(/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i)?.[1]
+	if (hex === undefined) {
+		throw new Error(`Unsupported SVG color "${value}" (use hex colors)`)
+	}
+	// SVG puts alpha last (#RGBA, #RRGGBBAA); Android reads it first.
+	const full =
+		hex.length <= 4
+			? hex
+					.split('')
+					.map(digit => digit + digit)
+					.join('')
+			: hex
+	const alpha = full.length === 8 ? Number.parseInt(full.slice(6), 16) / 255 : 1
+	return { color: `#${full.slice(0, 6).toUpperCase()}`, alpha }
+}
+
+/**
+ * Apply an element's paint attributes on top of its parent's.
+ */
+function inheritStyle(
+	parent: SvgStyle,
+	attributes: Map<string, string>,
+): SvgStyle {
+	const number = (name: string, fallback: number) => {
+		const value = attributes.get(name)
+		return value === undefined ? fallback : Number.parseFloat(value)
+	}
+	return {
+		fill: attributes.get('fill') ?? parent.fill,
+		fillOpacity: number('fill-opacity', parent.fillOpacity),
+		fillRule: attributes.get('fill-rule') ?? parent.fillRule,
+		stroke: attributes.get('stroke') ?? parent.stroke,
+		strokeOpacity: number('stroke-opacity', parent.strokeOpacity),
+		strokeWidth: number('stroke-width', parent.strokeWidth),
+		// Group opacity is folded into each path, exact unless paths overlap.
+		opacity: parent.opacity * number('opacity', 1),
+	}
+}
+
+/**
+ * Convert a basic shape to path data.
+ *
+ * @returns The path data, or undefined for elements that are not shapes
+ */
+function getShapePathData(
+	name: string,
+	attributes: Map<string, string>,
+): string | undefined {
+	const number = (attribute: string) =>
+		Number.parseFloat(attributes.get(attribute) ?? '0') || 0
+
+	switch (name) {
+		case 'path':
+			return attributes.get('d')
+		case 'rect': {
+			const x = number('x')
+			const y = number('y')
+			const width = number('width')
+			const height = number('height')
+			let rx = attributes.has('rx') ? number('rx') : number('ry')
+			let ry = attributes.has('ry') ? number('ry') : rx
+			rx = Math.min(rx, width / 2)
+			ry = Math.min(ry, height / 2)
+			if (rx <= 0 || ry <= 0) {
+				return `M${n(x)} ${n(y)}H${n(x + width)}V${n(y + height)}H${n(x)}Z`
+			}
+			const arc = `A${n(rx)} ${n(ry)} 0 0 1`
+			return `M${n(x + rx)} ${n(y)}H${n(x + width - rx)}${arc} ${n(x + width)} ${n(y + ry)}V${n(y + height - ry)}${arc} ${n(x + width - rx)} ${n(y + height)}H${n(x + rx)}${arc} ${n(x)} ${n(y + height - ry)}V${n(y + ry)}${arc} ${n(x + rx)} ${n(y)}Z`
+		}
+		case 'circle':
+		case 'ellipse': {
+			const cx = number('cx')
+			const cy = number('cy')
+			const rx = name === 'circle' ? number('r') : number('rx')
+			const ry = name === 'circle' ? number('r') : number('ry')
+			const arc = `A${n(rx)} ${n(ry)} 0 1 0`
+			return `M${n(cx - rx)} ${n(cy)}${arc} ${n(cx + rx)} ${n(cy)}${arc} ${n(cx - rx)} ${n(cy)}Z`
+		}
+		case 'line':
+			return `M${n(number('x1'))} ${n(number('y1'))}L${n(number('x2'))} ${n(number('y2'))}`
+		case 'polygon':
+		case 'polyline': {
+			const values = (attributes.get('points') ?? '')
+				.trim()
+				.split(/[\s,]+/)
+				.filter(value => value !== '')
+			if (values.length < 4) return ''
+			const points: string[] = []
+			for (let i = 0; i + 1 < values.length; i += 2) {
+				points.push(`${values[i]} ${values[i + 1]}`)
+			}
+			return `M${points.join('L')}${name === 'polygon' ? 'Z' : ''}`
+		}
+		default:
+			return undefined
+	}
+}
+
+/**
+ * Build a VectorDrawable path from path data and its paint.
+ *
+ * @returns The path, or undefined when nothing is painted
+ */
+function createVectorPath(
+	pathData: string,
+	style: SvgStyle,
+	colorOverride: string | undefined,
+): VectorPath | undefined {
+	const fill = toAndroidColor(style.fill)
+	const stroke = toAndroidColor(style.stroke)
+	const path: VectorPath = { pathData }
+	if (fill) {
+		path.fillColor = colorOverride ?? fill.color
+		const alpha = style.opacity * style.fillOpacity * fill.alpha
+		if (alpha < 1) path.fillAlpha = alpha
+		if (style.fillRule === 'evenodd') path.fillType = 'evenOdd'
+	}
+	if (stroke && style.strokeWidth > 0) {
+		path.strokeColor = colorOverride ?? stroke.color
+		path.strokeWidth = style.strokeWidth
+		const alpha = style.opacity * style.strokeOpacity * stroke.alpha
+		if (alpha < 1) path.strokeAlpha = alpha
+	}
+	return path.fillColor || path.strokeColor ? path : undefined
+}
+
+/**
+ * Read the area an SVG is drawn in from its viewBox, or its width and
+ * height.
+ */
+function getViewBox(attributes: Map<string, string>): VectorArtwork['viewBox'] {
+	const viewBox = attributes
+		.get('viewBox')
+		?.trim()
+		.split(/[\s,]+/)
+		.map(Number)
+	if (viewBox?.length === 4 && viewBox.every(Number.isFinite)) {
+		const [x, y, width, height] = viewBox as [number, number, number, number]
+		if (width > 0 && height > 0) return { x, y, width, height }
+	}
+	const width = Number.parseFloat(attributes.get('width') ?? '')
+	const height = Number.parseFloat(attributes.get('height') ?? '')
+	if (width > 0 && height > 0) return { x: 0, y: 0, width, height }
+	throw new Error('SVG needs a viewBox or a width and height')
+}
+
+/**
+ * Convert an SVG document to vector artwork.
+ *
+ * @param svg - SVG markup
+ * @param colorOverride - Color replacing every fill and stroke (the
+ *   foreground `color`, or white for the monochrome layer)
+ * @throws Error naming the first element or attribute VectorDrawable
+ *   cannot express
+ */
+export function parseSvgArtwork(
+	svg: string,
+	colorOverride?: string,
+): VectorArtwork {
+	const source = svg.replace(
+		/<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<!\[CDATA\[[\s\S]*?\]\]>/gi,
+		'',
+	)
+	const stack: { style: SvgStyle; skipped: boolean }[] = []
+	const paths: VectorPath[] = []
+	let viewBox: VectorArtwork['viewBox'] | undefined
+
+	for (const [, closing, name, rawAttributes, selfClosing] of source.matchAll(
+		TAG,
+	)) {
+		if (closing) {
+			stack.pop()
+			continue
+		}
+		const tag = name!
+		const parent = stack.at(-1)
+		if (tag === 'style') {
+			throw new Error('Unsupported SVG element <style> (use attributes)')
+		}
+
+		// Editor metadata (sodipodi:, inkscape:) and definitions are not drawn.
+		const skipped =
+			parent?.skipped === true || SKIPPED_ELEMENTS.has(tag) || tag.includes(':')
+		let style = parent?.style ?? DEFAULT_STYLE
+		if (!skipped) {
+			const attributes = parseAttributes(rawAttributes ?? '')
+			if (viewBox === undefined) {
+				if (tag !== 'svg') throw new Error('Not an SVG document')
+				viewBox = getViewBox(attributes)
+			} else if (tag === 'svg') {
+				throw new Error('Unsupported nested <svg> element')
+			}
+			for (const attribute of UNSUPPORTED_ATTRIBUTES) {
+				if (attributes.has(attribute)) {
+					throw new Error(`Unsupported SVG attribute ${attribute} on <${tag}>`)
+				}
+			}
+			for (const paint of ['fill', 'stroke']) {
+				if (attributes.get(paint)?.startsWith('url(')) {
+					throw new Error(`Unsupported SVG paint server on <${tag}> ${paint}`)
+				}
+			}
+
+			style = inheritStyle(style, attributes)
+			if (!GROUP_ELEMENTS.has(tag)) {
+				const pathData = getShapePathData(tag, attributes)
+				if (pathData === undefined) {
+					throw new Error(`Unsupported SVG element <${tag}>`)
+				}
+				const path = pathData
+					? createVectorPath(pathData, style, colorOverride)
+					: undefined
+				if (path) paths.push(path)
+			}
+		}
+		if (!selfClosing) stack.push({ style, skipped })
+	}
+
+	if (viewBox === undefined) throw new Error('Not an SVG document')
+	return { viewBox, paths }
+}
+
+/**
+ * Build vector artwork from a text outline centered on a size × size
+ * canvas (see createTextForegroundPath).
+ */
+export function createTextArtwork(
+	layout: { pathData: string; offsetX: number; offsetY: number },
+	size: number,
+	color: string,
+): VectorArtwork {
+	return {
+		viewBox: { x: 0, y: 0, width: size, height: size },
+		paths: [{ pathData: layout.pathData, fillColor: color.toUpperCase() }],
+		translate: { x: layout.offsetX, y: layout.offsetY },
+	}
+}
+
+// ─── Drawable XML ───────────────────────────────────────────────────────────
+
+/**
+ * Build the `<path>` element of a VectorDrawable.
+ */
+function createPathXml(path: VectorPath, indent: string): string {
+	const attributes: string[] = []
+	if (path.fillColor) attributes.push(`android:fillColor="${path.fillColor}"`)
+	if (path.fillAlpha !== undefined) {
+		attributes.push(`android:fillAlpha="${n(path.fillAlpha, 3)}"`)
+	}
+	if (path.fillType) attributes.push(`android:fillType="${path.fillType}"`)
+	if (path.strokeColor) {
+		attributes.push(`android:strokeColor="${path.strokeColor}"`)
+	}
+	if (path.strokeWidth !== undefined) {
+		attributes.push(`android:strokeWidth="${n(path.strokeWidth)}"`)
+	}
+	if (path.strokeAlpha !== undefined) {
+		attributes.push(`android:strokeAlpha="${n(path.strokeAlpha, 3)}"`)
+	}
+	attributes.push(`android:pathData="${path.pathData}"`)
+	return `${indent}<path\n${attributes.map(attribute => `${indent}    ${attribute}`).join('\n')}/>`
+}
+
+/**
+ * Build a VectorDrawable on the 108dp adaptive icon viewport.
+ *
+ * The artwork is fitted (contain) into the centered square of
+ * `scale × 108dp`, matching the rasterized foreground layers.
+ *
+ * @param artwork - Artwork from parseSvgArtwork or createTextArtwork
+ * @param scale - Foreground size as a fraction of the 108dp canvas
+ */
+export function createVectorDrawableXml(
+	artwork: VectorArtwork,
+	scale: number,
+): string {
+	const { x, y, width, height } = artwork.viewBox
+	const box = ADAPTIVE_VIEWPORT_DP * scale
+	const fit = box / Math.max(width, height)
+	const translateX = (ADAPTIVE_VIEWPORT_DP - width * fit) / 2 - x * fit
+	const translateY = (ADAPTIVE_VIEWPORT_DP - height * fit) / 2 - y * fit
+
+	const lines = [
+		'<?xml version="1.0" encoding="utf-8"?>',
+		'<vector xmlns:android="http://schemas.android.com/apk/res/android"',
+		`    android:width="${ADAPTIVE_VIEWPORT_DP}dp"`,
+		`    android:height="${ADAPTIVE_VIEWPORT_DP}dp"`,
+		`    android:viewportWidth="${ADAPTIVE_VIEWPORT_DP}"`,
+		`    android:viewportHeight="${ADAPTIVE_VIEWPORT_DP}">`,
+		'    <group',
+		`        android:translateX="${n(translateX, 4)}"`,
+		`        android:translateY="${n(translateY, 4)}"`,
+		`        android:scaleX="${n(fit, 6)}"`,
+		`        android:scaleY="${n(fit, 6)}">`,
+	]
+	if (artwork.translate) {
+		lines.push('        <group')
+		lines.push(`            android:translateX="${n(artwork.translate.x, 4)}"`)
+		lines.push(`            android:translateY="${n(artwork.translate.y, 4)}">`)
+		for (const path of artwork.paths) {
+			lines.push(createPathXml(path, '            '))
+		}
+		lines.push('        </group>')
+	} else {
+		for (const path of artwork.paths) {
+			lines.push(createPathXml(path, '        '))
+		}
+	}
+	lines.push('    </group>')
+	lines.push('</vector>')
+	return `${lines.join('\n')}\n`
+}
+
+/**
+ * Whether a gradient can be drawn by a `<gradient>` shape drawable: two or
+ * three colors, and linear angles in 45° steps.
+ */
+export function canUseGradientDrawable(gradient: GradientConfig): boolean {
+	if (
+		gradient.colors.length < 2 ||
+		gradient.colors.length > MAX_GRADIENT_COLORS
+	) {
+		return false
+	}
+	return gradient.type === 'radial' || (gradient.angle ?? 0) % 45 === 0
+}
+
+/**
+ * Convert a background gradient angle to a `<gradient>` angle.
+ *
+ * Backgrounds start at the edge the angle points to, clockwise from the
+ * top (0 = top to bottom); Android angles run counterclockwise from
+ * left-to-right (270 = top to bottom).
+ */
+export function getAndroidGradientAngle(angle: number): number {
+	return (((270 - angle) % 360) + 360) % 360
+}
+
+/**
+ * Build a `<shape>` drawable filled with a background gradient.
+ *
+ * @param gradient - Gradient accepted by canUseGradientDrawable
+ */
+export function createGradientDrawableXml(gradient: GradientConfig): string {
+	const colors = gradient.colors.map(color => color.toUpperCase())
+	const attributes =
+		gradient.type === 'linear'
+			? [
+					'android:type="linear"',
+					`android:angle="${getAndroidGradientAngle(gradient.angle ?? 0)}"`,
+				]
+			: ['android:type="radial"', 'android:gradientRadius="50%"']
+	attributes.push(`android:startColor="${colors[0]}"`)
+	if (colors.length === 3) attributes.push(`android:centerColor="${colors[1]}"`)
+	attributes.push(`android:endColor="${colors.at(-1)}"`)
+
+	return `<?xml version="1.0" encoding="utf-8"?>
+<shape xmlns:android="http://schemas.android.com/apk/res/android"
+    android:shape="rectangle">
+    <gradient
+${attributes.map(attribute => `        ${attribute}`).join('\n')}/>
+</shape>
+`
+}
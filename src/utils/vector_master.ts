@@ -0,0 +1,594 @@
+/**
+ * Vector Master Module
+ *
+ * Composes the icon and splash screen as vector files, for designers who
+ * need the source of the rasters:
+ *
+ * - `master/icon.svg`, `master/splash.svg`: The background markup (a rect
+ *   or the gradient SVG) with the foreground artwork nested in its box.
+ * - `master/icon.pdf`, `master/splash.pdf`: A single page with the
+ *   background as a fill or shading and the foreground as PDF paths, one
+ *   point per pixel.
+ *
+ * The foreground box uses the same scale and centering as the rasters.
+ * The PDF takes artwork from parseSvgArtwork (see vector_drawable.ts), so
+ * it accepts the same SVG subset as Android VectorDrawables.
+ *
+ * @see https://opensource.adobe.com/dc-acrobat-sdk-docs/pdfstandards/PDF32000_2008.pdf
+ */
+
+import type { AssetGeneratorConfig, AssetType } from '../types'
+import type { VectorArtwork, VectorPath } from './vector_drawable'
+import type { SvgArtwork } from './web_head'
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+/**
+ * A vector master, written once per format.
+ */
+export interface VectorMasterSpec {
+	/** Path without extension, relative to the output directory. */
+	name: string
+
+	/** Asset type whose scale and selection the master follows. */
+	type: Extract<AssetType, 'icon' | 'splash'>
+
+	width: number
+	height: number
+}
+
+/**
+ * Square the foreground is fitted into, in pixels from the top-left.
+ */
+export interface VectorMasterBox {
+	left: number
+	top: number
+	size: number
+}
+
+/**
+ * Background of the PDF master.
+ * - 'color': A solid fill.
+ * - 'linear': Colors spread evenly from `from` to `to`, in fractions of
+ *   the canvas (like the gradient SVG's percentages).
+ * - 'radial': Colors spread evenly from the center to half the canvas.
+ */
+export type VectorMasterBackground =
+	| { type: 'color'; color: string }
+	| {
+			type: 'linear'
+			colors: string[]
+			from: { x: number; y: number }
+			to: { x: number; y: number }
+	  }
+	| { type: 'radial'; colors: string[] }
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+/** Masters in output order: the App Store icon and a universal splash. */
+export const VECTOR_MASTERS: VectorMasterSpec[] = [
+	{ name: 'master/icon', type: 'icon', width: 1024, height: 1024 },
+	// Largest iPad side, so any screen is a centered crop.
+	{ name: 'master/splash', type: 'splash', width: 2732, height: 2732 },
+]
+
+/** Path commands, in upper case. */
+const PATH_COMMANDS = new Set('MLHVCSQTAZ')
+
+/** Matches one number of path data, from its `lastIndex`. */
+const NUMBER = /[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/y
+
+// ─── Files ──────────────────────────────────────────────────────────────────
+
+/**
+ * Get the masters of a config: the icon with `icon` assets, the splash
+ * screen with `splash` assets.
+ */
+export function getVectorMasterSpecs(
+	config: Pick<AssetGeneratorConfig, 'assetTypes' | 'vectorMaster'>,
+): VectorMasterSpec[] {
+	if (config.vectorMaster === undefined || config.vectorMaster.length === 0) {
+		return []
+	}
+	return VECTOR_MASTERS.filter(spec => config.assetTypes.includes(spec.type))
+}
+
+/**
+ * Get the files written for the masters of a config.
+ */
+export function getVectorMasterFiles(
+	config: Pick<AssetGeneratorConfig, 'assetTypes' | 'vectorMaster'>,
+): string[] {
+	return getVectorMasterSpecs(config).flatMap(spec =>
+		(config.vectorMaster ?? []).map(format => `${spec.name}.${format}`),
+	)
+}
+
+// ─── SVG ────────────────────────────────────────────────────────────────────
+
+/**
+ * Build the SVG master.
+ *
+ * @param background - Markup filling the canvas (a rect or gradient SVG)
+ * @param artwork - Foreground artwork, fitted into the box keeping its
+ *   aspect ratio
+ */
+export function createVectorMasterSvg(
+	spec: Pick<VectorMasterSpec, 'width' | 'height'>,
+	background: string,
+	artwork: SvgArtwork,
+	box: VectorMasterBox,
+): string {
+	const { width, height } = spec
+	return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+  ${background}
+  <svg x="${box.left}" y="${box.top}" width="${box.size}" height="${box.size}" viewBox="${artwork.viewBox}"${artwork.attributes}>
+    ${artwork.content}
+  </svg>
+</svg>
+`
+}
+
+// ─── PDF Paths ──────────────────────────────────────────────────────────────
+
+/**
+ * Format a number for PDF content.
+ */
+function n(value: number, digits = 3): string {
+	return String(Number(value.toFixed(digits)))
+}
+
+/**
+ * Convert an SVG arc to cubic Bézier segments of at most 90° each.
+ *
+ * @returns Control points and end point of each segment, or undefined
+ *   when the arc is a straight line (a zero radius)
+ * @see https://www.w3.org/TR/SVG11/implnote.html#ArcImplementationNotes
+ */
+function arcToCubics(
+	x1: number,
+	y1: number,
+	radiusX: number,
+	radiusY: number,
+	rotation: number,
+	largeArc: boolean,
+	sweep: boolean,
+	x2: number,
+	y2: number,
+): number[][] | undefined {
+	if (x1 === x2 && y1 === y2) return []
+	let rx = Math.abs(radiusX)
+	let ry = Math.abs(radiusY)
+	if (rx === 0 || ry === 0) return undefined
+
+	const phi = (rotation * Math.PI) / 180
+	const cos = Math.cos(phi)
+	const sin = Math.sin(phi)
+	const dx = (x1 - x2) / 2
+	const dy = (y1 - y2) / 2
+	const x1p = cos * dx + sin * dy
+	const y1p = -sin * dx + cos * dy
+
+	// Radii too small to reach the end point are scaled up.
+	const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry)
+	if (lambda > 1) {
+		rx *= Math.sqrt(lambda)
+		ry *= Math.sqrt(lambda)
+	}
+
+	const numerator =
+		rx * rx * ry * ry - rx * rx * y1p * y1p - ry * ry * x1p * x1p
+	const denominator = rx * rx * y1p * y1p + ry * ry * x1p * x1p
+	const coefficient =
+		(largeArc === sweep ? -1 : 1) *
+		Math.sqrt(Math.max(0, numerator / denominator))
+	const cxp = (coefficient * rx * y1p) / ry
+	const cyp = (-coefficient * ry * x1p) / rx
+	const cx = cos * cxp - sin * cyp + (x1 + x2) / 2
+	const cy = sin * cxp + cos * cyp + (y1 + y2) / 2
+
+	const angle = (ux: number, uy: number, vx: number, vy: number) =>
+		Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy)
+	const startX = (x1p - cxp) / rx
+	const startY = (y1p - cyp) / ry
+	const start = angle(1, 0, startX, startY)
+	let sweepAngle = angle(startX, startY, (-x1p - cxp) / rx, (-y1p - cyp) / ry)
+	if (!sweep && sweepAngle > 0) sweepAngle -= 2 * Math.PI
+	if (sweep && sweepAngle < 0) sweepAngle += 2 * Math.PI
+
+	const segments = Math.ceil(Math.abs(sweepAngle) / (Math.PI / 2))
+	const delta = sweepAngle / segments
+	const k = (4 / 3) * Math.tan(delta / 4)
+	const point = (a: number) => [
+		cx + rx * Math.cos(a) * cos - ry * Math.sin(a) * sin,
+		cy + rx * Math.cos(a) * sin + ry * Math.sin(a) * cos,
+	]
+	const tangent = (a: number) => [
+		-rx * Math.sin(a) * cos - ry * Math.cos(a) * sin,
+		-rx * Math.sin(a) * sin + ry * Math.cos(a) * cos,
+	]
+
+	const curves: number[][] = []
+	for (let index = 0; index < segments; index++) {
+		const a1 = start + index * delta
+		const a2 = a1 + delta
+		const [p1x = 0, p1y = 0] = point(a1)
+		const [t1x = 0, t1y = 0] = tangent(a1)
+		const [p2x = 0, p2y = 0] = index === segments - 1 ? [x2, y2] : point(a2)
+		const [t2x = 0, t2y = 0] = tangent(a2)
+		curves.push([
+			p1x + k * t1x,
+			p1y + k * t1y,
+			p2x - k * t2x,
+			p2y - k * t2y,
+			p2x,
+			p2y,
+		])
+	}
+	return curves
+}
+
+/**
+ * Convert SVG path data to PDF path construction operators.
+ *
+ * Relative commands become absolute, quadratic curves and arcs become
+ * cubic curves, and the smooth commands get their reflected control point.
+ *
+ * @throws Error on malformed path data
+ */
+export function toPdfPath(pathData: string): string[] {
+	const operators: string[] = []
+	let index = 0
+	let command = ''
+	let x = 0
+	let y = 0
+	let startX = 0
+	let startY = 0
+	// Last control point, for S (cubic) and T (quadratic).
+	let cubicControl: [number, number] | undefined
+	let quadControl: [number, number] | undefined
+
+	const skipSeparators = () => {
+		while (index < pathData.length && /[\s,]/.test(pathData[index]!)) index++
+	}
+	const readNumber = (): number => {
+		skipSeparators()
+		NUMBER.lastIndex = index
+		const match = NUMBER.exec(pathData)
+		if (!match)
+			throw new Error(
+				`Invalid path data at "${pathData.slice(index, index + 10)}"`,
+			)
+		index = NUMBER.lastIndex
+		return Number.parseFloat(match[0])
+	}
+	const readFlag = (): boolean => {
+		skipSeparators()
+		const flag = pathData[index]
+		if (flag !== '0' && flag !== '1') {
+			throw new Error(
+				`Invalid arc flag at "${pathData.slice(index, index + 10)}"`,
+			)
+		}
+		index++
+		return flag === '1'
+	}
+	const curveTo = (values: number[]) => {
+		operators.push(`${values.map(value => n(value)).join(' ')} c`)
+	}
+
+	for (;;) {
+		skipSeparators()
+		if (index >= pathData.length) break
+		const char = pathData[index]!
+		if (/[a-z]/i.test(char)) {
+			if (!PATH_COMMANDS.has(char.toUpperCase())) {
+				throw new Error(`Unsupported path command "${char}"`)
+			}
+			command = char
+			index++
+		} else if (command === '' || command.toUpperCase() === 'Z') {
+			throw new Error(
+				`Invalid path data at "${pathData.slice(index, index + 10)}"`,
+			)
+		} else if (command === 'M') {
+			// Coordinates after a moveto are implicit linetos.
+			command = 'L'
+		} else if (command === 'm') {
+			command = 'l'
+		}
+
+		const relative = command === command.toLowerCase()
+		const dx = relative ? x : 0
+		const dy = relative ? y : 0
+		let nextCubic: [number, number] | undefined
+		let nextQuad: [number, number] | undefined
+
+		switch (command.toUpperCase()) {
+			case 'M':
+				x = readNumber() + dx
+				y = readNumber() + dy
+				startX = x
+				startY = y
+				operators.push(`${n(x)} ${n(y)} m`)
+				break
+			case 'L':
+				x = readNumber() + dx
+				y = readNumber() + dy
+				operators.push(`${n(x)} ${n(y)} l`)
+				break
+			case 'H':
+				x = readNumber() + dx
+				operators.push(`${n(x)} ${n(y)} l`)
+				break
+			case 'V':
+				y = readNumber() + dy
+				operators.push(`${n(x)} ${n(y)} l`)
+				break
+			case 'C':
+			case 'S': {
+				const [c1x, c1y] =
+					command.toUpperCase() === 'C'
+						? [readNumber() + dx, readNumber() + dy]
+						: cubicControl
+							? [2 * x - cubicControl[0], 2 * y - cubicControl[1]]
+							: [x, y]
+				const c2x = readNumber() + dx
+				const c2y = readNumber() + dy
+				x = readNumber() + dx
+				y = readNumber() + dy
+				curveTo([c1x, c1y, c2x, c2y, x, y])
+				nextCubic = [c2x, c2y]
+				break
+			}
+			case 'Q':
+			case 'T': {
+				const [qx, qy] =
+					command.toUpperCase() === 'Q'
+						? [readNumber() + dx, readNumber() + dy]
+						: quadControl
+							? [2 * x - quadControl[0], 2 * y - quadControl[1]]
+							: [x, y]
+				const endX = readNumber() + dx
+				const endY = readNumber() + dy
+				curveTo([
+					x + (2 / 3) * (qx - x),
+					y + (2 / 3) * (qy - y),
+					endX + (2 / 3) * (qx - endX),
+					endY + (2 / 3) * (qy - endY),
+					endX,
+					endY,
+				])
+				x = endX
+				y = endY
+				nextQuad = [qx, qy]
+				break
+			}
+			case 'A': {
+				const rx = readNumber()
+				const ry = readNumber()
+				const rotation = readNumber()
+				const largeArc = readFlag()
+				const sweep = readFlag()
+				const endX = readNumber() + dx
+				const endY = readNumber() + dy
+				const curves = arcToCubics(
+					x,
+					y,
+					rx,
+					ry,
+					rotation,
+					largeArc,
+					sweep,
+					endX,
+					endY,
+				)
+				if (curves === undefined) {
+					operators.push(`${n(endX)} ${n(endY)} l`)
+				} else {
+					curves.forEach(curveTo)
+				}
+				x = endX
+				y = endY
+				break
+			}
+			case 'Z':
+				operators.push('h')
+				x = startX
+				y = startY
+				break
+		}
+		cubicControl = nextCubic
+		quadControl = nextQuad
+	}
+	return operators
+}
+
+// ─── PDF ────────────────────────────────────────────────────────────────────
+
+/**
+ * Format a hex color as PDF RGB components.
+ */
+function toPdfColor(hex: string): string {
+	const value = hex.replace('#', '')
+	return [0, 2, 4]
+		.map(offset =>
+			n(Number.parseInt(value.slice(offset, offset + 2), 16) / 255, 4),
+		)
+		.join(' ')
+}
+
+/**
+ * Build the function mapping 0–1 to the gradient colors, spread evenly.
+ */
+function createGradientFunction(colors: string[]): string {
+	const interpolate = (from: string, to: string) =>
+		`<< /FunctionType 2 /Domain [0 1] /C0 [${toPdfColor(from)}] /C1 [${toPdfColor(to)}] /N 1 >>`
+	const [first = '#000000'] = colors
+	if (colors.length < 3) {
+		return interpolate(first, colors.at(-1) ?? first)
+	}
+
+	// Stitch one interpolation per pair of neighboring stops.
+	const pairs = colors.slice(1).map((color, index) => [colors[index]!, color])
+	const bounds = pairs
+		.slice(1)
+		.map((_, index) => n((index + 1) / pairs.length, 6))
+	return `<< /FunctionType 3 /Domain [0 1] /Functions [${pairs
+		.map(([from, to]) => interpolate(from!, to!))
+		.join(' ')}] /Bounds [${bounds.join(' ')}] /Encode [${pairs
+		.map(() => '0 1')
+		.join(' ')}] >>`
+}
+
+/**
+ * Build the shading of a gradient background on the unit square.
+ */
+function createShading(
+	background: Exclude<VectorMasterBackground, { type: 'color' }>,
+): string {
+	const coords =
+		background.type === 'linear'
+			? `/ShadingType 2 /Coords [${[background.from.x, background.from.y, background.to.x, background.to.y].map(value => n(value, 4)).join(' ')}]`
+			: '/ShadingType 3 /Coords [0.5 0.5 0 0.5 0.5 0.5]'
+	return `<< ${coords} /ColorSpace /DeviceRGB /Function ${createGradientFunction(background.colors)} /Extend [true true] >>`
+}
+
+/**
+ * Assemble a single-page PDF from its content stream.
+ *
+ * @param resources - Resource dictionary of the page
+ */
+function createPdfDocument(
+	width: number,
+	height: number,
+	resources: string,
+	content: string,
+): Buffer {
+	const objects = [
+		'<< /Type /Catalog /Pages 2 0 R >>',
+		'<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+		`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Resources ${resources} /Contents 4 0 R >>`,
+		`<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`,
+	]
+
+	// The binary comment marks the file as binary for transfer tools.
+	let pdf = '%PDF-1.4\n%\xE2\xE3\xCF\xD3\n'
+	const offsets: number[] = []
+	objects.forEach((object, index) => {
+		offsets.push(Buffer.byteLength(pdf, 'latin1'))
+		pdf += `${index + 1} 0 obj\n${object}\nendobj\n`
+	})
+	const xref = Buffer.byteLength(pdf, 'latin1')
+	pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+	for (const offset of offsets) {
+		pdf += `${String(offset).padStart(10, '0')} 00000 n \n`
+	}
+	pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`
+	return Buffer.from(pdf, 'latin1')
+}
+
+/**
+ * Build the PDF master.
+ *
+ * Content is drawn in SVG coordinates (y down) under a flipping matrix.
+ * Translucent paths get a graphics state with their alpha.
+ *
+ * @param artwork - Artwork from parseSvgArtwork or createTextArtwork,
+ *   fitted into the box keeping its aspect ratio
+ */
+export function createVectorMasterPdf(
+	spec: Pick<VectorMasterSpec, 'width' | 'height'>,
+	background: VectorMasterBackground,
+	artwork: VectorArtwork,
+	box: VectorMasterBox,
+): Buffer {
+	const { width, height } = spec
+	const content = [`1 0 0 -1 0 ${height} cm`]
+	const states: string[] = []
+	const getState = (key: 'ca' | 'CA', alpha: number) => {
+		const state = `<< /${key} ${n(alpha, 4)} >>`
+		if (!states.includes(state)) states.push(state)
+		return `/GS${states.indexOf(state)} gs`
+	}
+
+	if (background.type === 'color') {
+		content.push(
+			`${toPdfColor(background.color)} rg`,
+			`0 0 ${width} ${height} re`,
+			'f',
+		)
+	} else {
+		content.push('q', `${width} 0 0 ${height} 0 0 cm`, '/Background sh', 'Q')
+	}
+
+	const { x, y, width: viewWidth, height: viewHeight } = artwork.viewBox
+	const fit = box.size / Math.max(viewWidth, viewHeight)
+	const translateX = box.left + (box.size - viewWidth * fit) / 2 - x * fit
+	const translateY = box.top + (box.size - viewHeight * fit) / 2 - y * fit
+	content.push(
+		'q',
+		`${n(fit, 6)} 0 0 ${n(fit, 6)} ${n(translateX, 4)} ${n(translateY, 4)} cm`,
+	)
+	if (artwork.translate) {
+		content.push(
+			`1 0 0 1 ${n(artwork.translate.x, 4)} ${n(artwork.translate.y, 4)} cm`,
+		)
+	}
+	for (const path of artwork.paths) {
+		content.push(...createPdfPathOperators(path, getState))
+	}
+	content.push('Q')
+
+	const resources = [
+		background.type !== 'color' &&
+			`/Shading << /Background ${createShading(background)} >>`,
+		states.length > 0 &&
+			`/ExtGState << ${states.map((state, index) => `/GS${index} ${state}`).join(' ')} >>`,
+	].filter(Boolean)
+	return createPdfDocument(
+		width,
+		height,
+		`<< ${resources.join(' ')} >>`,
+		content.join('\n'),
+	)
+}
+
+/**
+ * Paint one artwork path: its fill, then its stroke.
+ *
+ * @param getState - Returns the operator selecting a graphics state with
+ *   the given fill (`ca`) or stroke (`CA`) alpha
+ */
+function createPdfPathOperators(
+	path: VectorPath,
+	getState: (key: 'ca' | 'CA', alpha: number) => string,
+): string[] {
+	const operators: string[] = []
+	const construction = toPdfPath(path.pathData)
+	if (path.fillColor) {
+		operators.push('q')
+		if (path.fillAlpha !== undefined)
+			operators.push(getState('ca', path.fillAlpha))
+		operators.push(
+			`${toPdfColor(path.fillColor)} rg`,
+			...construction,
+			path.fillType === 'evenOdd' ? 'f*' : 'f',
+			'Q',
+		)
+	}
+	if (path.strokeColor) {
+		operators.push('q')
+		if (path.strokeAlpha !== undefined) {
+			operators.push(getState('CA', path.strokeAlpha))
+		}
+		operators.push(
+			`${n(path.strokeWidth ?? 1)} w`,
+			`${toPdfColor(path.strokeColor)} RG`,
+			...construction,
+			'S',
+			'Q',
+		)
+	}
+	return operators
+}
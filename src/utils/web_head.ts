@@ -0,0 +1,398 @@
+/**
+ * Web Head Module
+ *
+ * Builds the web files that tie the favicons together:
+ *
+ * - `head.html`: The `<link>` and `<meta>` tags for the favicons, Apple
+ *   touch icons, iOS startup images, manifest, Safari mask icon and
+ *   light/dark theme colors.
+ * - `browserconfig.xml`: Windows tile images and color.
+ * - `favicon.svg`: The icon as vector artwork, switching to the dark
+ *   colors with a `prefers-color-scheme: dark` style block.
+ * - `safari-pinned-tab.svg`: The foreground as a black silhouette, which
+ *   Safari fills with the mask icon color.
+ *
+ * Paths in head.html and browserconfig.xml are root-relative, for the
+ * contents of web/ served from the site root.
+ */
+
+import {
+	WEB_BROWSERCONFIG_XML,
+	WEB_FAVICON_SVG,
+	WEB_FAVICONS,
+	WEB_MASK_ICON_SVG,
+} from '../assets/asset_specs'
+import type { AssetSpec } from '../types'
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+/**
+ * Vector artwork drawn into favicon.svg or the mask icon.
+ */
+export interface SvgArtwork {
+	/** viewBox of the artwork's own coordinate space. */
+	viewBox: string
+
+	/** Attributes of the source root element worth keeping (e.g., fill). */
+	attributes: string
+
+	/** Markup inside the source root element. */
+	content: string
+}
+
+/**
+ * Background of favicon.svg with its dark color scheme counterpart.
+ * - 'color': A solid fill and its dark color.
+ * - 'gradient': Gradient markup filling the canvas, and one dark color
+ *   per stop.
+ * - 'image': Embedded images (data URIs) for light and dark.
+ */
+export type SvgFaviconBackground =
+	| { type: 'color'; color: string; darkColor: string }
+	| { type: 'gradient'; markup: string; darkColors: string[] }
+	| { type: 'image'; href: string; darkHref?: string }
+
+/**
+ * Colors referenced by head.html and browserconfig.xml.
+ */
+export interface WebHeadColors {
+	/** theme-color for the light color scheme. */
+	theme: string
+
+	/** theme-color for the dark color scheme. */
+	darkTheme: string
+
+	/** Windows tile background. */
+	tile: string
+
+	/** Color Safari fills the mask icon with. */
+	maskIcon: string
+}
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+/** Canvas size of favicon.svg and the mask icon, in user units. */
+export const FAVICON_SVG_SIZE = 512
+
+/** Root attributes that are replaced when the artwork is nested. */
+const REPLACED_ROOT_ATTRIBUTES =
+	/^(xmlns|width|height|viewBox|x|y|version|class)$/
+
+/** Windows tile elements by mstile file, in browserconfig.xml order. */
+const MSTILE_ELEMENTS: Array<[element: string, name: string]> = [
+	['square70x70logo', 'web/mstile-70x70.png'],
+	['square150x150logo', 'web/mstile-150x150.png'],
+	['wide310x150logo', 'web/mstile-310x150.png'],
+	['square310x310logo', 'web/mstile-310x310.png'],
+	['TileImage', 'web/mstile-144x144.png'],
+]
+
+// ─── Paths ──────────────────────────────────────────────────────────────────
+
+/**
+ * Get the root-relative URL of a web file.
+ *
+ * @example
+ * getWebUrl('web/favicon.svg') // '/favicon.svg'
+ */
+function getWebUrl(name: string): string {
+	return `/${name.replace(/^web\//, '')}`
+}
+
+// ─── head.html ──────────────────────────────────────────────────────────────
+
+/**
+ * Get the media query matching a startup image's device and orientation.
+ *
+ * device-width and device-height are the portrait size in points in both
+ * orientations. Light and dark images are told apart by the color scheme.
+ *
+ * @example
+ * getStartupImageMedia({ width: 2532, height: 1170, scale: 3, ... })
+ * // '(device-width: 390px) and (device-height: 844px) and
+ * //  (-webkit-device-pixel-ratio: 3) and (orientation: landscape) and
+ * //  (prefers-color-scheme: light)'
+ */
+export function getStartupImageMedia(spec: AssetSpec): string {
+	const ratio = spec.scale ?? 1
+	const portrait = spec.width <= spec.height
+	const [shortSide, longSide] = portrait
+		? [spec.width, spec.height]
+		: [spec.height, spec.width]
+	return [
+		`(device-width: ${shortSide / ratio}px)`,
+		`(device-height: ${longSide / ratio}px)`,
+		`(-webkit-device-pixel-ratio: ${ratio})`,
+		`(orientation: ${portrait ? 'portrait' : 'landscape'})`,
+		`(prefers-color-scheme: ${spec.colorMode === 'dark' ? 'dark' : 'light'})`,
+	].join(' and ')
+}
+
+/**
+ * Get the tags linking the iOS startup images. Safari only shows them for
+ * web apps launched from the home screen in standalone mode.
+ */
+function getStartupImageLines(startupImages: AssetSpec[]): string[] {
+	if (startupImages.length === 0) return []
+	return [
+		'<meta name="apple-mobile-web-app-capable" content="yes">',
+		...startupImages.map(
+			spec =>
+				`<link rel="apple-touch-startup-image" href="${getWebUrl(spec.name)}" media="${getStartupImageMedia(spec)}">`,
+		),
+	]
+}
+
+/**
+ * Build the `<head>` snippet.
+ *
+ * With favicon.svg, only favicon.ico is linked as the fallback, since
+ * some browsers prefer a PNG over the SVG when both are listed.
+ *
+ * @param files - Web files written alongside, from getWebHeadFiles
+ * @param startupImages - iOS startup images written alongside, if any
+ */
+export function createHeadHtml(
+	files: string[],
+	colors: WebHeadColors,
+	startupImages: AssetSpec[] = [],
+): string {
+	const hasSvgFavicon = files.includes(WEB_FAVICON_SVG)
+	const lines = [
+		'<!-- Web icons. Paths assume the contents of web/ are served from the site root. -->',
+		`<link rel="icon" href="/favicon.ico" sizes="16x16 32x32 48x48">`,
+	]
+
+	if (hasSvgFavicon) {
+		lines.push(
+			`<link rel="icon" href="${getWebUrl(WEB_FAVICON_SVG)}" type="image/svg+xml">`,
+		)
+	} else {
+		for (const spec of WEB_FAVICONS) {
+			if (spec.name.startsWith('web/favicon-')) {
+				lines.push(
+					`<link rel="icon" href="${getWebUrl(spec.name)}" type="image/png" sizes="${spec.width}x${spec.height}">`,
+				)
+			}
+		}
+	}
+
+	for (const spec of WEB_FAVICONS) {
+		if (spec.name.startsWith('web/apple-touch-icon-')) {
+			lines.push(
+				`<link rel="apple-touch-icon" href="${getWebUrl(spec.name)}" sizes="${spec.width}x${spec.height}">`,
+			)
+		}
+	}
+
+	lines.push(...getStartupImageLines(startupImages))
+
+	if (files.includes(WEB_MASK_ICON_SVG)) {
+		lines.push(
+			`<link rel="mask-icon" href="${getWebUrl(WEB_MASK_ICON_SVG)}" color="${colors.maskIcon}">`,
+		)
+	}
+
+	lines.push(
+		'<link rel="manifest" href="/site.webmanifest">',
+		`<meta name="theme-color" content="${colors.theme}" media="(prefers-color-scheme: light)">`,
+		`<meta name="theme-color" content="${colors.darkTheme}" media="(prefers-color-scheme: dark)">`,
+		`<meta name="msapplication-TileColor" content="${colors.tile}">`,
+		`<meta name="msapplication-config" content="${getWebUrl(WEB_BROWSERCONFIG_XML)}">`,
+	)
+
+	return `${lines.join('\n')}\n`
+}
+
+/**
+ * Build the `<head>` snippet when only the startup images are generated.
+ */
+export function createStartupImageHtml(startupImages: AssetSpec[]): string {
+	return `${[
+		'<!-- iOS startup images. Paths assume the contents of web/ are served from the site root. -->',
+		...getStartupImageLines(startupImages),
+	].join('\n')}\n`
+}
+
+// ─── browserconfig.xml ──────────────────────────────────────────────────────
+
+/**
+ * Build browserconfig.xml for Windows tiles.
+ *
+ * @see https://learn.microsoft.com/en-us/previous-versions/windows/internet-explorer/ie-developer/platform-apis/dn320426(v=vs.85)
+ */
+export function createBrowserConfigXml(tileColor: string): string {
+	const tiles = MSTILE_ELEMENTS.map(
+		([element, name]) => `            <${element} src="${getWebUrl(name)}"/>`,
+	).join('\n')
+
+	return `<?xml version="1.0" encoding="utf-8"?>
+<browserconfig>
+    <msapplication>
+        <tile>
+${tiles}
+            <TileColor>${tileColor}</TileColor>
+        </tile>
+    </msapplication>
+</browserconfig>
+`
+}
+
+// ─── SVG Artwork ────────────────────────────────────────────────────────────
+
+/**
+ * Read the artwork of an SVG foreground for nesting in another SVG.
+ *
+ * The color override replaces every fill attribute, like the rasterized
+ * foreground does.
+ *
+ * @throws Error when the SVG has no root element, viewBox or size
+ */
+export function parseSvgFaviconArtwork(
+	svg: string,
+	colorOverride?: string,
+): SvgArtwork {
+	const source = colorOverride
+		? svg.replace(/fill="[^"]*"/g, `fill="${colorOverride}"`)
+		: svg
+	const root = /<svg\b([^>]*?)\/?>/i.exec(source)
+	if (!root) throw new Error('No <svg> root element found')
+
+	const attributes = [...(root[1] ?? '').matchAll(/([\w:-]+)\s*=\s*"([^"]*)"/g)]
+	const attribute = (name: string) =>
+		attributes.find(([, key]) => key === name)?.[2]
+
+	let viewBox = attribute('viewBox')
+	if (viewBox === undefined) {
+		const width = Number.parseFloat(attribute('width') ?? '')
+		const height = Number.parseFloat(attribute('height') ?? '')
+		if (!(width > 0 && height > 0)) {
+			throw new Error('SVG needs a viewBox or a width and height')
+		}
+		viewBox = `0 0 ${width} ${height}`
+	}
+
+	const end = source.lastIndexOf('</svg>')
+	const start = root.index + root[0].length
+	return {
+		viewBox,
+		attributes: attributes
+			.filter(([, key]) => !REPLACED_ROOT_ATTRIBUTES.test(key ?? ''))
+			.map(([match]) => ` ${match}`)
+			.join(''),
+		content: end > start ? source.slice(start, end).trim() : '',
+	}
+}
+
+/**
+ * Build artwork from a text outline centered on a square canvas.
+ *
+ * @param size - Canvas size the outline was laid out on
+ */
+export function createTextSvgArtwork(
+	layout: { pathData: string; offsetX: number; offsetY: number },
+	size: number,
+	color: string,
+): SvgArtwork {
+	return {
+		viewBox: `0 0 ${size} ${size}`,
+		attributes: '',
+		content: `<path d="${layout.pathData}" fill="${color}" transform="translate(${layout.offsetX}, ${layout.offsetY})"/>`,
+	}
+}
+
+/**
+ * Nest artwork in a square of `size` centered on the canvas, keeping its
+ * aspect ratio.
+ */
+function createArtworkElement(
+	artwork: SvgArtwork,
+	size: number,
+	className: string,
+): string {
+	const offset = (FAVICON_SVG_SIZE - size) / 2
+	return `<svg class="${className}" x="${offset}" y="${offset}" width="${size}" height="${size}" viewBox="${artwork.viewBox}"${artwork.attributes}>
+    ${artwork.content}
+  </svg>`
+}
+
+// ─── favicon.svg ────────────────────────────────────────────────────────────
+
+/**
+ * Build favicon.svg.
+ *
+ * The light colors are drawn as attributes; a `prefers-color-scheme:
+ * dark` style block swaps in the dark background and, when set, the dark
+ * foreground color.
+ *
+ * @param scale - Foreground size as a fraction of the canvas
+ * @param darkForegroundColor - Foreground color in dark mode, if it changes
+ */
+export function createFaviconSvg(
+	background: SvgFaviconBackground,
+	artwork: SvgArtwork,
+	scale: number,
+	darkForegroundColor?: string,
+): string {
+	const canvas = FAVICON_SVG_SIZE
+	const darkRules: string[] = []
+	let backgroundMarkup: string
+
+	switch (background.type) {
+		case 'color':
+			backgroundMarkup = `<rect class="background" width="${canvas}" height="${canvas}" fill="${background.color}"/>`
+			darkRules.push(`.background { fill: ${background.darkColor}; }`)
+			break
+		case 'gradient':
+			backgroundMarkup = `<g class="background">${background.markup}</g>`
+			background.darkColors.forEach((color, index) => {
+				darkRules.push(
+					`.background stop:nth-of-type(${index + 1}) { stop-color: ${color}; }`,
+				)
+			})
+			break
+		case 'image':
+			backgroundMarkup = `<image class="background" width="${canvas}" height="${canvas}" href="${background.href}"/>`
+			if (background.darkHref !== undefined) {
+				backgroundMarkup += `\n  <image class="background-dark" width="${canvas}" height="${canvas}" href="${background.darkHref}" display="none"/>`
+				darkRules.push(
+					'.background { display: none; }',
+					'.background-dark { display: inline; }',
+				)
+			}
+			break
+	}
+	if (darkForegroundColor !== undefined) {
+		darkRules.push(
+			`.foreground, .foreground [fill] { fill: ${darkForegroundColor}; }`,
+		)
+	}
+
+	const style =
+		darkRules.length > 0
+			? `
+  <style>
+    @media (prefers-color-scheme: dark) {
+      ${darkRules.join('\n      ')}
+    }
+  </style>`
+			: ''
+
+	return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${canvas} ${canvas}">${style}
+  ${backgroundMarkup}
+  ${createArtworkElement(artwork, Math.floor(canvas * scale), 'foreground')}
+</svg>
+`
+}
+
+/**
+ * Build the Safari mask icon from artwork drawn in black.
+ *
+ * @see https://developer.apple.com/library/archive/documentation/AppleApplications/Reference/SafariWebContent/pinnedTabs/pinnedTabs.html
+ */
+export function createMaskIconSvg(artwork: SvgArtwork): string {
+	return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${FAVICON_SVG_SIZE} ${FAVICON_SVG_SIZE}">
+  ${createArtworkElement(artwork, FAVICON_SVG_SIZE, 'foreground')}
+</svg>
+`
+}
@@ -0,0 +1,404 @@
+/**
+ * Web Manifest Module
+ *
+ * Builds site.webmanifest and merges its icons into an existing manifest:
+ *
+ * - `site.webmanifest`: Names, URLs, display mode and colors, the PWA
+ *   icons (any, maskable, monochrome) and the app shortcuts with their
+ *   generated icons.
+ * - Manifest merging (`--manifest-merge`): Replaces only the `icons` array
+ *   of a project's manifest and copies the icons next to it. Every other
+ *   field is kept as is.
+ *
+ * Like the Android res/ install, only files whose content actually changes
+ * are written and reported.
+ */
+
+import { readFile, stat, writeFile } from 'node:fs/promises'
+import { basename, dirname, join } from 'node:path'
+
+import {
+	getWebCompanions,
+	getWebShortcutIconSpecs,
+	WEB_IMAGE_MIME_TYPES,
+} from '../assets/asset_specs'
+import type {
+	AssetGeneratorConfig,
+	AssetSpec,
+	WebManifestShortcut,
+} from '../types'
+import { resolvePath } from './path_utils'
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+/**
+ * An image of the manifest's `icons` or of a shortcut.
+ */
+export interface WebManifestIcon {
+	src: string
+	sizes: string
+	type: string
+	purpose?: string
+}
+
+/**
+ * Web App Manifest (W3C standard) for PWA support.
+ *
+ * @see https://www.w3.org/TR/appmanifest/
+ * @see https://web.dev/add-manifest/
+ */
+export interface WebManifest {
+	id?: string
+	name: string
+	short_name: string
+	description?: string
+	icons: WebManifestIcon[]
+	theme_color: string
+	background_color: string
+	display: string
+	display_override?: string[]
+	orientation?: string
+	start_url: string
+	scope?: string
+	shortcuts?: Array<{
+		name: string
+		short_name?: string
+		description?: string
+		url: string
+		icons: WebManifestIcon[]
+	}>
+	/** Dark color scheme colors (Manifest Incubations user_preferences). */
+	user_preferences?: {
+		color_scheme_dark: {
+			theme_color: string
+			background_color: string
+		}
+	}
+}
+
+/**
+ * Colors of the manifest, picked from the background.
+ */
+export interface WebManifestColors {
+	/** theme_color of the light color scheme. */
+	theme: string
+
+	/** background_color of the splash shown while the app loads. */
+	background: string
+
+	/** Explicit dark background color, published for the dark scheme. */
+	dark?: string
+}
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+/** Generated manifest, next to the web icons. */
+export const WEB_MANIFEST = 'web/site.webmanifest'
+
+/** Where a manifest lives relative to a project root, in lookup order. */
+const MANIFEST_CANDIDATES = [
+	'public/manifest.json',
+	'public/site.webmanifest',
+	'public/manifest.webmanifest',
+	'static/manifest.json',
+	'manifest.json',
+	'site.webmanifest',
+	'manifest.webmanifest',
+]
+
+/** PWA icons listed in the manifest. */
+const MANIFEST_ICONS: WebManifestIcon[] = [
+	// Standard icons (any purpose)
+	{
+		src: 'icon-192x192.png',
+		sizes: '192x192',
+		type: 'image/png',
+		purpose: 'any',
+	},
+	{
+		src: 'icon-512x512.png',
+		sizes: '512x512',
+		type: 'image/png',
+		purpose: 'any',
+	},
+	// Maskable icons (for adaptive display)
+	{
+		src: 'icon-maskable-192x192.png',
+		sizes: '192x192',
+		type: 'image/png',
+		purpose: 'maskable',
+	},
+	{
+		src: 'icon-maskable-512x512.png',
+		sizes: '512x512',
+		type: 'image/png',
+		purpose: 'maskable',
+	},
+	// Monochrome icons (for themed display)
+	{
+		src: 'icon-monochrome-192x192.png',
+		sizes: '192x192',
+		type: 'image/png',
+		purpose: 'monochrome',
+	},
+	{
+		src: 'icon-monochrome-512x512.png',
+		sizes: '512x512',
+		type: 'image/png',
+		purpose: 'monochrome',
+	},
+]
+
+// ─── Shortcuts ──────────────────────────────────────────────────────────────
+
+/**
+ * Get the icon specs of every manifest shortcut of a config.
+ *
+ * Shortcut icons are only generated together with web favicons.
+ */
+export function getWebShortcutAssetSpecs(
+	config: AssetGeneratorConfig,
+): AssetSpec[] {
+	if (
+		!config.platforms.includes('web') ||
+		!config.assetTypes.includes('favicon')
+	) {
+		return []
+	}
+	return (config.manifest?.shortcuts ?? []).flatMap((_shortcut, index) =>
+		getWebShortcutIconSpecs(index),
+	)
+}
+
+/**
+ * Find the shortcut a generated file belongs to.
+ */
+function findWebShortcut(
+	config: AssetGeneratorConfig,
+	spec: Pick<AssetSpec, 'name'>,
+): WebManifestShortcut | undefined {
+	return config.manifest?.shortcuts?.find((_shortcut, index) =>
+		getWebShortcutIconSpecs(index).some(icon => icon.name === spec.name),
+	)
+}
+
+/**
+ * Resolve the configuration of a file, applying its shortcut's layers.
+ *
+ * @returns The config with the shortcut applied (the same object when the
+ *   file is not a shortcut icon)
+ */
+export function resolveWebShortcutConfig(
+	config: AssetGeneratorConfig,
+	spec: Pick<AssetSpec, 'name'>,
+): AssetGeneratorConfig {
+	const shortcut = findWebShortcut(config, spec)
+	if (shortcut === undefined) return config
+
+	const resolved = { ...config }
+	if (shortcut.background) resolved.background = shortcut.background
+	if (shortcut.foreground) resolved.foreground = shortcut.foreground
+	return resolved
+}
+
+// ─── site.webmanifest ───────────────────────────────────────────────────────
+
+/**
+ * Lists each icon after its WebP/AVIF companions, so browsers that decode
+ * them pick the smaller file.
+ */
+function withWebCompanions(
+	config: Pick<AssetGeneratorConfig, 'webImageFormats'>,
+	icons: WebManifestIcon[],
+): WebManifestIcon[] {
+	return icons.flatMap(icon => [
+		...getWebCompanions(config, `web/${icon.src}`).map(companion => ({
+			...icon,
+			src: basename(companion.name),
+			type: WEB_IMAGE_MIME_TYPES[companion.format],
+		})),
+		icon,
+	])
+}
+
+/**
+ * Build site.webmanifest.
+ *
+ * Icon paths are relative to the manifest, which sits next to them.
+ */
+export function createWebManifest(
+	config: Pick<
+		AssetGeneratorConfig,
+		'appName' | 'manifest' | 'webImageFormats'
+	>,
+	colors: WebManifestColors,
+): WebManifest {
+	const options = config.manifest ?? {}
+	const manifest: WebManifest = {
+		...(options.id !== undefined && { id: options.id }),
+		name: config.appName,
+		short_name: options.shortName ?? config.appName,
+		...(options.description !== undefined && {
+			description: options.description,
+		}),
+		icons: withWebCompanions(config, MANIFEST_ICONS),
+		theme_color: colors.theme,
+		background_color: colors.background,
+		display: options.display ?? 'standalone',
+		...(options.displayOverride !== undefined && {
+			display_override: options.displayOverride,
+		}),
+		...(options.orientation !== undefined && {
+			orientation: options.orientation,
+		}),
+		start_url: options.startUrl ?? '/',
+		...(options.scope !== undefined && { scope: options.scope }),
+	}
+
+	if (options.shortcuts !== undefined && options.shortcuts.length > 0) {
+		manifest.shortcuts = options.shortcuts.map((shortcut, index) => ({
+			name: shortcut.name,
+			...(shortcut.shortName !== undefined && {
+				short_name: shortcut.shortName,
+			}),
+			...(shortcut.description !== undefined && {
+				description: shortcut.description,
+			}),
+			url: shortcut.url,
+			icons: getWebShortcutIconSpecs(index).map(spec => ({
+				src: basename(spec.name),
+				sizes: `${spec.width}x${spec.height}`,
+				type: 'image/png',
+			})),
+		}))
+	}
+
+	// Only explicit dark colors are published; browsers already pick a
+	// sensible dark UI when the manifest leaves it out.
+	if (colors.dark !== undefined) {
+		manifest.user_preferences = {
+			color_scheme_dark: {
+				theme_color: colors.dark,
+				background_color: colors.dark,
+			},
+		}
+	}
+
+	return manifest
+}
+
+// ─── Manifest Merging ───────────────────────────────────────────────────────
+
+/**
+ * Check whether a path is an existing file.
+ */
+async function isFile(path: string): Promise<boolean> {
+	try {
+		return (await stat(path)).isFile()
+	} catch {
+		return false
+	}
+}
+
+/**
+ * Resolve the manifest to merge the icons into.
+ *
+ * @param inputPath - Path to a manifest or a directory containing one
+ * @returns Absolute path of the manifest
+ * @throws Error if no manifest is found
+ *
+ * @example
+ * await resolveManifestPath('./public/manifest.json')
+ * await resolveManifestPath('.')  // finds public/manifest.json
+ */
+export async function resolveManifestPath(inputPath: string): Promise<string> {
+	const resolved = resolvePath(inputPath)
+	if (await isFile(resolved)) return resolved
+
+	for (const candidate of MANIFEST_CANDIDATES) {
+		const manifestPath = join(resolved, candidate)
+		if (await isFile(manifestPath)) return manifestPath
+	}
+
+	throw new Error(
+		`No web app manifest found in ${resolved} (looked for ${MANIFEST_CANDIDATES.join(', ')})`,
+	)
+}
+
+/**
+ * Replace the `icons` array of an existing manifest.
+ *
+ * Other fields keep their order and values, and the file keeps its
+ * indentation and trailing newline.
+ *
+ * @param existing - Current manifest content from the project
+ * @param icons - Generated icons
+ * @returns Merged manifest content
+ * @throws Error if the existing manifest is not a JSON object
+ */
+export function mergeManifestIcons(
+	existing: string,
+	icons: WebManifestIcon[],
+): string {
+	let parsed: unknown
+	try {
+		parsed = JSON.parse(existing)
+	} catch (error) {
+		throw new Error(`Invalid JSON: ${(error as Error).message}`)
+	}
+	if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+		throw new Error('Cannot merge manifest: expected a JSON object')
+	}
+
+	const indent = /^\{\r?\n([ \t]+)"/.exec(existing)?.[1] ?? '  '
+	const merged = JSON.stringify({ ...parsed, icons }, null, indent)
+	return existing.endsWith('\n') ? `${merged}\n` : merged
+}
+
+/**
+ * Write a file only if its content differs from what is on disk.
+ *
+ * @returns True if the file was created or changed
+ */
+async function writeIfChanged(path: string, data: Buffer): Promise<boolean> {
+	try {
+		if ((await readFile(path)).equals(data)) return false
+	} catch {
+		// Missing file: always write.
+	}
+	await writeFile(path, data)
+	return true
+}
+
+/**
+ * Merge the generated icons into an existing manifest.
+ *
+ * @param webOutputDir - Generated `web/` directory
+ * @param manifestPath - Target manifest (from resolveManifestPath)
+ * @returns Absolute paths of files created or updated
+ */
+export async function installManifestIcons(
+	webOutputDir: string,
+	manifestPath: string,
+): Promise<string[]> {
+	const generated: WebManifest = JSON.parse(
+		await readFile(join(webOutputDir, basename(WEB_MANIFEST)), 'utf-8'),
+	)
+	const targetDir = dirname(manifestPath)
+	const changed: string[] = []
+
+	for (const icon of generated.icons) {
+		const target = join(targetDir, icon.src)
+		const data = await readFile(join(webOutputDir, icon.src))
+		if (await writeIfChanged(target, data)) changed.push(target)
+	}
+
+	const merged = mergeManifestIcons(
+		await readFile(manifestPath, 'utf-8'),
+		generated.icons,
+	)
+	if (await writeIfChanged(manifestPath, Buffer.from(merged))) {
+		changed.push(manifestPath)
+	}
+	return changed
+}
@@ -0,0 +1,132 @@
+/**
+ * Xcode Asset Catalog Module
+ *
+ * Locates an existing `.xcassets` catalog in a native or bare React Native
+ * project and installs a generated `AppIcon.appiconset` into it.
+ *
+ * Typical project layouts:
+ * - Bare React Native: `ios/<App>/Images.xcassets`
+ * - Native Xcode: `<App>/Assets.xcassets`
+ *
+ * The generated icon set fully replaces any existing `AppIcon.appiconset`,
+ * so stale files from a previous icon never linger as unassigned children.
+ */
+
+import { cp, readdir, rm, stat } from 'node:fs/promises'
+import { join } from 'node:path'
+
+import { resolvePath } from './path_utils'
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+/** Name of the icon set folder inside the asset catalog. */
+export const APP_ICON_SET_NAME = 'AppIcon.appiconset'
+
+// ─── Catalog Discovery ──────────────────────────────────────────────────────
+
+/**
+ * Check whether a path is an existing directory.
+ */
+async function isDirectory(path: string): Promise<boolean> {
+	try {
+		return (await stat(path)).isDirectory()
+	} catch {
+		return false
+	}
+}
+
+/**
+ * List `.xcassets` directories directly inside each `<dir>/<child>/`.
+ */
+async function findCatalogsIn(dir: string): Promise<string[]> {
+	const catalogs: string[] = []
+	let children: string[]
+	try {
+		children = await readdir(dir)
+	} catch {
+		return catalogs
+	}
+
+	for (const child of children.sort()) {
+		const childDir = join(dir, child)
+		if (!(await isDirectory(childDir))) continue
+		for (const entry of (await readdir(childDir)).sort()) {
+			if (entry.endsWith('.xcassets')) catalogs.push(join(childDir, entry))
+		}
+	}
+
+	return catalogs
+}
+
+/**
+ * Resolve the asset catalog to install icons into.
+ *
+ * Accepts either the `.xcassets` directory itself or a project root. For a
+ * project root, `ios/<App>/*.xcassets` and `<App>/*.xcassets` are searched
+ * and exactly one catalog must be found.
+ *
+ * @param inputPath - Path to a `.xcassets` directory or a project root
+ * @returns Absolute path of the asset catalog
+ * @throws Error if no catalog, or more than one, is found
+ *
+ * @example
+ * await resolveXcassetsPath('./ios/MyApp/Images.xcassets')
+ * await resolveXcassetsPath('.')  // finds ios/MyApp/Images.xcassets
+ */
+export async function resolveXcassetsPath(inputPath: string): Promise<string> {
+	const resolved = resolvePath(inputPath)
+
+	if (resolved.endsWith('.xcassets')) {
+		if (!(await isDirectory(resolved))) {
+			throw new Error(`Asset catalog not found: ${resolved}`)
+		}
+		return resolved
+	}
+
+	if (!(await isDirectory(resolved))) {
+		throw new Error(`Directory not found: ${resolved}`)
+	}
+
+	const catalogs = [
+		...(await findCatalogsIn(join(resolved, 'ios'))),
+		...(await findCatalogsIn(resolved)),
+	]
+
+	if (catalogs.length === 0) {
+		throw new Error(
+			`No .xcassets catalog found in ${resolved} (looked in ios/*/ and */)`,
+		)
+	}
+	if (catalogs.length > 1) {
+		throw new Error(
+			`Multiple asset catalogs found, pass one explicitly: ${catalogs.join(', ')}`,
+		)
+	}
+	return catalogs[0]!
+}
+
+// ─── Installation ───────────────────────────────────────────────────────────
+
+/**
+ * Install a generated AppIcon.appiconset into an asset catalog.
+ *
+ * Any existing icon set with the same name in the catalog is removed first.
+ *
+ * @param appIconSetDir - Generated `AppIcon.appiconset` directory
+ * @param xcassetsDir - Target asset catalog (from resolveXcassetsPath)
+ * @param setName - Icon set name in the catalog, e.g.
+ *   `AppIcon-Staging.appiconset` for a build variant
+ * @returns Absolute paths of the files written into the catalog
+ */
+export async function installAppIconSet(
+	appIconSetDir: string,
+	xcassetsDir: string,
+	setName: string = APP_ICON_SET_NAME,
+): Promise<string[]> {
+	const targetDir = join(xcassetsDir, setName)
+
+	await rm(targetDir, { recursive: true, force: true })
+	await cp(appIconSetDir, targetDir, { recursive: true })
+
+	return (await readdir(targetDir)).sort().map(file => join(targetDir, file))
+}